@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/esignature-access';
+import { BULK_SEND_CHUNK_SIZE, processBulkSendQueue } from '@/lib/esignature-bulk-send';
+import { toErrorResponse } from '@/lib/esignature-errors';
+
+// GET /api/cron/esignature-bulk-send - cron entry point for queued bulk send recipients
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || BULK_SEND_CHUNK_SIZE, 100);
+    const summary = await processBulkSendQueue(limit);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to process bulk send batches');
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { processDocumentExpirations } from '@/lib/esignature-expiration';
+
+// GET /api/cron/esignature-expirations - cron entry point for expiry warnings and expiring overdue documents
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const summary = await processDocumentExpirations();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to process expirations');
+  }
+}
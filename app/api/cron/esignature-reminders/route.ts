@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { processDueReminders } from '@/lib/esignature-reminders';
+
+// GET /api/cron/esignature-reminders - cron entry point for scheduled reminders
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const summary = await processDueReminders();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to process reminders');
+  }
+}
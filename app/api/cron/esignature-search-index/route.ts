@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { indexPendingDocuments } from '@/lib/esignature-search';
+
+// GET /api/cron/esignature-search-index - cron entry point for indexing document text
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 25, 100);
+    const summary = await indexPendingDocuments(limit);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to index documents');
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { cleanupAbandonedUploads } from '@/lib/esignature-tus';
+
+// GET /api/cron/esignature-upload-cleanup - cron entry point for removing abandoned partial uploads
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const summary = await cleanupAbandonedUploads();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to clean up uploads');
+  }
+}
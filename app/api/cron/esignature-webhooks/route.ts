@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { processWebhookDeliveries } from '@/lib/esignature-webhooks';
+
+// GET /api/cron/esignature-webhooks - cron entry point for queued and retried webhook deliveries
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const summary = await processWebhookDeliveries();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to process webhook deliveries');
+  }
+}
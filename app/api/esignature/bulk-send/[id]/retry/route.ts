@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBulkBatchAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { retryFailedRecipients } from '@/lib/esignature-bulk-send';
+import { toErrorResponse } from '@/lib/esignature-errors';
+
+// POST /api/esignature/bulk-send/[id]/retry - send again to failed recipients
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireBulkBatchAccess(params.id);
+
+    const batch = await retryFailedRecipients(params.id, {
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+    });
+
+    return NextResponse.json({ success: true, batch });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to retry batch');
+  }
+}
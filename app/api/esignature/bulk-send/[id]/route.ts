@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBulkBatchAccess } from '@/lib/esignature-access';
+import { getBulkSendBatch } from '@/lib/esignature-bulk-send';
+import { toErrorResponse } from '@/lib/esignature-errors';
+
+// GET /api/esignature/bulk-send/[id] - a batch with per-recipient results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireBulkBatchAccess(params.id);
+
+    const batch = await getBulkSendBatch(params.id);
+    return NextResponse.json({ batch });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to fetch batch');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { createBulkSendBatch, listBulkSendBatches } from '@/lib/esignature-bulk-send';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+
+// GET /api/esignature/bulk-send - recent batches with aggregate progress
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 5, 50);
+
+    const batches = await listBulkSendBatches(user, limit);
+    return NextResponse.json({ batches });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to fetch bulk send batches');
+  }
+}
+
+// POST /api/esignature/bulk-send - send one template to many recipients
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const {
+      templateId,
+      recipientRole,
+      fixedBindings,
+      contactIds,
+      recipients,
+      title,
+      emailSubject,
+      emailMessage,
+    } = await request.json();
+
+    if (!templateId || !recipientRole) {
+      throw new ESignatureError('templateId and recipientRole are required');
+    }
+    if (contactIds && !Array.isArray(contactIds)) {
+      throw new ESignatureError('contactIds must be a list');
+    }
+    if (recipients && !Array.isArray(recipients)) {
+      throw new ESignatureError('recipients must be a list');
+    }
+
+    const batch = await createBulkSendBatch(
+      { templateId, recipientRole, fixedBindings, contactIds, recipients, title, emailSubject, emailMessage },
+      user,
+      { ipAddress: getRequestIp(request) }
+    );
+
+    return NextResponse.json({ success: true, batch }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to send batch');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { readStoredFile } from '@/lib/esignature-storage';
+import { parseAttachmentValue } from '@/lib/esignature-utils';
+
+// GET /api/esignature/documents/[id]/attachments/[fieldId] - file a signer uploaded to an attachment field
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; fieldId: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+
+    const field = await prisma.signatureField.findFirst({
+      where: { id: params.fieldId, documentId: params.id, type: 'ATTACHMENT' },
+      include: { signature: true },
+    });
+    const attachment = parseAttachmentValue(field?.signature?.signatureData);
+    if (!attachment) {
+      throw new ESignatureError('Attachment not found', 404);
+    }
+
+    const bytes = await readStoredFile(attachment.filePath);
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.fileName)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to download attachment');
+  }
+}
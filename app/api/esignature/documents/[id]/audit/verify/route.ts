@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { verifyAuditChain } from '@/lib/esignature-audit';
+import { toErrorResponse } from '@/lib/esignature-errors';
+
+// GET /api/esignature/documents/[id]/audit/verify - check the audit hash chain
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+
+    const verification = await verifyAuditChain(params.id);
+    return NextResponse.json({ verification });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to verify audit log');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { startDocumentCorrection } from '@/lib/esignature-corrections';
+import { toErrorResponse } from '@/lib/esignature-errors';
+
+// POST /api/esignature/documents/[id]/correct - move a sent document back to setup for changes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { reason } = await request.json().catch(() => ({}));
+
+    const result = await startDocumentCorrection(params.id, {
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+      reason,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to start correction');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { extendDocumentDeadline } from '@/lib/esignature-expiration';
+
+// PUT /api/esignature/documents/[id]/deadline - extend the signing deadline, reopening an expired document
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { expiresAt } = await request.json();
+
+    const result = await extendDocumentDeadline(params.id, new Date(expiresAt), {
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to extend deadline');
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getFinalDocumentBytes } from '@/lib/esignature-completion';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+
+// GET /api/esignature/documents/[id]/download - signed PDF with completion certificate
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { document } = await requireDocumentAccess(params.id);
+
+    if (document.status !== 'COMPLETED') {
+      throw new ESignatureError('Only completed documents can be downloaded', 409);
+    }
+
+    const { title, bytes } = await getFinalDocumentBytes(params.id);
+    const fileName = `${title.replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'document'} - signed.pdf`;
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to download document');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { removeSignatureField, updateSignatureField } from '@/lib/esignature-fields';
+
+// PATCH /api/esignature/documents/[id]/fields/[fieldId] - move a field or change its logic or options
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; fieldId: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+    const {
+      label, pageNumber, x, y, width, height, required, signerId, showWhen, formula, options,
+    } = await request.json();
+
+    const field = await updateSignatureField(params.id, params.fieldId, {
+      label, pageNumber, x, y, width, height, required, signerId, showWhen, formula, options,
+    });
+
+    return NextResponse.json({ success: true, field });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update field');
+  }
+}
+
+// DELETE /api/esignature/documents/[id]/fields/[fieldId] - remove a field
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; fieldId: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+    await removeSignatureField(params.id, params.fieldId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to remove field');
+  }
+}
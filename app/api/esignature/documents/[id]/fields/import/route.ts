@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { detectAcroFormFields, importAcroFormFields } from '@/lib/esignature-fields';
+
+// GET /api/esignature/documents/[id]/fields/import - form fields in the PDF not yet imported
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+    const fields = await detectAcroFormFields(params.id);
+
+    return NextResponse.json({ fields });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to read form fields');
+  }
+}
+
+// POST /api/esignature/documents/[id]/fields/import - turn the PDF's form fields into signature fields
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const result = await importAcroFormFields(params.id, { userId: user.id });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to import form fields');
+  }
+}
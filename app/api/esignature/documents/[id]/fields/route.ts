@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { addSignatureField } from '@/lib/esignature-fields';
+
+// POST /api/esignature/documents/[id]/fields - place a field on a draft document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+    const {
+      type, label, pageNumber, x, y, width, height, required, signerId, showWhen, formula, options,
+    } = await request.json();
+
+    const field = await addSignatureField(params.id, {
+      type, label, pageNumber, x, y, width, height, required, signerId, showWhen, formula, options,
+    });
+
+    return NextResponse.json({ success: true, field }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to add field');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { PageLayoutEntry, rearrangeDocumentPages } from '@/lib/esignature-pages';
+
+/**
+ * The new page layout, plus the PDF to take inserted pages from. Inserting
+ * pages needs a multipart body; other changes can be sent as JSON.
+ */
+async function readPageRequest(request: NextRequest) {
+  if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const { pages } = await request.json();
+    return { pages: pages as PageLayoutEntry[] };
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('insert');
+  let pages: PageLayoutEntry[];
+  try {
+    pages = JSON.parse(String(formData.get('pages')));
+  } catch {
+    throw new ESignatureError('The page layout is missing or invalid');
+  }
+
+  return {
+    pages,
+    insert: file instanceof File
+      ? { bytes: new Uint8Array(await file.arrayBuffer()), fileName: file.name }
+      : undefined,
+  };
+}
+
+// POST /api/esignature/documents/[id]/pages - reorder, rotate, delete or insert pages of a draft
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const input = await readPageRequest(request);
+
+    const result = await rearrangeDocumentPages(params.id, input, {
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update pages');
+  }
+}
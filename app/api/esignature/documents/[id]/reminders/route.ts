@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { updateReminderSettings } from '@/lib/esignature-reminders';
+
+// PUT /api/esignature/documents/[id]/reminders - configure the reminder cadence
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { reminderIntervalDays, escalateAfterDays } = await request.json();
+
+    const document = await updateReminderSettings(
+      params.id,
+      { reminderIntervalDays, escalateAfterDays },
+      user.id
+    );
+
+    return NextResponse.json({ success: true, document });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update reminder settings');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { configureSignerAuthentication } from '@/lib/esignature-identity';
+
+// PUT /api/esignature/documents/[id]/signers/[signerId]/authentication - set how a signer verifies their identity
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; signerId: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { authMethod, accessCode, signerPhone } = await request.json();
+
+    const signer = await prisma.signerWorkflow.findFirst({
+      where: { id: params.signerId, documentId: params.id },
+    });
+    if (!signer) {
+      throw new ESignatureError('Signer not found', 404);
+    }
+    if (signer.status === 'SIGNED') {
+      throw new ESignatureError('This signer has already signed');
+    }
+
+    const result = await configureSignerAuthentication(
+      params.signerId,
+      { authMethod, accessCode, signerPhone },
+      user.id
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update signer authentication');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { startInPersonSigning } from '@/lib/esignature-in-person';
+
+// POST /api/esignature/documents/[id]/signers/[signerId]/in-person - host the signer on this device
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; signerId: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { attested } = await request.json();
+
+    const session = await startInPersonSigning(params.id, params.signerId, { attested }, {
+      userId: user.id,
+      hostName: user.name || user.email,
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json(session);
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to start in-person signing');
+  }
+}
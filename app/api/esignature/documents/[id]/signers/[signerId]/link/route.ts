@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { reissueSigningLink } from '@/lib/esignature-workflow';
+
+// POST /api/esignature/documents/[id]/signers/[signerId]/link - revoke the signer's link and email a new one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; signerId: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+
+    const signer = await prisma.signerWorkflow.findFirst({
+      where: { id: params.signerId, documentId: params.id },
+    });
+    if (!signer) {
+      throw new ESignatureError('Signer not found', 404);
+    }
+
+    const updated = await reissueSigningLink(params.signerId, {
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+    });
+
+    return NextResponse.json({ success: true, tokenExpiresAt: updated.tokenExpiresAt });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to reissue signing link');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { reassignSigner } from '@/lib/esignature-delegation';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+
+// POST /api/esignature/documents/[id]/signers/[signerId]/reassign - replace a pending signer with someone else
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; signerId: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { signerName, signerEmail, contactId, reason } = await request.json();
+
+    const signer = await prisma.signerWorkflow.findFirst({
+      where: { id: params.signerId, documentId: params.id },
+    });
+    if (!signer) {
+      throw new ESignatureError('Signer not found', 404);
+    }
+
+    const replacement = await reassignSigner(params.signerId, { signerName, signerEmail, contactId, reason }, {
+      initiatedBy: 'sender',
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      signer: {
+        id: replacement.id,
+        signerName: replacement.signerName,
+        signerEmail: replacement.signerEmail,
+        status: replacement.status,
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to reassign signer');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+
+// PATCH /api/esignature/documents/[id]/signers/[signerId] - update signing order or group mode
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; signerId: string } }
+) {
+  try {
+    const { document } = await requireDocumentAccess(params.id);
+    const { signingOrder, groupMode, signerName, signerEmail, signerRole } = await request.json();
+
+    if (document.status !== 'DRAFT') {
+      throw new ESignatureError('Signers can only be changed while the document is a draft');
+    }
+    if (signingOrder !== undefined && (!Number.isInteger(signingOrder) || signingOrder < 1)) {
+      throw new ESignatureError('signingOrder must be a positive whole number');
+    }
+    if (groupMode !== undefined && groupMode !== 'ALL' && groupMode !== 'ANY') {
+      throw new ESignatureError('groupMode must be ALL or ANY');
+    }
+
+    const existing = await prisma.signerWorkflow.findFirst({
+      where: { id: params.signerId, documentId: params.id },
+    });
+    if (!existing) {
+      throw new ESignatureError('Signer not found', 404);
+    }
+
+    const signer = await prisma.signerWorkflow.update({
+      where: { id: params.signerId },
+      data: { signingOrder, groupMode, signerName, signerEmail, signerRole },
+    });
+
+    return NextResponse.json({ success: true, signer });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update signer');
+  }
+}
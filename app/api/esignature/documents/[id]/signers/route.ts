@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { validateEmail } from '@/lib/esignature-utils';
+
+// POST /api/esignature/documents/[id]/signers - add a signer to a draft document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user, document } = await requireDocumentAccess(params.id);
+    const { signerName, signerEmail, signerRole, signingOrder, groupMode, contactId } = await request.json();
+
+    if (document.status !== 'DRAFT') {
+      throw new ESignatureError('Signers can only be added while the document is a draft');
+    }
+    if (!signerName?.trim() || !signerEmail?.trim()) {
+      throw new ESignatureError('Signer name and email are required');
+    }
+    if (!validateEmail(signerEmail)) {
+      throw new ESignatureError('Invalid email address');
+    }
+
+    const signer = await prisma.signerWorkflow.create({
+      data: {
+        documentId: params.id,
+        signerName: signerName.trim(),
+        signerEmail: signerEmail.trim(),
+        signerRole,
+        signingOrder: Number(signingOrder) || 1,
+        groupMode: groupMode === 'ANY' ? 'ANY' : 'ALL',
+        contactId,
+        status: 'PENDING',
+      },
+    });
+
+    await recordAuditEvent({
+      documentId: params.id,
+      action: 'document_updated',
+      description: `Added signer ${signer.signerName} (${signer.signerEmail})`,
+      userId: user.id,
+      signerId: signer.id,
+    });
+
+    return NextResponse.json({ success: true, signer });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to add signer');
+  }
+}
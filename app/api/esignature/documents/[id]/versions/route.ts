@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { getVersionHistory } from '@/lib/esignature-versions';
+
+// GET /api/esignature/documents/[id]/versions - all versions of the document, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireDocumentAccess(params.id);
+    const versions = await getVersionHistory(params.id);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to load version history');
+  }
+}
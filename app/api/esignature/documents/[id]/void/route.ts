@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { voidDocument } from '@/lib/esignature-workflow';
+
+// POST /api/esignature/documents/[id]/void - void the document with a reason
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireDocumentAccess(params.id);
+    const { reason } = await request.json();
+
+    const result = await voidDocument(params.id, reason, {
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to void document');
+  }
+}
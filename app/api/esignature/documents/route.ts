@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess, requireUser } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { createDocumentFromUpload } from '@/lib/esignature-upload';
+
+function optionalString(value: FormDataEntryValue | null) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// POST /api/esignature/documents - upload a PDF as a new draft document
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      throw new ESignatureError('A PDF file is required');
+    }
+    const supersedesId = optionalString(formData.get('supersedesId'));
+    if (supersedesId) {
+      await requireDocumentAccess(supersedesId);
+    }
+
+    const document = await createDocumentFromUpload(
+      {
+        bytes: new Uint8Array(await file.arrayBuffer()),
+        originalName: file.name,
+        title: optionalString(formData.get('title')),
+        description: optionalString(formData.get('description')),
+        dealId: optionalString(formData.get('dealId')),
+        contactId: optionalString(formData.get('contactId')),
+        supersedesId,
+      },
+      {
+        userId: user.id,
+        ipAddress: getRequestIp(request),
+        userAgent: request.headers.get('user-agent') || undefined,
+      }
+    );
+
+    return NextResponse.json({ success: true, document }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to upload document');
+  }
+}
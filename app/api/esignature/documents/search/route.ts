@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { searchDocumentContents } from '@/lib/esignature-search';
+
+// GET /api/esignature/documents/search - full-text search over document contents
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const searchParams = request.nextUrl.searchParams;
+
+    const results = await searchDocumentContents(user, {
+      query: searchParams.get('q') || '',
+      dealId: searchParams.get('dealId') || undefined,
+      contactId: searchParams.get('contactId') || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to search documents');
+  }
+}
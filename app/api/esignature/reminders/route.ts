@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { sendSignerReminder } from '@/lib/esignature-reminders';
+
+// POST /api/esignature/reminders - send a reminder to a signer now
+export async function POST(request: NextRequest) {
+  try {
+    const { signerId } = await request.json();
+
+    if (!signerId) {
+      throw new ESignatureError('signerId is required');
+    }
+
+    const signer = await prisma.signerWorkflow.findUnique({
+      where: { id: signerId },
+      select: { documentId: true },
+    });
+    if (!signer) {
+      throw new ESignatureError('Signer not found', 404);
+    }
+
+    const { user } = await requireDocumentAccess(signer.documentId);
+    const result = await sendSignerReminder(signerId, {
+      trigger: 'manual',
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to send reminder');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { sendDocumentForSigning } from '@/lib/esignature-workflow';
+
+// POST /api/esignature/send - send a draft document to its first signing group
+export async function POST(request: NextRequest) {
+  try {
+    const { documentId, emailSubject, emailMessage } = await request.json();
+
+    if (!documentId) {
+      throw new ESignatureError('documentId is required');
+    }
+
+    const { user } = await requireDocumentAccess(documentId);
+    const result = await sendDocumentForSigning(documentId, {
+      emailSubject,
+      emailMessage,
+      userId: user.id,
+      ipAddress: getRequestIp(request),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to send document');
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { attachFileToField, requireVerifiedSigner } from '@/lib/esignature-signing';
+
+// POST /api/esignature/sign/[token]/attachments - upload a file for an attachment field
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const signer = await requireVerifiedSigner(params.token, name => request.cookies.get(name)?.value);
+    const formData = await request.formData();
+    const fieldId = formData.get('fieldId');
+    const file = formData.get('file');
+
+    if (typeof fieldId !== 'string' || !(file instanceof File)) {
+      throw new ESignatureError('fieldId and file are required');
+    }
+
+    const result = await attachFileToField(
+      signer,
+      { fieldId, fileName: file.name, bytes: new Uint8Array(await file.arrayBuffer()) },
+      {
+        ipAddress: getRequestIp(request),
+        userAgent: request.headers.get('user-agent') || undefined,
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      completed: result.completed,
+      attachment: { fileName: result.attachment.fileName, size: result.attachment.size },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to upload attachment');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { sendVerificationCode } from '@/lib/esignature-identity';
+import { loadSignerByToken } from '@/lib/esignature-signing';
+
+// POST /api/esignature/sign/[token]/code - send a one-time code by email or SMS
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const signer = await loadSignerByToken(params.token);
+
+    const { destination, expiresAt } = await sendVerificationCode(signer, {
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, destination, expiresAt });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to send verification code');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { reassignSigner } from '@/lib/esignature-delegation';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { requireVerifiedSigner } from '@/lib/esignature-signing';
+
+// POST /api/esignature/sign/[token]/delegate - hand this signer's place to someone else
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { signerName, signerEmail, reason } = await request.json();
+    const signer = await requireVerifiedSigner(params.token, name => request.cookies.get(name)?.value);
+
+    const delegate = await reassignSigner(signer.id, { signerName, signerEmail, reason }, {
+      initiatedBy: 'signer',
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      delegate: { signerName: delegate.signerName, signerEmail: delegate.signerEmail },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to delegate signing');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { requireVerifiedSigner } from '@/lib/esignature-signing';
+import { readStoredFile } from '@/lib/esignature-storage';
+
+// GET /api/esignature/sign/[token]/file - the PDF being signed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const signer = await requireVerifiedSigner(params.token, name => request.cookies.get(name)?.value);
+    const bytes = await readStoredFile(signer.document.filePath);
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${encodeURIComponent(signer.document.fileName)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to load document');
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import {
+  getVerificationChallenge,
+  getVerificationCookieName,
+  isSignerVerified,
+} from '@/lib/esignature-identity';
+import {
+  declineSigning,
+  getSigningSession,
+  loadSignerByToken,
+  requireVerifiedSigner,
+} from '@/lib/esignature-signing';
+
+// GET /api/esignature/sign/[token] - load the signing session, or the identity challenge
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const signer = await loadSignerByToken(params.token);
+    const verificationCookie = request.cookies.get(getVerificationCookieName(signer.id))?.value;
+
+    if (signer.authLockedAt || !isSignerVerified(signer, verificationCookie)) {
+      return NextResponse.json({
+        verificationRequired: true,
+        verification: getVerificationChallenge(signer),
+        document: { title: signer.document.title },
+        signerName: signer.signerName,
+      });
+    }
+
+    const session = await getSigningSession(signer, {
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json(session);
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to load signing session');
+  }
+}
+
+// POST /api/esignature/sign/[token] - signer actions (decline)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { action, data } = await request.json();
+    const signer = await requireVerifiedSigner(params.token, name => request.cookies.get(name)?.value);
+
+    if (action !== 'decline') {
+      throw new ESignatureError('Unknown action');
+    }
+
+    await declineSigning(signer, data?.reason || 'No reason provided', {
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to process signing action');
+  }
+}
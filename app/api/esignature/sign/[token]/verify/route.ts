@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import {
+  getVerificationCookieName,
+  verifySignerIdentity,
+  VERIFICATION_SESSION_MINUTES,
+} from '@/lib/esignature-identity';
+import { loadSignerByToken } from '@/lib/esignature-signing';
+
+// POST /api/esignature/sign/[token]/verify - check an access code or one-time code
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { code } = await request.json();
+    const signer = await loadSignerByToken(params.token);
+
+    const cookieValue = await verifySignerIdentity(signer, String(code || ''), {
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(getVerificationCookieName(signer.id), cookieValue, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: VERIFICATION_SESSION_MINUTES * 60,
+    });
+
+    return response;
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to verify code');
+  }
+}
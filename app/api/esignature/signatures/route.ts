@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { requireVerifiedSigner, signField } from '@/lib/esignature-signing';
+
+// POST /api/esignature/signatures - save a signer's value for a field
+export async function POST(request: NextRequest) {
+  try {
+    const { fieldId, signatureData, signatureType, signingToken } = await request.json();
+
+    if (!signingToken || !fieldId) {
+      throw new ESignatureError('signingToken and fieldId are required');
+    }
+
+    const signer = await requireVerifiedSigner(signingToken, name => request.cookies.get(name)?.value);
+    const result = await signField(signer, { fieldId, signatureData, signatureType }, {
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to save signature');
+  }
+}
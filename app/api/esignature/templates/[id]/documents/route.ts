@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { createDocumentFromTemplate } from '@/lib/esignature-templates';
+
+// POST /api/esignature/templates/[id]/documents - new draft document bound to real signers
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser();
+    const { title, bindings, dealId, contactId, version } = await request.json();
+
+    if (!bindings || typeof bindings !== 'object') {
+      throw new ESignatureError('Signer bindings are required');
+    }
+
+    const document = await createDocumentFromTemplate(
+      params.id,
+      { title, bindings, dealId, contactId, version },
+      user.id
+    );
+
+    return NextResponse.json({ success: true, document }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to create document from template');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireTemplateAccess, requireUser } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { archiveTemplate, getTemplate, updateTemplate } from '@/lib/esignature-templates';
+
+// GET /api/esignature/templates/[id] - template with version history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireUser();
+
+    const template = await getTemplate(params.id);
+    return NextResponse.json({ template });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to fetch template');
+  }
+}
+
+// PUT /api/esignature/templates/[id] - save changes as a new version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { user } = await requireTemplateAccess(params.id);
+    const { name, description, roles, fields } = await request.json();
+
+    if (!Array.isArray(roles) || !Array.isArray(fields)) {
+      throw new ESignatureError('roles and fields are required');
+    }
+
+    const template = await updateTemplate(params.id, { name, description, roles, fields }, user.id);
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update template');
+  }
+}
+
+// DELETE /api/esignature/templates/[id] - archive a template
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireTemplateAccess(params.id);
+
+    await archiveTemplate(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to archive template');
+  }
+}
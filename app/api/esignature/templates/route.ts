@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess, requireUser } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { createTemplateFromDocument, listTemplates } from '@/lib/esignature-templates';
+
+// GET /api/esignature/templates - list active templates
+export async function GET() {
+  try {
+    await requireUser();
+
+    const templates = await listTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to fetch templates');
+  }
+}
+
+// POST /api/esignature/templates - save a document's layout as a template
+export async function POST(request: NextRequest) {
+  try {
+    const { documentId, name, description } = await request.json();
+
+    if (!documentId) {
+      throw new ESignatureError('documentId is required');
+    }
+
+    const { user } = await requireDocumentAccess(documentId);
+    const template = await createTemplateFromDocument(documentId, { name, description }, user.id);
+
+    return NextResponse.json({ success: true, template }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to create template');
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import {
+  appendToUpload,
+  deleteUpload,
+  encodeUploadMetadata,
+  finishUpload,
+  getUpload,
+  isPackagePart,
+  requireTusVersion,
+  tusHeaders,
+  uploadExpiresAt,
+} from '@/lib/esignature-tus';
+
+// HEAD /api/esignature/uploads/[id] - how many bytes of an upload have arrived
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser();
+    requireTusVersion(request);
+    const upload = await getUpload(params.id, user.id);
+
+    return new NextResponse(null, {
+      status: 200,
+      headers: tusHeaders({
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.length),
+        'Upload-Metadata': encodeUploadMetadata(upload.metadata),
+        'Upload-Expires': uploadExpiresAt(upload).toUTCString(),
+        'Cache-Control': 'no-store',
+      }),
+    });
+  } catch (error) {
+    // HEAD responses carry no body, so only the status reaches the client
+    const status = error instanceof ESignatureError ? error.status : 500;
+    return new NextResponse(null, { status, headers: tusHeaders() });
+  }
+}
+
+// PATCH /api/esignature/uploads/[id] - append bytes; the last chunk of a single file creates the document
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser();
+    requireTusVersion(request);
+
+    if (request.headers.get('content-type') !== 'application/offset+octet-stream') {
+      throw new ESignatureError('Content-Type must be application/offset+octet-stream', 415);
+    }
+    const offset = Number(request.headers.get('upload-offset'));
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ESignatureError('Upload-Offset is required');
+    }
+
+    const upload = await appendToUpload(params.id, user.id, offset, request.body);
+    const headers = tusHeaders({
+      'Upload-Offset': String(upload.offset),
+      'Upload-Expires': uploadExpiresAt(upload).toUTCString(),
+    });
+
+    if (upload.offset === upload.length && !isPackagePart(upload)) {
+      const document = await finishUpload(upload, {
+        ipAddress: getRequestIp(request),
+        userAgent: request.headers.get('user-agent') || undefined,
+      });
+      headers['Upload-Document-Id'] = document.id;
+    }
+
+    return new NextResponse(null, { status: 204, headers });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to upload file');
+  }
+}
+
+// DELETE /api/esignature/uploads/[id] - abandon an upload
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireUser();
+    requireTusVersion(request);
+    await getUpload(params.id, user.id);
+    await deleteUpload(params.id);
+
+    return new NextResponse(null, { status: 204, headers: tusHeaders() });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to cancel upload');
+  }
+}
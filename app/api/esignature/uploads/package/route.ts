@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess, requireUser } from '@/lib/esignature-access';
+import { getRequestIp } from '@/lib/esignature-audit';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { finishPackage } from '@/lib/esignature-tus';
+
+// POST /api/esignature/uploads/package - merge uploaded files into one draft document
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const { uploadIds, title, description, dealId, contactId, supersedesId } = await request.json();
+
+    if (!Array.isArray(uploadIds) || !uploadIds.every(id => typeof id === 'string')) {
+      throw new ESignatureError('uploadIds must be a list of upload ids');
+    }
+    if (supersedesId) {
+      await requireDocumentAccess(supersedesId);
+    }
+
+    const document = await finishPackage(
+      uploadIds,
+      { title, description, dealId, contactId, supersedesId },
+      {
+        userId: user.id,
+        ipAddress: getRequestIp(request),
+        userAgent: request.headers.get('user-agent') || undefined,
+      }
+    );
+
+    return NextResponse.json({ success: true, document }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to merge files');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDocumentAccess, requireUser } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import {
+  createUpload,
+  parseUploadMetadata,
+  requireTusVersion,
+  TUS_EXTENSIONS,
+  TUS_VERSION,
+  tusHeaders,
+  uploadExpiresAt,
+} from '@/lib/esignature-tus';
+import { MAX_PDF_SIZE } from '@/lib/esignature-utils';
+
+// OPTIONS /api/esignature/uploads - tus capability discovery
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: tusHeaders({
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS,
+      'Tus-Max-Size': String(MAX_PDF_SIZE),
+    }),
+  });
+}
+
+// POST /api/esignature/uploads - start a resumable (tus) upload
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    requireTusVersion(request);
+
+    const metadata = parseUploadMetadata(request.headers.get('upload-metadata'));
+    // Checked now, since the document is created when the last chunk arrives
+    if (metadata.supersedesId) {
+      await requireDocumentAccess(metadata.supersedesId);
+    }
+
+    const upload = await createUpload(user.id, {
+      length: Number(request.headers.get('upload-length')),
+      metadata,
+    });
+
+    return new NextResponse(null, {
+      status: 201,
+      headers: tusHeaders({
+        Location: `/api/esignature/uploads/${upload.id}`,
+        'Upload-Expires': uploadExpiresAt(upload).toUTCString(),
+      }),
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to start upload');
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/esignature-access';
+import { ESignatureError, toErrorResponse } from '@/lib/esignature-errors';
+import { verifySignedPdf } from '@/lib/esignature-pades';
+
+// POST /api/esignature/verify - check an uploaded PDF's digital signature
+export async function POST(request: NextRequest) {
+  try {
+    await requireUser();
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      throw new ESignatureError('A PDF file is required');
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const verification = await verifySignedPdf(bytes);
+
+    return NextResponse.json({ verification });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to verify PDF');
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { redeliverWebhook } from '@/lib/esignature-webhooks';
+
+// POST /api/esignature/webhooks/[id]/deliveries/[deliveryId]/redeliver - send a logged delivery again now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; deliveryId: string } }
+) {
+  try {
+    await requireAdmin();
+
+    const delivery = await redeliverWebhook(params.id, params.deliveryId);
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to redeliver webhook');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { listWebhookDeliveries } from '@/lib/esignature-webhooks';
+
+// GET /api/esignature/webhooks/[id]/deliveries - delivery log for an endpoint, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin();
+    const status = request.nextUrl.searchParams.get('status');
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 50, 200);
+
+    const deliveries = await listWebhookDeliveries(params.id, { status, limit });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to fetch webhook deliveries');
+  }
+}
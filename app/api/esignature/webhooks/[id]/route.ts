@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { deleteWebhookEndpoint, updateWebhookEndpoint } from '@/lib/esignature-webhooks';
+
+// PATCH /api/esignature/webhooks/[id] - change an endpoint, pause it or rotate its secret
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin();
+    const { url, description, events, isActive, rotateSecret } = await request.json();
+
+    const endpoint = await updateWebhookEndpoint(params.id, { url, description, events, isActive, rotateSecret });
+    return NextResponse.json({ success: true, endpoint });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to update webhook endpoint');
+  }
+}
+
+// DELETE /api/esignature/webhooks/[id] - remove an endpoint and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin();
+
+    await deleteWebhookEndpoint(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to delete webhook endpoint');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/esignature-access';
+import { toErrorResponse } from '@/lib/esignature-errors';
+import { WEBHOOK_EVENTS, createWebhookEndpoint, listWebhookEndpoints } from '@/lib/esignature-webhooks';
+
+// GET /api/esignature/webhooks - configured webhook endpoints and the events they can subscribe to
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const endpoints = await listWebhookEndpoints();
+    return NextResponse.json({ endpoints, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to fetch webhook endpoints');
+  }
+}
+
+// POST /api/esignature/webhooks - add an endpoint; the response carries its signing secret
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAdmin();
+    const { url, description, events, isActive } = await request.json();
+
+    const endpoint = await createWebhookEndpoint({ url, description, events, isActive }, user.id);
+    return NextResponse.json({ success: true, endpoint }, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, 'Failed to create webhook endpoint');
+  }
+}
@@ -14,12 +14,22 @@ import {
   XCircle, 
   Clock,
   User,
-  Mail
+  Mail,
+  AlertTriangle,
+  ShieldCheck,
+  ShieldAlert,
+  KeyRound,
+  Lock,
+  Unlock,
+  Tablet,
+  UserPlus,
+  CalendarClock
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface AuditLogEntry {
   id: string;
+  sequence?: number;
   action: string;
   description?: string;
   timestamp: Date;
@@ -30,14 +40,56 @@ interface AuditLogEntry {
   signerEmail?: string;
   ipAddress?: string;
   metadata?: any;
+  documentHash?: string;
+  entryHash?: string;
+}
+
+export interface AuditChainVerification {
+  intact: boolean;
+  entryCount: number;
+  legacyEntryCount: number;
+  headHash: string | null;
+  firstBrokenLink?: {
+    entryId: string | null;
+    sequence: number;
+    timestamp: Date | string | null;
+    reason: string;
+  };
 }
 
 interface AuditLogProps {
   entries: AuditLogEntry[];
+  verification?: AuditChainVerification | null;
   className?: string;
 }
 
-export function AuditLog({ entries, className = '' }: AuditLogProps) {
+function AuditChainBadge({ verification }: { verification: AuditChainVerification }) {
+  if (verification.intact) {
+    return (
+      <Badge
+        variant="outline"
+        className="border-green-200 bg-green-50 text-green-700"
+        title={verification.headHash ? `Latest hash: ${verification.headHash}` : undefined}
+      >
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        Chain intact
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className="border-red-200 bg-red-50 text-red-700"
+      title={verification.firstBrokenLink?.reason}
+    >
+      <ShieldAlert className="h-3 w-3 mr-1" />
+      Chain broken at #{verification.firstBrokenLink?.sequence}
+    </Badge>
+  );
+}
+
+export function AuditLog({ entries, verification, className = '' }: AuditLogProps) {
   const getActionIcon = (action: string) => {
     switch (action.toLowerCase()) {
       case 'document_created':
@@ -61,6 +113,36 @@ export function AuditLog({ entries, className = '' }: AuditLogProps) {
         return XCircle;
       case 'reminder_sent':
         return Mail;
+      case 'reminder_escalated':
+        return AlertTriangle;
+      case 'identity_code_sent':
+        return KeyRound;
+      case 'identity_verified':
+        return ShieldCheck;
+      case 'identity_failed':
+        return ShieldAlert;
+      case 'identity_locked':
+        return Lock;
+      case 'identity_unlocked':
+        return Unlock;
+      case 'signing_link_reissued':
+        return Send;
+      case 'signing_link_revoked':
+        return XCircle;
+      case 'document_correction_started':
+      case 'document_corrected':
+        return PenTool;
+      case 'in_person_signing_started':
+        return Tablet;
+      case 'signer_delegated':
+      case 'signer_reassigned':
+        return UserPlus;
+      case 'expiry_warning_sent':
+        return AlertTriangle;
+      case 'document_expired':
+        return XCircle;
+      case 'deadline_extended':
+        return CalendarClock;
       default:
         return Clock;
     }
@@ -89,6 +171,35 @@ export function AuditLog({ entries, className = '' }: AuditLogProps) {
         return 'text-red-600';
       case 'reminder_sent':
         return 'text-yellow-600';
+      case 'reminder_escalated':
+        return 'text-orange-600';
+      case 'identity_code_sent':
+      case 'identity_unlocked':
+        return 'text-indigo-600';
+      case 'identity_verified':
+        return 'text-green-600';
+      case 'identity_failed':
+        return 'text-orange-600';
+      case 'identity_locked':
+        return 'text-red-600';
+      case 'signing_link_reissued':
+        return 'text-indigo-600';
+      case 'signing_link_revoked':
+        return 'text-red-600';
+      case 'document_correction_started':
+      case 'document_corrected':
+        return 'text-orange-600';
+      case 'in_person_signing_started':
+        return 'text-indigo-600';
+      case 'signer_delegated':
+      case 'signer_reassigned':
+        return 'text-orange-600';
+      case 'expiry_warning_sent':
+        return 'text-yellow-600';
+      case 'document_expired':
+        return 'text-red-600';
+      case 'deadline_extended':
+        return 'text-indigo-600';
       default:
         return 'text-gray-600';
     }
@@ -119,10 +230,24 @@ export function AuditLog({ entries, className = '' }: AuditLogProps) {
   return (
     <Card className={`${className}`}>
       <div className="p-4 border-b">
-        <h3 className="font-semibold text-lg">Activity Log</h3>
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-lg">Activity Log</h3>
+          {verification && <AuditChainBadge verification={verification} />}
+        </div>
         <p className="text-sm text-gray-600">
           Complete audit trail of document activities
         </p>
+        {verification?.firstBrokenLink && (
+          <p className="text-sm text-red-600 mt-2">
+            Entry #{verification.firstBrokenLink.sequence}: {verification.firstBrokenLink.reason}.
+            Entries from this point on cannot be trusted.
+          </p>
+        )}
+        {verification && verification.legacyEntryCount > 0 && (
+          <p className="text-xs text-gray-500 mt-1">
+            {verification.legacyEntryCount} earlier entr{verification.legacyEntryCount === 1 ? 'y was' : 'ies were'} recorded before hash chaining and are not covered.
+          </p>
+        )}
       </div>
       
       <ScrollArea className="h-96">
@@ -130,9 +255,13 @@ export function AuditLog({ entries, className = '' }: AuditLogProps) {
           {sortedEntries.map((entry, index) => {
             const Icon = getActionIcon(entry.action);
             const colorClass = getActionColor(entry.action);
+            const isBrokenLink = verification?.firstBrokenLink?.entryId === entry.id;
             
             return (
-              <div key={entry.id} className="flex gap-4">
+              <div
+                key={entry.id}
+                className={`flex gap-4 ${isBrokenLink ? 'rounded-lg ring-2 ring-red-300 bg-red-50 p-2' : ''}`}
+              >
                 {/* Timeline connector */}
                 <div className="flex flex-col items-center">
                   <div className={`flex items-center justify-center w-8 h-8 rounded-full bg-gray-100 ${colorClass}`}>
@@ -182,6 +311,14 @@ export function AuditLog({ entries, className = '' }: AuditLogProps) {
                             IP: {entry.ipAddress}
                           </span>
                         )}
+                        {entry.entryHash && (
+                          <span
+                            className="font-mono text-gray-400"
+                            title={entry.documentHash ? `Document hash: ${entry.documentHash}` : undefined}
+                          >
+                            #{entry.sequence} {entry.entryHash.substring(0, 12)}
+                          </span>
+                        )}
                       </div>
                       
                       {/* Additional metadata */}
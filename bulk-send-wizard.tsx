@@ -0,0 +1,703 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertCircle,
+  CheckCircle,
+  FileText,
+  Loader2,
+  RefreshCw,
+  Send,
+  Upload,
+  Users,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { TemplateSummary } from './template-picker-modal';
+import { hasMergeTags, MERGE_FIELDS, renderMergeTags, validateEmail } from '@/lib/esignature-utils';
+
+export interface BulkSendContact {
+  id: string;
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  title?: string;
+}
+
+interface CsvRecipient {
+  firstName: string;
+  lastName?: string;
+  email: string;
+  phone?: string;
+  company?: string;
+  title?: string;
+}
+
+export interface BulkSendBatchResult {
+  id: string;
+  title: string;
+  status: 'PROCESSING' | 'COMPLETED' | 'COMPLETED_WITH_ERRORS';
+  createdAt: string;
+  progress: {
+    total: number;
+    sent: number;
+    failed: number;
+    skipped: number;
+    pending: number;
+    completed: number;
+    inProgress: number;
+    voidedOrExpired: number;
+  };
+  recipients?: Array<{
+    id: string;
+    name: string;
+    email: string;
+    status: 'PENDING' | 'SENDING' | 'SENT' | 'FAILED' | 'SKIPPED';
+    error?: string | null;
+    document?: { id: string; title: string; status: string } | null;
+  }>;
+}
+
+interface BulkSendWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contacts?: BulkSendContact[];
+  onBatchSent?: (batch: BulkSendBatchResult) => void;
+}
+
+type WizardStep = 'template' | 'recipients' | 'review' | 'results';
+
+const CSV_HEADER_MAP: Record<string, keyof CsvRecipient | 'name'> = {
+  firstname: 'firstName',
+  first: 'firstName',
+  givenname: 'firstName',
+  lastname: 'lastName',
+  last: 'lastName',
+  surname: 'lastName',
+  name: 'name',
+  fullname: 'name',
+  email: 'email',
+  emailaddress: 'email',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  company: 'company',
+  organization: 'company',
+  organisation: 'company',
+  title: 'title',
+  jobtitle: 'title',
+};
+
+/**
+ * Split CSV text into rows, honouring quoted values with commas, quotes and
+ * line breaks
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value.trim());
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value.trim());
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(Boolean));
+}
+
+/**
+ * Read recipients from a CSV with a header row. Recognises common column
+ * names such as "First Name", "Email Address" or a single "Name" column.
+ */
+export function parseRecipientCsv(text: string): { recipients: CsvRecipient[]; invalidRows: number[] } {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return { recipients: [], invalidRows: [] };
+  }
+
+  const columns = header.map(cell => CSV_HEADER_MAP[cell.toLowerCase().replace(/[^a-z]/g, '')]);
+  if (!columns.includes('email')) {
+    throw new Error('The CSV needs an "email" column');
+  }
+
+  const recipients: CsvRecipient[] = [];
+  const invalidRows: number[] = [];
+
+  rows.forEach((cells, index) => {
+    const recipient: CsvRecipient = { firstName: '', email: '' };
+
+    columns.forEach((column, columnIndex) => {
+      const value = cells[columnIndex]?.trim();
+      if (!column || !value) return;
+
+      if (column === 'name') {
+        const [first, ...rest] = value.split(/\s+/);
+        recipient.firstName = recipient.firstName || first;
+        recipient.lastName = recipient.lastName || rest.join(' ') || undefined;
+      } else {
+        recipient[column] = value;
+      }
+    });
+
+    if (!validateEmail(recipient.email)) {
+      // +2 for the header row and 1-based numbering
+      invalidRows.push(index + 2);
+      return;
+    }
+    recipients.push(recipient);
+  });
+
+  return { recipients, invalidRows };
+}
+
+export function BulkSendWizard({ isOpen, onClose, contacts = [], onBatchSent }: BulkSendWizardProps) {
+  const [step, setStep] = useState<WizardStep>('template');
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(false);
+  const [template, setTemplate] = useState<TemplateSummary | null>(null);
+  const [recipientRole, setRecipientRole] = useState('');
+  const [fixedBindings, setFixedBindings] = useState<Record<string, { signerName: string; signerEmail: string }>>({});
+  const [batchTitle, setBatchTitle] = useState('');
+  const [emailSubject, setEmailSubject] = useState('');
+  const [emailMessage, setEmailMessage] = useState('');
+  const [selectedContactIds, setSelectedContactIds] = useState<Set<string>>(new Set());
+  const [csvRecipients, setCsvRecipients] = useState<CsvRecipient[]>([]);
+  const [csvFileName, setCsvFileName] = useState('');
+  const [csvInvalidRows, setCsvInvalidRows] = useState<number[]>([]);
+  const [sending, setSending] = useState(false);
+  const [batch, setBatch] = useState<BulkSendBatchResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('template');
+      setBatch(null);
+      setCsvRecipients([]);
+      setCsvFileName('');
+      setCsvInvalidRows([]);
+      setSelectedContactIds(new Set(contacts.map(contact => contact.id)));
+      fetchTemplates();
+    }
+  }, [isOpen]);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoadingTemplates(true);
+      const response = await fetch('/api/esignature/templates');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch templates');
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast.error('Failed to load templates');
+    } finally {
+      setLoadingTemplates(false);
+    }
+  };
+
+  const handleTemplateSelect = (selected: TemplateSummary) => {
+    const roles = selected.currentVersion?.roles || [];
+    setTemplate(selected);
+    setBatchTitle(selected.name);
+    setRecipientRole(roles[0]?.name || '');
+    setFixedBindings({});
+  };
+
+  const updateBinding = (role: string, field: 'signerName' | 'signerEmail', value: string) => {
+    setFixedBindings(prev => ({
+      ...prev,
+      [role]: { signerName: '', signerEmail: '', ...prev[role], [field]: value },
+    }));
+  };
+
+  const handleCsvUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { recipients, invalidRows } = parseRecipientCsv(await file.text());
+      setCsvRecipients(recipients);
+      setCsvInvalidRows(invalidRows);
+      setCsvFileName(file.name);
+
+      if (recipients.length === 0) {
+        toast.error('No recipients with a valid email were found in the file');
+      }
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read CSV file');
+    }
+  };
+
+  const toggleContact = (contactId: string) => {
+    setSelectedContactIds(prev => {
+      const next = new Set(prev);
+      if (next.has(contactId)) {
+        next.delete(contactId);
+      } else {
+        next.add(contactId);
+      }
+      return next;
+    });
+  };
+
+  const otherRoles = (template?.currentVersion?.roles || []).filter(role => role.name !== recipientRole);
+  const mergeFields = (template?.currentVersion?.fields || []).filter(
+    field => field.type === 'TEXT' && hasMergeTags(field.label)
+  );
+  const selectedContacts = contacts.filter(contact => selectedContactIds.has(contact.id));
+  const contactsWithoutEmail = selectedContacts.filter(contact => !contact.email);
+  const recipientCount = selectedContacts.length + csvRecipients.length;
+  const previewRecipient = selectedContacts[0] || csvRecipients[0];
+
+  const canContinueFromTemplate = !!template?.currentVersion && !!recipientRole &&
+    otherRoles.every(role =>
+      fixedBindings[role.name]?.signerName?.trim() && validateEmail(fixedBindings[role.name]?.signerEmail || '')
+    );
+
+  const handleSend = async () => {
+    if (!template) return;
+
+    try {
+      setSending(true);
+      const response = await fetch('/api/esignature/bulk-send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          templateId: template.id,
+          recipientRole,
+          fixedBindings,
+          contactIds: Array.from(selectedContactIds),
+          recipients: csvRecipients,
+          title: batchTitle,
+          emailSubject: emailSubject || undefined,
+          emailMessage: emailMessage || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to send batch');
+      }
+
+      const data = await response.json();
+      setBatch(data.batch);
+      setStep('results');
+      onBatchSent?.(data.batch);
+
+      const { sent, failed, skipped, pending } = data.batch.progress;
+      if (failed + skipped > 0) {
+        toast.warning(`Sent ${sent} of ${data.batch.progress.total} documents`);
+      } else if (pending > 0) {
+        toast.success(`Sent ${sent} documents; ${pending} more will be sent shortly`);
+      } else {
+        toast.success(`Sent ${sent} documents`);
+      }
+    } catch (error) {
+      console.error('Error sending batch:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send batch');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!batch) return;
+
+    try {
+      setSending(true);
+      const response = await fetch(`/api/esignature/bulk-send/${batch.id}/retry`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to retry batch');
+      }
+
+      const data = await response.json();
+      setBatch(data.batch);
+      onBatchSent?.(data.batch);
+      toast.success('Retried failed recipients');
+    } catch (error) {
+      console.error('Error retrying batch:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to retry batch');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderTemplateStep = () => (
+    <div className="space-y-4">
+      {loadingTemplates ? (
+        <div className="space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-14 bg-gray-200 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-8">
+          <FileText className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+          <p className="text-sm text-gray-600">
+            No templates yet. Use "Save as Template" while setting up a document.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-56 overflow-y-auto">
+          {templates.map((item) => (
+            <button
+              key={item.id}
+              className={`w-full flex items-center gap-3 p-3 border rounded-lg text-left hover:bg-gray-50 ${
+                template?.id === item.id ? 'border-blue-500 bg-blue-50' : ''
+              }`}
+              onClick={() => handleTemplateSelect(item)}
+              disabled={!item.currentVersion}
+            >
+              <FileText className="h-5 w-5 text-gray-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{item.name}</p>
+                <p className="text-xs text-gray-600">
+                  {item.currentVersion?.roles.map(role => role.name).join(', ')}
+                </p>
+              </div>
+              {item.currentVersion && <Badge variant="outline">v{item.currentVersion.version}</Badge>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {template?.currentVersion && (
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bulk-title">Batch Name</Label>
+              <Input
+                id="bulk-title"
+                value={batchTitle}
+                onChange={(e) => setBatchTitle(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Each recipient signs as</Label>
+              <Select value={recipientRole} onValueChange={setRecipientRole}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {template.currentVersion.roles.map(role => (
+                    <SelectItem key={role.name} value={role.name}>{role.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {otherRoles.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                These roles are the same on every document in the batch.
+              </p>
+              {otherRoles.map(role => (
+                <div key={role.name} className="grid grid-cols-3 gap-3 items-end">
+                  <div className="text-sm font-medium pb-2">{role.name}</div>
+                  <div>
+                    <Label htmlFor={`bulk-role-name-${role.name}`}>Full Name</Label>
+                    <Input
+                      id={`bulk-role-name-${role.name}`}
+                      value={fixedBindings[role.name]?.signerName || ''}
+                      onChange={(e) => updateBinding(role.name, 'signerName', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`bulk-role-email-${role.name}`}>Email Address</Label>
+                    <Input
+                      id={`bulk-role-email-${role.name}`}
+                      type="email"
+                      value={fixedBindings[role.name]?.signerEmail || ''}
+                      onChange={(e) => updateBinding(role.name, 'signerEmail', e.target.value)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="bulk-subject">Email Subject (Optional)</Label>
+            <Input
+              id="bulk-subject"
+              value={emailSubject}
+              onChange={(e) => setEmailSubject(e.target.value)}
+              placeholder={`Please sign: ${batchTitle}`}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bulk-message">Email Message (Optional)</Label>
+            <Textarea
+              id="bulk-message"
+              value={emailMessage}
+              onChange={(e) => setEmailMessage(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderRecipientsStep = () => (
+    <div className="space-y-4">
+      {contacts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Selected contacts</p>
+          <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+            {contacts.map(contact => (
+              <label key={contact.id} className="flex items-center gap-3 p-2 text-sm">
+                <Checkbox
+                  checked={selectedContactIds.has(contact.id)}
+                  onCheckedChange={() => toggleContact(contact.id)}
+                />
+                <span className="flex-1">{contact.firstName} {contact.lastName}</span>
+                <span className={contact.email ? 'text-gray-600' : 'text-red-600'}>
+                  {contact.email || 'No email'}
+                </span>
+              </label>
+            ))}
+          </div>
+          {contactsWithoutEmail.length > 0 && (
+            <p className="text-xs text-red-600">
+              {contactsWithoutEmail.length} selected contact{contactsWithoutEmail.length === 1 ? ' has' : 's have'} no
+              email address and will be skipped.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Import from CSV</p>
+        <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed rounded-lg cursor-pointer hover:bg-gray-50 text-sm text-gray-600">
+          <Upload className="h-4 w-4" />
+          {csvFileName ? `${csvFileName} (${csvRecipients.length} recipients)` : 'Choose a CSV file with an email column'}
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvUpload} />
+        </label>
+        {csvInvalidRows.length > 0 && (
+          <p className="text-xs text-red-600">
+            Ignored row{csvInvalidRows.length === 1 ? '' : 's'} {csvInvalidRows.slice(0, 10).join(', ')}
+            {csvInvalidRows.length > 10 ? ` and ${csvInvalidRows.length - 10} more` : ''} without a valid email.
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          Recognised columns: first name, last name, name, email, phone, company, title.
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderReviewStep = () => (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+        <Users className="h-5 w-5 text-gray-500" />
+        <div className="text-sm">
+          <p className="font-medium">
+            {recipientCount} document{recipientCount === 1 ? '' : 's'} from "{template?.name}"
+          </p>
+          <p className="text-gray-600">
+            Each recipient signs as {recipientRole}
+            {otherRoles.length > 0 && `, with ${otherRoles.map(role => fixedBindings[role.name]?.signerName).join(', ')}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Prefilled fields</p>
+        {mergeFields.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            This template has no text fields with merge tags. Label a text field with tags like{' '}
+            {MERGE_FIELDS.slice(0, 3).map(field => `{{${field}}}`).join(', ')} to prefill it.
+          </p>
+        ) : (
+          <div className="border rounded-lg divide-y text-sm">
+            {mergeFields.map((field, index) => (
+              <div key={index} className="flex items-center justify-between p-2">
+                <code className="text-xs text-gray-600">{field.label}</code>
+                {previewRecipient && (
+                  <span>{renderMergeTags(field.label!, {
+                    ...previewRecipient,
+                    fullName: [previewRecipient.firstName, previewRecipient.lastName].filter(Boolean).join(' '),
+                  })}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderResultsStep = () => {
+    if (!batch) return null;
+    const { progress } = batch;
+    const problems = (batch.recipients || []).filter(r => r.status === 'FAILED' || r.status === 'SKIPPED');
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span>{progress.sent} of {progress.total} sent</span>
+            {progress.failed + progress.skipped > 0 && (
+              <span className="text-red-600">{progress.failed + progress.skipped} not sent</span>
+            )}
+          </div>
+          <Progress value={progress.total > 0 ? (progress.sent / progress.total) * 100 : 0} />
+        </div>
+
+        {progress.pending > 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {progress.pending} document{progress.pending === 1 ? ' is' : 's are'} queued and will be sent shortly.
+          </div>
+        )}
+
+        {problems.length === 0 && progress.pending === 0 && (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            Every recipient was sent their document.
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <div className="border rounded-lg divide-y text-sm max-h-64 overflow-y-auto">
+            {problems.map(recipient => (
+              <div key={recipient.id} className="flex items-start gap-2 p-2">
+                <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{recipient.name} &lt;{recipient.email || 'no email'}&gt;</p>
+                  <p className="text-red-600">{recipient.error}</p>
+                </div>
+                <Badge variant="outline">{recipient.status === 'SKIPPED' ? 'Skipped' : 'Failed'}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const stepTitles: Record<WizardStep, string> = {
+    template: 'Bulk Send: Choose Template',
+    recipients: 'Bulk Send: Recipients',
+    review: 'Bulk Send: Review',
+    results: 'Bulk Send: Results',
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{stepTitles[step]}</DialogTitle>
+        </DialogHeader>
+
+        {step === 'template' && renderTemplateStep()}
+        {step === 'recipients' && renderRecipientsStep()}
+        {step === 'review' && renderReviewStep()}
+        {step === 'results' && renderResultsStep()}
+
+        <DialogFooter>
+          {step === 'template' && (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={() => setStep('recipients')} disabled={!canContinueFromTemplate}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'recipients' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('template')}>Back</Button>
+              <Button onClick={() => setStep('review')} disabled={recipientCount === 0}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('recipients')} disabled={sending}>Back</Button>
+              <Button onClick={handleSend} disabled={sending}>
+                {sending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                Send {recipientCount} Document{recipientCount === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+          {step === 'results' && (
+            <>
+              {batch && batch.progress.failed > 0 && (
+                <Button variant="outline" onClick={handleRetry} disabled={sending}>
+                  {sending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Retry Failed
+                </Button>
+              )}
+              <Button onClick={onClose}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,10 +4,13 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { DocumentStatusBadge } from './document-status-badge';
+import { DocumentContentMatches } from './document-content-search';
 import { SignerStatusBadge } from './signer-status-badge';
 import { 
   FileText, 
+  Search,
   Calendar,
   User,
   Eye,
@@ -37,7 +40,7 @@ interface ContactDocument {
     id: string;
     signerName: string;
     signerEmail: string;
-    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
     signedAt?: Date;
   }>;
 }
@@ -57,6 +60,7 @@ export function ContactDocuments({
 }: ContactDocumentsProps) {
   const [documents, setDocuments] = useState<ContactDocument[]>([]);
   const [loading, setLoading] = useState(true);
+  const [contentQuery, setContentQuery] = useState('');
 
   useEffect(() => {
     fetchDocuments();
@@ -119,6 +123,21 @@ export function ContactDocuments({
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {documents.length > 0 && (
+          <div className="mb-4 space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search inside these documents..."
+                value={contentQuery}
+                onChange={(e) => setContentQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <DocumentContentMatches query={contentQuery} contactId={contactId} />
+          </div>
+        )}
+
         {documents.length === 0 ? (
           <div className="text-center py-8">
             <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
@@ -15,7 +15,8 @@ import {
   Eye, 
   UserCheck, 
   UserX,
-  Loader2
+  Loader2,
+  FileSignature
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -39,6 +40,7 @@ import { formatPhoneNumber } from '@/lib/utils';
 import { useSettings } from '@/components/settings/settings-provider';
 import { useToast } from '@/components/ui/use-toast';
 import { useSession } from 'next-auth/react';
+import { BulkSendWizard } from '@/components/esignature/bulk-send-wizard';
 
 interface Contact {
   id: string;
@@ -68,7 +70,7 @@ interface Contact {
 
 interface BulkActionBarProps {
   selectedCount: number;
-  onAction: (action: 'delete' | 'disable' | 'enable') => void;
+  onAction: (action: 'delete' | 'disable' | 'enable' | 'sign') => void;
   onClear: () => void;
   isLoading: boolean;
 }
@@ -82,6 +84,15 @@ function BulkActionBar({ selectedCount, onAction, onClear, isLoading }: BulkActi
           {selectedCount} contact{selectedCount !== 1 ? 's' : ''} selected
         </span>
         <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onAction('sign')}
+            disabled={isLoading}
+          >
+            <FileSignature className="h-4 w-4" />
+            Send for Signature
+          </Button>
           <Button
             size="sm"
             variant="outline"
@@ -128,6 +139,7 @@ export function ContactsTable() {
   const [error, setError] = useState<string | null>(null);
   const [selectedContacts, setSelectedContacts] = useState<Set<string>>(new Set());
   const [actionLoading, setActionLoading] = useState(false);
+  const [showBulkSend, setShowBulkSend] = useState(false);
   
   // Confirmation dialog state
   const [deleteDialog, setDeleteDialog] = useState<{
@@ -264,8 +276,13 @@ export function ContactsTable() {
   };
 
   // Handle bulk actions
-  const handleBulkAction = async (action: 'delete' | 'disable' | 'enable') => {
+  const handleBulkAction = async (action: 'delete' | 'disable' | 'enable' | 'sign') => {
     const contactIds = Array.from(selectedContacts);
+
+    if (action === 'sign') {
+      setShowBulkSend(true);
+      return;
+    }
     
     if (action === 'delete') {
       const selectedContactNames = contacts
@@ -625,6 +642,13 @@ export function ContactsTable() {
         />
       )}
 
+      <BulkSendWizard
+        isOpen={showBulkSend}
+        onClose={() => setShowBulkSend(false)}
+        contacts={contacts.filter(c => selectedContacts.has(c.id))}
+        onBatchSent={() => setSelectedContacts(new Set())}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialog.open} onOpenChange={(open) => setDeleteDialog({ open })}>
         <AlertDialogContent>
@@ -5,17 +5,23 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { DocumentUploadModal } from './document-upload-modal';
 import { DocumentStatusBadge } from './document-status-badge';
+import { DocumentContentMatches } from './document-content-search';
+import { DocumentVersionsModal } from './document-versions-modal';
 import { 
   FileText, 
+  Search,
   Plus, 
   Download, 
   Eye, 
   Send, 
   Users,
   Calendar,
-  MoreHorizontal
+  MoreHorizontal,
+  History,
+  Upload
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
@@ -34,11 +40,13 @@ interface Document {
   status: 'DRAFT' | 'SENT' | 'IN_PROGRESS' | 'COMPLETED' | 'VOIDED' | 'EXPIRED';
   createdAt: Date;
   updatedAt: Date;
+  version: number;
+  supersededAt?: Date | null;
   signerWorkflows: Array<{
     id: string;
     signerName: string;
     signerEmail: string;
-    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
   }>;
   _count: {
     signatures: number;
@@ -55,8 +63,10 @@ interface DealDocumentsProps {
 export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumentsProps) {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
+  const [contentQuery, setContentQuery] = useState('');
   const [showUploadModal, setShowUploadModal] = useState(false);
-  const [uploading, setUploading] = useState(false);
+  const [supersedes, setSupersedes] = useState<{ id: string; title: string; version: number } | null>(null);
+  const [historyDocumentId, setHistoryDocumentId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchDocuments();
@@ -72,7 +82,8 @@ export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumen
       }
 
       const data = await response.json();
-      setDocuments(data.documents || []);
+      // Older versions are reached through the version history
+      setDocuments((data.documents || []).filter((doc: Document) => !doc.supersededAt));
     } catch (error) {
       console.error('Error fetching documents:', error);
       toast.error('Failed to load documents');
@@ -81,51 +92,25 @@ export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumen
     }
   };
 
-  const handleUpload = async (documentData: {
-    title: string;
-    description?: string;
-    file: File;
-    dealId?: string;
-    contactId?: string;
-  }) => {
-    try {
-      setUploading(true);
-      
-      const formData = new FormData();
-      formData.append('file', documentData.file);
-      formData.append('title', documentData.title);
-      if (documentData.description) {
-        formData.append('description', documentData.description);
-      }
-      formData.append('dealId', dealId);
-
-      const response = await fetch('/api/esignature/documents', {
-        method: 'POST',
-        body: formData,
-      });
+  const handleUploaded = async () => {
+    // The modal has already uploaded the file; just show the new draft
+    await fetchDocuments();
+  };
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to upload document');
-      }
+  const handleUploadVersion = (doc: Document) => {
+    setSupersedes({ id: doc.id, title: doc.title, version: doc.version || 1 });
+    setShowUploadModal(true);
+  };
 
-      const result = await response.json();
-      
-      // Refresh documents list
-      await fetchDocuments();
-      
-      toast.success('Document uploaded successfully');
-    } catch (error) {
-      console.error('Upload error:', error);
-      throw error;
-    } finally {
-      setUploading(false);
-    }
+  const handleCloseUpload = () => {
+    setShowUploadModal(false);
+    setSupersedes(null);
   };
 
   const getSigningProgress = (doc: Document) => {
-    const totalSigners = doc.signerWorkflows.length;
-    const signedSigners = doc.signerWorkflows.filter(s => s.status === 'SIGNED').length;
+    const signers = doc.signerWorkflows.filter(s => s.status !== 'REASSIGNED');
+    const totalSigners = signers.length;
+    const signedSigners = signers.filter(s => s.status === 'SIGNED').length;
     return { signed: signedSigners, total: totalSigners };
   };
 
@@ -182,6 +167,21 @@ export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumen
           </div>
         </CardHeader>
         <CardContent>
+          {documents.length > 0 && (
+            <div className="mb-4 space-y-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search inside these documents..."
+                  value={contentQuery}
+                  onChange={(e) => setContentQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <DocumentContentMatches query={contentQuery} dealId={dealId} />
+            </div>
+          )}
+
           {documents.length === 0 ? (
             <div className="text-center py-8">
               <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
@@ -211,6 +211,9 @@ export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumen
                         <div className="flex-1 min-w-0">
                           <h4 className="font-medium text-gray-900 truncate">
                             {doc.title}
+                            {doc.version > 1 && (
+                              <Badge variant="outline" className="ml-2 text-xs">v{doc.version}</Badge>
+                            )}
                           </h4>
                           <p className="text-sm text-gray-600">
                             {doc.fileName}
@@ -280,6 +283,18 @@ export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumen
                             </DropdownMenuItem>
                           )}
                           
+                          {doc.status !== 'SENT' && doc.status !== 'IN_PROGRESS' && (
+                            <DropdownMenuItem onClick={() => handleUploadVersion(doc)}>
+                              <Upload className="h-4 w-4 mr-2" />
+                              Upload New Version
+                            </DropdownMenuItem>
+                          )}
+
+                          <DropdownMenuItem onClick={() => setHistoryDocumentId(doc.id)}>
+                            <History className="h-4 w-4 mr-2" />
+                            Version History
+                          </DropdownMenuItem>
+                          
                           {doc.status === 'COMPLETED' && (
                             <DropdownMenuItem>
                               <Download className="h-4 w-4 mr-2" />
@@ -299,9 +314,16 @@ export function DealDocuments({ dealId, dealTitle, className = '' }: DealDocumen
 
       <DocumentUploadModal
         isOpen={showUploadModal}
-        onClose={() => setShowUploadModal(false)}
-        onUpload={handleUpload}
+        onClose={handleCloseUpload}
+        onUploaded={handleUploaded}
         dealId={dealId}
+        supersedes={supersedes || undefined}
+      />
+
+      <DocumentVersionsModal
+        isOpen={!!historyDocumentId}
+        onClose={() => setHistoryDocumentId(null)}
+        documentId={historyDocumentId}
       />
     </>
   );
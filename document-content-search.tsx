@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { FileSearch } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { DocumentStatusBadge } from './document-status-badge';
+import { cn } from '@/lib/utils';
+
+/** Shortest query worth sending to the server */
+export const MIN_CONTENT_QUERY_LENGTH = 3;
+
+interface ContentSearchResult {
+  id: string;
+  title: string;
+  fileName: string;
+  status: 'DRAFT' | 'SENT' | 'IN_PROGRESS' | 'COMPLETED' | 'VOIDED' | 'EXPIRED';
+  createdAt: string;
+  snippet: Array<{ text: string; match: boolean }>;
+}
+
+interface DocumentContentMatchesProps {
+  query: string;
+  dealId?: string;
+  contactId?: string;
+  className?: string;
+}
+
+/**
+ * Documents whose text matches a query, with the matching passages. Searches
+ * the server-side index, so it finds documents by what they say rather than
+ * by title.
+ */
+export function DocumentContentMatches({ query, dealId, contactId, className = '' }: DocumentContentMatchesProps) {
+  const [results, setResults] = useState<ContentSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (trimmed.length < MIN_CONTENT_QUERY_LENGTH) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const params = new URLSearchParams({ q: trimmed });
+        if (dealId) params.set('dealId', dealId);
+        if (contactId) params.set('contactId', contactId);
+
+        const response = await fetch(`/api/esignature/documents/search?${params}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error('Failed to search documents');
+        }
+
+        const data = await response.json();
+        setResults(data.results || []);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error searching documents:', error);
+        setResults([]);
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmed, dealId, contactId]);
+
+  if (trimmed.length < MIN_CONTENT_QUERY_LENGTH) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <FileSearch className="h-4 w-4" />
+        {searching
+          ? 'Searching document contents...'
+          : `${results.length} document${results.length === 1 ? '' : 's'} mention "${trimmed}"`}
+      </div>
+
+      {results.map(result => (
+        <Link
+          key={result.id}
+          href={`/esignatures/${result.id}`}
+          className="block p-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">{result.title}</p>
+              <p className="text-xs text-gray-500">
+                {result.fileName} • {formatDistanceToNow(new Date(result.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            <DocumentStatusBadge status={result.status} />
+          </div>
+          {result.snippet.length > 0 && (
+            <p className="text-sm text-gray-600">
+              {result.snippet.map((part, index) =>
+                part.match
+                  ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.text}</mark>
+                  : <React.Fragment key={index}>{part.text}</React.Fragment>
+              )}
+            </p>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+}
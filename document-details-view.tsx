@@ -5,10 +5,16 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
 import { DocumentStatusBadge } from './document-status-badge';
 import { SignerStatusBadge } from './signer-status-badge';
-import { AuditLog } from './audit-log';
+import { AuditLog, AuditChainVerification } from './audit-log';
 import { PDFViewerWrapper as PDFViewer } from './pdf-viewer-wrapper';
+import { InPersonSigningModal } from './in-person-signing-modal';
 import { 
   FileText, 
   Download, 
@@ -21,11 +27,29 @@ import {
   CheckCircle,
   Clock,
   Eye,
-  Settings
+  Settings,
+  Bell,
+  ShieldCheck,
+  Lock,
+  Ban,
+  PencilLine,
+  Paperclip,
+  Tablet,
+  UserPlus
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 import { toast } from 'sonner';
+import {
+  formatFileSize,
+  getActiveSigningGroup,
+  getEffectiveSigners,
+  isSignerSuperseded,
+  parseAttachmentValue,
+  SignatureFieldType,
+} from '@/lib/esignature-utils';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 
 interface DocumentDetails {
   id: string;
@@ -36,7 +60,12 @@ interface DocumentDetails {
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
+  voidedAt?: Date;
+  voidReason?: string;
   expiresAt?: Date;
+  signingOrder?: boolean;
+  reminderIntervalDays?: number | null;
+  escalateAfterDays?: number | null;
   uploadedBy: {
     name: string;
     email: string;
@@ -56,12 +85,27 @@ interface DocumentDetails {
     signerName: string;
     signerEmail: string;
     signerRole?: string;
-    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
     signingOrder: number;
+    groupMode?: 'ALL' | 'ANY';
+    authMethod?: 'NONE' | 'ACCESS_CODE' | 'EMAIL_OTP' | 'SMS_OTP';
+    signerPhone?: string;
+    authLockedAt?: Date;
     sentAt?: Date;
     viewedAt?: Date;
     signedAt?: Date;
     declinedAt?: Date;
+    lastReminderAt?: Date;
+    reminderCount?: number;
+    tokenExpiresAt?: Date;
+    reassignedAt?: Date;
+    reassignedToId?: string;
+    reassignReason?: string;
+    hostedAt?: Date;
+    hostUser?: {
+      name: string;
+      email: string;
+    };
     contact?: {
       id: string;
       firstName: string;
@@ -70,7 +114,7 @@ interface DocumentDetails {
   }>;
   signatureFields: Array<{
     id: string;
-    type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+    type: SignatureFieldType;
     label?: string;
     pageNumber: number;
     x: number;
@@ -101,6 +145,7 @@ interface DocumentDetails {
   }>;
   auditLogs: Array<{
     id: string;
+    sequence?: number;
     action: string;
     description?: string;
     timestamp: Date;
@@ -110,9 +155,14 @@ interface DocumentDetails {
     };
     ipAddress?: string;
     metadata?: any;
+    documentHash?: string;
+    entryHash?: string;
   }>;
 }
 
+const REMINDER_INTERVAL_OPTIONS = [0, 1, 2, 3, 5, 7];
+const ESCALATION_OPTIONS = [0, 3, 5, 7, 14];
+
 interface DocumentDetailsViewProps {
   documentId: string;
 }
@@ -121,14 +171,31 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
   const [document, setDocument] = useState<DocumentDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
+  const [showVoidDialog, setShowVoidDialog] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+  const [voiding, setVoiding] = useState(false);
+  const [correcting, setCorrecting] = useState(false);
+  const router = useRouter();
+  const [remindingSignerId, setRemindingSignerId] = useState<string | null>(null);
+  const [reissuingSignerId, setReissuingSignerId] = useState<string | null>(null);
+  const [auditVerification, setAuditVerification] = useState<AuditChainVerification | null>(null);
+  const [showInPerson, setShowInPerson] = useState(false);
+  const [inPersonSignerId, setInPersonSignerId] = useState<string | null>(null);
+  const [reassignSignerId, setReassignSignerId] = useState<string | null>(null);
+  const [reassignment, setReassignment] = useState({ signerName: '', signerEmail: '', reason: '' });
+  const [reassigning, setReassigning] = useState(false);
+  const [showExtendDialog, setShowExtendDialog] = useState(false);
+  const [newDeadline, setNewDeadline] = useState('');
+  const [extending, setExtending] = useState(false);
+  const { data: authSession } = useSession();
 
   useEffect(() => {
     fetchDocument();
   }, [documentId]);
 
-  const fetchDocument = async () => {
+  const fetchDocument = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       const response = await fetch(`/api/esignature/documents/${documentId}`);
       
       if (!response.ok) {
@@ -137,6 +204,7 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
 
       const data = await response.json();
       setDocument(data.document);
+      fetchAuditVerification();
     } catch (error) {
       console.error('Error fetching document:', error);
       toast.error('Failed to load document details');
@@ -145,6 +213,21 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
     }
   };
 
+  const fetchAuditVerification = async () => {
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/audit/verify`);
+      if (!response.ok) {
+        throw new Error('Failed to verify audit log');
+      }
+
+      const data = await response.json();
+      setAuditVerification(data.verification);
+    } catch (error) {
+      console.error('Error verifying audit log:', error);
+      setAuditVerification(null);
+    }
+  };
+
   const handleSendDocument = async () => {
     if (!document) return;
 
@@ -176,31 +259,270 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
     }
   };
 
+  const handleVoidDocument = async () => {
+    if (!voidReason.trim()) {
+      toast.error('Please enter a reason for voiding');
+      return;
+    }
+
+    setVoiding(true);
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/void`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: voidReason }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to void document');
+      }
+
+      toast.success('Document voided');
+      setShowVoidDialog(false);
+      setVoidReason('');
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error voiding document:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to void document');
+    } finally {
+      setVoiding(false);
+    }
+  };
+
+  const handleCorrectDocument = async () => {
+    if (!confirm('Pull this document back to make corrections? Current signing links will stop working. Signatures on pages you do not change are kept.')) {
+      return;
+    }
+
+    setCorrecting(true);
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/correct`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to start correction');
+      }
+
+      router.push(`/esignatures/${documentId}/edit`);
+    } catch (error) {
+      console.error('Error starting correction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start correction');
+      setCorrecting(false);
+    }
+  };
+
   const handleSendReminder = async (signerId: string) => {
+    setRemindingSignerId(signerId);
     try {
-      // TODO: Implement reminder API
+      const response = await fetch('/api/esignature/reminders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ signerId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to send reminder');
+      }
+
       toast.success('Reminder sent successfully');
+      await fetchDocument(); // Refresh reminder counts and audit log
     } catch (error) {
-      toast.error('Failed to send reminder');
+      console.error('Error sending reminder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminder');
+    } finally {
+      setRemindingSignerId(null);
+    }
+  };
+
+  const handleReissueLink = async (signerId: string) => {
+    if (!confirm('Send this signer a new link? Their current link will stop working.')) {
+      return;
+    }
+
+    setReissuingSignerId(signerId);
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/signers/${signerId}/link`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to send new link');
+      }
+
+      toast.success('New signing link sent');
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error reissuing signing link:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send new link');
+    } finally {
+      setReissuingSignerId(null);
+    }
+  };
+
+  const openExtendDeadline = () => {
+    // Suggest a week past the current deadline, or from today if it has passed
+    const base = document?.expiresAt && new Date(document.expiresAt) > new Date()
+      ? new Date(document.expiresAt)
+      : new Date();
+    setNewDeadline(format(new Date(base.getTime() + 7 * 24 * 60 * 60 * 1000), 'yyyy-MM-dd'));
+    setShowExtendDialog(true);
+  };
+
+  const handleExtendDeadline = async () => {
+    if (!newDeadline) return;
+
+    setExtending(true);
+    try {
+      // The deadline is the end of the chosen day in the sender's time zone
+      const expiresAt = new Date(`${newDeadline}T23:59:59`);
+      const response = await fetch(`/api/esignature/documents/${documentId}/deadline`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ expiresAt: expiresAt.toISOString() }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to extend deadline');
+      }
+
+      const result = await response.json();
+      toast.success(result.reopened
+        ? 'Deadline extended and the document reopened for signing'
+        : 'Deadline extended');
+      setShowExtendDialog(false);
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error extending deadline:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to extend deadline');
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  const openReassign = (signerId: string) => {
+    setReassignment({ signerName: '', signerEmail: '', reason: '' });
+    setReassignSignerId(signerId);
+  };
+
+  const handleReassignSigner = async () => {
+    if (!reassignSignerId) return;
+
+    setReassigning(true);
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/signers/${reassignSignerId}/reassign`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(reassignment),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reassign signer');
+      }
+
+      const { signer } = await response.json();
+      toast.success(signer.status === 'SENT'
+        ? `Reassigned to ${signer.signerName}, who has been sent a signing link`
+        : `Reassigned to ${signer.signerName}`);
+      setReassignSignerId(null);
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error reassigning signer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reassign signer');
+    } finally {
+      setReassigning(false);
+    }
+  };
+
+  const handleUnlockSigner = async (signer: DocumentDetails['signerWorkflows'][number]) => {
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/signers/${signer.id}/authentication`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ authMethod: signer.authMethod || 'NONE' }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to unlock signer');
+      }
+
+      toast.success(`${signer.signerName} can try verifying again`);
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error unlocking signer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock signer');
+    }
+  };
+
+  const handleReminderSettingsChange = async (updates: {
+    reminderIntervalDays?: number | null;
+    escalateAfterDays?: number | null;
+  }) => {
+    if (!document) return;
+
+    try {
+      const response = await fetch(`/api/esignature/documents/${document.id}/reminders`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update reminder settings');
+      }
+
+      toast.success('Reminder settings updated');
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error updating reminder settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update reminder settings');
     }
   };
 
   const getSigningProgress = () => {
     if (!document) return { signed: 0, total: 0, percentage: 0 };
     
-    const totalSigners = document.signerWorkflows.length;
-    const signedSigners = document.signerWorkflows.filter(s => s.status === 'SIGNED').length;
+    const activeSigners = document.signerWorkflows.filter(s => s.status !== 'REASSIGNED');
+    const totalSigners = activeSigners.length;
+    const signedSigners = activeSigners.filter(s => s.status === 'SIGNED').length;
     const percentage = totalSigners > 0 ? Math.round((signedSigners / totalSigners) * 100) : 0;
     
     return { signed: signedSigners, total: totalSigners, percentage };
   };
 
-  const getCurrentSigner = () => {
+  const openInPerson = (signerId?: string) => {
+    setInPersonSignerId(signerId || null);
+    setShowInPerson(true);
+  };
+
+  const getCurrentSigningGroup = () => {
     if (!document || document.status === 'COMPLETED') return null;
-    
-    return document.signerWorkflows
-      .sort((a, b) => a.signingOrder - b.signingOrder)
-      .find(signer => signer.status === 'SENT' || signer.status === 'VIEWED');
+
+    const group = getActiveSigningGroup(getEffectiveSigners(document, document.signerWorkflows));
+    if (!group) return null;
+
+    const awaiting = group.signers.filter(signer => signer.status === 'SENT' || signer.status === 'VIEWED');
+    return awaiting.length > 0 ? { mode: group.mode, signers: awaiting } : null;
   };
 
   if (loading) {
@@ -238,7 +560,16 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
   }
 
   const progress = getSigningProgress();
-  const currentSigner = getCurrentSigner();
+  const currentGroup = getCurrentSigningGroup();
+  const groupSizes = document.signerWorkflows.reduce<Record<number, number>>((sizes, signer) => {
+    if (signer.status === 'REASSIGNED') return sizes;
+    sizes[signer.signingOrder] = (sizes[signer.signingOrder] || 0) + 1;
+    return sizes;
+  }, {});
+  const attachments = document.signatureFields.flatMap(field => {
+    const attachment = field.type === 'ATTACHMENT' ? parseAttachmentValue(field.signature?.signatureData) : null;
+    return attachment ? [{ field, attachment }] : [];
+  });
 
   return (
     <div className="space-y-6">
@@ -283,10 +614,35 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
             </Button>
           )}
           
+          {(document.status === 'SENT' || document.status === 'IN_PROGRESS') && (
+            <>
+              {currentGroup && (
+                <Button variant="outline" onClick={() => openInPerson()}>
+                  <Tablet className="h-4 w-4 mr-2" />
+                  Sign In Person
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleCorrectDocument} disabled={correcting}>
+                <PencilLine className="h-4 w-4 mr-2" />
+                {correcting ? 'Opening...' : 'Correct'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowVoidDialog(true)}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Void
+              </Button>
+            </>
+          )}
+
           {document.status === 'COMPLETED' && (
-            <Button variant="outline">
-              <Download className="h-4 w-4 mr-2" />
-              Download PDF
+            <Button variant="outline" asChild>
+              <a href={`/api/esignature/documents/${document.id}/download`}>
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </a>
             </Button>
           )}
           
@@ -297,31 +653,88 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
         </div>
       </div>
 
-      {/* Status Banner */}
-      {currentSigner && (
-        <Card className="border-orange-200 bg-orange-50">
+      {/* Void Banner */}
+      {document.status === 'VOIDED' && (
+        <Card className="border-red-200 bg-red-50">
           <CardContent className="p-4">
             <div className="flex items-center gap-3">
-              <Clock className="h-5 w-5 text-orange-600" />
+              <Ban className="h-5 w-5 text-red-600" />
               <div>
-                <p className="font-medium text-orange-900">
-                  Waiting for signature from {currentSigner.signerName}
+                <p className="font-medium text-red-900">
+                  This document was voided{document.voidedAt && ` ${formatDistanceToNow(new Date(document.voidedAt), { addSuffix: true })}`}
                 </p>
-                <p className="text-sm text-orange-700">
-                  Document was sent to {currentSigner.signerEmail} {
-                    currentSigner.sentAt && formatDistanceToNow(new Date(currentSigner.sentAt), { addSuffix: true })
-                  }
+                {document.voidReason && (
+                  <p className="text-sm text-red-700">Reason: {document.voidReason}</p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Expired Banner */}
+      {document.status === 'EXPIRED' && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <Clock className="h-5 w-5 text-red-600" />
+              <div className="flex-1">
+                <p className="font-medium text-red-900">
+                  This document expired{document.expiresAt && ` on ${format(new Date(document.expiresAt), 'MMM d, yyyy')}`}
                 </p>
+                <p className="text-sm text-red-700">Extend the deadline to reopen it for the signers who have not signed.</p>
               </div>
-              <div className="ml-auto">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleSendReminder(currentSigner.id)}
-                >
-                  <Mail className="h-4 w-4 mr-2" />
-                  Send Reminder
-                </Button>
+              <Button variant="outline" size="sm" onClick={openExtendDeadline}>
+                Extend Deadline
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Status Banner */}
+      {currentGroup && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-4">
+            <div className="flex items-start gap-3">
+              <Clock className="h-5 w-5 text-orange-600 mt-1" />
+              <div className="flex-1 space-y-3">
+                <p className="font-medium text-orange-900">
+                  {currentGroup.signers.length === 1
+                    ? `Waiting for signature from ${currentGroup.signers[0].signerName}`
+                    : currentGroup.mode === 'ANY'
+                      ? 'Waiting for any one of these signers'
+                      : `Waiting for ${currentGroup.signers.length} signers`}
+                </p>
+                {currentGroup.signers.map((signer) => (
+                  <div key={signer.id} className="flex items-center gap-3">
+                    <p className="text-sm text-orange-700">
+                      {currentGroup.signers.length > 1 && `${signer.signerName}: `}
+                      Document was sent to {signer.signerEmail} {
+                        signer.sentAt && formatDistanceToNow(new Date(signer.sentAt), { addSuffix: true })
+                      }
+                    </p>
+                    <div className="ml-auto flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openInPerson(signer.id)}
+                      >
+                        <Tablet className="h-4 w-4 mr-2" />
+                        Sign in person
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSendReminder(signer.id)}
+                        disabled={remindingSignerId === signer.id}
+                      >
+                        <Mail className="h-4 w-4 mr-2" />
+                        {remindingSignerId === signer.id ? 'Sending...' : 'Send Reminder'}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
           </CardContent>
@@ -431,10 +844,107 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
                           {signer.signerRole}
                         </p>
                       )}
+
+                      {document.signingOrder && groupSizes[signer.signingOrder] > 1 && (
+                        <p className="text-xs text-gray-500">
+                          Signs with group {signer.signingOrder} ({signer.groupMode === 'ANY' ? 'any one signs' : 'all sign'})
+                        </p>
+                      )}
+
+                      {signer.authMethod && signer.authMethod !== 'NONE' && (
+                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                          <ShieldCheck className="h-3 w-3" />
+                          {signer.authMethod === 'ACCESS_CODE' ? 'Access code required'
+                            : signer.authMethod === 'SMS_OTP' ? 'SMS code required'
+                            : 'Email code required'}
+                        </p>
+                      )}
+
+                      {signer.authLockedAt && (
+                        <div className="flex items-center gap-2 mt-1">
+                          <p className="text-xs text-red-600 flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Locked after failed verification
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => handleUnlockSigner(signer)}
+                          >
+                            Unlock
+                          </Button>
+                        </div>
+                      )}
+
+                      {signer.status === 'REASSIGNED' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Reassigned to {document.signerWorkflows.find(s => s.id === signer.reassignedToId)?.signerName || 'another signer'}
+                          {signer.reassignedAt && ` ${formatDistanceToNow(new Date(signer.reassignedAt), { addSuffix: true })}`}
+                          {signer.reassignReason && `: ${signer.reassignReason}`}
+                        </p>
+                      )}
+
+                      {(document.status === 'SENT' || document.status === 'IN_PROGRESS') &&
+                        ['PENDING', 'SENT', 'VIEWED'].includes(signer.status) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs mt-1"
+                          onClick={() => openReassign(signer.id)}
+                        >
+                          <UserPlus className="h-3 w-3 mr-1" />
+                          Reassign
+                        </Button>
+                      )}
+
+                      {isSignerSuperseded(getEffectiveSigners(document, document.signerWorkflows), signer.id) && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Not needed, another group member signed
+                        </p>
+                      )}
                       
                       {signer.signedAt && (
                         <p className="text-xs text-green-600 mt-1">
-                          Signed {formatDistanceToNow(new Date(signer.signedAt), { addSuffix: true })}
+                          Signed {signer.hostedAt && 'in person '}{formatDistanceToNow(new Date(signer.signedAt), { addSuffix: true })}
+                        </p>
+                      )}
+
+                      {signer.hostedAt && (
+                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                          <Tablet className="h-3 w-3" />
+                          Hosted by {signer.hostUser?.name || signer.hostUser?.email || 'a team member'}
+                        </p>
+                      )}
+
+                      {(signer.status === 'SENT' || signer.status === 'VIEWED') && (
+                        <div className="flex items-center gap-2 mt-1">
+                          <p className={`text-xs ${
+                            !signer.tokenExpiresAt || new Date(signer.tokenExpiresAt) < new Date()
+                              ? 'text-red-600'
+                              : 'text-gray-500'
+                          }`}>
+                            {!signer.tokenExpiresAt
+                              ? 'No active signing link'
+                              : new Date(signer.tokenExpiresAt) < new Date()
+                                ? `Link expired ${formatDistanceToNow(new Date(signer.tokenExpiresAt), { addSuffix: true })}`
+                                : `Link expires ${formatDistanceToNow(new Date(signer.tokenExpiresAt), { addSuffix: true })}`}
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => handleReissueLink(signer.id)}
+                            disabled={reissuingSignerId === signer.id}
+                          >
+                            {reissuingSignerId === signer.id ? 'Sending...' : 'Send new link'}
+                          </Button>
+                        </div>
+                      )}
+
+                      {!signer.signedAt && signer.lastReminderAt && (
+                        <p className="text-xs text-yellow-700 mt-1">
+                          {signer.reminderCount || 1} reminder{signer.reminderCount === 1 ? '' : 's'} sent, last {formatDistanceToNow(new Date(signer.lastReminderAt), { addSuffix: true })}
                         </p>
                       )}
                       
@@ -453,6 +963,63 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
             </CardContent>
           </Card>
 
+          {/* Reminder Settings */}
+          {(document.status === 'SENT' || document.status === 'IN_PROGRESS') && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Reminders
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1">
+                  <Label className="text-sm text-gray-600">Remind pending signers</Label>
+                  <Select
+                    value={String(document.reminderIntervalDays || 0)}
+                    onValueChange={(value) => handleReminderSettingsChange({ reminderIntervalDays: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REMINDER_INTERVAL_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days === 0 ? 'Never' : `Every ${days} day${days === 1 ? '' : 's'}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="text-sm text-gray-600">Notify me if a signer hasn't signed after</Label>
+                  <Select
+                    value={String(document.escalateAfterDays || 0)}
+                    onValueChange={(value) => handleReminderSettingsChange({ escalateAfterDays: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ESCALATION_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days === 0 ? 'Never' : `${days} days`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {document.expiresAt && (document.reminderIntervalDays || 0) > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Reminders stop when the document expires on {format(new Date(document.expiresAt), 'MMM d, yyyy')}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Document Info */}
           <Card>
             <CardHeader>
@@ -477,9 +1044,21 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
                   <span className="text-gray-600">Expires</span>
                   <span className={new Date(document.expiresAt) < new Date() ? 'text-red-600' : ''}>
                     {format(new Date(document.expiresAt), 'MMM d, yyyy')}
+                    {new Date(document.expiresAt) > new Date() && (document.status === 'SENT' || document.status === 'IN_PROGRESS') && (
+                      <span className="text-gray-500"> ({formatDistanceToNow(new Date(document.expiresAt), { addSuffix: true })})</span>
+                    )}
                   </span>
                 </div>
               )}
+
+              {(document.status === 'SENT' || document.status === 'IN_PROGRESS') && (
+                <div className="flex justify-end">
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={openExtendDeadline}>
+                    <Calendar className="h-3 w-3 mr-1" />
+                    {document.expiresAt ? 'Extend deadline' : 'Set deadline'}
+                  </Button>
+                </div>
+              )}
               
               <div className="flex items-center justify-between text-sm">
                 <span className="text-gray-600">Signature Fields</span>
@@ -492,21 +1071,186 @@ export function DocumentDetailsView({ documentId }: DocumentDetailsViewProps) {
               </div>
             </CardContent>
           </Card>
+
+          {/* Signer Attachments */}
+          {attachments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Paperclip className="h-5 w-5" />
+                  Signer Attachments
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {attachments.map(({ field, attachment }) => (
+                  <div key={field.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{attachment.fileName}</p>
+                      <p className="text-xs text-gray-500">
+                        {field.label || 'Attachment'} · {formatFileSize(attachment.size)}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/esignature/documents/${document.id}/attachments/${field.id}`}>
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
       {/* Audit Log */}
       <AuditLog
+        verification={auditVerification}
         entries={document.auditLogs.map(log => ({
           id: log.id,
+          sequence: log.sequence,
           action: log.action,
           description: log.description,
           timestamp: new Date(log.timestamp),
           userName: log.user?.name,
           ipAddress: log.ipAddress,
           metadata: log.metadata,
+          documentHash: log.documentHash,
+          entryHash: log.entryHash,
         }))}
       />
+
+      <InPersonSigningModal
+        isOpen={showInPerson}
+        onClose={() => setShowInPerson(false)}
+        documentId={document.id}
+        documentTitle={document.title}
+        hostName={authSession?.user?.name || authSession?.user?.email || 'the host'}
+        signers={currentGroup?.signers || []}
+        initialSignerId={inPersonSignerId}
+        onSignerFinished={() => fetchDocument(false)}
+      />
+
+      {/* Extend Deadline Dialog */}
+      <Dialog open={showExtendDialog} onOpenChange={(open) => !open && !extending && setShowExtendDialog(false)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{document.expiresAt ? 'Extend Deadline' : 'Set Deadline'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Signers who have not signed yet are emailed a new link that works until the new deadline.
+              {document.status === 'EXPIRED' && ' The document will be reopened for signing.'}
+            </p>
+            <Label htmlFor="new-deadline">Sign by</Label>
+            <Input
+              id="new-deadline"
+              type="date"
+              value={newDeadline}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setNewDeadline(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowExtendDialog(false)} disabled={extending}>
+              Cancel
+            </Button>
+            <Button onClick={handleExtendDeadline} disabled={extending || !newDeadline}>
+              {extending ? 'Saving...' : 'Save Deadline'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reassign Dialog */}
+      <Dialog open={!!reassignSignerId} onOpenChange={(open) => !open && !reassigning && setReassignSignerId(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Reassign {document.signerWorkflows.find(s => s.id === reassignSignerId)?.signerName}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              The current signer's link stops working and their fields move to the new signer.
+              Anything they already filled in is cleared.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="reassign-name">New signer name</Label>
+              <Input
+                id="reassign-name"
+                value={reassignment.signerName}
+                onChange={(e) => setReassignment({ ...reassignment, signerName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reassign-email">New signer email</Label>
+              <Input
+                id="reassign-email"
+                type="email"
+                value={reassignment.signerEmail}
+                onChange={(e) => setReassignment({ ...reassignment, signerEmail: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reassign-reason">Reason</Label>
+              <Textarea
+                id="reassign-reason"
+                value={reassignment.reason}
+                onChange={(e) => setReassignment({ ...reassignment, reason: e.target.value })}
+                placeholder="e.g. The co-owner will sign instead"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReassignSignerId(null)} disabled={reassigning}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReassignSigner}
+              disabled={reassigning || !reassignment.signerName.trim() || !reassignment.signerEmail.trim()}
+            >
+              {reassigning ? 'Reassigning...' : 'Reassign'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Dialog */}
+      <Dialog open={showVoidDialog} onOpenChange={setShowVoidDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Void Document</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Signers who have not signed yet will be emailed this reason and their links will stop working.
+              This cannot be undone.
+            </p>
+            <Label htmlFor="void-reason">Reason</Label>
+            <Textarea
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="e.g. Pricing changed, a new agreement will be sent"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowVoidDialog(false)} disabled={voiding}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleVoidDocument}
+              disabled={voiding || !voidReason.trim()}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {voiding ? 'Voiding...' : 'Void Document'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
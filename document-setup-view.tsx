@@ -9,6 +9,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PDFViewer } from './pdf-viewer';
 import { SignerSetupModal } from './signer-setup-modal';
 import { DocumentStatusBadge } from './document-status-badge';
+import { FieldLogicModal, LogicEditableField, describeField, describeFormula } from './field-logic-modal';
+import { PageOrganizerModal } from './page-organizer-modal';
 import { 
   FileText, 
   Users, 
@@ -18,8 +20,15 @@ import {
   Plus,
   AlertTriangle,
   CheckCircle,
-  Save
+  Save,
+  Copy,
+  SlidersHorizontal,
+  GitBranch,
+  Calculator,
+  FileInput,
+  LayoutGrid
 } from 'lucide-react';
+import { FieldCondition, SignatureFieldType } from '@/lib/esignature-utils';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
@@ -31,17 +40,23 @@ interface DocumentDetails {
   filePath: string;
   status: 'DRAFT' | 'SENT' | 'IN_PROGRESS' | 'COMPLETED' | 'VOIDED' | 'EXPIRED';
   createdAt: Date;
+  signingOrder?: boolean;
+  allowDelegation?: boolean;
+  correctionStartedAt?: Date;
   signerWorkflows: Array<{
     id: string;
     signerName: string;
     signerEmail: string;
     signerRole?: string;
-    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
     signingOrder: number;
+    groupMode?: 'ALL' | 'ANY';
+    authMethod?: 'NONE' | 'ACCESS_CODE' | 'EMAIL_OTP' | 'SMS_OTP';
+    signerPhone?: string;
   }>;
   signatureFields: Array<{
     id: string;
-    type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+    type: SignatureFieldType;
     label?: string;
     pageNumber: number;
     x: number;
@@ -50,12 +65,15 @@ interface DocumentDetails {
     height: number;
     required: boolean;
     signerId?: string;
+    showWhen?: FieldCondition | null;
+    formula?: string | null;
+    options?: string[];
   }>;
 }
 
 interface SignatureFieldData {
   id: string;
-  type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+  type: SignatureFieldType;
   label?: string;
   pageNumber: number;
   x: number;
@@ -64,6 +82,7 @@ interface SignatureFieldData {
   height: number;
   required: boolean;
   signerId?: string;
+  options?: string[] | null;
 }
 
 interface DocumentSetupViewProps {
@@ -76,7 +95,11 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
   const [saving, setSaving] = useState(false);
   const [sending, setSending] = useState(false);
   const [showSignerModal, setShowSignerModal] = useState(false);
+  const [showPageOrganizer, setShowPageOrganizer] = useState(false);
   const [activeTab, setActiveTab] = useState('fields');
+  const [editingField, setEditingField] = useState<LogicEditableField | null>(null);
+  const [formFields, setFormFields] = useState<Array<{ formFieldName: string; signerId: string | null }>>([]);
+  const [importingFormFields, setImportingFormFields] = useState(false);
 
   const router = useRouter();
 
@@ -94,7 +117,16 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
       }
 
       const data = await response.json();
-      setDocument(data.document);
+      // Reassigned signers handed their fields on and cannot be edited
+      setDocument({
+        ...data.document,
+        signerWorkflows: data.document.signerWorkflows.filter(
+          (signer: DocumentDetails['signerWorkflows'][number]) => signer.status !== 'REASSIGNED'
+        ),
+      });
+      if (data.document.status === 'DRAFT') {
+        fetchFormFields();
+      }
     } catch (error) {
       console.error('Error fetching document:', error);
       toast.error('Failed to load document details');
@@ -103,6 +135,45 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
     }
   };
 
+  // Fillable fields already in the PDF that can be imported instead of drawn
+  const fetchFormFields = async () => {
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/fields/import`);
+      if (!response.ok) {
+        setFormFields([]);
+        return;
+      }
+
+      const data = await response.json();
+      setFormFields(data.fields);
+    } catch (error) {
+      console.error('Error reading form fields:', error);
+    }
+  };
+
+  const handleImportFormFields = async () => {
+    try {
+      setImportingFormFields(true);
+      const response = await fetch(`/api/esignature/documents/${documentId}/fields/import`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to import form fields');
+      }
+
+      const { imported, assigned } = await response.json();
+      toast.success(`Imported ${imported} field${imported === 1 ? '' : 's'}, ${assigned} assigned to signers`);
+      await fetchDocument();
+    } catch (error) {
+      console.error('Error importing form fields:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import form fields');
+    } finally {
+      setImportingFormFields(false);
+    }
+  };
+
   const handleFieldAdd = async (field: Omit<SignatureFieldData, 'id'>) => {
     try {
       const response = await fetch(`/api/esignature/documents/${documentId}/fields`, {
@@ -177,7 +248,9 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
         throw new Error(error.error || 'Failed to send document');
       }
 
-      toast.success('Document sent for signing successfully');
+      toast.success(document.correctionStartedAt
+        ? 'Corrected document sent. Only signers affected by your changes will sign again.'
+        : 'Document sent for signing successfully');
       router.push(`/esignatures/${document.id}`);
     } catch (error) {
       console.error('Error sending document:', error);
@@ -187,6 +260,44 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
     }
   };
 
+  const handleSaveAsTemplate = async () => {
+    if (!document) return;
+
+    if (document.signerWorkflows.length === 0 || document.signatureFields.length === 0) {
+      toast.error('Add signers and fields before saving a template');
+      return;
+    }
+
+    const name = prompt('Template name:', document.title);
+    if (!name?.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/esignature/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          documentId: document.id,
+          name: name.trim(),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save template');
+      }
+
+      toast.success('Template saved. Fields are assigned by signer role.');
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const getSetupProgress = () => {
     if (!document) return { completed: 0, total: 3, items: [] };
 
@@ -292,17 +403,49 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
               Preview
             </Link>
           </Button>
+
+          <Button variant="outline" onClick={() => setShowPageOrganizer(true)}>
+            <LayoutGrid className="h-4 w-4 mr-2" />
+            Organize Pages
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={handleSaveAsTemplate}
+            disabled={saving}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Save as Template
+          </Button>
           
           <Button 
             onClick={handleSendDocument}
             disabled={sending || progress.completed < progress.total}
           >
             <Send className="h-4 w-4 mr-2" />
-            {sending ? 'Sending...' : 'Send for Signing'}
+            {sending ? 'Sending...' : document.correctionStartedAt ? 'Resend Corrected Document' : 'Send for Signing'}
           </Button>
         </div>
       </div>
 
+      {/* Correction Banner */}
+      {document.correctionStartedAt && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              <div>
+                <p className="font-medium text-orange-900">Correcting a sent document</p>
+                <p className="text-sm text-orange-700">
+                  Signatures on pages you leave unchanged are kept. Signers with fields on changed
+                  pages will be asked to sign again when you resend.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Setup Progress */}
       <Card>
         <CardHeader>
@@ -367,6 +510,19 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
                   </p>
                 </CardHeader>
                 <CardContent>
+                  {formFields.length > 0 && (
+                    <div className="flex items-center gap-3 rounded-md border border-blue-200 bg-blue-50 p-3 mb-4">
+                      <FileInput className="h-5 w-5 text-blue-600 shrink-0" />
+                      <p className="flex-1 text-sm text-blue-800">
+                        This PDF has {formFields.length} fillable form field{formFields.length === 1 ? '' : 's'}
+                        {' '}({formFields.filter(field => field.signerId).length} matched to signers by name).
+                        {document.signerWorkflows.length === 0 && ' Add signers first to have fields assigned automatically.'}
+                      </p>
+                      <Button size="sm" onClick={handleImportFormFields} disabled={importingFormFields}>
+                        {importingFormFields ? 'Importing...' : 'Import'}
+                      </Button>
+                    </div>
+                  )}
                   {document.signatureFields.length === 0 ? (
                     <div className="text-center py-6">
                       <FileText className="h-8 w-8 mx-auto text-gray-400 mb-2" />
@@ -375,8 +531,7 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
                       </p>
                     </div>
                   ) : (
-                    <div className="space-y-2">
-                      <p className="text-sm font-medium">Fields by page:</p>
+                    <div className="space-y-3">
                       {Object.entries(
                         document.signatureFields.reduce((acc, field) => {
                           const page = field.pageNumber;
@@ -385,11 +540,38 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
                           return acc;
                         }, {} as Record<number, typeof document.signatureFields>)
                       ).map(([page, fields]) => (
-                        <div key={page} className="text-sm">
-                          <span className="font-medium">Page {page}:</span>
-                          <span className="ml-2 text-gray-600">
-                            {fields.length} field{fields.length !== 1 ? 's' : ''}
-                          </span>
+                        <div key={page} className="text-sm space-y-1">
+                          <p className="font-medium">Page {page}</p>
+                          {fields.map(field => (
+                            <div key={field.id} className="flex items-center gap-2 pl-2">
+                              <span className="flex-1 truncate text-gray-600">
+                                {field.label || field.type.toLowerCase()}
+                              </span>
+                              {field.showWhen && (
+                                <span
+                                  title={`Shown only when ${describeField(
+                                    document.signatureFields.find(f => f.id === field.showWhen!.fieldId) || field
+                                  )} matches`}
+                                >
+                                  <GitBranch className="h-3 w-3 text-purple-500" />
+                                </span>
+                              )}
+                              {field.formula && (
+                                <span title={`= ${describeFormula(field.formula, document.signatureFields)}`}>
+                                  <Calculator className="h-3 w-3 text-purple-500" />
+                                </span>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                onClick={() => setEditingField(field)}
+                                title="Field settings"
+                              >
+                                <SlidersHorizontal className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -484,12 +666,33 @@ export function DocumentSetupView({ documentId }: DocumentSetupViewProps) {
         </div>
       </div>
 
+      <FieldLogicModal
+        isOpen={!!editingField}
+        onClose={() => setEditingField(null)}
+        documentId={documentId}
+        field={editingField}
+        allFields={document.signatureFields}
+        signers={document.signerWorkflows}
+        onSaved={fetchDocument}
+      />
+
+      <PageOrganizerModal
+        isOpen={showPageOrganizer}
+        onClose={() => setShowPageOrganizer(false)}
+        documentId={documentId}
+        fileUrl={document.filePath}
+        signatureFields={document.signatureFields}
+        onSaved={fetchDocument}
+      />
+
       {/* Signer Setup Modal */}
       <SignerSetupModal
         isOpen={showSignerModal}
         onClose={() => setShowSignerModal(false)}
         documentId={documentId}
         existingSigners={document.signerWorkflows}
+        sequentialSigning={!!document.signingOrder}
+        allowDelegation={!!document.allowDelegation}
         onSignersUpdate={fetchDocument}
       />
     </div>
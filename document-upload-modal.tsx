@@ -1,57 +1,89 @@
 
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
-import { Upload, FileText, X, CheckCircle } from 'lucide-react';
+import { Upload, FileText, Image as ImageIcon, X, CheckCircle, RotateCcw, ArrowUp, ArrowDown } from 'lucide-react';
 import { toast } from 'sonner';
 import { useDropzone } from 'react-dropzone';
+import {
+  createPackageDocument,
+  discardPendingUpload,
+  listPendingUploads,
+  PendingUpload,
+  uploadResumable,
+} from '@/lib/esignature-resumable-upload';
+
+/** Matches MAX_PACKAGE_PARTS on the server */
+const MAX_FILES = 20;
 
 interface DocumentUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onUpload: (documentData: {
-    title: string;
-    description?: string;
-    file: File;
-    dealId?: string;
-    contactId?: string;
-  }) => Promise<void>;
+  /** Called once the server has accepted the file and created the document */
+  onUploaded: (document: { id: string; title: string }) => void | Promise<void>;
   dealId?: string;
   contactId?: string;
+  /** Upload the file as a new version of this document */
+  supersedes?: { id: string; title: string; version: number };
 }
 
 export function DocumentUploadModal({
   isOpen,
   onClose,
-  onUpload,
+  onUploaded,
   dealId,
-  contactId
+  contactId,
+  supersedes
 }: DocumentUploadModalProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [bytesSent, setBytesSent] = useState(0);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPendingUploads(listPendingUploads());
+      if (supersedes) setTitle(supersedes.title);
+    }
+  }, [isOpen, supersedes]);
+
+  // Several files, or any image, are uploaded as parts and merged on the server
+  const isPackage = files.length > 1 || files.some(file => file.type !== 'application/pdf');
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+  const resumableFor = (file: File) =>
+    pendingUploads.find(upload => upload.fileName === file.name && upload.size === file.size);
+  const resumable = files.some(file => resumableFor(file));
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      'image/png': ['.png'],
+      'image/jpeg': ['.jpg', '.jpeg']
     },
-    maxFiles: 1,
+    maxFiles: MAX_FILES,
     maxSize: 50 * 1024 * 1024, // 50MB limit
+    disabled: isUploading,
     onDrop: (acceptedFiles, rejectedFiles) => {
       if (rejectedFiles.length > 0) {
         const rejection = rejectedFiles[0];
         if (rejection.errors.some(error => error.code === 'file-too-large')) {
           toast.error('File size must be less than 50MB');
         } else if (rejection.errors.some(error => error.code === 'file-invalid-type')) {
-          toast.error('Only PDF files are allowed');
+          toast.error('Only PDF, JPG and PNG files are allowed');
+        } else if (rejection.errors.some(error => error.code === 'too-many-files')) {
+          toast.error(`You can combine at most ${MAX_FILES} files`);
         } else {
           toast.error('Invalid file. Please try again.');
         }
@@ -59,113 +91,133 @@ export function DocumentUploadModal({
       }
 
       if (acceptedFiles.length > 0) {
-        const file = acceptedFiles[0];
-        setSelectedFile(file);
+        if (files.length + acceptedFiles.length > MAX_FILES) {
+          toast.error(`You can combine at most ${MAX_FILES} files`);
+          return;
+        }
+        setFiles([...files, ...acceptedFiles]);
         if (!title) {
-          setTitle(file.name.replace('.pdf', ''));
+          const first = files[0] || acceptedFiles[0];
+          setTitle(resumableFor(first)?.title || first.name.replace(/\.[^.]+$/, ''));
         }
-        toast.success('File selected successfully');
+        toast.success(acceptedFiles.length > 1 ? `${acceptedFiles.length} files added` : 'File selected successfully');
       }
     }
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    console.log('🚀 Upload modal handleSubmit called', {
-      hasFile: !!selectedFile,
-      fileName: selectedFile?.name,
-      title: title.trim(),
-      onUpload: typeof onUpload
-    });
-    
-    if (!selectedFile) {
-      console.log('❌ No file selected');
-      toast.error('Please select a PDF file');
+
+    if (files.length === 0) {
+      toast.error('Please select a file');
       return;
     }
 
     if (!title.trim()) {
-      console.log('❌ No title provided');
       toast.error('Please enter a document title');
       return;
     }
 
-    console.log('✅ Starting upload process...');
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsUploading(true);
-    setUploadProgress(0);
+    setRetryAttempt(0);
+
+    const metadata = {
+      title: title.trim(),
+      description: description.trim() || undefined,
+      dealId,
+      contactId,
+      supersedesId: supersedes?.id,
+    };
 
     try {
-      console.log('📝 Creating upload data object...');
-      const uploadData = {
-        title: title.trim(),
-        description: description.trim() || undefined,
-        file: selectedFile,
-        dealId,
-        contactId
-      };
-      console.log('📦 Upload data:', {
-        title: uploadData.title,
-        description: uploadData.description,
-        fileName: uploadData.file.name,
-        fileSize: uploadData.file.size,
-        dealId: uploadData.dealId,
-        contactId: uploadData.contactId
-      });
-
-      // Simulate upload progress
-      console.log('⏳ Starting progress simulation...');
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return prev;
-          }
-          return prev + 10;
+      const uploadIds: string[] = [];
+      let documentId: string | null = null;
+      let completedBytes = 0;
+
+      for (const file of files) {
+        const result = await uploadResumable({
+          file,
+          metadata,
+          packagePart: isPackage,
+          signal: controller.signal,
+          onProgress: sent => {
+            setBytesSent(completedBytes + sent);
+            setUploadProgress(Math.floor(((completedBytes + sent) / totalSize) * 100));
+            setRetryAttempt(0);
+          },
+          onRetry: attempt => setRetryAttempt(attempt),
         });
-      }, 200);
+        uploadIds.push(result.uploadId);
+        documentId = result.documentId;
+        completedBytes += file.size;
+      }
 
-      console.log('🔄 Calling onUpload function...');
-      await onUpload(uploadData);
+      if (isPackage) {
+        documentId = (await createPackageDocument(uploadIds, metadata)).id;
+      }
 
-      console.log('✅ Upload completed successfully');
-      clearInterval(progressInterval);
-      setUploadProgress(100);
+      await onUploaded({ id: documentId!, title: title.trim() });
 
       // Reset form
       setTitle('');
       setDescription('');
-      setSelectedFile(null);
+      setFiles([]);
       setUploadProgress(0);
-      
-      toast.success('Document uploaded successfully');
+      setBytesSent(0);
+
+      toast.success(supersedes ? `Version ${supersedes.version + 1} uploaded` : 'Document uploaded successfully');
       onClose();
     } catch (error) {
-      console.error('❌ Upload error occurred:', error);
-      console.error('❌ Error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : 'No stack trace'
-      });
-      toast.error('Failed to upload document');
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        toast.info(isPackage
+          ? 'Upload paused. Select the same files again to resume.'
+          : 'Upload paused. Select the same file again to resume.');
+        setPendingUploads(listPendingUploads());
+      } else {
+        console.error('Upload error:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to upload document');
+      }
     } finally {
-      console.log('🏁 Upload process finished, resetting state...');
+      abortRef.current = null;
       setIsUploading(false);
+      setRetryAttempt(0);
     }
   };
 
+  const handleDiscardPending = async (upload: PendingUpload) => {
+    await discardPendingUpload(upload);
+    setPendingUploads(listPendingUploads());
+  };
+
   const handleClose = () => {
     if (!isUploading) {
       setTitle('');
       setDescription('');
-      setSelectedFile(null);
+      setFiles([]);
       setUploadProgress(0);
+      setBytesSent(0);
       onClose();
     }
   };
 
-  const removeFile = () => {
-    setSelectedFile(null);
+  const handleCancelUpload = () => {
+    abortRef.current?.abort();
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(files.filter((_, position) => position !== index));
     setUploadProgress(0);
+    setBytesSent(0);
+  };
+
+  const moveFile = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= files.length) return;
+    const reordered = [...files];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setFiles(reordered);
   };
 
   const formatFileSize = (bytes: number) => {
@@ -180,72 +232,135 @@ export function DocumentUploadModal({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Upload Document for E-Signature</DialogTitle>
+          <DialogTitle>
+            {supersedes ? `Upload New Version of "${supersedes.title}"` : 'Upload Document for E-Signature'}
+          </DialogTitle>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* File Upload Area */}
           <div className="space-y-4">
-            <Label>Document File (PDF)</Label>
-            
-            {!selectedFile ? (
-              <div
-                {...getRootProps()}
-                className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
-                  isDragActive 
-                    ? 'border-blue-500 bg-blue-50' 
-                    : 'border-gray-300 hover:border-gray-400'
-                }`}
-              >
-                <input {...getInputProps()} />
-                <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                <div className="space-y-2">
-                  <p className="text-lg font-medium">
-                    {isDragActive ? 'Drop the PDF here' : 'Upload PDF Document'}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Drag and drop your PDF file here, or click to browse
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    Maximum file size: 50MB
-                  </p>
-                </div>
-              </div>
-            ) : (
-              <Card className="p-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <FileText className="h-8 w-8 text-red-500" />
-                    <div>
-                      <p className="font-medium">{selectedFile.name}</p>
-                      <p className="text-sm text-gray-600">
-                        {formatFileSize(selectedFile.size)}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  {!isUploading && (
+            <Label>Document Files (PDF, JPG or PNG)</Label>
+
+            {files.length === 0 && pendingUploads.length > 0 && (
+              <Card className="p-4 bg-amber-50 border-amber-200 space-y-2">
+                <p className="text-sm font-medium text-amber-900">
+                  Unfinished uploads — select the same files again to continue where they stopped
+                </p>
+                {pendingUploads.map(upload => (
+                  <div key={upload.fingerprint} className="flex items-center justify-between text-sm text-amber-800">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <RotateCcw className="h-4 w-4 flex-shrink-0" />
+                      <span className="truncate">{upload.fileName}</span>
+                      <span className="text-amber-600 flex-shrink-0">
+                        {Math.floor((upload.offset / upload.size) * 100)}% of {formatFileSize(upload.size)}
+                      </span>
+                    </span>
                     <Button
                       type="button"
                       variant="ghost"
                       size="sm"
-                      onClick={removeFile}
-                      className="text-red-500 hover:text-red-700"
+                      onClick={() => handleDiscardPending(upload)}
+                      className="text-amber-700 hover:text-amber-900"
                     >
-                      <X className="h-4 w-4" />
+                      Discard
                     </Button>
-                  )}
+                  </div>
+                ))}
+              </Card>
+            )}
+            
+            {files.length > 0 && (
+              <Card className="p-4">
+                <div className="space-y-3">
+                  {files.map((file, index) => {
+                    const pending = resumableFor(file);
+                    return (
+                      <div key={`${file.name}:${file.size}:${file.lastModified}`} className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          {file.type === 'application/pdf'
+                            ? <FileText className="h-8 w-8 flex-shrink-0 text-red-500" />
+                            : <ImageIcon className="h-8 w-8 flex-shrink-0 text-blue-500" />}
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">
+                              {files.length > 1 && <span className="text-gray-500">{index + 1}. </span>}
+                              {file.name}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {formatFileSize(file.size)}
+                              {pending && !isUploading && (
+                                <span className="text-amber-700">
+                                  {' '}• resumes from {Math.floor((pending.offset / pending.size) * 100)}%
+                                </span>
+                              )}
+                            </p>
+                          </div>
+                        </div>
+
+                        {!isUploading && (
+                          <div className="flex items-center flex-shrink-0">
+                            {files.length > 1 && (
+                              <>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveFile(index, -1)}
+                                  disabled={index === 0}
+                                  aria-label={`Move ${file.name} up`}
+                                >
+                                  <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveFile(index, 1)}
+                                  disabled={index === files.length - 1}
+                                  aria-label={`Move ${file.name} down`}
+                                >
+                                  <ArrowDown className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeFile(index)}
+                              className="text-red-500 hover:text-red-700"
+                              aria-label={`Remove ${file.name}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
 
+                {isPackage && !isUploading && (
+                  <p className="mt-3 text-xs text-gray-500">
+                    The files will be combined, in this order, into one PDF. Images become one page each.
+                  </p>
+                )}
+
                 {isUploading && (
                   <div className="mt-4">
                     <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
-                      <span>Uploading...</span>
+                      <span>
+                        {retryAttempt > 0
+                          ? `Connection lost, retrying (attempt ${retryAttempt})...`
+                          : uploadProgress === 100
+                            ? isPackage ? 'Combining files...' : 'Checking document...'
+                            : `Uploading... ${formatFileSize(bytesSent)} of ${formatFileSize(totalSize)}`}
+                      </span>
                       <span>{uploadProgress}%</span>
                     </div>
                     <div className="w-full bg-gray-200 rounded-full h-2">
                       <div 
-                        className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                        className="bg-blue-600 h-2 rounded-full transition-all duration-150"
                         style={{ width: `${uploadProgress}%` }}
                       />
                     </div>
@@ -253,6 +368,41 @@ export function DocumentUploadModal({
                 )}
               </Card>
             )}
+
+            {!isUploading && files.length < MAX_FILES && (
+              <div
+                {...getRootProps()}
+                className={`border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+                  files.length > 0 ? 'p-4' : 'p-8'
+                } ${
+                  isDragActive 
+                    ? 'border-blue-500 bg-blue-50' 
+                    : 'border-gray-300 hover:border-gray-400'
+                }`}
+              >
+                <input {...getInputProps()} />
+                {files.length > 0 ? (
+                  <p className="text-sm text-gray-600">
+                    {isDragActive ? 'Drop the files here' : 'Add more PDFs or images to combine into this document'}
+                  </p>
+                ) : (
+                  <>
+                    <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                    <div className="space-y-2">
+                      <p className="text-lg font-medium">
+                        {isDragActive ? 'Drop the files here' : 'Upload PDF Document'}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        Drag and drop PDFs or JPG/PNG images here, or click to browse. Several files are combined in order.
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Maximum file size: 50MB
+                      </p>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Document Details */}
@@ -284,6 +434,15 @@ export function DocumentUploadModal({
             </div>
           </div>
 
+          {supersedes && (
+            <Card className="p-4 bg-amber-50 border-amber-200">
+              <p className="text-sm text-amber-800">
+                This upload becomes version {supersedes.version + 1}. Version {supersedes.version} stays in the
+                document&apos;s history and can be compared with the new file.
+              </p>
+            </Card>
+          )}
+
           {/* Context Information */}
           {(dealId || contactId) && (
             <Card className="p-4 bg-blue-50 border-blue-200">
@@ -307,24 +466,15 @@ export function DocumentUploadModal({
             <Button 
               type="button" 
               variant="outline" 
-              onClick={handleClose}
-              disabled={isUploading}
+              onClick={isUploading ? handleCancelUpload : handleClose}
             >
-              Cancel
+              {isUploading ? 'Pause' : 'Cancel'}
             </Button>
             <Button 
               type="submit"
-              disabled={!selectedFile || !title.trim() || isUploading}
-              onClick={(e) => {
-                console.log('🖱️ Upload button clicked!', {
-                  hasFile: !!selectedFile,
-                  hasTitle: !!title.trim(),
-                  isUploading,
-                  isDisabled: !selectedFile || !title.trim() || isUploading
-                });
-              }}
+              disabled={files.length === 0 || !title.trim() || isUploading}
             >
-              {isUploading ? 'Uploading...' : 'Upload & Continue'}
+              {isUploading ? 'Uploading...' : resumable ? 'Resume Upload' : 'Upload & Continue'}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { pdfjs } from 'react-pdf';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+
+pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+
+/** Width pages are rendered at for comparison, in CSS pixels */
+const RENDER_WIDTH = 700;
+
+/** Per-channel difference below which pixels count as equal (absorbs anti-aliasing noise) */
+const CHANNEL_TOLERANCE = 24;
+
+type PDFDocumentProxy = Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+
+export interface DiffVersion {
+  filePath: string;
+  version: number;
+}
+
+type PageDiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+interface PageDiff {
+  pageNumber: number;
+  status: PageDiffStatus;
+  /** Share of pixels that differ, 0-1 */
+  changedRatio: number;
+  beforeImage?: string;
+  /** The newer page with changed pixels highlighted */
+  afterImage?: string;
+}
+
+async function renderPage(pdf: PDFDocumentProxy, pageNumber: number) {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: RENDER_WIDTH / base.width });
+
+  const canvas = window.document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+
+  return canvas;
+}
+
+/**
+ * Compare two rendered pages pixel by pixel. Changed pixels are painted red
+ * on a faded copy of the newer page so edits stand out.
+ */
+function comparePages(before: HTMLCanvasElement, after: HTMLCanvasElement) {
+  if (before.width !== after.width || before.height !== after.height) {
+    return { changedRatio: 1, highlighted: after.toDataURL() };
+  }
+
+  const beforeData = before.getContext('2d')!.getImageData(0, 0, before.width, before.height).data;
+  const afterContext = after.getContext('2d')!;
+  const image = afterContext.getImageData(0, 0, after.width, after.height);
+  const pixels = image.data;
+  let changed = 0;
+
+  for (let index = 0; index < pixels.length; index += 4) {
+    const differs =
+      Math.abs(pixels[index] - beforeData[index]) > CHANNEL_TOLERANCE ||
+      Math.abs(pixels[index + 1] - beforeData[index + 1]) > CHANNEL_TOLERANCE ||
+      Math.abs(pixels[index + 2] - beforeData[index + 2]) > CHANNEL_TOLERANCE;
+
+    if (differs) {
+      changed++;
+      pixels[index] = 239;
+      pixels[index + 1] = 68;
+      pixels[index + 2] = 68;
+    } else {
+      // Fade unchanged content toward white
+      pixels[index] = 255 - (255 - pixels[index]) * 0.35;
+      pixels[index + 1] = 255 - (255 - pixels[index + 1]) * 0.35;
+      pixels[index + 2] = 255 - (255 - pixels[index + 2]) * 0.35;
+    }
+  }
+
+  if (changed === 0) {
+    return { changedRatio: 0, highlighted: undefined };
+  }
+
+  afterContext.putImageData(image, 0, 0);
+  return { changedRatio: changed / (pixels.length / 4), highlighted: after.toDataURL() };
+}
+
+const STATUS_STYLES: Record<PageDiffStatus, { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  changed: { label: 'Changed', className: 'bg-red-100 text-red-800' },
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-orange-100 text-orange-800' },
+};
+
+interface DocumentVersionDiffProps {
+  before: DiffVersion;
+  after: DiffVersion;
+}
+
+/**
+ * Page-by-page visual comparison of two versions of a document
+ */
+export function DocumentVersionDiff({ before, after }: DocumentVersionDiffProps) {
+  const [pages, setPages] = useState<PageDiff[]>([]);
+  const [pageTotal, setPageTotal] = useState(0);
+  const [comparing, setComparing] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const beforeTask = pdfjs.getDocument(before.filePath);
+    const afterTask = pdfjs.getDocument(after.filePath);
+
+    const compare = async () => {
+      setPages([]);
+      setError(null);
+      setComparing(true);
+
+      const [beforePdf, afterPdf] = await Promise.all([beforeTask.promise, afterTask.promise]);
+      const total = Math.max(beforePdf.numPages, afterPdf.numPages);
+      setPageTotal(total);
+
+      // Pages are compared one at a time so large documents stay responsive
+      for (let pageNumber = 1; pageNumber <= total && !cancelled; pageNumber++) {
+        let diff: PageDiff;
+        if (pageNumber > beforePdf.numPages) {
+          const canvas = await renderPage(afterPdf, pageNumber);
+          diff = { pageNumber, status: 'added', changedRatio: 1, afterImage: canvas.toDataURL() };
+        } else if (pageNumber > afterPdf.numPages) {
+          const canvas = await renderPage(beforePdf, pageNumber);
+          diff = { pageNumber, status: 'removed', changedRatio: 1, beforeImage: canvas.toDataURL() };
+        } else {
+          const beforeCanvas = await renderPage(beforePdf, pageNumber);
+          const afterCanvas = await renderPage(afterPdf, pageNumber);
+          const beforeImage = beforeCanvas.toDataURL();
+          const { changedRatio, highlighted } = comparePages(beforeCanvas, afterCanvas);
+          diff = changedRatio === 0
+            ? { pageNumber, status: 'unchanged', changedRatio, beforeImage }
+            : { pageNumber, status: 'changed', changedRatio, beforeImage, afterImage: highlighted };
+        }
+
+        if (!cancelled) {
+          setPages(current => [...current, diff]);
+        }
+      }
+    };
+
+    compare()
+      .catch(compareError => {
+        console.error('Error comparing versions:', compareError);
+        if (!cancelled) setError('The versions could not be compared');
+      })
+      .finally(() => {
+        if (!cancelled) setComparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      beforeTask.destroy();
+      afterTask.destroy();
+    };
+  }, [before.filePath, after.filePath]);
+
+  const differences = pages.filter(page => page.status !== 'unchanged');
+  const visiblePages = showUnchanged ? pages : differences;
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-700">
+        <AlertTriangle className="h-4 w-4" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          {comparing ? (
+            <span className="text-gray-600">
+              Comparing page {Math.min(pages.length + 1, pageTotal || 1)} of {pageTotal || '...'}
+            </span>
+          ) : differences.length === 0 ? (
+            <span className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              Version {after.version} is visually identical to version {before.version}
+            </span>
+          ) : (
+            <span className="flex items-center gap-2 text-red-700">
+              <AlertTriangle className="h-4 w-4" />
+              {differences.length} of {pageTotal} page{pageTotal === 1 ? '' : 's'} differ between version {before.version} and version {after.version}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+          <Label htmlFor="show-unchanged" className="text-sm">Show unchanged pages</Label>
+        </div>
+      </div>
+
+      {visiblePages.map(page => (
+        <div key={page.pageNumber} className="border rounded-lg p-3">
+          <div className="flex items-center gap-2 mb-3">
+            <span className="font-medium text-sm">Page {page.pageNumber}</span>
+            <Badge className={STATUS_STYLES[page.status].className}>{STATUS_STYLES[page.status].label}</Badge>
+            {page.status === 'changed' && (
+              <span className="text-xs text-gray-500">
+                {page.changedRatio < 0.001 ? '<0.1' : (page.changedRatio * 100).toFixed(1)}% of the page
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Version {before.version}</p>
+              {page.beforeImage ? (
+                <img src={page.beforeImage} alt={`Page ${page.pageNumber}, version ${before.version}`} className="w-full border" />
+              ) : (
+                <div className="h-full min-h-32 border border-dashed flex items-center justify-center text-xs text-gray-400">
+                  No page
+                </div>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">
+                Version {after.version}{page.status === 'changed' && ' (changes in red)'}
+              </p>
+              {page.afterImage || page.status === 'unchanged' ? (
+                <img
+                  src={page.afterImage || page.beforeImage}
+                  alt={`Page ${page.pageNumber}, version ${after.version}`}
+                  className="w-full border"
+                />
+              ) : (
+                <div className="h-full min-h-32 border border-dashed flex items-center justify-center text-xs text-gray-400">
+                  No page
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DocumentStatusBadge } from './document-status-badge';
+import { DocumentVersionDiff } from './document-version-diff';
+import { GitCompare, History, Eye } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+interface DocumentVersion {
+  id: string;
+  title: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number | null;
+  documentHash: string | null;
+  status: 'DRAFT' | 'SENT' | 'IN_PROGRESS' | 'COMPLETED' | 'VOIDED' | 'EXPIRED';
+  version: number;
+  createdAt: Date;
+  supersededAt: Date | null;
+  uploadedBy: { name: string | null; email: string } | null;
+}
+
+interface DocumentVersionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string | null;
+}
+
+export function DocumentVersionsModal({ isOpen, onClose, documentId }: DocumentVersionsModalProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<[DocumentVersion, DocumentVersion] | null>(null);
+
+  useEffect(() => {
+    if (isOpen && documentId) {
+      fetchVersions(documentId);
+    } else {
+      setComparing(null);
+    }
+  }, [isOpen, documentId]);
+
+  const fetchVersions = async (id: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/esignature/documents/${id}/versions`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch versions');
+      }
+
+      const data = await response.json();
+      setVersions(data.versions);
+      // The two newest versions are the usual comparison
+      setSelected(data.versions.slice(0, 2).map((version: DocumentVersion) => version.id));
+    } catch (error) {
+      console.error('Error fetching versions:', error);
+      toast.error('Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    if (selected.includes(id)) {
+      setSelected(selected.filter(current => current !== id));
+    } else {
+      // Keep the most recent pick plus the new one
+      setSelected([...selected.slice(-1), id]);
+    }
+  };
+
+  const handleCompare = () => {
+    const [first, second] = versions
+      .filter(version => selected.includes(version.id))
+      .sort((a, b) => a.version - b.version);
+    setComparing([first, second]);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {comparing
+              ? `Comparing version ${comparing[0].version} with version ${comparing[1].version}`
+              : 'Version History'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {comparing ? (
+          <div className="space-y-4">
+            <Button variant="outline" size="sm" onClick={() => setComparing(null)}>
+              Back to versions
+            </Button>
+            <DocumentVersionDiff before={comparing[0]} after={comparing[1]} />
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {versions.map(version => (
+                <div
+                  key={version.id}
+                  className={`flex items-center gap-3 p-3 border rounded-lg ${
+                    version.id === documentId ? 'border-blue-200 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  {versions.length > 1 && (
+                    <Checkbox
+                      checked={selected.includes(version.id)}
+                      onCheckedChange={() => toggleSelected(version.id)}
+                      aria-label={`Compare version ${version.version}`}
+                    />
+                  )}
+                  <Badge variant="outline">v{version.version}</Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {version.title}
+                      {!version.supersededAt && (
+                        <span className="ml-2 text-xs font-normal text-green-700">Current</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-600 truncate">
+                      {version.fileName} • uploaded by {version.uploadedBy?.name || version.uploadedBy?.email || 'unknown'} on{' '}
+                      {format(new Date(version.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                    </p>
+                    {version.documentHash && (
+                      <p className="text-xs text-gray-400 font-mono truncate" title={version.documentHash}>
+                        SHA-256 {version.documentHash.slice(0, 16)}…
+                      </p>
+                    )}
+                  </div>
+                  <DocumentStatusBadge status={version.status} />
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link href={`/esignatures/${version.id}`}>
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 ? (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">Select two versions to see what changed between them.</p>
+                <Button onClick={handleCompare} disabled={selected.length !== 2}>
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Compare
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                This is the only version. Upload a new version from the document menu to start a history.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
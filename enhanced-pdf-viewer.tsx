@@ -33,13 +33,42 @@ import {
 import { SignaturePad } from './signature-pad';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { parseAttachmentValue, SignatureFieldType } from '@/lib/esignature-utils';
 
 // Set up PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
 
+/** Label and size (percent of the page) of a newly dropped field */
+const NEW_FIELD_DEFAULTS: Record<SignatureFieldType, { label: string; width: number; height: number }> = {
+  SIGNATURE: { label: 'Signature', width: 20, height: 8 },
+  INITIALS: { label: 'Initials', width: 10, height: 5 },
+  DATE: { label: 'Date', width: 15, height: 5 },
+  TEXT: { label: 'Text Field', width: 10, height: 5 },
+  CHECKBOX: { label: 'Checkbox', width: 10, height: 5 },
+  DROPDOWN: { label: 'Dropdown', width: 20, height: 5 },
+  RADIO: { label: 'Radio Group', width: 20, height: 10 },
+  ATTACHMENT: { label: 'Attachment', width: 20, height: 5 },
+  NAME: { label: 'Name', width: 20, height: 5 },
+  EMAIL: { label: 'Email', width: 20, height: 5 },
+  COMPANY: { label: 'Company', width: 20, height: 5 },
+};
+
+const FIELD_PLACEHOLDERS: Partial<Record<SignatureFieldType, string>> = {
+  SIGNATURE: 'Sign',
+  INITIALS: 'Init',
+  DATE: 'Date',
+  TEXT: 'Text',
+  DROPDOWN: 'Select',
+  RADIO: 'Choose',
+  ATTACHMENT: 'Attach',
+  NAME: 'Name',
+  EMAIL: 'Email',
+  COMPANY: 'Company',
+};
+
 interface SignatureFieldData {
   id: string;
-  type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+  type: SignatureFieldType;
   label?: string;
   pageNumber: number;
   x: number; // percentage
@@ -50,19 +79,120 @@ interface SignatureFieldData {
   signerId?: string;
   value?: string;
   isSigned?: boolean;
+  formula?: string | null;
+  options?: string[] | null;
+}
+
+interface HighlightRect {
+  x: number; // percentage
+  y: number; // percentage
+  width: number; // percentage
+  height: number; // percentage
 }
 
 interface SearchResult {
   pageNumber: number;
+  /** A match that wraps onto another line or text run has one rect per run */
   matches: Array<{
     text: string;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
+    rects: HighlightRect[];
   }>;
 }
 
+interface SearchOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+/** A page's text runs, positioned as percentages of the unrotated page */
+interface PageText {
+  text: string;
+  runs: Array<HighlightRect & { start: number; end: number }>;
+}
+
+/** The parts of pdf.js's document proxy the search needs */
+interface PDFTextSource {
+  numPages: number;
+  getPage(pageNumber: number): Promise<any>;
+}
+
+/**
+ * Extract a page's text with pdf.js. Runs are joined into one string (with a
+ * newline where pdf.js reports a line end) so matches can span runs.
+ */
+async function extractPageText(pdf: PDFTextSource, pageNumber: number): Promise<PageText> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  let text = '';
+  const runs: PageText['runs'] = [];
+  for (const item of content.items) {
+    if (typeof item.str !== 'string') continue; // marked content
+
+    if (item.str) {
+      // Same transform the pdf.js text layer uses to place its spans
+      const [, , c, d, e, f] = pdfjs.Util.transform(viewport.transform, item.transform);
+      const fontHeight = Math.hypot(c, d);
+      runs.push({
+        start: text.length,
+        end: text.length + item.str.length,
+        x: (e / viewport.width) * 100,
+        y: ((f - fontHeight) / viewport.height) * 100,
+        width: ((item.width * viewport.scale) / viewport.width) * 100,
+        height: (fontHeight / viewport.height) * 100,
+      });
+      text += item.str;
+    }
+    if (item.hasEOL) text += '\n';
+  }
+
+  return { text, runs };
+}
+
+function buildSearchPattern(query: string, { matchCase, wholeWord }: SearchOptions) {
+  const escaped = query
+    .trim()
+    .split(/\s+/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped;
+  return new RegExp(source, matchCase ? 'gu' : 'giu');
+}
+
+/**
+ * Find every match on a page and the highlight rects covering it. A run's
+ * characters are assumed to be evenly spaced, which is close enough to
+ * highlight words in proportional fonts.
+ */
+function findPageMatches(pageText: PageText, pattern: RegExp): SearchResult['matches'] {
+  const matches: SearchResult['matches'] = [];
+
+  for (const match of pageText.text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const rects = pageText.runs
+      .filter(run => run.start < end && run.end > start)
+      .map(run => {
+        const length = run.end - run.start;
+        const from = (Math.max(start, run.start) - run.start) / length;
+        const to = (Math.min(end, run.end) - run.start) / length;
+        return {
+          x: run.x + run.width * from,
+          y: run.y,
+          width: run.width * (to - from),
+          height: run.height,
+        };
+      });
+
+    if (rects.length > 0) {
+      matches.push({ text: match[0], rects });
+    }
+  }
+
+  return matches;
+}
+
 interface EnhancedPDFViewerProps {
   fileUrl: string;
   signatureFields?: SignatureFieldData[];
@@ -71,6 +201,12 @@ interface EnhancedPDFViewerProps {
   currentSignerId?: string;
   onFieldAdd?: (field: Omit<SignatureFieldData, 'id'>) => void;
   onFieldUpdate?: (fieldId: string, value: string, signatureType?: string) => void;
+  /** Fields that need more than a click (choices, uploads, company) are handed to the parent */
+  onFieldInput?: (fieldId: string) => void;
+  /** When set, signature and initials fields are handed to the parent instead of opening the pad */
+  onSignatureField?: (fieldId: string) => void;
+  /** Field to bring into view and highlight, e.g. the next one in guided signing */
+  activeFieldId?: string | null;
   onFieldRemove?: (fieldId: string) => void;
   className?: string;
   showThumbnails?: boolean;
@@ -88,6 +224,9 @@ export function EnhancedPDFViewer({
   currentSignerId,
   onFieldAdd,
   onFieldUpdate,
+  onFieldInput,
+  onSignatureField,
+  activeFieldId,
   onFieldRemove,
   className = '',
   showThumbnails = true,
@@ -115,6 +254,7 @@ export function EnhancedPDFViewer({
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [currentSearchIndex, setCurrentSearchIndex] = useState<number>(-1);
   const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ matchCase: false, wholeWord: false });
 
   // Signature state
   const [isDragging, setIsDragging] = useState<boolean>(false);
@@ -131,7 +271,14 @@ export function EnhancedPDFViewer({
   const containerRef = useRef<HTMLDivElement>(null);
   const documentRef = useRef<HTMLDivElement>(null);
   const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const fieldRefs = useRef<Map<string, HTMLDivElement>>(new Map());
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
+  const pdfRef = useRef<PDFTextSource | null>(null);
+  // Extracted text per page, kept for the life of the loaded file so each
+  // keystroke only re-runs the match, not the extraction
+  const pageTextCacheRef = useRef<Map<number, Promise<PageText>>>(new Map());
+  const searchRunRef = useRef<number>(0);
+  const followedFieldIdRef = useRef<string | null>(null);
 
   // Detect mobile
   useEffect(() => {
@@ -145,8 +292,11 @@ export function EnhancedPDFViewer({
   }, []);
 
   // PDF loading handlers
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
-    setNumPages(numPages);
+  const onDocumentLoadSuccess = (pdf: PDFTextSource) => {
+    pdfRef.current = pdf;
+    pageTextCacheRef.current = new Map();
+    searchRunRef.current++;
+    setNumPages(pdf.numPages);
     setIsLoading(false);
     setCurrentPage(1);
   };
@@ -155,8 +305,17 @@ export function EnhancedPDFViewer({
     const viewport = page.getViewport({ scale: 1 });
     setPageHeight(viewport.height);
     setPageWidth(viewport.width);
+    scrollToActiveField();
   };
 
+  const scrollToActiveField = useCallback(() => {
+    if (!activeFieldId) return;
+    // Wait a frame so the field overlay has its final position
+    requestAnimationFrame(() => {
+      fieldRefs.current.get(activeFieldId)?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+    });
+  }, [activeFieldId]);
+
   // Zoom and navigation handlers
   const handleZoomIn = useCallback(() => {
     setScale(prev => Math.min(prev + 0.25, 5));
@@ -174,6 +333,13 @@ export function EnhancedPDFViewer({
     }
   }, [pageWidth]);
 
+  // Phones start at fit-to-width; pinch zoom takes over from there
+  useEffect(() => {
+    if (isMobile && !isLoading) {
+      handleZoomToFit();
+    }
+  }, [isMobile, isLoading, handleZoomToFit]);
+
   const handleRotate = useCallback(() => {
     setRotation(prev => (prev + 90) % 360);
   }, []);
@@ -184,6 +350,26 @@ export function EnhancedPDFViewer({
     }
   }, [numPages]);
 
+  // Follow the active field to its page once per new target, so turning
+  // pages afterwards does not pull the viewer back
+  useEffect(() => {
+    if (!activeFieldId) {
+      followedFieldIdRef.current = null;
+      return;
+    }
+    if (followedFieldIdRef.current === activeFieldId) return;
+
+    const field = signatureFields.find(candidate => candidate.id === activeFieldId);
+    if (!field) return;
+    followedFieldIdRef.current = activeFieldId;
+
+    if (field.pageNumber !== currentPage) {
+      goToPage(field.pageNumber);
+    } else {
+      scrollToActiveField();
+    }
+  }, [activeFieldId, signatureFields, currentPage, goToPage, scrollToActiveField]);
+
   const handlePrevPage = useCallback(() => {
     goToPage(currentPage - 1);
   }, [currentPage, goToPage]);
@@ -273,8 +459,22 @@ export function EnhancedPDFViewer({
   }, [touchStart, isGesturing, handlePrevPage, handleNextPage]);
 
   // Search functionality
-  const performSearch = useCallback(async (query: string) => {
-    if (!query.trim() || !enableSearch) {
+  const getPageText = useCallback((pageNumber: number) => {
+    const cache = pageTextCacheRef.current;
+    let pageText = cache.get(pageNumber);
+    if (!pageText && pdfRef.current) {
+      pageText = extractPageText(pdfRef.current, pageNumber);
+      // Drop failed pages so the next search retries them
+      pageText.catch(() => cache.delete(pageNumber));
+      cache.set(pageNumber, pageText);
+    }
+    return pageText;
+  }, []);
+
+  const performSearch = useCallback(async (query: string, options: SearchOptions) => {
+    const run = ++searchRunRef.current;
+
+    if (!query.trim() || !enableSearch || !pdfRef.current) {
       setSearchResults([]);
       setCurrentSearchIndex(-1);
       return;
@@ -282,34 +482,25 @@ export function EnhancedPDFViewer({
 
     setIsSearching(true);
     try {
-      // This is a simplified search implementation
-      // In a real-world scenario, you'd use PDF.js text layer extraction
+      const pattern = buildSearchPattern(query, options);
       const results: SearchResult[] = [];
-      
-      // Mock search results for demonstration
+
       for (let pageNumber = 1; pageNumber <= numPages; pageNumber++) {
-        if (query.toLowerCase().includes('test') || query.toLowerCase().includes('document')) {
-          results.push({
-            pageNumber,
-            matches: [
-              {
-                text: query,
-                x: 10 + Math.random() * 80,
-                y: 10 + Math.random() * 80,
-                width: 10,
-                height: 3
-              }
-            ]
-          });
+        const pageText = await getPageText(pageNumber);
+        // A newer query or a different file superseded this one
+        if (run !== searchRunRef.current || !pageText) return;
+
+        const matches = findPageMatches(pageText, pattern);
+        if (matches.length > 0) {
+          results.push({ pageNumber, matches });
         }
       }
-      
+
       setSearchResults(results);
       setCurrentSearchIndex(results.length > 0 ? 0 : -1);
-      
+
       if (results.length > 0) {
         goToPage(results[0].pageNumber);
-        toast.success(`Found ${results.length} matches`);
       } else {
         toast.info('No matches found');
       }
@@ -317,9 +508,27 @@ export function EnhancedPDFViewer({
       console.error('Search error:', error);
       toast.error('Search failed');
     } finally {
-      setIsSearching(false);
+      if (run === searchRunRef.current) {
+        setIsSearching(false);
+      }
     }
-  }, [enableSearch, numPages, goToPage]);
+  }, [enableSearch, numPages, goToPage, getPageText]);
+
+  // Matches in document order, so stepping can cross pages
+  const flatMatches = useMemo(
+    () => searchResults.flatMap(result =>
+      result.matches.map((match, matchIndex) => ({ pageNumber: result.pageNumber, matchIndex }))
+    ),
+    [searchResults]
+  );
+  const activeMatch = currentSearchIndex >= 0 ? flatMatches[currentSearchIndex] : undefined;
+
+  const goToMatch = useCallback((index: number) => {
+    if (flatMatches.length === 0) return;
+    const wrapped = (index + flatMatches.length) % flatMatches.length;
+    setCurrentSearchIndex(wrapped);
+    goToPage(flatMatches[wrapped].pageNumber);
+  }, [flatMatches, goToPage]);
 
   // Debounced search
   useEffect(() => {
@@ -328,7 +537,7 @@ export function EnhancedPDFViewer({
     }
     
     searchTimeoutRef.current = setTimeout(() => {
-      performSearch(searchQuery);
+      performSearch(searchQuery, searchOptions);
     }, 300);
 
     return () => {
@@ -336,7 +545,7 @@ export function EnhancedPDFViewer({
         clearTimeout(searchTimeoutRef.current);
       }
     };
-  }, [searchQuery, performSearch]);
+  }, [searchQuery, searchOptions, performSearch]);
 
   // Download handler
   const handleDownload = useCallback(async () => {
@@ -388,18 +597,19 @@ export function EnhancedPDFViewer({
     const x = ((e.clientX - rect.left) / rect.width) * 100;
     const y = ((e.clientY - rect.top) / rect.height) * 100;
 
+    const type = draggedFieldType as SignatureFieldType;
+    const defaults = NEW_FIELD_DEFAULTS[type];
     const newField: Omit<SignatureFieldData, 'id'> = {
-      type: draggedFieldType as any,
+      type,
       pageNumber,
-      x: Math.max(0, Math.min(x - 5, 90)),
-      y: Math.max(0, Math.min(y - 2, 95)),
-      width: draggedFieldType === 'SIGNATURE' ? 20 : draggedFieldType === 'DATE' ? 15 : 10,
-      height: draggedFieldType === 'SIGNATURE' ? 8 : 5,
+      x: Math.max(0, Math.min(x - 5, 100 - defaults.width)),
+      y: Math.max(0, Math.min(y - 2, 100 - defaults.height)),
+      width: defaults.width,
+      height: defaults.height,
       required: true,
-      label: draggedFieldType === 'SIGNATURE' ? 'Signature' : 
-             draggedFieldType === 'INITIALS' ? 'Initials' :
-             draggedFieldType === 'DATE' ? 'Date' : 
-             draggedFieldType === 'TEXT' ? 'Text Field' : 'Checkbox'
+      label: defaults.label,
+      // Choice fields start with placeholder options to rename in field settings
+      ...((type === 'DROPDOWN' || type === 'RADIO') && { options: ['Option 1', 'Option 2'] }),
     };
 
     onFieldAdd(newField);
@@ -409,9 +619,15 @@ export function EnhancedPDFViewer({
 
   const handleFieldClick = (field: SignatureFieldData) => {
     if (isSigningMode) {
+      if (field.formula) {
+        toast.info('This field is calculated from other fields');
+        return;
+      }
       if (field.signerId === currentSignerId || !field.signerId) {
         setCurrentField(field);
-        if (field.type === 'SIGNATURE' || field.type === 'INITIALS') {
+        if ((field.type === 'SIGNATURE' || field.type === 'INITIALS') && onSignatureField) {
+          onSignatureField(field.id);
+        } else if (field.type === 'SIGNATURE' || field.type === 'INITIALS') {
           setShowSignaturePad(true);
         } else if (field.type === 'DATE') {
           const currentDate = new Date().toLocaleDateString();
@@ -426,6 +642,10 @@ export function EnhancedPDFViewer({
         } else if (field.type === 'CHECKBOX') {
           onFieldUpdate?.(field.id, field.value === 'checked' ? '' : 'checked');
           toast.success('Checkbox toggled');
+        } else if (field.type === 'NAME' || field.type === 'EMAIL') {
+          toast.info('This field is filled in from your signer details');
+        } else {
+          onFieldInput?.(field.id);
         }
       } else {
         toast.error('This field is assigned to another signer');
@@ -445,18 +665,26 @@ export function EnhancedPDFViewer({
   // Render signature field
   const renderSignatureField = (field: SignatureFieldData, pageNumber: number) => {
     const isCurrentSignerField = !field.signerId || field.signerId === currentSignerId;
-    const canInteract = isSigningMode ? isCurrentSignerField : isEditable;
+    const isReadOnly = !!field.formula || field.type === 'NAME' || field.type === 'EMAIL';
+    const canInteract = isSigningMode ? isCurrentSignerField && !isReadOnly : isEditable;
+    const isActive = field.id === activeFieldId;
     
     return (
       <div
         key={field.id}
+        ref={element => {
+          if (element) fieldRefs.current.set(field.id, element);
+          else fieldRefs.current.delete(field.id);
+        }}
         className={`absolute border-2 border-dashed cursor-pointer transition-all duration-200 ${
           field.isSigned 
             ? 'border-green-500 bg-green-50' 
             : canInteract 
               ? 'border-blue-500 bg-blue-50 hover:bg-blue-100' 
               : 'border-gray-400 bg-gray-50'
-        } ${canInteract ? 'hover:border-solid' : ''}`}
+        } ${canInteract ? 'hover:border-solid' : ''} ${
+          isActive ? 'border-solid ring-4 ring-yellow-400 ring-offset-1 animate-pulse' : ''
+        }`}
         style={{
           left: `${field.x}%`,
           top: `${field.y}%`,
@@ -485,20 +713,25 @@ export function EnhancedPDFViewer({
               <div className={`w-4 h-4 border border-gray-400 ${field.value === 'checked' ? 'bg-blue-500' : 'bg-white'}`}>
                 {field.value === 'checked' && <span className="text-white text-xs">✓</span>}
               </div>
+            ) : field.type === 'ATTACHMENT' ? (
+              <span className="truncate px-1">📎 {parseAttachmentValue(field.value)?.fileName || 'Attached'}</span>
             ) : (
               <span className="truncate px-1">{field.value}</span>
             )
           ) : (
             <span className="text-gray-600">
-              {field.type === 'SIGNATURE' ? 'Sign' : 
-               field.type === 'INITIALS' ? 'Init' :
-               field.type === 'DATE' ? 'Date' :
-               field.type === 'TEXT' ? 'Text' : '☐'}
+              {field.formula ? '=' : FIELD_PLACEHOLDERS[field.type] || '☐'}
             </span>
           )}
         </div>
         
-        {field.required && !field.isSigned && (
+        {isActive && !field.isSigned && (
+          <div className="absolute bottom-full left-0 mb-1 whitespace-nowrap rounded bg-yellow-400 px-2 py-0.5 text-xs font-semibold text-gray-900 shadow">
+            {field.type === 'SIGNATURE' ? 'Sign' : field.type === 'INITIALS' ? 'Initial' : 'Fill in'} ▾
+          </div>
+        )}
+
+        {field.required && !field.isSigned && !isReadOnly && (
           <Badge 
             variant="destructive" 
             className="absolute -top-2 -right-2 text-xs px-1 py-0"
@@ -519,7 +752,13 @@ export function EnhancedPDFViewer({
       { type: 'INITIALS', label: 'Initials', icon: '🔤' },
       { type: 'DATE', label: 'Date', icon: '📅' },
       { type: 'TEXT', label: 'Text', icon: '📝' },
-      { type: 'CHECKBOX', label: 'Checkbox', icon: '☐' }
+      { type: 'CHECKBOX', label: 'Checkbox', icon: '☐' },
+      { type: 'DROPDOWN', label: 'Dropdown', icon: '🔽' },
+      { type: 'RADIO', label: 'Radio Group', icon: '🔘' },
+      { type: 'ATTACHMENT', label: 'Attachment', icon: '📎' },
+      { type: 'NAME', label: 'Name', icon: '👤' },
+      { type: 'EMAIL', label: 'Email', icon: '✉️' },
+      { type: 'COMPANY', label: 'Company', icon: '🏢' }
     ];
 
     return (
@@ -652,39 +891,59 @@ export function EnhancedPDFViewer({
             placeholder="Search in document..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                goToMatch(currentSearchIndex + (e.shiftKey ? -1 : 1));
+              }
+            }}
             className="pl-8 w-48"
-            disabled={isSearching}
           />
         </div>
-        
-        {searchResults.length > 0 && (
+
+        <Button
+          variant={searchOptions.matchCase ? 'secondary' : 'ghost'}
+          size="sm"
+          className="px-2 font-mono text-xs"
+          title="Match case"
+          aria-pressed={searchOptions.matchCase}
+          onClick={() => setSearchOptions(prev => ({ ...prev, matchCase: !prev.matchCase }))}
+        >
+          Aa
+        </Button>
+        <Button
+          variant={searchOptions.wholeWord ? 'secondary' : 'ghost'}
+          size="sm"
+          className="px-2 font-mono text-xs underline"
+          title="Whole words only"
+          aria-pressed={searchOptions.wholeWord}
+          onClick={() => setSearchOptions(prev => ({ ...prev, wholeWord: !prev.wholeWord }))}
+        >
+          ab
+        </Button>
+
+        {isSearching && <span className="text-sm text-gray-500">Searching...</span>}
+
+        {!isSearching && flatMatches.length > 0 && (
           <div className="flex items-center gap-1">
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                const newIndex = Math.max(0, currentSearchIndex - 1);
-                setCurrentSearchIndex(newIndex);
-                goToPage(searchResults[newIndex].pageNumber);
-              }}
-              disabled={currentSearchIndex <= 0}
+              onClick={() => goToMatch(currentSearchIndex - 1)}
+              title="Previous match"
             >
               <ChevronLeft className="h-4 w-4" />
             </Button>
-            
+
             <span className="text-sm px-2">
-              {currentSearchIndex + 1} of {searchResults.length}
+              {currentSearchIndex + 1} of {flatMatches.length}
             </span>
-            
+
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                const newIndex = Math.min(searchResults.length - 1, currentSearchIndex + 1);
-                setCurrentSearchIndex(newIndex);
-                goToPage(searchResults[newIndex].pageNumber);
-              }}
-              disabled={currentSearchIndex >= searchResults.length - 1}
+              onClick={() => goToMatch(currentSearchIndex + 1)}
+              title="Next match"
             >
               <ChevronRight className="h-4 w-4" />
             </Button>
@@ -857,20 +1116,28 @@ export function EnhancedPDFViewer({
                 {/* Search highlights */}
                 {searchResults
                   .filter(result => result.pageNumber === currentPage)
-                  .map((result, resultIndex) => 
-                    result.matches.map((match, matchIndex) => (
-                      <div
-                        key={`search-${resultIndex}-${matchIndex}`}
-                        className="absolute bg-yellow-200 bg-opacity-50 border border-yellow-400 pointer-events-none"
-                        style={{
-                          left: `${match.x}%`,
-                          top: `${match.y}%`,
-                          width: `${match.width}%`,
-                          height: `${match.height}%`,
-                          zIndex: 5
-                        }}
-                      />
-                    ))
+                  .flatMap(result =>
+                    result.matches.flatMap((match, matchIndex) => {
+                      const isActive = activeMatch?.pageNumber === currentPage && activeMatch.matchIndex === matchIndex;
+                      return match.rects.map((rect, rectIndex) => (
+                        <div
+                          key={`search-${matchIndex}-${rectIndex}`}
+                          className={cn(
+                            "absolute pointer-events-none border",
+                            isActive
+                              ? "bg-orange-300 bg-opacity-60 border-orange-500"
+                              : "bg-yellow-200 bg-opacity-50 border-yellow-400"
+                          )}
+                          style={{
+                            left: `${rect.x}%`,
+                            top: `${rect.y}%`,
+                            width: `${rect.width}%`,
+                            height: `${rect.height}%`,
+                            zIndex: 5
+                          }}
+                        />
+                      ));
+                    })
                   )}
                 
                 {/* Drop overlay */}
@@ -0,0 +1,105 @@
+import { prisma } from '@/lib/db';
+import { getCurrentUser, canAccessResource } from '@/lib/auth';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+/**
+ * Get the signed-in user or throw a 401
+ */
+export async function requireUser() {
+  const user = await getCurrentUser();
+
+  if (!user || !user.isActive) {
+    throw new ESignatureError('Unauthorized', 401);
+  }
+
+  return user;
+}
+
+/**
+ * Get the signed-in user if they are an admin
+ */
+export async function requireAdmin() {
+  const user = await requireUser();
+
+  if (user.role !== 'ADMIN') {
+    throw new ESignatureError('Only administrators can manage this', 403);
+  }
+
+  return user;
+}
+
+/**
+ * Load a document the signed-in user is allowed to manage
+ */
+export async function requireDocumentAccess(documentId: string) {
+  const user = await requireUser();
+
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+
+  if (!canAccessResource(user.role, document.uploadedById, user.id)) {
+    throw new ESignatureError('You do not have permission to manage this document', 403);
+  }
+
+  return { user, document };
+}
+
+/**
+ * Load a bulk send batch the signed-in user is allowed to manage
+ */
+export async function requireBulkBatchAccess(batchId: string) {
+  const user = await requireUser();
+
+  const batch = await prisma.eSignatureBulkBatch.findUnique({
+    where: { id: batchId },
+  });
+
+  if (!batch) {
+    throw new ESignatureError('Batch not found', 404);
+  }
+
+  if (!canAccessResource(user.role, batch.createdById, user.id)) {
+    throw new ESignatureError('You do not have permission to manage this batch', 403);
+  }
+
+  return { user, batch };
+}
+
+/**
+ * Load a template the signed-in user is allowed to change. Using a template,
+ * for one document or a bulk send, only needs a signed-in user.
+ */
+export async function requireTemplateAccess(templateId: string) {
+  const user = await requireUser();
+
+  const template = await prisma.eSignatureTemplate.findUnique({
+    where: { id: templateId },
+  });
+
+  if (!template || template.archivedAt) {
+    throw new ESignatureError('Template not found', 404);
+  }
+
+  if (!canAccessResource(user.role, template.createdById, user.id)) {
+    throw new ESignatureError('You do not have permission to manage this template', 403);
+  }
+
+  return { user, template };
+}
+
+/**
+ * Authorize a scheduled job call using the CRON_SECRET bearer token
+ */
+export function requireCronSecret(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+
+  if (!secret || header !== `Bearer ${secret}`) {
+    throw new ESignatureError('Unauthorized', 401);
+  }
+}
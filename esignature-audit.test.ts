@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/lib/db';
+import { computeAuditEntryHash, verifyAuditChain } from './esignature-audit';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    documentAuditLog: { findMany: vi.fn() },
+    eSignatureDocument: { findUnique: vi.fn() },
+  },
+}));
+vi.mock('@/lib/esignature-webhooks', () => ({ enqueueWebhookDeliveries: vi.fn() }));
+
+type ChainEntry = ReturnType<typeof buildChain>[number];
+
+function buildChain(length: number) {
+  const entries = [];
+  let previousHash: string | null = null;
+
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const entry = {
+      id: `entry-${sequence}`,
+      documentId: 'doc-1',
+      sequence,
+      action: 'document_updated',
+      description: `Change ${sequence}`,
+      userId: 'user-1',
+      signerId: null,
+      ipAddress: '203.0.113.7',
+      userAgent: null,
+      metadata: { step: sequence },
+      timestamp: new Date(Date.UTC(2026, 0, sequence)),
+      documentHash: 'a'.repeat(64),
+      previousHash,
+    };
+    const entryHash = computeAuditEntryHash(entry);
+    entries.push({ ...entry, entryHash });
+    previousHash = entryHash;
+  }
+
+  return entries;
+}
+
+function mockLog(entries: ChainEntry[], head: ChainEntry | null = entries[entries.length - 1] ?? null) {
+  vi.mocked(prisma.documentAuditLog.findMany).mockResolvedValue(entries as never);
+  vi.mocked(prisma.eSignatureDocument.findUnique).mockResolvedValue({
+    auditHeadHash: head?.entryHash ?? null,
+    auditHeadSequence: head?.sequence ?? null,
+  } as never);
+}
+
+describe('verifyAuditChain', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('accepts an untouched chain', async () => {
+    const entries = buildChain(4);
+    mockLog(entries);
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.intact).toBe(true);
+    expect(result.entryCount).toBe(4);
+    expect(result.headHash).toBe(entries[3].entryHash);
+  });
+
+  it('reports an entry whose content was changed', async () => {
+    const entries = buildChain(4);
+    entries[1] = { ...entries[1], description: 'Something else' };
+    mockLog(entries);
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.intact).toBe(false);
+    expect(result.firstBrokenLink).toMatchObject({
+      entryId: 'entry-2',
+      sequence: 2,
+      reason: 'Entry content does not match its hash',
+    });
+  });
+
+  it('reports an entry that was rehashed without relinking the next one', async () => {
+    const entries = buildChain(3);
+    const tampered = { ...entries[1], description: 'Something else' };
+    entries[1] = { ...tampered, entryHash: computeAuditEntryHash(tampered) };
+    mockLog(entries);
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.firstBrokenLink).toMatchObject({
+      entryId: 'entry-3',
+      reason: 'Entry does not link to the previous entry',
+    });
+  });
+
+  it('reports the latest entries being deleted', async () => {
+    const entries = buildChain(4);
+    mockLog(entries.slice(0, 3), entries[3]);
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.intact).toBe(false);
+    expect(result.firstBrokenLink).toMatchObject({
+      entryId: null,
+      sequence: 4,
+      timestamp: null,
+    });
+  });
+
+  it('reports the first entry being deleted', async () => {
+    const entries = buildChain(3);
+    mockLog(entries.slice(1));
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.firstBrokenLink).toMatchObject({
+      entryId: 'entry-2',
+      reason: 'Entries before this one are missing',
+    });
+  });
+
+  it('reports a gap in the sequence', async () => {
+    const entries = buildChain(3);
+    mockLog([entries[0], entries[2]]);
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.firstBrokenLink).toMatchObject({
+      entryId: 'entry-3',
+      reason: 'Expected entry #2 but found #3',
+    });
+  });
+
+  it('skips legacy entries written before chaining', async () => {
+    const entries = buildChain(2);
+    const legacy = { ...entries[0], id: 'legacy-1', sequence: 0, entryHash: null, previousHash: null };
+    mockLog([legacy as unknown as ChainEntry, ...entries]);
+
+    const result = await verifyAuditChain('doc-1');
+
+    expect(result.intact).toBe(true);
+    expect(result.legacyEntryCount).toBe(1);
+  });
+});
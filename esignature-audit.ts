@@ -0,0 +1,286 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { enqueueWebhookDeliveries } from '@/lib/esignature-webhooks';
+
+export type AuditAction =
+  | 'document_created'
+  | 'document_uploaded'
+  | 'document_updated'
+  | 'document_sent'
+  | 'signer_invited'
+  | 'email_sent'
+  | 'document_viewed'
+  | 'signer_viewed'
+  | 'field_signed'
+  | 'signature_completed'
+  | 'document_completed'
+  | 'signing_completed'
+  | 'document_voided'
+  | 'signer_declined'
+  | 'reminder_sent'
+  | 'reminder_escalated'
+  | 'identity_code_sent'
+  | 'identity_verified'
+  | 'identity_failed'
+  | 'identity_locked'
+  | 'identity_unlocked'
+  | 'signing_link_reissued'
+  | 'signing_link_revoked'
+  | 'document_correction_started'
+  | 'document_corrected'
+  | 'document_superseded'
+  | 'in_person_signing_started'
+  | 'signer_delegated'
+  | 'signer_reassigned'
+  | 'expiry_warning_sent'
+  | 'document_expired'
+  | 'deadline_extended';
+
+export interface AuditEventInput {
+  documentId: string;
+  action: AuditAction;
+  description?: string;
+  userId?: string;
+  signerId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+}
+
+type AuditClient = Prisma.TransactionClient;
+
+export interface AuditChainBreak {
+  /** Null when entries are missing from the end of the log */
+  entryId: string | null;
+  sequence: number;
+  timestamp: Date | null;
+  reason: string;
+}
+
+export interface AuditChainVerification {
+  intact: boolean;
+  entryCount: number;
+  legacyEntryCount: number;
+  headHash: string | null;
+  firstBrokenLink?: AuditChainBreak;
+}
+
+/**
+ * SHA-256 hex digest used for audit chaining and document hashes
+ */
+export function sha256Hex(content: string | Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * JSON with sorted object keys so the same entry always hashes the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of an audit entry's content together with the previous entry's hash
+ */
+export function computeAuditEntryHash(entry: {
+  documentId: string;
+  sequence: number;
+  action: string;
+  description?: string | null;
+  userId?: string | null;
+  signerId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: unknown;
+  timestamp: Date;
+  documentHash?: string | null;
+  previousHash?: string | null;
+}): string {
+  return sha256Hex(canonicalJson({
+    documentId: entry.documentId,
+    sequence: entry.sequence,
+    action: entry.action,
+    description: entry.description ?? null,
+    userId: entry.userId ?? null,
+    signerId: entry.signerId ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    metadata: entry.metadata ?? null,
+    timestamp: new Date(entry.timestamp),
+    documentHash: entry.documentHash ?? null,
+    previousHash: entry.previousHash ?? null,
+  }));
+}
+
+async function appendAuditEntry(client: AuditClient, event: AuditEventInput) {
+  // Concurrent events on one document wait here and append one at a time
+  await client.$queryRaw`SELECT "id" FROM "ESignatureDocument" WHERE "id" = ${event.documentId} FOR UPDATE`;
+
+  const [previous, document] = await Promise.all([
+    client.documentAuditLog.findFirst({
+      where: { documentId: event.documentId },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, entryHash: true },
+    }),
+    client.eSignatureDocument.findUnique({
+      where: { id: event.documentId },
+      select: { documentHash: true, finalDocumentHash: true },
+    }),
+  ]);
+
+  const entry = {
+    documentId: event.documentId,
+    sequence: (previous?.sequence ?? 0) + 1,
+    action: event.action,
+    description: event.description,
+    userId: event.userId,
+    signerId: event.signerId,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    metadata: event.metadata ? JSON.parse(JSON.stringify(event.metadata)) : undefined,
+    timestamp: new Date(),
+    documentHash: document?.finalDocumentHash ?? document?.documentHash ?? null,
+    previousHash: previous?.entryHash ?? null,
+  };
+
+  const created = await client.documentAuditLog.create({
+    data: {
+      ...entry,
+      entryHash: computeAuditEntryHash(entry),
+    },
+  });
+
+  // The document keeps the chain head so entries deleted from the end show up
+  await client.eSignatureDocument.update({
+    where: { id: event.documentId },
+    data: { auditHeadHash: created.entryHash, auditHeadSequence: created.sequence },
+  });
+
+  await enqueueWebhookDeliveries(client, { ...entry, id: created.id });
+
+  return created;
+}
+
+/**
+ * Append an entry to a document's hash-chained audit log. Each entry stores
+ * the previous entry's hash and the document hash at the time of the event.
+ * Lifecycle events also queue deliveries for subscribed webhook endpoints.
+ */
+export async function recordAuditEvent(
+  event: AuditEventInput,
+  client?: AuditClient
+) {
+  if (client) {
+    return appendAuditEntry(client, event);
+  }
+
+  return prisma.$transaction(tx => appendAuditEntry(tx, event));
+}
+
+/**
+ * Walk a document's audit log and report the first entry that does not
+ * match its stored hash or does not link to its predecessor. Entries missing
+ * from either end are caught by the first entry's link and the chain head
+ * stored on the document.
+ */
+export async function verifyAuditChain(documentId: string): Promise<AuditChainVerification> {
+  const [entries, document] = await Promise.all([
+    prisma.documentAuditLog.findMany({
+      where: { documentId },
+      orderBy: [{ sequence: 'asc' }, { timestamp: 'asc' }],
+    }),
+    prisma.eSignatureDocument.findUnique({
+      where: { id: documentId },
+      select: { auditHeadHash: true, auditHeadSequence: true },
+    }),
+  ]);
+
+  let legacyEntryCount = 0;
+  let previousHash: string | null = null;
+  let previousSequence = 0;
+  let chainStarted = false;
+
+  for (const entry of entries) {
+    const brokenLink = (reason: string): AuditChainVerification => ({
+      intact: false,
+      entryCount: entries.length,
+      legacyEntryCount,
+      headHash: previousHash,
+      firstBrokenLink: {
+        entryId: entry.id,
+        sequence: entry.sequence,
+        timestamp: entry.timestamp,
+        reason,
+      },
+    });
+
+    // Entries written before hash chaining was introduced
+    if (!entry.entryHash) {
+      if (chainStarted) return brokenLink('Entry is missing its hash');
+      legacyEntryCount++;
+      continue;
+    }
+
+    // The first chained entry follows the legacy entries, if any
+    if (!chainStarted && (entry.sequence !== 1 || entry.previousHash !== null)) {
+      return brokenLink('Entries before this one are missing');
+    }
+    if (chainStarted && entry.sequence !== previousSequence + 1) {
+      return brokenLink(`Expected entry #${previousSequence + 1} but found #${entry.sequence}`);
+    }
+    if (chainStarted && entry.previousHash !== previousHash) {
+      return brokenLink('Entry does not link to the previous entry');
+    }
+    if (computeAuditEntryHash(entry) !== entry.entryHash) {
+      return brokenLink('Entry content does not match its hash');
+    }
+
+    chainStarted = true;
+    previousHash = entry.entryHash;
+    previousSequence = entry.sequence;
+  }
+
+  if (document?.auditHeadSequence && (
+    document.auditHeadSequence !== previousSequence || document.auditHeadHash !== previousHash
+  )) {
+    return {
+      intact: false,
+      entryCount: entries.length,
+      legacyEntryCount,
+      headHash: previousHash,
+      firstBrokenLink: {
+        entryId: null,
+        sequence: previousSequence + 1,
+        timestamp: null,
+        reason: `The log ends at #${previousSequence} but the latest recorded entry is #${document.auditHeadSequence}`,
+      },
+    };
+  }
+
+  return {
+    intact: true,
+    entryCount: entries.length,
+    legacyEntryCount,
+    headHash: previousHash,
+  };
+}
+
+/**
+ * Best-effort client IP for audit entries
+ */
+export function getRequestIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || undefined;
+}
@@ -0,0 +1,491 @@
+import { ESignatureBulkBatch, UserRole } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { canAccessResource, hasRole } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { createDocumentFromTemplate, getTemplate, RoleBinding, TemplateRole } from '@/lib/esignature-templates';
+import { hasMergeTags, MergeField, renderMergeTags, validateEmail } from '@/lib/esignature-utils';
+import { sendDocumentForSigning } from '@/lib/esignature-workflow';
+
+/** Upper limit on recipients in one batch */
+export const MAX_BULK_RECIPIENTS = 500;
+
+/** Recipients sent per request; the rest of a batch is sent by the cron job */
+export const BULK_SEND_CHUNK_SIZE = 25;
+
+/** How long a recipient stays claimed before another run may pick it up */
+const SENDING_LEASE_MS = 10 * 60 * 1000;
+
+export interface BulkSendRecipient {
+  contactId?: string;
+  firstName: string;
+  lastName?: string;
+  email: string;
+  phone?: string;
+  company?: string;
+  title?: string;
+}
+
+export interface BulkSendInput {
+  templateId: string;
+  /** Role each recipient is bound to; every other role uses fixedBindings */
+  recipientRole: string;
+  fixedBindings?: Record<string, RoleBinding>;
+  contactIds?: string[];
+  recipients?: BulkSendRecipient[];
+  title?: string;
+  emailSubject?: string;
+  emailMessage?: string;
+}
+
+interface BatchUser {
+  id: string;
+  role: UserRole;
+}
+
+interface BatchContext {
+  userId: string;
+  ipAddress?: string;
+}
+
+export interface BulkSendRunSummary {
+  batches: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Values for each merge tag, taken from one recipient
+ */
+export function getMergeValues(recipient: BulkSendRecipient): Record<MergeField, string> {
+  const firstName = recipient.firstName?.trim() || '';
+  const lastName = recipient.lastName?.trim() || '';
+
+  return {
+    firstName,
+    lastName,
+    fullName: [firstName, lastName].filter(Boolean).join(' '),
+    email: recipient.email.trim(),
+    phone: recipient.phone?.trim() || '',
+    company: recipient.company?.trim() || '',
+    title: recipient.title?.trim() || '',
+  };
+}
+
+function getRecipientName(recipient: BulkSendRecipient): string {
+  return getMergeValues(recipient).fullName || recipient.email.trim();
+}
+
+/**
+ * Fill the merge-tagged text fields of a new document with the recipient's
+ * details. Values are stored as prefilled signatures of the field's signer;
+ * fields that already have a value are left alone.
+ */
+async function prefillMergeFields(documentId: string, values: Record<MergeField, string>, userId: string) {
+  const fields = await prisma.signatureField.findMany({
+    where: { documentId, type: 'TEXT', signerId: { not: null }, signature: { is: null } },
+  });
+  const mergeFields = fields.filter(field => hasMergeTags(field.label));
+
+  if (mergeFields.length === 0) {
+    return 0;
+  }
+
+  await prisma.signature.createMany({
+    data: mergeFields.map(field => ({
+      fieldId: field.id,
+      documentId,
+      signerId: field.signerId!,
+      signatureData: renderMergeTags(field.label!, values),
+      signatureType: 'prefilled',
+    })),
+  });
+
+  await recordAuditEvent({
+    documentId,
+    action: 'document_updated',
+    description: `Prefilled ${mergeFields.length} field${mergeFields.length === 1 ? '' : 's'} from recipient details`,
+    userId,
+    metadata: { prefilledFields: mergeFields.map(field => field.id) },
+  });
+
+  return mergeFields.length;
+}
+
+/**
+ * Load the selected contacts as recipients, skipping any the user cannot see
+ */
+async function loadContactRecipients(contactIds: string[], user: BatchUser) {
+  const contacts = await prisma.contact.findMany({
+    where: { id: { in: contactIds } },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      company: true,
+      title: true,
+      ownerId: true,
+    },
+  });
+
+  return contacts
+    .filter(contact => canAccessResource(user.role, contact.ownerId, user.id))
+    .map(({ id, ownerId, ...contact }): BulkSendRecipient => ({
+      contactId: id,
+      firstName: contact.firstName,
+      lastName: contact.lastName ?? undefined,
+      email: contact.email ?? '',
+      phone: contact.phone ?? undefined,
+      company: contact.company ?? undefined,
+      title: contact.title ?? undefined,
+    }));
+}
+
+/**
+ * Check that the template roles line up with the batch settings
+ */
+function validateBatchRoles(roles: TemplateRole[], input: BulkSendInput) {
+  if (!roles.some(role => role.name === input.recipientRole)) {
+    throw new ESignatureError(`The template has no "${input.recipientRole}" role`);
+  }
+
+  for (const role of roles) {
+    if (role.name === input.recipientRole) continue;
+
+    const binding = input.fixedBindings?.[role.name];
+    if (!binding?.signerName?.trim() || !binding.signerEmail?.trim()) {
+      throw new ESignatureError(`Assign a signer to the "${role.name}" role`);
+    }
+    if (!validateEmail(binding.signerEmail)) {
+      throw new ESignatureError(`Invalid email address for the "${role.name}" role`);
+    }
+  }
+}
+
+/**
+ * Create a batch with one entry per recipient and send the first chunk.
+ * Recipients with a missing or invalid email, or listed twice, are recorded
+ * as skipped rather than rejecting the whole batch. Like a single document,
+ * a batch can use any template that has not been archived.
+ */
+export async function createBulkSendBatch(
+  input: BulkSendInput,
+  user: BatchUser,
+  context: { ipAddress?: string } = {}
+) {
+  const template = await getTemplate(input.templateId);
+  const templateVersion = template.versions[0];
+  if (!templateVersion) {
+    throw new ESignatureError('Template version not found', 404);
+  }
+
+  validateBatchRoles(templateVersion.roles as unknown as TemplateRole[], input);
+
+  const recipients = [
+    ...(input.contactIds?.length ? await loadContactRecipients(input.contactIds, user) : []),
+    ...(input.recipients || []),
+  ];
+
+  if (recipients.length === 0) {
+    throw new ESignatureError('Add at least one recipient');
+  }
+  if (recipients.length > MAX_BULK_RECIPIENTS) {
+    throw new ESignatureError(`A batch can have at most ${MAX_BULK_RECIPIENTS} recipients`);
+  }
+
+  const seenEmails = new Set<string>();
+  const entries = recipients.map(row => {
+    const recipient = { ...row, email: (row.email || '').trim() };
+    const key = recipient.email.toLowerCase();
+    let error: string | null = null;
+
+    if (!key || !validateEmail(key)) {
+      error = 'Missing or invalid email address';
+    } else if (seenEmails.has(key)) {
+      error = 'Duplicate recipient';
+    }
+    seenEmails.add(key);
+
+    return {
+      contactId: recipient.contactId,
+      name: getRecipientName(recipient),
+      email: recipient.email,
+      mergeData: getMergeValues(recipient),
+      status: error ? 'SKIPPED' : 'PENDING',
+      error,
+    };
+  });
+
+  const batch = await prisma.eSignatureBulkBatch.create({
+    data: {
+      title: input.title?.trim() || template.name,
+      templateId: template.id,
+      templateVersion: templateVersion.version,
+      recipientRole: input.recipientRole,
+      fixedBindings: input.fixedBindings || {},
+      emailSubject: input.emailSubject,
+      emailMessage: input.emailMessage,
+      status: 'PROCESSING',
+      totalRecipients: entries.length,
+      createdById: user.id,
+      recipients: { create: entries },
+    },
+  });
+
+  return processBulkSendBatch(batch.id, { userId: user.id, ipAddress: context.ipAddress });
+}
+
+/**
+ * Send the next chunk of a batch's pending recipients. Each recipient is
+ * handled on its own, so one failure never stops the rest. The batch is
+ * marked complete once no recipient is left to send.
+ */
+async function sendPendingRecipients(
+  batch: ESignatureBulkBatch,
+  context: BatchContext,
+  limit: number
+) {
+  const summary = { sent: 0, failed: 0 };
+
+  // A run that died mid-send leaves its recipient claimed; hand it back once the lease runs out
+  await prisma.eSignatureBulkRecipient.updateMany({
+    where: {
+      batchId: batch.id,
+      status: 'SENDING',
+      claimedAt: { lt: new Date(Date.now() - SENDING_LEASE_MS) },
+    },
+    data: { status: 'PENDING' },
+  });
+
+  const recipients = await prisma.eSignatureBulkRecipient.findMany({
+    where: { batchId: batch.id, status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  for (const recipient of recipients) {
+    // Claim the recipient so an overlapping run never sends it twice
+    const claimed = await prisma.eSignatureBulkRecipient.updateMany({
+      where: { id: recipient.id, status: 'PENDING' },
+      data: { status: 'SENDING', claimedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    let documentId = recipient.documentId;
+
+    try {
+      const mergeData = recipient.mergeData as unknown as Record<MergeField, string>;
+
+      // A retried recipient may already have a draft from an earlier attempt
+      if (!documentId) {
+        const document = await createDocumentFromTemplate(
+          batch.templateId,
+          {
+            title: `${batch.title} - ${recipient.name}`,
+            version: batch.templateVersion,
+            contactId: recipient.contactId ?? undefined,
+            bulkBatchId: batch.id,
+            bindings: {
+              ...(batch.fixedBindings as unknown as Record<string, RoleBinding>),
+              [batch.recipientRole]: {
+                signerName: recipient.name,
+                signerEmail: recipient.email,
+                contactId: recipient.contactId ?? undefined,
+              },
+            },
+          },
+          context.userId
+        );
+        documentId = document.id;
+
+        await prisma.eSignatureBulkRecipient.update({
+          where: { id: recipient.id },
+          data: { documentId },
+        });
+      }
+
+      const document = await prisma.eSignatureDocument.findUnique({
+        where: { id: documentId },
+        select: { status: true },
+      });
+      if (!document) {
+        throw new ESignatureError('Document not found', 404);
+      }
+
+      // An earlier attempt may have stopped before prefilling, or after sending
+      if (document.status === 'DRAFT') {
+        await prefillMergeFields(documentId, mergeData, context.userId);
+        await sendDocumentForSigning(documentId, {
+          emailSubject: batch.emailSubject ?? undefined,
+          emailMessage: batch.emailMessage ?? undefined,
+          userId: context.userId,
+          ipAddress: context.ipAddress,
+        });
+      }
+
+      await prisma.eSignatureBulkRecipient.update({
+        where: { id: recipient.id },
+        data: { status: 'SENT', error: null, sentAt: new Date() },
+      });
+      summary.sent++;
+    } catch (error) {
+      console.error(`Bulk send to ${recipient.email} failed:`, error);
+      await prisma.eSignatureBulkRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: 'FAILED',
+          error: error instanceof ESignatureError ? error.message : 'Unexpected error while sending',
+        },
+      });
+      summary.failed++;
+    }
+  }
+
+  const remaining = await prisma.eSignatureBulkRecipient.count({
+    where: { batchId: batch.id, status: { in: ['PENDING', 'SENDING'] } },
+  });
+  if (remaining > 0) {
+    return summary;
+  }
+
+  const failed = await prisma.eSignatureBulkRecipient.count({
+    where: { batchId: batch.id, status: { in: ['FAILED', 'SKIPPED'] } },
+  });
+
+  await prisma.eSignatureBulkBatch.updateMany({
+    where: { id: batch.id, status: 'PROCESSING' },
+    data: {
+      status: failed > 0 ? 'COMPLETED_WITH_ERRORS' : 'COMPLETED',
+      completedAt: new Date(),
+    },
+  });
+
+  return summary;
+}
+
+/**
+ * Send the next chunk of a batch now. Whatever is left stays queued for
+ * processBulkSendQueue.
+ */
+export async function processBulkSendBatch(batchId: string, context: BatchContext) {
+  const batch = await prisma.eSignatureBulkBatch.findUnique({
+    where: { id: batchId },
+  });
+
+  if (!batch) {
+    throw new ESignatureError('Batch not found', 404);
+  }
+
+  await sendPendingRecipients(batch, context, BULK_SEND_CHUNK_SIZE);
+
+  return getBulkSendBatch(batchId);
+}
+
+/**
+ * Send queued recipients across all unfinished batches, oldest batch first,
+ * up to the limit per run. Documents are sent on behalf of each batch's creator.
+ */
+export async function processBulkSendQueue(limit = BULK_SEND_CHUNK_SIZE): Promise<BulkSendRunSummary> {
+  const summary: BulkSendRunSummary = { batches: 0, sent: 0, failed: 0 };
+
+  const batches = await prisma.eSignatureBulkBatch.findMany({
+    where: { status: 'PROCESSING' },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const batch of batches) {
+    const budget = limit - summary.sent - summary.failed;
+    if (budget <= 0) break;
+
+    const result = await sendPendingRecipients(batch, { userId: batch.createdById }, budget);
+    summary.batches++;
+    summary.sent += result.sent;
+    summary.failed += result.failed;
+  }
+
+  return summary;
+}
+
+/**
+ * Send again to recipients that failed. Skipped rows are left alone.
+ */
+export async function retryFailedRecipients(batchId: string, context: BatchContext) {
+  const { count } = await prisma.eSignatureBulkRecipient.updateMany({
+    where: { batchId, status: 'FAILED' },
+    data: { status: 'PENDING' },
+  });
+
+  if (count === 0) {
+    throw new ESignatureError('There are no failed recipients to retry');
+  }
+
+  await prisma.eSignatureBulkBatch.update({
+    where: { id: batchId },
+    data: { status: 'PROCESSING', completedAt: null },
+  });
+
+  return processBulkSendBatch(batchId, context);
+}
+
+/**
+ * Aggregate signing progress across a batch's documents
+ */
+function summarizeBatch<T extends {
+  status: string;
+  document: { status: string } | null;
+}>(recipients: T[]) {
+  const documentStatus = (status: string) =>
+    recipients.filter(recipient => recipient.document?.status === status).length;
+
+  return {
+    total: recipients.length,
+    sent: recipients.filter(recipient => recipient.status === 'SENT').length,
+    failed: recipients.filter(recipient => recipient.status === 'FAILED').length,
+    skipped: recipients.filter(recipient => recipient.status === 'SKIPPED').length,
+    pending: recipients.filter(recipient => recipient.status === 'PENDING' || recipient.status === 'SENDING').length,
+    completed: documentStatus('COMPLETED'),
+    inProgress: documentStatus('SENT') + documentStatus('IN_PROGRESS'),
+    voidedOrExpired: documentStatus('VOIDED') + documentStatus('EXPIRED'),
+  };
+}
+
+const batchRecipientInclude = {
+  document: { select: { id: true, title: true, status: true, completedAt: true } },
+};
+
+/**
+ * A batch with every recipient and its document's progress
+ */
+export async function getBulkSendBatch(batchId: string) {
+  const batch = await prisma.eSignatureBulkBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      createdBy: { select: { name: true, email: true } },
+      recipients: { include: batchRecipientInclude, orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!batch) {
+    throw new ESignatureError('Batch not found', 404);
+  }
+
+  return { ...batch, progress: summarizeBatch(batch.recipients) };
+}
+
+/**
+ * Recent batches for the dashboard, with aggregate progress only
+ */
+export async function listBulkSendBatches(user: BatchUser, limit = 5) {
+  const batches = await prisma.eSignatureBulkBatch.findMany({
+    where: hasRole(user.role, ['ADMIN', 'MANAGER']) ? {} : { createdById: user.id },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: {
+      recipients: { select: { status: true, document: { select: { status: true } } } },
+    },
+  });
+
+  return batches.map(({ recipients, ...batch }) => ({ ...batch, progress: summarizeBatch(recipients) }));
+}
@@ -0,0 +1,176 @@
+import { prisma } from '@/lib/db';
+import { recordAuditEvent, sha256Hex } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { loadFieldLogic } from '@/lib/esignature-fields';
+import { isDigitalSigningConfigured, signPdfWithOrganizationCertificate } from '@/lib/esignature-pades';
+import { deleteStoredFile, readStoredFile, writeStoredFile } from '@/lib/esignature-storage';
+import {
+  appendCompletionCertificate,
+  embedSignaturesInPDF,
+  parseAttachmentValue,
+  SignatureFieldData,
+} from '@/lib/esignature-utils';
+
+/**
+ * Build the final PDF for a completed document: stamp field values, append
+ * the Certificate of Completion, apply the organization's digital signature
+ * when one is configured, and store the result alongside the original.
+ */
+export async function finalizeCompletedDocument(documentId: string) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      signerWorkflows: {
+        include: { hostUser: { select: { name: true, email: true } } },
+      },
+      signatureFields: { include: { signature: true } },
+      auditLogs: {
+        where: { signerId: { not: null }, ipAddress: { not: null } },
+        orderBy: { timestamp: 'asc' },
+        select: { signerId: true, ipAddress: true, action: true },
+      },
+    },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (document.status !== 'COMPLETED') {
+    throw new ESignatureError('Document has not been completed');
+  }
+
+  const originalBytes = await readStoredFile(document.filePath);
+  const originalHash = sha256Hex(originalBytes);
+
+  // Fields hidden by their conditions do not appear in the signed document
+  const { hidden } = await loadFieldLogic(document.id);
+  const visibleFields = document.signatureFields.filter(field => !hidden.has(field.id));
+  const fields: SignatureFieldData[] = visibleFields.map(field => ({
+    id: field.id,
+    type: field.type,
+    label: field.label ?? undefined,
+    pageNumber: field.pageNumber,
+    x: field.x,
+    y: field.y,
+    width: field.width,
+    height: field.height,
+    required: field.required,
+    signerId: field.signerId ?? undefined,
+    value: field.signature?.signatureData,
+    signatureType: field.signature?.signatureType,
+    options: field.options,
+    formFieldName: field.formFieldName,
+  }));
+
+  // Signer uploads travel inside the final PDF as file attachments
+  const attachments: Record<string, Uint8Array> = {};
+  for (const field of fields) {
+    const attachment = field.type === 'ATTACHMENT' ? parseAttachmentValue(field.value) : null;
+    if (attachment) {
+      attachments[field.id] = await readStoredFile(attachment.filePath);
+    }
+  }
+
+  const signedBytes = await embedSignaturesInPDF(originalBytes, fields, attachments);
+  const signedHash = sha256Hex(signedBytes);
+
+  // Prefer the IP the signer signed from, falling back to where they viewed
+  const signerIps = new Map<string, string>();
+  for (const log of document.auditLogs) {
+    if (!signerIps.has(log.signerId!) || log.action === 'field_signed' || log.action === 'signing_completed') {
+      signerIps.set(log.signerId!, log.ipAddress!);
+    }
+  }
+
+  const completedAt = document.completedAt || new Date();
+  const certifiedBytes = await appendCompletionCertificate(signedBytes, {
+    documentId: document.id,
+    title: document.title,
+    completedAt,
+    originalHash,
+    finalHash: signedHash,
+    signers: document.signerWorkflows.filter(signer => signer.status !== 'REASSIGNED').map(signer => ({
+      name: signer.signerName,
+      email: signer.signerEmail,
+      role: signer.signerRole ?? undefined,
+      signingOrder: signer.signingOrder,
+      ipAddress: signer.ipAddress || signerIps.get(signer.id),
+      viewedAt: signer.viewedAt ?? undefined,
+      signedAt: signer.signedAt ?? undefined,
+      signatureData: document.signatureFields.find(
+        field => field.type === 'SIGNATURE' && field.signerId === signer.id && field.signature
+      )?.signature?.signatureData,
+      hostedBy: signer.hostedAt && signer.hostUser
+        ? signer.hostUser.name || signer.hostUser.email
+        : undefined,
+    })),
+  });
+
+  // Digitally sign last so the signature covers the certificate page too
+  const digitallySigned = isDigitalSigningConfigured();
+  const finalBytes = digitallySigned
+    ? await signPdfWithOrganizationCertificate(certifiedBytes, {
+        reason: `Completed e-signature document ${document.id}`,
+        signingTime: completedAt,
+      })
+    : certifiedBytes;
+
+  const finalFilePath = await writeStoredFile(finalBytes);
+  const finalDocumentHash = sha256Hex(finalBytes);
+
+  // Two requests can finalize at once; only the first to save its file keeps it
+  const { count } = await prisma.eSignatureDocument.updateMany({
+    where: { id: document.id, finalFilePath: null },
+    data: {
+      completedAt,
+      finalFilePath,
+      finalDocumentHash,
+    },
+  });
+
+  if (count === 0) {
+    await deleteStoredFile(finalFilePath);
+    return prisma.eSignatureDocument.findUniqueOrThrow({ where: { id: document.id } });
+  }
+
+  const updated = await prisma.eSignatureDocument.findUniqueOrThrow({ where: { id: document.id } });
+
+  await recordAuditEvent({
+    documentId: document.id,
+    action: 'document_completed',
+    description: digitallySigned
+      ? 'Final PDF generated with Certificate of Completion and digitally signed'
+      : 'Final PDF generated with Certificate of Completion',
+    metadata: {
+      originalHash,
+      signedHash,
+      finalDocumentHash,
+      digitallySigned,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Get the final PDF bytes, generating them on first access
+ */
+export async function getFinalDocumentBytes(documentId: string) {
+  let document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    select: { id: true, title: true, status: true, finalFilePath: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+
+  if (!document.finalFilePath) {
+    document = await finalizeCompletedDocument(documentId);
+  }
+
+  return {
+    title: document!.title,
+    bytes: await readStoredFile(document!.finalFilePath!),
+  };
+}
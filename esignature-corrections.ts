@@ -0,0 +1,227 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent, sha256Hex, canonicalJson } from '@/lib/esignature-audit';
+import { sendEmail, escapeHtml } from '@/lib/esignature-email';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { revokeSigningTokens } from '@/lib/esignature-tokens';
+
+/**
+ * Layout of a document when a correction started, used on resend to work out
+ * which pages changed
+ */
+export interface CorrectionSnapshot {
+  documentHash: string | null;
+  pages: Record<string, string>;
+  signerEmails: Record<string, string>;
+}
+
+interface LayoutField {
+  id: string;
+  type: string;
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  required: boolean;
+  signerId: string | null;
+  options: string[];
+}
+
+/**
+ * Fingerprint each page from the fields placed on it. Any added, removed,
+ * moved or reassigned field, or a change to a field's choices, changes the
+ * page's fingerprint.
+ */
+export function computePageFingerprints(fields: LayoutField[]): Record<string, string> {
+  const byPage = new Map<number, LayoutField[]>();
+  for (const field of fields) {
+    byPage.set(field.pageNumber, [...(byPage.get(field.pageNumber) || []), field]);
+  }
+
+  const pages: Record<string, string> = {};
+  byPage.forEach((pageFields, pageNumber) => {
+    const layout = pageFields
+      .map(({ id, type, x, y, width, height, required, signerId, options }) => ({
+        id, type, x, y, width, height, required, signerId,
+        ...(options.length > 0 && { options }),
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    pages[String(pageNumber)] = sha256Hex(canonicalJson(layout));
+  });
+
+  return pages;
+}
+
+/**
+ * Pull a sent document back into setup. Links are revoked and signers who
+ * have not signed yet go back to pending; completed signatures are kept
+ * until the corrected document is resent.
+ */
+export async function startDocumentCorrection(
+  documentId: string,
+  options: { userId?: string; ipAddress?: string; reason?: string } = {}
+) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true, signatureFields: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (document.status !== 'SENT' && document.status !== 'IN_PROGRESS') {
+    throw new ESignatureError('Only documents that are out for signature can be corrected');
+  }
+
+  const snapshot: CorrectionSnapshot = {
+    documentHash: document.documentHash,
+    pages: computePageFingerprints(document.signatureFields),
+    signerEmails: Object.fromEntries(
+      document.signerWorkflows.map(signer => [signer.id, signer.signerEmail.toLowerCase()])
+    ),
+  };
+  const interrupted = document.signerWorkflows.filter(s => s.status === 'SENT' || s.status === 'VIEWED');
+
+  await prisma.$transaction(async (tx) => {
+    await tx.eSignatureDocument.update({
+      where: { id: documentId },
+      data: {
+        status: 'DRAFT',
+        correctionSnapshot: snapshot as unknown as Prisma.InputJsonValue,
+        correctionStartedAt: new Date(),
+      },
+    });
+
+    await tx.signerWorkflow.updateMany({
+      where: { documentId, status: { in: ['SENT', 'VIEWED', 'DECLINED'] } },
+      data: { status: 'PENDING', declinedAt: null, declineReason: null },
+    });
+
+    await revokeSigningTokens({ documentId }, tx);
+
+    await recordAuditEvent({
+      documentId,
+      action: 'document_correction_started',
+      description: options.reason
+        ? `Document pulled back for correction: ${options.reason}`
+        : 'Document pulled back for correction',
+      userId: options.userId,
+      ipAddress: options.ipAddress,
+      metadata: {
+        reason: options.reason,
+        signedSigners: document.signerWorkflows.filter(s => s.status === 'SIGNED').map(s => s.signerEmail),
+      },
+    }, tx);
+  });
+
+  for (const signer of interrupted) {
+    await sendEmail({
+      to: signer.signerEmail,
+      subject: `${document.title} is being updated`,
+      html: `
+        <p>Hi ${escapeHtml(signer.signerName)},</p>
+        <p>The sender is making changes to <strong>${escapeHtml(document.title)}</strong>.
+        Your previous signing link no longer works; you will receive a new one when the document is ready.</p>
+      `,
+      text: `The sender is making changes to ${document.title}. You will receive a new signing link when it is ready.`,
+    });
+  }
+
+  return { interruptedSigners: interrupted.length };
+}
+
+/**
+ * Compare a corrected document with its snapshot. Signatures on changed
+ * pages, or belonging to a signer whose email changed, are removed, and
+ * those signers are set back to pending so they sign again.
+ */
+export async function applyDocumentCorrection(
+  documentId: string,
+  options: { userId?: string; ipAddress?: string } = {}
+) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      signerWorkflows: true,
+      signatureFields: { include: { signature: true } },
+    },
+  });
+
+  if (!document?.correctionSnapshot) {
+    return null;
+  }
+
+  const snapshot = document.correctionSnapshot as unknown as CorrectionSnapshot;
+  const current = computePageFingerprints(document.signatureFields);
+  const fileChanged = snapshot.documentHash !== document.documentHash;
+
+  const allPages = new Set([...Object.keys(snapshot.pages), ...Object.keys(current)]);
+  const changedPages = Array.from(allPages)
+    .filter(page => fileChanged || snapshot.pages[page] !== current[page])
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  const replacedSigners = new Set(
+    document.signerWorkflows
+      .filter(signer => snapshot.signerEmails[signer.id] !== signer.signerEmail.toLowerCase())
+      .map(signer => signer.id)
+  );
+
+  const clearedSignatures = document.signatureFields.filter(field =>
+    field.signature && (
+      changedPages.includes(field.pageNumber) ||
+      replacedSigners.has(field.signature.signerId)
+    )
+  );
+
+  const affectedSignerIds = new Set(clearedSignatures.map(field => field.signature!.signerId));
+  // Signers who signed but now have new required fields must also sign again
+  for (const field of document.signatureFields) {
+    if (field.required && field.signerId && !field.signature) {
+      affectedSignerIds.add(field.signerId);
+    }
+  }
+  const resetSigners = document.signerWorkflows.filter(
+    signer => signer.status === 'SIGNED' && affectedSignerIds.has(signer.id)
+  );
+
+  await prisma.$transaction(async (tx) => {
+    if (clearedSignatures.length > 0) {
+      await tx.signature.deleteMany({
+        where: { id: { in: clearedSignatures.map(field => field.signature!.id) } },
+      });
+    }
+
+    if (resetSigners.length > 0) {
+      await tx.signerWorkflow.updateMany({
+        where: { id: { in: resetSigners.map(signer => signer.id) } },
+        data: { status: 'PENDING', signedAt: null },
+      });
+    }
+
+    await tx.eSignatureDocument.update({
+      where: { id: documentId },
+      data: { correctionSnapshot: Prisma.DbNull, correctionStartedAt: null },
+    });
+
+    await recordAuditEvent({
+      documentId,
+      action: 'document_corrected',
+      description: changedPages.length > 0
+        ? `Corrected document resent; page${changedPages.length === 1 ? '' : 's'} ${changedPages.join(', ')} changed`
+        : 'Corrected document resent with no page changes',
+      userId: options.userId,
+      ipAddress: options.ipAddress,
+      metadata: {
+        changedPages,
+        fileChanged,
+        clearedSignatures: clearedSignatures.length,
+        signersToResign: resetSigners.map(signer => signer.signerEmail),
+        keptSignatures: document.signatureFields.filter(f => f.signature).length - clearedSignatures.length,
+      },
+    }, tx);
+  });
+
+  return { changedPages, resetSigners: resetSigners.length, clearedSignatures: clearedSignatures.length };
+}
@@ -9,6 +9,13 @@ import { Input } from '@/components/ui/input';
 import { DocumentUploadModal } from './document-upload-modal';
 import { DocumentStatusBadge } from './document-status-badge';
 import { EnhancedPdfUploadModal } from '../documents/enhanced-pdf-upload-modal';
+import { SignedPdfVerifier } from './signed-pdf-verifier';
+import { TemplatePickerModal, TemplateSummary } from './template-picker-modal';
+import { SignerSetupModal } from './signer-setup-modal';
+import { BulkSendWizard, BulkSendBatchResult } from './bulk-send-wizard';
+import { DocumentContentMatches } from './document-content-search';
+import { WebhookSettingsModal } from './webhook-settings-modal';
+import { Progress } from '@/components/ui/progress';
 import { 
   FileText, 
   Plus, 
@@ -23,11 +30,17 @@ import {
   TrendingUp,
   Clock,
   CheckCircle,
-  Upload
+  Upload,
+  ShieldCheck,
+  Copy,
+  Layers,
+  Webhook
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 import { toast } from 'sonner';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -68,7 +81,7 @@ interface Document {
     id: string;
     signerName: string;
     signerEmail: string;
-    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
   }>;
   _count: {
     signatures: number;
@@ -98,14 +111,43 @@ export function ESignatureDashboard() {
   const [loading, setLoading] = useState(true);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [showPdfUploadModal, setShowPdfUploadModal] = useState(false);
+  const [showVerifier, setShowVerifier] = useState(false);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateSummary | null>(null);
+  const [showBulkSend, setShowBulkSend] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [bulkBatches, setBulkBatches] = useState<BulkSendBatchResult[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
 
+  const router = useRouter();
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'ADMIN';
+
   useEffect(() => {
     fetchDocuments();
   }, [statusFilter, currentPage]);
 
+  useEffect(() => {
+    fetchBulkBatches();
+  }, []);
+
+  const fetchBulkBatches = async () => {
+    try {
+      const response = await fetch('/api/esignature/bulk-send');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch bulk send batches');
+      }
+
+      const data = await response.json();
+      setBulkBatches(data.batches || []);
+    } catch (error) {
+      console.error('Error fetching bulk send batches:', error);
+    }
+  };
+
   const fetchDocuments = async () => {
     try {
       setLoading(true);
@@ -146,73 +188,9 @@ export function ESignatureDashboard() {
     }
   };
 
-  const handleUpload = async (documentData: {
-    title: string;
-    description?: string;
-    file: File;
-    dealId?: string;
-    contactId?: string;
-  }) => {
-    try {
-      console.log('🎯 Dashboard handleUpload called with data:', {
-        title: documentData.title,
-        description: documentData.description,
-        fileName: documentData.file.name,
-        fileSize: documentData.file.size,
-        fileType: documentData.file.type,
-        dealId: documentData.dealId,
-        contactId: documentData.contactId
-      });
-
-      console.log('📋 Creating FormData...');
-      const formData = new FormData();
-      formData.append('file', documentData.file);
-      formData.append('title', documentData.title);
-      if (documentData.description) {
-        formData.append('description', documentData.description);
-      }
-      if (documentData.dealId) {
-        formData.append('dealId', documentData.dealId);
-      }
-      if (documentData.contactId) {
-        formData.append('contactId', documentData.contactId);
-      }
-
-      console.log('🌐 Making API request to /api/esignature/documents...');
-      const response = await fetch('/api/esignature/documents', {
-        method: 'POST',
-        body: formData,
-      });
-
-      console.log('📡 API response received:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('❌ API error response:', error);
-        throw new Error(error.error || 'Failed to upload document');
-      }
-
-      const result = await response.json();
-      console.log('✅ API success response:', result);
-
-      console.log('🔄 Refreshing documents list...');
-      await fetchDocuments();
-      
-      toast.success('Document uploaded successfully');
-      console.log('🎉 Upload process completed successfully');
-    } catch (error) {
-      console.error('❌ Dashboard upload error:', error);
-      console.error('❌ Error type:', typeof error);
-      console.error('❌ Error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : 'No stack trace'
-      });
-      throw error;
-    }
+  const handleUploaded = async () => {
+    // The modal has already uploaded the file; just show the new draft
+    await fetchDocuments();
   };
 
   const handlePdfUploadComplete = (document: {
@@ -242,8 +220,9 @@ export function ESignatureDashboard() {
   );
 
   const getSigningProgress = (doc: Document) => {
-    const totalSigners = doc.signerWorkflows.length;
-    const signedSigners = doc.signerWorkflows.filter(s => s.status === 'SIGNED').length;
+    const signers = doc.signerWorkflows.filter(s => s.status !== 'REASSIGNED');
+    const totalSigners = signers.length;
+    const signedSigners = signers.filter(s => s.status === 'SIGNED').length;
     return { signed: signedSigners, total: totalSigners };
   };
 
@@ -354,12 +333,79 @@ export function ESignatureDashboard() {
           />
         </div>
 
+        {/* Bulk Send Batches */}
+        {bulkBatches.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Bulk Sends</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {bulkBatches.map((batch) => {
+                const { progress } = batch;
+                const notSent = progress.failed + progress.skipped;
+
+                return (
+                  <div key={batch.id} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Layers className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                        <span className="font-medium truncate">{batch.title}</span>
+                        <span className="text-gray-500">
+                          {formatDistanceToNow(new Date(batch.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3 text-gray-600">
+                        <span>{progress.completed}/{progress.total} completed</span>
+                        <span>{progress.inProgress} awaiting signature</span>
+                        {notSent > 0 && (
+                          <Badge variant="destructive">{notSent} not sent</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Documents Table */}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>All Documents</CardTitle>
               <div className="flex items-center gap-2">
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowWebhooks(true)}
+                  >
+                    <Webhook className="h-4 w-4 mr-2" />
+                    Webhooks
+                  </Button>
+                )}
+                <Button 
+                  variant="outline" 
+                  onClick={() => setShowVerifier(true)}
+                >
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Verify PDF
+                </Button>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setShowTemplatePicker(true)}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  From Template
+                </Button>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setShowBulkSend(true)}
+                >
+                  <Layers className="h-4 w-4 mr-2" />
+                  Bulk Send
+                </Button>
                 <Button 
                   variant="outline" 
                   onClick={() => setShowPdfUploadModal(true)}
@@ -379,7 +425,7 @@ export function ESignatureDashboard() {
               <div className="relative flex-1 max-w-sm">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <Input
-                  placeholder="Search documents..."
+                  placeholder="Search titles and contents..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -404,6 +450,8 @@ export function ESignatureDashboard() {
           </CardHeader>
           
           <CardContent>
+            <DocumentContentMatches query={searchTerm} className="mb-6" />
+
             {filteredDocuments.length === 0 ? (
               <div className="text-center py-12">
                 <FileText className="h-12 w-12 mx-auto text-gray-400 mb-4" />
@@ -524,9 +572,11 @@ export function ESignatureDashboard() {
                             {doc.status === 'COMPLETED' && (
                               <>
                                 <DropdownMenuSeparator />
-                                <DropdownMenuItem>
-                                  <Download className="h-4 w-4 mr-2" />
-                                  Download PDF
+                                <DropdownMenuItem asChild>
+                                  <a href={`/api/esignature/documents/${doc.id}/download`}>
+                                    <Download className="h-4 w-4 mr-2" />
+                                    Download PDF
+                                  </a>
                                 </DropdownMenuItem>
                               </>
                             )}
@@ -545,7 +595,7 @@ export function ESignatureDashboard() {
       <DocumentUploadModal
         isOpen={showUploadModal}
         onClose={() => setShowUploadModal(false)}
-        onUpload={handleUpload}
+        onUploaded={handleUploaded}
       />
 
       <EnhancedPdfUploadModal
@@ -555,6 +605,51 @@ export function ESignatureDashboard() {
         title="Upload PDF for E-Signature"
         description="Upload a PDF document that will be saved to your e-signature dashboard and available for signing workflows."
       />
+
+      <SignedPdfVerifier
+        isOpen={showVerifier}
+        onClose={() => setShowVerifier(false)}
+      />
+
+      {isAdmin && (
+        <WebhookSettingsModal
+          isOpen={showWebhooks}
+          onClose={() => setShowWebhooks(false)}
+        />
+      )}
+
+      <BulkSendWizard
+        isOpen={showBulkSend}
+        onClose={() => setShowBulkSend(false)}
+        onBatchSent={() => {
+          fetchDocuments();
+          fetchBulkBatches();
+        }}
+      />
+
+      <TemplatePickerModal
+        isOpen={showTemplatePicker}
+        onClose={() => setShowTemplatePicker(false)}
+        onSelect={(template) => {
+          setShowTemplatePicker(false);
+          setSelectedTemplate(template);
+        }}
+      />
+
+      {selectedTemplate?.currentVersion && (
+        <SignerSetupModal
+          isOpen={!!selectedTemplate}
+          onClose={() => setSelectedTemplate(null)}
+          onSignersUpdate={fetchDocuments}
+          template={{
+            id: selectedTemplate.id,
+            name: selectedTemplate.name,
+            version: selectedTemplate.currentVersion.version,
+            roles: selectedTemplate.currentVersion.roles,
+          }}
+          onDocumentCreated={(documentId) => router.push(`/esignatures/${documentId}/edit`)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,181 @@
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { syncDerivedFieldValues } from '@/lib/esignature-fields';
+import { deleteStoredFile, isPrivateAttachmentPath } from '@/lib/esignature-storage';
+import { assignSigningToken, revokeSigningTokens } from '@/lib/esignature-tokens';
+import { parseAttachmentValue, validateEmail } from '@/lib/esignature-utils';
+import { sendSigningInvitation } from '@/lib/esignature-workflow';
+
+/**
+ * Handing a signer's place to someone else. The replacement is a new signer
+ * record in the same signing group; the original is marked REASSIGNED and
+ * points to it, so each person keeps their own audit trail. Values the
+ * original signer had already filled in are cleared for the new signer.
+ */
+
+export interface ReassignmentInput {
+  signerName: string;
+  signerEmail: string;
+  contactId?: string | null;
+  reason?: string;
+}
+
+interface ReassignmentContext {
+  /** A signer delegating from their signing page, or the sender reassigning */
+  initiatedBy: 'signer' | 'sender';
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/** Statuses a signer can be reassigned from */
+const REASSIGNABLE_STATUSES = ['PENDING', 'SENT', 'VIEWED'];
+
+/**
+ * Replace a signer with another person: revoke the old link, move the
+ * signer's fields to the new person and invite them when it is their turn
+ */
+export async function reassignSigner(signerId: string, input: ReassignmentInput, context: ReassignmentContext) {
+  const signerName = input.signerName?.trim();
+  const signerEmail = input.signerEmail?.trim();
+  const reason = input.reason?.trim() || undefined;
+
+  if (!signerName || !signerEmail) {
+    throw new ESignatureError('Name and email are required');
+  }
+  if (!validateEmail(signerEmail)) {
+    throw new ESignatureError('Invalid email address');
+  }
+
+  const existing = await prisma.signerWorkflow.findUnique({
+    where: { id: signerId },
+    include: { document: { include: { signerWorkflows: true } } },
+  });
+  if (!existing) {
+    throw new ESignatureError('Signer not found', 404);
+  }
+
+  const { document } = existing;
+  if (!['SENT', 'IN_PROGRESS'].includes(document.status)) {
+    throw new ESignatureError('Document is not out for signature');
+  }
+  if (context.initiatedBy === 'signer' && !document.allowDelegation) {
+    throw new ESignatureError('The sender has not allowed this document to be delegated', 403, 'delegation_not_allowed');
+  }
+  if (!REASSIGNABLE_STATUSES.includes(existing.status)) {
+    throw new ESignatureError('Signer is not waiting to sign');
+  }
+
+  const duplicate = document.signerWorkflows.some(signer =>
+    signer.status !== 'REASSIGNED' && signer.signerEmail.toLowerCase() === signerEmail.toLowerCase()
+  );
+  if (duplicate) {
+    throw new ESignatureError(`${signerEmail} is already a signer on this document`, 409, 'duplicate_signer');
+  }
+
+  // A signer later in the order is only invited once their group is reached
+  const invite = existing.status !== 'PENDING';
+  const clearedAttachments: string[] = [];
+
+  const { replacement, clearedFields } = await prisma.$transaction(async (tx) => {
+    const replacement = await tx.signerWorkflow.create({
+      data: {
+        documentId: existing.documentId,
+        signerName,
+        signerEmail,
+        signerRole: existing.signerRole,
+        signingOrder: existing.signingOrder,
+        groupMode: existing.groupMode,
+        contactId: input.contactId || null,
+        status: invite ? 'SENT' : 'PENDING',
+        sentAt: invite ? new Date() : null,
+        // An access code or phone number belonged to the original signer, so
+        // anyone who had to verify is asked for an email code instead
+        authMethod: existing.authMethod && existing.authMethod !== 'NONE' ? 'EMAIL_OTP' : 'NONE',
+      },
+    });
+
+    await tx.signerWorkflow.update({
+      where: { id: existing.id },
+      data: {
+        status: 'REASSIGNED',
+        reassignedAt: new Date(),
+        reassignedToId: replacement.id,
+        reassignReason: reason,
+      },
+    });
+    await revokeSigningTokens({ id: existing.id }, tx);
+
+    await tx.signatureField.updateMany({
+      where: { documentId: existing.documentId, signerId: existing.id },
+      data: { signerId: replacement.id },
+    });
+
+    const signatures = await tx.signature.findMany({ where: { signerId: existing.id } });
+    const attachmentFields = await tx.signatureField.findMany({
+      where: { id: { in: signatures.map(signature => signature.fieldId) }, type: 'ATTACHMENT' },
+      select: { id: true },
+    });
+    const attachmentFieldIds = new Set(attachmentFields.map(field => field.id));
+    for (const signature of signatures) {
+      // Only uploads the signer made are removed; other values never name a file we own
+      const attachment = attachmentFieldIds.has(signature.fieldId)
+        ? parseAttachmentValue(signature.signatureData)
+        : null;
+      if (attachment && isPrivateAttachmentPath(attachment.filePath)) {
+        clearedAttachments.push(attachment.filePath);
+      }
+    }
+    await tx.signature.deleteMany({ where: { signerId: existing.id } });
+
+    const verb = context.initiatedBy === 'signer' ? 'delegated signing to' : 'reassigned to';
+    await recordAuditEvent({
+      documentId: existing.documentId,
+      action: context.initiatedBy === 'signer' ? 'signer_delegated' : 'signer_reassigned',
+      description: `${existing.signerName} (${existing.signerEmail}) ${verb} ${signerName} (${signerEmail})` +
+        (reason ? `: ${reason}` : ''),
+      userId: context.userId,
+      signerId: existing.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: {
+        fromSignerId: existing.id,
+        toSignerId: replacement.id,
+        fromEmail: existing.signerEmail,
+        toEmail: signerEmail,
+        reason,
+        clearedFields: signatures.length,
+      },
+    }, tx);
+
+    return { replacement, clearedFields: signatures.length };
+  });
+
+  for (const filePath of clearedAttachments) {
+    await deleteStoredFile(filePath);
+  }
+  if (clearedFields > 0) {
+    await syncDerivedFieldValues(existing.documentId, replacement.id);
+  }
+
+  if (invite) {
+    const signer = await assignSigningToken(replacement.id);
+    await sendSigningInvitation(signer, document, {
+      emailMessage: context.initiatedBy === 'signer'
+        ? `${existing.signerName} has asked you to sign in their place.`
+        : undefined,
+    });
+    await recordAuditEvent({
+      documentId: existing.documentId,
+      action: 'signer_invited',
+      description: `Signing invitation sent to ${signer.signerName} (${signer.signerEmail})`,
+      userId: context.userId,
+      signerId: signer.id,
+      metadata: { reassignedFromId: existing.id },
+    });
+    return signer;
+  }
+
+  return replacement;
+}
@@ -0,0 +1,124 @@
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+/**
+ * SMTP transport configured from SMTP_* environment variables
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail({
+      from: process.env.EMAIL_FROM || 'no-reply@localhost',
+      ...message,
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Accepts messages without delivering them, so local development works
+ * without SMTP. Never used in production.
+ */
+export class DevelopmentEmailTransport implements EmailTransport {
+  async send() {
+    return { messageId: `development-${Date.now()}` };
+  }
+}
+
+/**
+ * Keeps sent messages in memory so tests can assert on them
+ */
+export class InMemoryEmailTransport implements EmailTransport {
+  readonly outbox: EmailMessage[] = [];
+
+  async send(message: EmailMessage) {
+    this.outbox.push(message);
+    return { messageId: `memory-${this.outbox.length}` };
+  }
+
+  clear() {
+    this.outbox.length = 0;
+  }
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Get the configured email transport (EMAIL_TRANSPORT=smtp|memory). Without
+ * SMTP_HOST, messages are discarded in development and refused in production.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (activeTransport) return activeTransport;
+
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'smtp':
+      activeTransport = new SmtpEmailTransport();
+      break;
+    case 'memory':
+      activeTransport = new InMemoryEmailTransport();
+      break;
+    default:
+      if (process.env.SMTP_HOST) {
+        activeTransport = new SmtpEmailTransport();
+      } else if (process.env.NODE_ENV === 'production') {
+        // Signing links would otherwise be dropped without anyone noticing
+        throw new Error('Email is not configured: set SMTP_HOST');
+      } else {
+        activeTransport = new DevelopmentEmailTransport();
+      }
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Replace the email transport, e.g. with an InMemoryEmailTransport in tests
+ */
+export function setEmailTransport(transport: EmailTransport | null) {
+  activeTransport = transport;
+}
+
+/**
+ * Send an email through the active transport
+ */
+export async function sendEmail(message: EmailMessage) {
+  return getEmailTransport().send(message);
+}
+
+/**
+ * Absolute URL of the public signing page for a token
+ */
+export function getSigningUrl(signingToken: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+  return `${baseUrl}/sign/${signingToken}`;
+}
+
+/**
+ * Escape user-provided text before placing it in an email body
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
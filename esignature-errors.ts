@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Error raised by e-signature server modules. Carries the HTTP status the
+ * API route should respond with and an optional machine-readable code.
+ */
+export class ESignatureError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status = 400, code?: string) {
+    super(message);
+    this.name = 'ESignatureError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Convert an error thrown inside an API route into a JSON response
+ */
+export function toErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof ESignatureError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  console.error(fallbackMessage, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
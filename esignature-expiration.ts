@@ -0,0 +1,298 @@
+import { Prisma, SignerWorkflow } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { sendEmail, getSigningUrl, escapeHtml } from '@/lib/esignature-email';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { assignSigningToken, ensureSigningToken, revokeSigningTokens } from '@/lib/esignature-tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DocumentWithSigners = Prisma.ESignatureDocumentGetPayload<{ include: { signerWorkflows: true } }>;
+
+type OverdueDocument = Prisma.ESignatureDocumentGetPayload<{
+  include: { uploadedBy: { select: { name: true; email: true } }; signerWorkflows: true };
+}>;
+
+const ACTIVE_DOCUMENT_STATUSES = ['SENT', 'IN_PROGRESS'];
+const AWAITING_SIGNER_STATUSES = ['SENT', 'VIEWED'];
+
+/** Longest a deadline can be pushed out in one extension */
+const MAX_EXTENSION_DAYS = 365;
+
+export interface ExpirationRunSummary {
+  warningsSent: number;
+  documentsExpired: number;
+  failures: Array<{ documentId: string; signerId?: string; error: string }>;
+}
+
+/**
+ * Days before the deadline on which outstanding signers are warned
+ * (ESIGNATURE_EXPIRY_WARNING_DAYS, comma separated, default 7,3,1)
+ */
+export function getExpiryWarningDays(): number[] {
+  const configured = (process.env.ESIGNATURE_EXPIRY_WARNING_DAYS || '7,3,1')
+    .split(',')
+    .map(value => Number(value.trim()))
+    .filter(days => Number.isInteger(days) && days > 0);
+
+  return Array.from(new Set(configured)).sort((a, b) => b - a);
+}
+
+function formatDeadline(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * The smallest warning threshold the deadline falls within, if any
+ */
+function dueWarningThreshold(expiresAt: Date, now: Date, thresholds: number[]) {
+  const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+  const within = thresholds.filter(days => daysLeft <= days);
+  return within.length > 0 ? { threshold: Math.min(...within), daysLeft } : null;
+}
+
+async function sendExpiryWarning(
+  signer: SignerWorkflow,
+  document: DocumentWithSigners,
+  expiresAt: Date,
+  due: { daysLeft: number; threshold: number }
+) {
+  const { daysLeft, threshold } = due;
+  const signingUrl = getSigningUrl(await ensureSigningToken(signer));
+  const deadline = formatDeadline(expiresAt);
+  const inDays = daysLeft <= 1 ? 'tomorrow' : `in ${daysLeft} days`;
+
+  await sendEmail({
+    to: signer.signerEmail,
+    subject: `${document.title} expires ${inDays}`,
+    html: `
+      <p>Hi ${escapeHtml(signer.signerName)},</p>
+      <p><strong>${escapeHtml(document.title)}</strong> is still waiting for your signature and expires ${inDays}, on ${deadline}.
+      After that it can no longer be signed.</p>
+      <p><a href="${signingUrl}">Review and sign the document</a></p>
+    `,
+    text: `${document.title} expires ${inDays} (${deadline}) and is waiting for your signature. ${signingUrl}`,
+  });
+
+  await prisma.signerWorkflow.update({
+    where: { id: signer.id },
+    data: { expiryWarningDays: threshold },
+  });
+
+  await recordAuditEvent({
+    documentId: document.id,
+    action: 'expiry_warning_sent',
+    description: `Expiry warning sent to ${signer.signerName} (${signer.signerEmail}): expires ${inDays}`,
+    signerId: signer.id,
+    metadata: { daysLeft, threshold, expiresAt },
+  });
+}
+
+/**
+ * Move an overdue document to EXPIRED, revoke its signing links and tell
+ * the sender. Returns false when the document was extended or finished in
+ * the meantime.
+ */
+async function expireDocument(document: OverdueDocument, expiresAt: Date, now: Date) {
+  const outstanding = document.signerWorkflows.filter(signer => AWAITING_SIGNER_STATUSES.includes(signer.status));
+
+  const expired = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.eSignatureDocument.updateMany({
+      where: { id: document.id, status: { in: ACTIVE_DOCUMENT_STATUSES }, expiresAt: { lte: now } },
+      data: { status: 'EXPIRED', expiredAt: now },
+    });
+    if (count === 0) return false;
+
+    const revoked = await revokeSigningTokens({ documentId: document.id }, tx);
+
+    await recordAuditEvent({
+      documentId: document.id,
+      action: 'document_expired',
+      description: `Document expired with ${outstanding.length} signer${outstanding.length === 1 ? '' : 's'} outstanding`,
+      metadata: {
+        previousStatus: document.status,
+        expiresAt,
+        revokedLinks: revoked,
+        outstandingSigners: outstanding.map(signer => signer.signerEmail),
+      },
+    }, tx);
+
+    return true;
+  });
+
+  if (expired && document.uploadedBy?.email) {
+    const names = outstanding.map(signer => signer.signerName).join(', ') || 'no one';
+    await sendEmail({
+      to: document.uploadedBy.email,
+      subject: `${document.title} has expired`,
+      html: `
+        <p><strong>${escapeHtml(document.title)}</strong> passed its signing deadline of ${formatDeadline(expiresAt)}
+        and can no longer be signed.</p>
+        <p>Still waiting on: ${escapeHtml(names)}.</p>
+        <p>You can extend the deadline from the document page to reopen it for signing.</p>
+      `,
+      text: `${document.title} expired on ${formatDeadline(expiresAt)}. Still waiting on: ${names}. Extend the deadline from the document page to reopen it.`,
+    });
+  }
+
+  return expired;
+}
+
+/**
+ * Warn outstanding signers about approaching deadlines, then expire overdue
+ * documents. Intended to be run on a schedule.
+ */
+export async function processDocumentExpirations(now = new Date()): Promise<ExpirationRunSummary> {
+  const summary: ExpirationRunSummary = { warningsSent: 0, documentsExpired: 0, failures: [] };
+  const thresholds = getExpiryWarningDays();
+
+  if (thresholds.length > 0) {
+    const upcoming = await prisma.eSignatureDocument.findMany({
+      where: {
+        status: { in: ACTIVE_DOCUMENT_STATUSES },
+        expiresAt: { gt: now, lte: new Date(now.getTime() + thresholds[0] * DAY_MS) },
+      },
+      include: {
+        signerWorkflows: { where: { status: { in: AWAITING_SIGNER_STATUSES } } },
+      },
+    });
+
+    for (const document of upcoming) {
+      const expiresAt = document.expiresAt!;
+      const due = dueWarningThreshold(expiresAt, now, thresholds);
+      if (!due) continue;
+
+      for (const signer of document.signerWorkflows) {
+        // Each threshold is sent once; a signer warned at 3 days still gets the 1 day warning
+        if (signer.expiryWarningDays && signer.expiryWarningDays <= due.threshold) continue;
+
+        try {
+          await sendExpiryWarning(signer, document, expiresAt, due);
+          summary.warningsSent++;
+        } catch (error) {
+          console.error(`Error sending expiry warning to signer ${signer.id}:`, error);
+          summary.failures.push({
+            documentId: document.id,
+            signerId: signer.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+  }
+
+  const overdue = await prisma.eSignatureDocument.findMany({
+    where: { status: { in: ACTIVE_DOCUMENT_STATUSES }, expiresAt: { lte: now } },
+    include: {
+      uploadedBy: { select: { name: true, email: true } },
+      signerWorkflows: true,
+    },
+  });
+
+  for (const document of overdue) {
+    try {
+      if (await expireDocument(document, document.expiresAt!, now)) {
+        summary.documentsExpired++;
+      }
+    } catch (error) {
+      console.error(`Error expiring document ${document.id}:`, error);
+      summary.failures.push({
+        documentId: document.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Push a document's deadline out. An expired document is reopened for
+ * signing. Outstanding signers get fresh links that last until the new
+ * deadline, since their old links could not outlive the previous one.
+ */
+export async function extendDocumentDeadline(
+  documentId: string,
+  newExpiresAt: Date,
+  options: { userId?: string; ipAddress?: string } = {}
+) {
+  if (!(newExpiresAt instanceof Date) || isNaN(newExpiresAt.getTime())) {
+    throw new ESignatureError('A valid new deadline is required');
+  }
+
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (![...ACTIVE_DOCUMENT_STATUSES, 'EXPIRED'].includes(document.status)) {
+    throw new ESignatureError(`A ${document.status.toLowerCase()} document's deadline cannot be extended`);
+  }
+
+  const now = new Date();
+  if (newExpiresAt <= now) {
+    throw new ESignatureError('The new deadline must be in the future');
+  }
+  if (document.expiresAt && newExpiresAt <= document.expiresAt) {
+    throw new ESignatureError('The new deadline must be later than the current one');
+  }
+  if (newExpiresAt.getTime() - now.getTime() > MAX_EXTENSION_DAYS * DAY_MS) {
+    throw new ESignatureError(`Deadlines can be at most ${MAX_EXTENSION_DAYS} days away`);
+  }
+
+  const reopened = document.status === 'EXPIRED';
+  const status = reopened
+    ? (document.signerWorkflows.some(signer => signer.status === 'SIGNED') ? 'IN_PROGRESS' : 'SENT')
+    : document.status;
+  const outstanding = document.signerWorkflows.filter(signer => AWAITING_SIGNER_STATUSES.includes(signer.status));
+
+  await prisma.$transaction(async (tx) => {
+    await tx.eSignatureDocument.update({
+      where: { id: documentId },
+      data: { expiresAt: newExpiresAt, status, expiredAt: null },
+    });
+    await tx.signerWorkflow.updateMany({
+      where: { documentId },
+      data: { expiryWarningDays: null },
+    });
+
+    await recordAuditEvent({
+      documentId,
+      action: 'deadline_extended',
+      description: reopened
+        ? `Deadline extended to ${formatDeadline(newExpiresAt)} and the expired document reopened for signing`
+        : `Deadline extended to ${formatDeadline(newExpiresAt)}`,
+      userId: options.userId,
+      ipAddress: options.ipAddress,
+      metadata: {
+        previousExpiresAt: document.expiresAt,
+        expiresAt: newExpiresAt,
+        previousStatus: document.status,
+        reopened,
+        notifiedSigners: outstanding.map(signer => signer.signerEmail),
+      },
+    }, tx);
+  });
+
+  for (const pending of outstanding) {
+    const signer = await assignSigningToken(pending.id);
+    const signingUrl = getSigningUrl(signer.signingToken!);
+
+    await sendEmail({
+      to: signer.signerEmail,
+      subject: `More time to sign ${document.title}`,
+      html: `
+        <p>Hi ${escapeHtml(signer.signerName)},</p>
+        <p>The deadline to sign <strong>${escapeHtml(document.title)}</strong> has been extended to ${formatDeadline(newExpiresAt)}.</p>
+        <p><a href="${signingUrl}">Review and sign the document</a></p>
+        <p>Earlier links to this document no longer work.</p>
+      `,
+      text: `The deadline to sign ${document.title} is now ${formatDeadline(newExpiresAt)}. ${signingUrl}`,
+    });
+  }
+
+  return { expiresAt: newExpiresAt, status, reopened, notifiedSigners: outstanding.length };
+}
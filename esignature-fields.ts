@@ -0,0 +1,395 @@
+import { Prisma } from '@prisma/client';
+import { PDFDocument } from 'pdf-lib';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { readStoredFile } from '@/lib/esignature-storage';
+import {
+  computeCalculatedValues,
+  extractAcroFormFields,
+  FieldCondition,
+  getHiddenFieldIds,
+  isCalculatedField,
+  isChoiceField,
+  matchSignerForFormField,
+  normalizeFieldOptions,
+  parseFieldCondition,
+  SignatureFieldData,
+  validateFieldCoordinates,
+  validateFieldLogic,
+} from '@/lib/esignature-utils';
+
+export interface FieldInput {
+  type?: SignatureFieldData['type'];
+  label?: string | null;
+  pageNumber?: number;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  required?: boolean;
+  signerId?: string | null;
+  showWhen?: FieldCondition | null;
+  formula?: string | null;
+  options?: string[] | null;
+}
+
+export const FIELD_TYPES: SignatureFieldData['type'][] = [
+  'SIGNATURE',
+  'INITIALS',
+  'DATE',
+  'TEXT',
+  'CHECKBOX',
+  'DROPDOWN',
+  'RADIO',
+  'ATTACHMENT',
+  'NAME',
+  'EMAIL',
+  'COMPANY',
+];
+
+type Client = Prisma.TransactionClient;
+
+function toLogicField(field: {
+  id: string;
+  type: string;
+  label: string | null;
+  pageNumber: number;
+  showWhen: Prisma.JsonValue | null;
+  formula: string | null;
+  options: string[];
+  signature?: { signatureData: string } | null;
+}) {
+  return {
+    id: field.id,
+    type: field.type as SignatureFieldData['type'],
+    label: field.label,
+    pageNumber: field.pageNumber,
+    showWhen: field.showWhen as unknown as FieldCondition | null,
+    formula: field.formula,
+    options: field.options,
+    value: field.signature?.signatureData,
+  };
+}
+
+async function loadEditableDocument(documentId: string) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      signatureFields: true,
+      signerWorkflows: { select: { id: true, signerName: true, signerRole: true, signingOrder: true } },
+    },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (document.status !== 'DRAFT') {
+    throw new ESignatureError('Fields can only be changed while the document is a draft');
+  }
+
+  return document;
+}
+
+/**
+ * Check a document's fields as they would be after a change
+ */
+export function assertValidLayout(fields: Parameters<typeof toLogicField>[0][]) {
+  const problem = validateFieldLogic(fields.map(toLogicField));
+  if (problem) {
+    throw new ESignatureError(problem);
+  }
+}
+
+/**
+ * Check that a field's page is a whole number within the draft's PDF
+ */
+async function assertPageInDocument(filePath: string, pageNumber: number) {
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    throw new ESignatureError('Page number must be a whole number starting at 1');
+  }
+
+  const pdfDoc = await PDFDocument.load(await readStoredFile(filePath), { updateMetadata: false });
+  const pageCount = pdfDoc.getPageCount();
+  if (pageNumber > pageCount) {
+    throw new ESignatureError(`This document has ${pageCount} page${pageCount === 1 ? '' : 's'}; there is no page ${pageNumber}`);
+  }
+}
+
+function normalizeFieldInput(input: FieldInput, signerIds: string[], existingType?: string) {
+  if (input.type !== undefined && !FIELD_TYPES.includes(input.type)) {
+    throw new ESignatureError(`Unknown field type "${input.type}"`);
+  }
+  if (input.signerId && !signerIds.includes(input.signerId)) {
+    throw new ESignatureError('Signer not found on this document', 404);
+  }
+
+  // Whether the watched field exists is checked with the rest of the layout
+  const showWhen = input.showWhen ? parseFieldCondition(input.showWhen) : null;
+  if (input.showWhen && !showWhen) {
+    throw new ESignatureError('A field condition needs a field to watch and a known operator');
+  }
+
+  // Options only apply to choice fields; other types always store none
+  const type = input.type ?? existingType;
+  const options = input.options === undefined && input.type === undefined
+    ? undefined
+    : type && isChoiceField({ type }) ? normalizeFieldOptions(input.options) : [];
+
+  return {
+    ...input,
+    options,
+    // An empty label clears it; leaving it out keeps the current one
+    label: input.label === undefined ? undefined : input.label?.trim() || null,
+    formula: input.formula === undefined ? undefined : input.formula?.trim() || null,
+    showWhen: input.showWhen === undefined
+      ? undefined
+      : showWhen
+        ? showWhen as unknown as Prisma.InputJsonValue
+        : Prisma.DbNull,
+  };
+}
+
+/**
+ * Place a new field on a draft document
+ */
+export async function addSignatureField(documentId: string, input: FieldInput) {
+  const document = await loadEditableDocument(documentId);
+  const data = normalizeFieldInput(input, document.signerWorkflows.map(s => s.id));
+
+  if (!data.type || data.pageNumber === undefined || !validateFieldCoordinates(input)) {
+    throw new ESignatureError('Field type, page and a position within the page are required');
+  }
+  await assertPageInDocument(document.filePath, data.pageNumber);
+
+  return prisma.$transaction(async (tx) => {
+    const field = await tx.signatureField.create({
+      data: {
+        documentId,
+        type: data.type!,
+        label: data.label,
+        pageNumber: data.pageNumber!,
+        x: data.x!,
+        y: data.y!,
+        width: data.width!,
+        height: data.height!,
+        required: data.required ?? true,
+        signerId: data.signerId || null,
+        showWhen: data.showWhen,
+        formula: data.formula,
+        options: data.options,
+      },
+    });
+
+    assertValidLayout([...document.signatureFields, field]);
+    return field;
+  });
+}
+
+/**
+ * Change a field's placement, assignment or logic. The whole layout is
+ * re-validated so conditions and formulas never point at missing fields.
+ */
+export async function updateSignatureField(documentId: string, fieldId: string, input: FieldInput) {
+  const document = await loadEditableDocument(documentId);
+  const existing = document.signatureFields.find(field => field.id === fieldId);
+  if (!existing) {
+    throw new ESignatureError('Field not found', 404);
+  }
+
+  const data = normalizeFieldInput(input, document.signerWorkflows.map(s => s.id), existing.type);
+
+  // A partial move or resize is checked against the field's stored placement
+  const placement = {
+    x: input.x ?? existing.x,
+    y: input.y ?? existing.y,
+    width: input.width ?? existing.width,
+    height: input.height ?? existing.height,
+  };
+  if (!validateFieldCoordinates(placement)) {
+    throw new ESignatureError('Fields must stay on a page and within its bounds');
+  }
+  if (input.pageNumber !== undefined) {
+    await assertPageInDocument(document.filePath, input.pageNumber);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const field = await tx.signatureField.update({
+      where: { id: fieldId },
+      data,
+    });
+
+    assertValidLayout(document.signatureFields.map(current => current.id === fieldId ? field : current));
+    return field;
+  });
+}
+
+/**
+ * Remove a field. Fails while other fields still depend on it.
+ */
+export async function removeSignatureField(documentId: string, fieldId: string) {
+  const document = await loadEditableDocument(documentId);
+  const remaining = document.signatureFields.filter(field => field.id !== fieldId);
+
+  if (remaining.length === document.signatureFields.length) {
+    throw new ESignatureError('Field not found', 404);
+  }
+  assertValidLayout(remaining);
+
+  await prisma.signatureField.delete({ where: { id: fieldId } });
+}
+
+async function findNewFormFields(document: Awaited<ReturnType<typeof loadEditableDocument>>) {
+  const imported = new Set(document.signatureFields.map(field => field.formFieldName).filter(Boolean));
+  const bytes = await readStoredFile(document.filePath);
+
+  let detected;
+  try {
+    detected = await extractAcroFormFields(bytes);
+  } catch (error) {
+    console.error('Error reading PDF form fields:', error);
+    throw new ESignatureError('The form fields in this PDF could not be read', 422);
+  }
+
+  return detected
+    .filter(field => !imported.has(field.formFieldName))
+    .map(field => ({
+      ...field,
+      signerId: matchSignerForFormField(field.formFieldName, document.signerWorkflows)?.id ?? null,
+    }));
+}
+
+/**
+ * Fillable form fields in a draft's PDF that have not been imported yet,
+ * with the signer each would be assigned to
+ */
+export async function detectAcroFormFields(documentId: string) {
+  return findNewFormFields(await loadEditableDocument(documentId));
+}
+
+/**
+ * Create signature fields from the PDF's own form fields. Each keeps the
+ * name of its form field so the completed values are written back into the
+ * form. Fields imported before are skipped, so this can be re-run after
+ * signers are added.
+ */
+export async function importAcroFormFields(documentId: string, options: { userId?: string } = {}) {
+  const document = await loadEditableDocument(documentId);
+  const candidates = await findNewFormFields(document);
+
+  if (candidates.length === 0) {
+    return { imported: 0, assigned: 0 };
+  }
+
+  const created = await prisma.$transaction(async (tx) => {
+    const fields = [];
+    for (const candidate of candidates) {
+      fields.push(await tx.signatureField.create({
+        data: {
+          documentId,
+          type: candidate.type,
+          label: candidate.label,
+          pageNumber: candidate.pageNumber,
+          x: candidate.x,
+          y: candidate.y,
+          width: candidate.width,
+          height: candidate.height,
+          required: candidate.required,
+          signerId: candidate.signerId,
+          options: candidate.options ?? [],
+          formFieldName: candidate.formFieldName,
+        },
+      }));
+    }
+
+    assertValidLayout([...document.signatureFields, ...fields]);
+
+    await recordAuditEvent({
+      documentId,
+      action: 'document_updated',
+      description: `Imported ${fields.length} field${fields.length === 1 ? '' : 's'} from the PDF's form`,
+      userId: options.userId,
+      metadata: { formFields: fields.map(field => field.formFieldName) },
+    }, tx);
+
+    return fields;
+  });
+
+  return {
+    imported: created.length,
+    assigned: created.filter(field => field.signerId).length,
+  };
+}
+
+/**
+ * A document's fields with their current values and which are hidden
+ */
+export async function loadFieldLogic(documentId: string, client: Client = prisma) {
+  const fields = await client.signatureField.findMany({
+    where: { documentId },
+    include: { signature: true },
+  });
+  const logicFields = fields.map(toLogicField);
+
+  return { fields, logicFields, hidden: getHiddenFieldIds(logicFields) };
+}
+
+/**
+ * Bring stored values in line with the field logic after a value changes:
+ * signatures on fields that are now hidden are removed and calculated fields
+ * are recomputed. Values from signers who have already finished are kept as
+ * they signed them; hidden fields are left out of the final document instead.
+ * Returns the resulting field state.
+ */
+export async function syncDerivedFieldValues(documentId: string, signerId: string, client: Client = prisma) {
+  const { fields, logicFields, hidden } = await loadFieldLogic(documentId, client);
+  const hiddenWithValues = fields.filter(field => hidden.has(field.id) && field.signature);
+  const finishedSigners = hiddenWithValues.length > 0
+    ? await client.signerWorkflow.findMany({
+      where: { documentId, status: 'SIGNED' },
+      select: { id: true },
+    })
+    : [];
+  const finishedSignerIds = new Set(finishedSigners.map(signer => signer.id));
+  const clearedHidden = hiddenWithValues.filter(field => !finishedSignerIds.has(field.signature!.signerId));
+  if (clearedHidden.length > 0) {
+    await client.signature.deleteMany({
+      where: { id: { in: clearedHidden.map(field => field.signature!.id) } },
+    });
+  }
+
+  const visibleFields = logicFields.map(field => hidden.has(field.id) ? { ...field, value: undefined } : field);
+  const calculated = computeCalculatedValues(visibleFields);
+  const values = new Map(visibleFields.map(field => [field.id, field.value]));
+
+  for (const field of fields) {
+    if (!isCalculatedField(field) || hidden.has(field.id)) continue;
+
+    const value = calculated.get(field.id) || '';
+    values.set(field.id, value || undefined);
+    if ((field.signature?.signatureData || '') === value) continue;
+
+    if (!value) {
+      await client.signature.delete({ where: { id: field.signature!.id } });
+    } else {
+      await client.signature.upsert({
+        where: { fieldId: field.id },
+        create: {
+          fieldId: field.id,
+          documentId,
+          signerId: field.signerId ?? signerId,
+          signatureData: value,
+          signatureType: 'calculated',
+        },
+        update: { signatureData: value, timestamp: new Date() },
+      });
+    }
+  }
+
+  return {
+    fields,
+    hidden,
+    values,
+    clearedHiddenFields: clearedHidden.map(field => field.id),
+  };
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import {
+  InMemoryOtpDeliveryProvider,
+  MAX_FAILED_VERIFICATION_ATTEMPTS,
+  sendVerificationCode,
+  setOtpDeliveryProvider,
+  verifySignerIdentity,
+} from './esignature-identity';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    signerWorkflow: { update: vi.fn(), updateMany: vi.fn(), findUnique: vi.fn() },
+  },
+}));
+vi.mock('@/lib/esignature-audit', () => ({ recordAuditEvent: vi.fn() }));
+vi.mock('@/lib/esignature-email', () => ({ sendEmail: vi.fn(), escapeHtml: (value: string) => value }));
+vi.mock('@/lib/esignature-sms', () => ({ sendSms: vi.fn() }));
+
+const signer = {
+  id: 'signer-1',
+  documentId: 'doc-1',
+  signerName: 'Alex Rivera',
+  signerEmail: 'alex@example.com',
+  authMethod: 'EMAIL_OTP',
+  failedAuthAttempts: 0,
+  authLockedAt: null,
+};
+
+const update = vi.mocked(prisma.signerWorkflow.update);
+const updateMany = vi.mocked(prisma.signerWorkflow.updateMany);
+
+/**
+ * Send a code through the in-memory provider and return the signer as it
+ * would be loaded afterwards, with the code that was delivered
+ */
+async function signerWithCode() {
+  const provider = new InMemoryOtpDeliveryProvider();
+  setOtpDeliveryProvider(provider);
+  update.mockResolvedValueOnce({} as never);
+
+  await sendVerificationCode({ ...signer, document: { title: 'Lease' } });
+
+  const { data } = update.mock.calls[0][0] as { data: { otpHash: string; otpExpiresAt: Date } };
+  return {
+    signer: { ...signer, otpHash: data.otpHash, otpExpiresAt: data.otpExpiresAt },
+    code: provider.latestCodeFor(signer.signerEmail)!,
+  };
+}
+
+function failedAttemptsBecome(count: number) {
+  update.mockResolvedValueOnce({ failedAuthAttempts: count } as never);
+}
+
+describe('verifySignerIdentity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.ESIGNATURE_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    setOtpDeliveryProvider(null);
+  });
+
+  it('accepts the delivered code once', async () => {
+    const { signer: current, code } = await signerWithCode();
+    updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(verifySignerIdentity(current, code)).resolves.toMatch(/^signer-1\./);
+    expect(updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        authLockedAt: null,
+        failedAuthAttempts: { lt: MAX_FAILED_VERIFICATION_ATTEMPTS },
+        otpHash: current.otpHash,
+      }),
+    }));
+  });
+
+  it('rejects a code that was already used', async () => {
+    const { signer: current, code } = await signerWithCode();
+    updateMany.mockResolvedValueOnce({ count: 0 });
+    vi.mocked(prisma.signerWorkflow.findUnique).mockResolvedValueOnce(
+      { authLockedAt: null, failedAuthAttempts: 0 } as never
+    );
+
+    await expect(verifySignerIdentity(current, code)).rejects.toMatchObject({ status: 401, code: 'code_expired' });
+  });
+
+  it('counts a wrong code in the database and reports the attempts left', async () => {
+    const { signer: current } = await signerWithCode();
+    failedAttemptsBecome(3);
+
+    await expect(verifySignerIdentity(current, '000000x')).rejects.toMatchObject({
+      status: 401,
+      code: 'invalid_code',
+      message: 'Incorrect code. 2 attempts remaining.',
+    });
+    expect(update).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: { failedAuthAttempts: { increment: 1 } },
+    }));
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it('locks the session on the last allowed failure', async () => {
+    const { signer: current } = await signerWithCode();
+    failedAttemptsBecome(MAX_FAILED_VERIFICATION_ATTEMPTS);
+    updateMany.mockResolvedValueOnce({ count: 1 });
+
+    await expect(verifySignerIdentity(current, 'wrong')).rejects.toMatchObject({
+      status: 423,
+      code: 'verification_locked',
+    });
+    expect(updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'signer-1', authLockedAt: null },
+    }));
+    expect(recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ action: 'identity_locked' }));
+  });
+
+  it('records the lock only once when parallel guesses pass the limit', async () => {
+    const { signer: current } = await signerWithCode();
+    failedAttemptsBecome(MAX_FAILED_VERIFICATION_ATTEMPTS + 1);
+    updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(verifySignerIdentity(current, 'wrong')).rejects.toMatchObject({ status: 423 });
+    expect(recordAuditEvent).not.toHaveBeenCalledWith(expect.objectContaining({ action: 'identity_locked' }));
+  });
+
+  it('refuses a correct code once the session locked in the meantime', async () => {
+    const { signer: current, code } = await signerWithCode();
+    updateMany.mockResolvedValueOnce({ count: 0 });
+    vi.mocked(prisma.signerWorkflow.findUnique).mockResolvedValueOnce(
+      { authLockedAt: new Date(), failedAuthAttempts: MAX_FAILED_VERIFICATION_ATTEMPTS } as never
+    );
+
+    await expect(verifySignerIdentity(current, code)).rejects.toMatchObject({ status: 423 });
+  });
+
+  it('refuses any code while locked', async () => {
+    const { signer: current, code } = await signerWithCode();
+
+    await expect(verifySignerIdentity({ ...current, authLockedAt: new Date() }, code))
+      .rejects.toMatchObject({ status: 423, code: 'verification_locked' });
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+});
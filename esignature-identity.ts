@@ -0,0 +1,471 @@
+import { randomInt } from 'crypto';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { sendEmail, escapeHtml } from '@/lib/esignature-email';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { sendSms } from '@/lib/esignature-sms';
+import { hmacSign, safeEqual } from '@/lib/esignature-tokens';
+import { namesMatch } from '@/lib/esignature-utils';
+
+export type SignerAuthMethod = 'NONE' | 'ACCESS_CODE' | 'EMAIL_OTP' | 'SMS_OTP';
+
+export const SIGNER_AUTH_METHODS: SignerAuthMethod[] = ['NONE', 'ACCESS_CODE', 'EMAIL_OTP', 'SMS_OTP'];
+
+/**
+ * How a signer proves who they are right now. A hosted in-person session
+ * replaces the configured method: the signer confirms their name on the
+ * host's device instead.
+ */
+export type VerificationMethod = SignerAuthMethod | 'IN_PERSON';
+
+/** Failed attempts allowed before the signing session is locked */
+export const MAX_FAILED_VERIFICATION_ATTEMPTS = 5;
+
+/** Cookie that proves a signer passed verification in this browser */
+export function getVerificationCookieName(signerId: string): string {
+  return `esign_verified_${signerId}`;
+}
+
+export const VERIFICATION_SESSION_MINUTES = 60;
+
+const OTP_TTL_MINUTES = 10;
+const OTP_RESEND_SECONDS = 60;
+
+// No 0/O or 1/I so codes read back over the phone are unambiguous
+const ACCESS_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ACCESS_CODE_LENGTH = 6;
+
+export interface OtpDelivery {
+  channel: 'EMAIL' | 'SMS';
+  to: string;
+  code: string;
+  signerName: string;
+  documentTitle: string;
+  expiresAt: Date;
+}
+
+export interface OtpDeliveryProvider {
+  deliver(delivery: OtpDelivery): Promise<void>;
+}
+
+/**
+ * Delivers codes through the configured email and SMS transports
+ */
+export class TransportOtpDeliveryProvider implements OtpDeliveryProvider {
+  async deliver(delivery: OtpDelivery) {
+    if (delivery.channel === 'SMS') {
+      await sendSms({
+        to: delivery.to,
+        body: `${delivery.code} is your code to sign "${delivery.documentTitle}". It expires in ${OTP_TTL_MINUTES} minutes.`,
+      });
+      return;
+    }
+
+    await sendEmail({
+      to: delivery.to,
+      subject: `Your signing code for ${delivery.documentTitle}`,
+      html: `
+        <p>Hi ${escapeHtml(delivery.signerName)},</p>
+        <p>Use this code to open <strong>${escapeHtml(delivery.documentTitle)}</strong>:</p>
+        <p style="font-size:24px;letter-spacing:4px"><strong>${delivery.code}</strong></p>
+        <p>The code expires in ${OTP_TTL_MINUTES} minutes. If you did not request it, you can ignore this email.</p>
+      `,
+      text: `Your code to sign ${delivery.documentTitle} is ${delivery.code}. It expires in ${OTP_TTL_MINUTES} minutes.`,
+    });
+  }
+}
+
+/**
+ * Keeps delivered codes in memory so tests can read them back
+ */
+export class InMemoryOtpDeliveryProvider implements OtpDeliveryProvider {
+  readonly outbox: OtpDelivery[] = [];
+
+  async deliver(delivery: OtpDelivery) {
+    this.outbox.push(delivery);
+  }
+
+  latestCodeFor(to: string): string | undefined {
+    return [...this.outbox].reverse().find(delivery => delivery.to === to)?.code;
+  }
+
+  clear() {
+    this.outbox.length = 0;
+  }
+}
+
+let activeProvider: OtpDeliveryProvider | null = null;
+
+/**
+ * Get the OTP delivery provider (OTP_DELIVERY=memory keeps codes in memory)
+ */
+export function getOtpDeliveryProvider(): OtpDeliveryProvider {
+  if (!activeProvider) {
+    activeProvider = process.env.OTP_DELIVERY === 'memory'
+      ? new InMemoryOtpDeliveryProvider()
+      : new TransportOtpDeliveryProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the OTP delivery provider, e.g. with an InMemoryOtpDeliveryProvider in tests
+ */
+export function setOtpDeliveryProvider(provider: OtpDeliveryProvider | null) {
+  activeProvider = provider;
+}
+
+interface VerifiableSigner {
+  id: string;
+  documentId: string;
+  signerName: string;
+  signerEmail: string;
+  signerPhone?: string | null;
+  authMethod?: string | null;
+  accessCodeHash?: string | null;
+  otpHash?: string | null;
+  otpExpiresAt?: Date | null;
+  otpSentAt?: Date | null;
+  failedAuthAttempts?: number | null;
+  authLockedAt?: Date | null;
+  authVerifiedAt?: Date | null;
+  hostUserId?: string | null;
+  hostedAt?: Date | null;
+}
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Codes are keyed to the signer so the same code never hashes the same twice
+function hashCode(signerId: string, code: string): string {
+  return hmacSign(`${signerId}:${code.trim().toUpperCase()}`);
+}
+
+/**
+ * Random access code for the sender to share with a signer out of band
+ */
+export function generateAccessCode(): string {
+  let code = '';
+  for (let i = 0; i < ACCESS_CODE_LENGTH; i++) {
+    code += ACCESS_CODE_ALPHABET[randomInt(ACCESS_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function getSignerAuthMethod(signer: { authMethod?: string | null }): SignerAuthMethod {
+  return SIGNER_AUTH_METHODS.includes(signer.authMethod as SignerAuthMethod)
+    ? (signer.authMethod as SignerAuthMethod)
+    : 'NONE';
+}
+
+export function getVerificationMethod(signer: {
+  authMethod?: string | null;
+  hostedAt?: Date | null;
+}): VerificationMethod {
+  return signer.hostedAt ? 'IN_PERSON' : getSignerAuthMethod(signer);
+}
+
+/**
+ * Mask an email or phone number so the signer can recognise it
+ */
+export function maskDestination(destination: string): string {
+  if (destination.includes('@')) {
+    const [name, domain] = destination.split('@');
+    return `${name.slice(0, 2)}${'*'.repeat(Math.max(name.length - 2, 1))}@${domain}`;
+  }
+  return `${'*'.repeat(Math.max(destination.length - 4, 0))}${destination.slice(-4)}`;
+}
+
+/**
+ * What the signing page needs to show before the document is unlocked
+ */
+export function getVerificationChallenge(signer: VerifiableSigner) {
+  const method = getVerificationMethod(signer);
+
+  return {
+    method,
+    locked: !!signer.authLockedAt,
+    destination:
+      method === 'EMAIL_OTP' ? maskDestination(signer.signerEmail)
+        : method === 'SMS_OTP' && signer.signerPhone ? maskDestination(signer.signerPhone)
+        : undefined,
+    attemptsRemaining: Math.max(MAX_FAILED_VERIFICATION_ATTEMPTS - (signer.failedAuthAttempts || 0), 0),
+  };
+}
+
+/**
+ * Choose how a signer proves their identity. Returns the access code when
+ * one was generated so the sender can share it out of band.
+ */
+export async function configureSignerAuthentication(
+  signerId: string,
+  settings: { authMethod: SignerAuthMethod; accessCode?: string; signerPhone?: string },
+  userId: string
+) {
+  if (!SIGNER_AUTH_METHODS.includes(settings.authMethod)) {
+    throw new ESignatureError('Unknown authentication method');
+  }
+
+  const signer = await prisma.signerWorkflow.findUnique({ where: { id: signerId } });
+  if (!signer) {
+    throw new ESignatureError('Signer not found', 404);
+  }
+
+  const signerPhone = settings.signerPhone?.trim() || signer.signerPhone;
+  if (settings.authMethod === 'SMS_OTP' && !signerPhone) {
+    throw new ESignatureError('A phone number is required for SMS verification');
+  }
+
+  let accessCode: string | undefined;
+  let accessCodeHash = signer.accessCodeHash;
+  if (settings.authMethod === 'ACCESS_CODE') {
+    if (settings.accessCode !== undefined) {
+      accessCode = settings.accessCode.trim();
+      if (accessCode.length < 4) {
+        throw new ESignatureError('Access codes must be at least 4 characters');
+      }
+    } else if (!accessCodeHash) {
+      accessCode = generateAccessCode();
+    }
+    if (accessCode) {
+      accessCodeHash = hashCode(signerId, accessCode);
+    }
+  }
+
+  // Changing the settings also clears any lockout from earlier attempts
+  const wasLocked = !!signer.authLockedAt;
+  await prisma.signerWorkflow.update({
+    where: { id: signerId },
+    data: {
+      authMethod: settings.authMethod,
+      accessCodeHash: settings.authMethod === 'ACCESS_CODE' ? accessCodeHash : null,
+      signerPhone,
+      otpHash: null,
+      otpExpiresAt: null,
+      failedAuthAttempts: 0,
+      authLockedAt: null,
+    },
+  });
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: wasLocked ? 'identity_unlocked' : 'document_updated',
+    description: `Identity verification for ${signer.signerName} set to ${settings.authMethod.replace('_', ' ').toLowerCase()}`,
+    userId,
+    signerId,
+    metadata: { authMethod: settings.authMethod },
+  });
+
+  return { authMethod: settings.authMethod, accessCode };
+}
+
+/**
+ * Generate and deliver a one-time code for OTP verification methods
+ */
+export async function sendVerificationCode(
+  signer: VerifiableSigner & { document: { title: string } },
+  context: RequestContext = {}
+) {
+  const method = getVerificationMethod(signer);
+
+  if (method !== 'EMAIL_OTP' && method !== 'SMS_OTP') {
+    throw new ESignatureError('This signer does not use one-time codes');
+  }
+  if (signer.authLockedAt) {
+    throw new ESignatureError('Too many failed attempts. Ask the sender to unlock your signing session.', 423, 'verification_locked');
+  }
+  if (signer.otpSentAt && Date.now() - signer.otpSentAt.getTime() < OTP_RESEND_SECONDS * 1000) {
+    throw new ESignatureError('Please wait a minute before requesting another code', 429, 'code_throttled');
+  }
+
+  const destination = method === 'SMS_OTP' ? signer.signerPhone : signer.signerEmail;
+  if (!destination) {
+    throw new ESignatureError('No phone number is on file for this signer');
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000);
+
+  await prisma.signerWorkflow.update({
+    where: { id: signer.id },
+    data: { otpHash: hashCode(signer.id, code), otpExpiresAt: expiresAt, otpSentAt: new Date() },
+  });
+
+  await getOtpDeliveryProvider().deliver({
+    channel: method === 'SMS_OTP' ? 'SMS' : 'EMAIL',
+    to: destination,
+    code,
+    signerName: signer.signerName,
+    documentTitle: signer.document.title,
+    expiresAt,
+  });
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: 'identity_code_sent',
+    description: `Verification code sent to ${maskDestination(destination)} by ${method === 'SMS_OTP' ? 'SMS' : 'email'}`,
+    signerId: signer.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  });
+
+  return { destination: maskDestination(destination), expiresAt };
+}
+
+/**
+ * Check a submitted access code or one-time code. Every attempt is audited
+ * and the session locks after MAX_FAILED_VERIFICATION_ATTEMPTS failures.
+ * Returns the cookie value that marks this browser as verified.
+ */
+export async function verifySignerIdentity(
+  signer: VerifiableSigner,
+  code: string,
+  context: RequestContext = {}
+) {
+  const method = getVerificationMethod(signer);
+
+  if (method === 'NONE') {
+    return createVerificationCookie(signer.id);
+  }
+  if (signer.authLockedAt) {
+    throw new ESignatureError('Too many failed attempts. Ask the sender to unlock your signing session.', 423, 'verification_locked');
+  }
+
+  // In person, the "code" is the signer typing their own full name
+  const expectedHash = method === 'ACCESS_CODE' ? signer.accessCodeHash
+    : method === 'IN_PERSON' ? null
+    : signer.otpHash;
+  const expired = (method === 'EMAIL_OTP' || method === 'SMS_OTP') &&
+    (!signer.otpExpiresAt || signer.otpExpiresAt < new Date());
+  const matches = method === 'IN_PERSON'
+    ? namesMatch(code || '', signer.signerName)
+    : !!code?.trim() && !!expectedHash && !expired && safeEqual(hashCode(signer.id, code), expectedHash);
+
+  if (!matches) {
+    // Counted in the database so parallel guesses cannot share one stale count
+    const { failedAuthAttempts: failedAttempts } = await prisma.signerWorkflow.update({
+      where: { id: signer.id },
+      data: { failedAuthAttempts: { increment: 1 } },
+      select: { failedAuthAttempts: true },
+    });
+    const locked = failedAttempts >= MAX_FAILED_VERIFICATION_ATTEMPTS;
+
+    // Only the attempt that actually locks the session records the lock
+    const { count: lockedNow } = locked
+      ? await prisma.signerWorkflow.updateMany({
+          where: { id: signer.id, authLockedAt: null },
+          data: { authLockedAt: new Date() },
+        })
+      : { count: 0 };
+
+    await recordAuditEvent({
+      documentId: signer.documentId,
+      action: 'identity_failed',
+      description: `Failed identity verification attempt ${failedAttempts} of ${MAX_FAILED_VERIFICATION_ATTEMPTS}`,
+      signerId: signer.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { authMethod: method, reason: expired && expectedHash ? 'expired' : 'mismatch' },
+    });
+
+    if (locked) {
+      if (lockedNow > 0) {
+        await recordAuditEvent({
+          documentId: signer.documentId,
+          action: 'identity_locked',
+          description: `Signing session locked for ${signer.signerName} after ${failedAttempts} failed attempts`,
+          signerId: signer.id,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        });
+      }
+      throw new ESignatureError('Too many failed attempts. Ask the sender to unlock your signing session.', 423, 'verification_locked');
+    }
+
+    if (expired && expectedHash) {
+      throw new ESignatureError('This code has expired. Request a new one.', 401, 'code_expired');
+    }
+
+    const remaining = Math.max(MAX_FAILED_VERIFICATION_ATTEMPTS - failedAttempts, 0);
+    throw new ESignatureError(
+      `${method === 'IN_PERSON' ? 'That name does not match the signer' : 'Incorrect code'}. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`,
+      401,
+      'invalid_code'
+    );
+  }
+
+  // A correct answer only counts while the session is still open, and a
+  // one-time code can only be used once
+  const { count } = await prisma.signerWorkflow.updateMany({
+    where: {
+      id: signer.id,
+      authLockedAt: null,
+      failedAuthAttempts: { lt: MAX_FAILED_VERIFICATION_ATTEMPTS },
+      ...((method === 'EMAIL_OTP' || method === 'SMS_OTP') && { otpHash: expectedHash }),
+    },
+    data: {
+      failedAuthAttempts: 0,
+      otpHash: null,
+      otpExpiresAt: null,
+      authVerifiedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    const current = await prisma.signerWorkflow.findUnique({
+      where: { id: signer.id },
+      select: { authLockedAt: true, failedAuthAttempts: true },
+    });
+    if (!current || current.authLockedAt || (current.failedAuthAttempts || 0) >= MAX_FAILED_VERIFICATION_ATTEMPTS) {
+      throw new ESignatureError('Too many failed attempts. Ask the sender to unlock your signing session.', 423, 'verification_locked');
+    }
+    throw new ESignatureError('This code has already been used. Request a new one.', 401, 'code_expired');
+  }
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: 'identity_verified',
+    description: method === 'IN_PERSON'
+      ? `${signer.signerName} confirmed their identity on the host's device`
+      : `${signer.signerName} verified their identity by ${method.replace('_', ' ').toLowerCase()}`,
+    signerId: signer.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      authMethod: method,
+      ...(method === 'IN_PERSON' && { signingMethod: 'IN_PERSON', hostUserId: signer.hostUserId }),
+    },
+  });
+
+  return createVerificationCookie(signer.id);
+}
+
+/**
+ * Cookie value binding this browser to a verified signer until it expires
+ */
+export function createVerificationCookie(signerId: string): string {
+  const expires = Date.now() + VERIFICATION_SESSION_MINUTES * 60 * 1000;
+  return `${signerId}.${expires}.${hmacSign(`${signerId}.${expires}`)}`;
+}
+
+/**
+ * Whether the request may see the document: signers without verification
+ * always can, others need a valid cookie and an unlocked session. A hosted
+ * session also needs the signer to have confirmed since it was started.
+ */
+export function isSignerVerified(signer: VerifiableSigner, cookieValue?: string): boolean {
+  const method = getVerificationMethod(signer);
+  if (method === 'NONE') return true;
+  if (signer.authLockedAt || !cookieValue) return false;
+  if (method === 'IN_PERSON' && !(signer.authVerifiedAt && signer.authVerifiedAt >= signer.hostedAt!)) {
+    return false;
+  }
+
+  const [signerId, expires, signature] = cookieValue.split('.');
+  if (signerId !== signer.id || !expires || !signature || Number(expires) < Date.now()) {
+    return false;
+  }
+
+  return safeEqual(signature, hmacSign(`${signerId}.${expires}`));
+}
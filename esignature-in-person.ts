@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { assignSigningToken } from '@/lib/esignature-tokens';
+import { getInPersonAttestation } from '@/lib/esignature-utils';
+import { assertSignerCanSign } from '@/lib/esignature-workflow';
+
+/**
+ * In-person (hosted) signing: a signed-in user hands their own device to
+ * each signer in turn. Starting a session records the host and their
+ * attestation on the signer and issues a fresh signing token, which revokes
+ * the emailed link. The signer must then confirm their name on screen
+ * (the IN_PERSON verification method) before the document opens.
+ */
+
+interface HostContext {
+  userId: string;
+  hostName: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Start hosting a signer. Returns the token for the signing page on the
+ * host's device.
+ */
+export async function startInPersonSigning(
+  documentId: string,
+  signerId: string,
+  input: { attested: boolean },
+  context: HostContext
+) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (!['SENT', 'IN_PROGRESS'].includes(document.status)) {
+    throw new ESignatureError('Document is not out for signature');
+  }
+  if (document.expiresAt && document.expiresAt < new Date()) {
+    throw new ESignatureError('This document has expired and can no longer be signed', 410, 'document_expired');
+  }
+
+  const signer = document.signerWorkflows.find(candidate => candidate.id === signerId);
+  if (!signer) {
+    throw new ESignatureError('Signer not found', 404);
+  }
+  if (signer.status !== 'SENT' && signer.status !== 'VIEWED') {
+    throw new ESignatureError('Signer is not waiting to sign');
+  }
+  assertSignerCanSign(document, signer.id);
+
+  if (input.attested !== true) {
+    throw new ESignatureError('Confirm the in-person attestation before handing over the device', 400, 'attestation_required');
+  }
+
+  const attestation = getInPersonAttestation(context.hostName, signer.signerName);
+
+  const hosted = await prisma.$transaction(async (tx) => {
+    await tx.signerWorkflow.update({
+      where: { id: signer.id },
+      data: {
+        hostUserId: context.userId,
+        hostedAt: new Date(),
+        hostAttestation: attestation,
+        failedAuthAttempts: 0,
+      },
+    });
+    const updated = await assignSigningToken(signer.id, tx);
+
+    await recordAuditEvent({
+      documentId,
+      action: 'in_person_signing_started',
+      description: `${context.hostName} started hosting ${signer.signerName} for in-person signing`,
+      userId: context.userId,
+      signerId: signer.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { signingMethod: 'IN_PERSON', hostUserId: context.userId, attestation },
+    }, tx);
+
+    return updated;
+  });
+
+  return { signingToken: hosted.signingToken!, signerName: signer.signerName, attestation };
+}
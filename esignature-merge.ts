@@ -0,0 +1,187 @@
+import {
+  EncryptedPDFError,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObjectCopier,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PageSizes,
+} from 'pdf-lib';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+/** Image pages are letter sized with this margin (points) around the image */
+const IMAGE_PAGE_MARGIN = 36;
+
+export const MAX_PACKAGE_PARTS = 20;
+
+export type PackagePartKind = 'pdf' | 'png' | 'jpg';
+
+export interface PackagePart {
+  fileName: string;
+  bytes: Uint8Array;
+}
+
+export interface MergedPackage {
+  bytes: Uint8Array;
+  /** Where each part landed, in merged (1-based) page numbers */
+  parts: Array<{ fileName: string; kind: PackagePartKind; firstPage: number; pageCount: number }>;
+}
+
+const PART_SIGNATURES: Array<{ kind: PackagePartKind; magic: number[] }> = [
+  { kind: 'pdf', magic: [0x25, 0x50, 0x44, 0x46] },
+  { kind: 'png', magic: [0x89, 0x50, 0x4e, 0x47] },
+  { kind: 'jpg', magic: [0xff, 0xd8, 0xff] },
+];
+
+/**
+ * Identify a package part by its content, not its name
+ */
+export function detectPartKind(bytes: Uint8Array): PackagePartKind | null {
+  return PART_SIGNATURES.find(({ magic }) => magic.every((byte, index) => bytes[index] === byte))?.kind ?? null;
+}
+
+async function addImagePage(merged: PDFDocument, part: PackagePart, kind: 'png' | 'jpg') {
+  let image;
+  try {
+    image = kind === 'png' ? await merged.embedPng(part.bytes) : await merged.embedJpg(part.bytes);
+  } catch {
+    throw new ESignatureError(`"${part.fileName}" is not a readable image`, 422, 'image_unreadable');
+  }
+
+  // Landscape images get a landscape page so they are not shrunk needlessly
+  const [shortSide, longSide] = PageSizes.Letter;
+  const [pageWidth, pageHeight] = image.width > image.height ? [longSide, shortSide] : [shortSide, longSide];
+  const scale = Math.min(
+    (pageWidth - IMAGE_PAGE_MARGIN * 2) / image.width,
+    (pageHeight - IMAGE_PAGE_MARGIN * 2) / image.height,
+    1
+  );
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  const page = merged.addPage([pageWidth, pageHeight]);
+  page.drawImage(image, {
+    x: (pageWidth - width) / 2,
+    y: (pageHeight - height) / 2,
+    width,
+    height,
+  });
+}
+
+function fieldName(field: PDFDict) {
+  const name = field.lookup(PDFName.of('T'));
+  return name instanceof PDFString || name instanceof PDFHexString ? name.decodeText() : null;
+}
+
+/**
+ * The top of the field tree a widget belongs to
+ */
+function rootFieldRef(merged: PDFDocument, widgetRef: PDFRef): PDFRef {
+  let ref = widgetRef;
+  for (let depth = 0; depth < 32; depth++) {
+    const parent = merged.context.lookup(ref, PDFDict).get(PDFName.of('Parent'));
+    if (!(parent instanceof PDFRef)) break;
+    ref = parent;
+  }
+  return ref;
+}
+
+/**
+ * Copied pages keep their widget annotations, but the fields they belong to
+ * are only fillable once they are listed in the merged document's AcroForm.
+ * Names that clash with an earlier part get the part number appended so
+ * every field stays addressable.
+ */
+export function adoptFormFields(merged: PDFDocument, source: PDFDocument, pageRefs: PDFRef[], partNumber: number) {
+  const acroForm = merged.catalog.getOrCreateAcroForm();
+  const sourceForm = source.catalog.getAcroForm();
+  // Appearance settings are copied so the fields still render when filled
+  const copier = PDFObjectCopier.for(source.context, merged.context);
+  const defaultAppearance = sourceForm?.dict.get(PDFName.of('DA'));
+  const resources = sourceForm?.dict.lookup(PDFName.of('DR'));
+
+  if (resources instanceof PDFDict && !acroForm.dict.has(PDFName.of('DR'))) {
+    acroForm.dict.set(PDFName.of('DR'), copier.copy(resources));
+  }
+
+  const existing = new Set(acroForm.getAllFields().map(([field]) => field.getFullyQualifiedName()).filter(Boolean));
+  const adopted = new Set<string>();
+
+  for (const pageRef of pageRefs) {
+    const annots = merged.context.lookup(pageRef, PDFDict).lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) continue;
+
+    for (const annotRef of annots.asArray()) {
+      if (!(annotRef instanceof PDFRef)) continue;
+      const annot = merged.context.lookup(annotRef);
+      if (!(annot instanceof PDFDict) || annot.get(PDFName.of('Subtype')) !== PDFName.of('Widget')) continue;
+
+      const rootRef = rootFieldRef(merged, annotRef);
+      if (adopted.has(rootRef.toString())) continue;
+      adopted.add(rootRef.toString());
+
+      const root = merged.context.lookup(rootRef, PDFDict);
+      const name = fieldName(root);
+      if (name && existing.has(name)) {
+        root.set(PDFName.of('T'), PDFHexString.fromText(`${name}_${partNumber}`));
+      }
+      if (defaultAppearance && !root.has(PDFName.of('DA'))) {
+        root.set(PDFName.of('DA'), copier.copy(defaultAppearance));
+      }
+      acroForm.addField(rootRef);
+    }
+  }
+}
+
+/**
+ * Combine PDFs and images, in order, into one PDF. Images become one page
+ * each. Form fields in the source PDFs come along, so importing them from
+ * the merged file places them on the right merged pages.
+ */
+export async function mergePackageParts(parts: PackagePart[]): Promise<MergedPackage> {
+  if (parts.length === 0) {
+    throw new ESignatureError('Add at least one file');
+  }
+  if (parts.length > MAX_PACKAGE_PARTS) {
+    throw new ESignatureError(`A package can combine at most ${MAX_PACKAGE_PARTS} files`);
+  }
+
+  const merged = await PDFDocument.create();
+  const layout: MergedPackage['parts'] = [];
+
+  for (const [index, part] of parts.entries()) {
+    const kind = detectPartKind(part.bytes);
+    const firstPage = merged.getPageCount() + 1;
+
+    if (kind === 'png' || kind === 'jpg') {
+      await addImagePage(merged, part, kind);
+    } else if (kind === 'pdf') {
+      let source: PDFDocument;
+      try {
+        source = await PDFDocument.load(part.bytes, { updateMetadata: false });
+      } catch (error) {
+        if (error instanceof EncryptedPDFError) {
+          throw new ESignatureError(`"${part.fileName}" is password protected`, 422, 'pdf_encrypted');
+        }
+        throw new ESignatureError(`"${part.fileName}" is damaged or could not be read`, 422, 'pdf_unreadable');
+      }
+
+      const pages = await merged.copyPages(source, source.getPageIndices());
+      pages.forEach(page => merged.addPage(page));
+      adoptFormFields(merged, source, pages.map(page => page.ref), index + 1);
+    } else {
+      throw new ESignatureError(`"${part.fileName}" is not a PDF, PNG or JPEG file`, 415, 'unsupported_part');
+    }
+
+    layout.push({ fileName: part.fileName, kind, firstPage, pageCount: merged.getPageCount() - firstPage + 1 });
+  }
+
+  if (merged.catalog.getAcroForm()?.getAllFields().length === 0) {
+    merged.catalog.delete(PDFName.of('AcroForm'));
+  }
+
+  return { bytes: await merged.save(), parts: layout };
+}
@@ -0,0 +1,246 @@
+import { promises as fs } from 'fs';
+import forge from 'node-forge';
+import { PDFDocument } from 'pdf-lib';
+import signpdf from '@signpdf/signpdf';
+import { P12Signer } from '@signpdf/signer-p12';
+import { pdflibAddPlaceholder } from '@signpdf/placeholder-pdf-lib';
+import { SUBFILTER_ETSI_CADES_DETACHED } from '@signpdf/utils';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+export interface OrganizationCertificate {
+  p12: Buffer;
+  passphrase: string;
+  certificate: forge.pki.Certificate;
+}
+
+export interface SignatureOptions {
+  reason: string;
+  location?: string;
+  contactInfo?: string;
+  signingTime?: Date;
+}
+
+export interface PdfSignatureVerification {
+  signed: boolean;
+  valid: boolean;
+  /** False when bytes were appended after the signature (incremental edits) */
+  coversWholeDocument: boolean;
+  /** True when the signing certificate is the organization's certificate */
+  trustedSigner: boolean;
+  signerName?: string;
+  signedAt?: Date;
+  certificateFingerprint?: string;
+  error?: string;
+}
+
+/** The parts of a PKCS#7 signer info that forge keeps on rawCapture */
+interface SignerInfoCapture {
+  authenticatedAttributes?: forge.asn1.Asn1[];
+  signature: string;
+  digestAlgorithm: string;
+}
+
+const SIGNATURE_LENGTH = 16384;
+
+const DIGEST_ALGORITHMS: Record<string, () => forge.md.MessageDigest> = {
+  [forge.pki.oids.sha1]: () => forge.md.sha1.create(),
+  [forge.pki.oids.sha256]: () => forge.md.sha256.create(),
+  [forge.pki.oids.sha384]: () => forge.md.sha384.create(),
+  [forge.pki.oids.sha512]: () => forge.md.sha512.create(),
+};
+
+let cachedCertificate: OrganizationCertificate | null = null;
+
+/**
+ * Whether a PKCS#12 signing certificate is configured on the server
+ */
+export function isDigitalSigningConfigured(): boolean {
+  return !!process.env.ESIGNATURE_P12_PATH;
+}
+
+/**
+ * Load the organization PKCS#12 file named by ESIGNATURE_P12_PATH
+ */
+export async function loadOrganizationCertificate(): Promise<OrganizationCertificate> {
+  if (cachedCertificate) return cachedCertificate;
+
+  const p12Path = process.env.ESIGNATURE_P12_PATH;
+  if (!p12Path) {
+    throw new ESignatureError('No signing certificate configured', 500, 'signing_not_configured');
+  }
+
+  const p12 = await fs.readFile(p12Path);
+  const passphrase = process.env.ESIGNATURE_P12_PASSWORD || '';
+
+  const p12Asn1 = forge.asn1.fromDer(p12.toString('binary'));
+  const parsed = forge.pkcs12.pkcs12FromAsn1(p12Asn1, passphrase);
+  const certBags = parsed.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [];
+  const certificate = certBags[0]?.cert;
+
+  if (!certificate) {
+    throw new ESignatureError('Signing certificate file contains no certificate', 500, 'signing_not_configured');
+  }
+
+  cachedCertificate = { p12, passphrase, certificate };
+  return cachedCertificate;
+}
+
+/**
+ * Use a specific certificate instead of ESIGNATURE_P12_PATH, e.g. a
+ * self-signed one in tests
+ */
+export function setOrganizationCertificate(certificate: OrganizationCertificate | null) {
+  cachedCertificate = certificate;
+}
+
+/**
+ * Apply a detached CAdES (PAdES-style) digital signature with the
+ * organization certificate. Any later change to the file invalidates it.
+ */
+export async function signPdfWithOrganizationCertificate(
+  pdfBytes: Uint8Array,
+  options: SignatureOptions
+): Promise<Uint8Array> {
+  const { p12, passphrase, certificate } = await loadOrganizationCertificate();
+  const signingTime = options.signingTime || new Date();
+
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  pdflibAddPlaceholder({
+    pdfDoc,
+    reason: options.reason,
+    location: options.location || '',
+    contactInfo: options.contactInfo || '',
+    name: certificate.subject.getField('CN')?.value || 'Organization',
+    signingTime,
+    signatureLength: SIGNATURE_LENGTH,
+    subFilter: SUBFILTER_ETSI_CADES_DETACHED,
+  });
+
+  // Signing relies on the classic xref table, so object streams are disabled
+  const withPlaceholder = await pdfDoc.save({ useObjectStreams: false });
+  const signer = new P12Signer(p12, { passphrase });
+  const signed = await signpdf.sign(Buffer.from(withPlaceholder), signer, signingTime);
+
+  return new Uint8Array(signed);
+}
+
+/**
+ * Check the last digital signature in a PDF: signed digest, signature value,
+ * signer certificate and whether anything was appended after signing.
+ */
+export async function verifySignedPdf(pdfBytes: Uint8Array): Promise<PdfSignatureVerification> {
+  const pdf = Buffer.from(pdfBytes);
+  const unsigned: PdfSignatureVerification = {
+    signed: false,
+    valid: false,
+    coversWholeDocument: false,
+    trustedSigner: false,
+  };
+
+  const byteRangePos = pdf.lastIndexOf('/ByteRange');
+  if (byteRangePos === -1) {
+    return { ...unsigned, error: 'PDF is not digitally signed' };
+  }
+
+  const byteRangeMatch = pdf
+    .subarray(byteRangePos, pdf.indexOf(']', byteRangePos) + 1)
+    .toString('latin1')
+    .match(/\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/);
+
+  if (!byteRangeMatch) {
+    return { ...unsigned, signed: true, error: 'Signature byte range is malformed' };
+  }
+
+  const [start1, length1, start2, length2] = byteRangeMatch.slice(1).map(Number);
+  const signedContent = Buffer.concat([
+    pdf.subarray(start1, start1 + length1),
+    pdf.subarray(start2, start2 + length2),
+  ]);
+  const coversWholeDocument = start1 === 0 && start2 + length2 === pdf.length;
+
+  try {
+    // The signature sits between '<' and '>' in the gap left by the byte range
+    const signatureHex = pdf.subarray(start1 + length1 + 1, start2 - 1).toString('latin1');
+    const signatureDer = Buffer.from(signatureHex, 'hex').toString('binary');
+    const asn1 = forge.asn1.fromDer(signatureDer, { parseAllBytes: false });
+    const message = forge.pkcs7.messageFromAsn1(asn1) as forge.pkcs7.PkcsSignedData & { rawCapture: SignerInfoCapture };
+
+    const signerCertificate = message.certificates[0];
+    const { authenticatedAttributes, signature, digestAlgorithm } = message.rawCapture;
+    const createDigest = DIGEST_ALGORITHMS[forge.asn1.derToOid(digestAlgorithm)];
+
+    if (!signerCertificate || !authenticatedAttributes || !createDigest) {
+      throw new Error('Unsupported signature format');
+    }
+
+    // 1. The signed attributes must carry the digest of the byte ranges
+    const messageDigestAttribute = findSignedAttribute(authenticatedAttributes, forge.pki.oids.messageDigest);
+    const contentDigest = createDigest().update(signedContent.toString('binary')).digest().getBytes();
+    const digestMatches = messageDigestAttribute === contentDigest;
+
+    // 2. The signature value must verify against the signed attributes
+    const attributesSet = forge.asn1.create(
+      forge.asn1.Class.UNIVERSAL,
+      forge.asn1.Type.SET,
+      true,
+      authenticatedAttributes
+    );
+    const attributesDigest = createDigest().update(forge.asn1.toDer(attributesSet).getBytes());
+    const signatureMatches = (signerCertificate.publicKey as forge.pki.rsa.PublicKey).verify(
+      attributesDigest.digest().getBytes(),
+      signature
+    );
+
+    const signingTimeAttribute = findSignedAttribute(authenticatedAttributes, forge.pki.oids.signingTime);
+    const fingerprint = certificateFingerprint(signerCertificate);
+
+    let trustedSigner = false;
+    if (isDigitalSigningConfigured() || cachedCertificate) {
+      const { certificate } = await loadOrganizationCertificate();
+      trustedSigner = certificateFingerprint(certificate) === fingerprint;
+    }
+
+    return {
+      signed: true,
+      valid: digestMatches && signatureMatches,
+      coversWholeDocument,
+      trustedSigner,
+      signerName: signerCertificate.subject.getField('CN')?.value,
+      signedAt: signingTimeAttribute ? forge.asn1.utcTimeToDate(signingTimeAttribute) : undefined,
+      certificateFingerprint: fingerprint,
+      error: !digestMatches
+        ? 'Document content does not match the signature'
+        : !signatureMatches
+          ? 'Signature value is invalid'
+          : !coversWholeDocument
+            ? 'Document was modified after it was signed'
+            : undefined,
+    };
+  } catch (error) {
+    return {
+      ...unsigned,
+      signed: true,
+      coversWholeDocument,
+      error: error instanceof Error ? error.message : 'Unable to read signature',
+    };
+  }
+}
+
+/**
+ * The value of a signed attribute, each of which is SEQUENCE { type, SET { value } }
+ */
+function findSignedAttribute(attributes: forge.asn1.Asn1[], oid: string): string | undefined {
+  for (const attribute of attributes) {
+    const [type, values] = attribute.value as forge.asn1.Asn1[];
+    if (forge.asn1.derToOid(type.value as string) !== oid) continue;
+
+    const [first] = values.value as forge.asn1.Asn1[];
+    return typeof first?.value === 'string' ? first.value : undefined;
+  }
+  return undefined;
+}
+
+function certificateFingerprint(certificate: forge.pki.Certificate): string {
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+  return forge.md.sha256.create().update(der).digest().toHex();
+}
@@ -0,0 +1,260 @@
+import {
+  degrees,
+  EncryptedPDFError,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFPage,
+  PDFRef,
+} from 'pdf-lib';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { assertValidLayout } from '@/lib/esignature-fields';
+import { adoptFormFields } from '@/lib/esignature-merge';
+import { indexDocumentContent } from '@/lib/esignature-search';
+import { deleteStoredFile, readStoredFile } from '@/lib/esignature-storage';
+import { acceptPdfUpload } from '@/lib/esignature-upload';
+
+/**
+ * One page of the rearranged document, in its new position
+ */
+export interface PageLayoutEntry {
+  /** 1-based page number in the current document, or in the inserted PDF when `inserted` is set */
+  page: number;
+  inserted?: boolean;
+  /** Clockwise rotation to add to the page, in degrees */
+  rotate?: number;
+}
+
+interface FieldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a field ends up when its page is turned clockwise by `rotate`
+ * degrees. Field positions are percentages of the page as displayed, so a
+ * quarter turn swaps the axes.
+ */
+export function rotateFieldRect(rect: FieldRect, rotate: number): FieldRect {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const { x, y, width, height } = rect;
+
+  switch (((rotate % 360) + 360) % 360) {
+    case 90:
+      return { x: round(100 - y - height), y: x, width: height, height: width };
+    case 180:
+      return { x: round(100 - x - width), y: round(100 - y - height), width, height };
+    case 270:
+      return { x: y, y: round(100 - x - width), width: height, height: width };
+    default:
+      return rect;
+  }
+}
+
+function validateLayout(pages: PageLayoutEntry[], pageCount: number, insertedPageCount: number) {
+  if (!Array.isArray(pages) || pages.length === 0) {
+    throw new ESignatureError('The document must keep at least one page');
+  }
+
+  const seen = new Set<string>();
+  for (const entry of pages) {
+    const limit = entry.inserted ? insertedPageCount : pageCount;
+    if (!Number.isInteger(entry.page) || entry.page < 1 || entry.page > limit) {
+      throw new ESignatureError(`Page ${entry.page} does not exist${entry.inserted ? ' in the inserted PDF' : ''}`);
+    }
+    if (entry.rotate !== undefined && (!Number.isInteger(entry.rotate) || entry.rotate % 90 !== 0)) {
+      throw new ESignatureError('Pages can only be rotated in quarter turns');
+    }
+
+    const key = `${entry.inserted ? 'inserted' : 'current'}:${entry.page}`;
+    if (seen.has(key)) {
+      throw new ESignatureError('Each page can only appear once');
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Widget references on the pages that remain in the document
+ */
+function placedWidgetRefs(pdfDoc: PDFDocument) {
+  const refs = new Set<string>();
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) continue;
+    annots.asArray().forEach(ref => ref instanceof PDFRef && refs.add(ref.toString()));
+  }
+  return refs;
+}
+
+/**
+ * Drop form fields whose widgets were all on deleted pages, so values are
+ * never written to fields nobody can see
+ */
+function pruneOrphanedFormFields(pdfDoc: PDFDocument) {
+  const acroForm = pdfDoc.catalog.getAcroForm();
+  if (!acroForm) return;
+
+  const placed = placedWidgetRefs(pdfDoc);
+  const isPlaced = (ref: PDFRef, depth = 0): boolean => {
+    if (placed.has(ref.toString())) return true;
+    const kids = pdfDoc.context.lookupMaybe(ref, PDFDict)?.lookup(PDFName.of('Kids'));
+    return depth < 32 && kids instanceof PDFArray &&
+      kids.asArray().some(kid => kid instanceof PDFRef && isPlaced(kid, depth + 1));
+  };
+
+  const fields = acroForm.dict.lookup(PDFName.of('Fields'));
+  if (!(fields instanceof PDFArray)) return;
+  for (let index = fields.size() - 1; index >= 0; index--) {
+    const ref = fields.get(index);
+    if (ref instanceof PDFRef && !isPlaced(ref)) {
+      fields.remove(index);
+    }
+  }
+}
+
+async function loadInsertedPdf(bytes: Uint8Array) {
+  try {
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    pdfDoc.getPageCount();
+    return pdfDoc;
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new ESignatureError('The inserted PDF is password protected', 422, 'pdf_encrypted');
+    }
+    throw new ESignatureError('The inserted PDF is damaged or could not be read', 422, 'pdf_unreadable');
+  }
+}
+
+/**
+ * Rewrite a draft's PDF with its pages in a new order. Pages left out of
+ * `pages` are deleted, `rotate` turns a page permanently, and entries marked
+ * `inserted` come from `insert`. Signature fields move with their pages;
+ * fields on deleted pages are removed. The rewritten file goes through the
+ * upload pipeline and gets a new hash. The previous file is kept, since the
+ * audit trail refers to it.
+ */
+export async function rearrangeDocumentPages(
+  documentId: string,
+  input: { pages: PageLayoutEntry[]; insert?: { bytes: Uint8Array; fileName: string } },
+  context: { userId: string; ipAddress?: string; userAgent?: string }
+) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signatureFields: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (document.status !== 'DRAFT') {
+    throw new ESignatureError('Pages can only be changed while the document is a draft');
+  }
+
+  const pdfDoc = await PDFDocument.load(await readStoredFile(document.filePath), { updateMetadata: false });
+  const insertedDoc = input.insert ? await loadInsertedPdf(input.insert.bytes) : null;
+  const pageCount = pdfDoc.getPageCount();
+  validateLayout(input.pages, pageCount, insertedDoc?.getPageCount() ?? 0);
+
+  const insertedEntries = input.pages.filter(entry => entry.inserted);
+  const copied = insertedDoc && insertedEntries.length > 0
+    ? await pdfDoc.copyPages(insertedDoc, insertedEntries.map(entry => entry.page - 1))
+    : [];
+  const copiedByPage = new Map(insertedEntries.map((entry, index) => [entry.page, copied[index]]));
+
+  // Pages are detached and re-attached in the new order, which keeps their
+  // annotations and the document's form and metadata intact
+  const originals = pdfDoc.getPages();
+  for (let index = pageCount - 1; index >= 0; index--) {
+    pdfDoc.removePage(index);
+  }
+
+  const newPageNumber = new Map<number, { pageNumber: number; rotate: number }>();
+  input.pages.forEach((entry, index) => {
+    const page: PDFPage = entry.inserted ? copiedByPage.get(entry.page)! : originals[entry.page - 1];
+    const rotate = ((entry.rotate || 0) % 360 + 360) % 360;
+    if (rotate) {
+      page.setRotation(degrees((page.getRotation().angle + rotate) % 360));
+    }
+    pdfDoc.addPage(page);
+    if (!entry.inserted) {
+      newPageNumber.set(entry.page, { pageNumber: index + 1, rotate });
+    }
+  });
+
+  if (insertedDoc && copied.length > 0) {
+    adoptFormFields(pdfDoc, insertedDoc, copied.map(page => page.ref), 2);
+  }
+  pruneOrphanedFormFields(pdfDoc);
+
+  const removedFields = document.signatureFields.filter(field => !newPageNumber.has(field.pageNumber));
+  const movedFields = document.signatureFields
+    .filter(field => newPageNumber.has(field.pageNumber))
+    .map(field => {
+      const { pageNumber, rotate } = newPageNumber.get(field.pageNumber)!;
+      return { ...field, pageNumber, ...rotateFieldRect(field, rotate) };
+    });
+  assertValidLayout(movedFields);
+
+  const deletedPages = Array.from({ length: pageCount }, (_, index) => index + 1)
+    .filter(page => !newPageNumber.has(page));
+  const upload = await acceptPdfUpload(await pdfDoc.save(), document.fileName);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.eSignatureDocument.update({
+        where: { id: documentId },
+        data: {
+          filePath: upload.filePath,
+          fileSize: upload.fileSize,
+          documentHash: upload.documentHash,
+          contentIndexedAt: null,
+        },
+      });
+
+      if (removedFields.length > 0) {
+        await tx.signatureField.deleteMany({ where: { id: { in: removedFields.map(field => field.id) } } });
+      }
+      for (const field of movedFields) {
+        await tx.signatureField.update({
+          where: { id: field.id },
+          data: { pageNumber: field.pageNumber, x: field.x, y: field.y, width: field.width, height: field.height },
+        });
+      }
+
+      await recordAuditEvent({
+        documentId,
+        action: 'document_updated',
+        description: `Pages rearranged; the document now has ${upload.pageCount} page${upload.pageCount === 1 ? '' : 's'}`,
+        userId: context.userId,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        metadata: {
+          previousHash: document.documentHash,
+          documentHash: upload.documentHash,
+          previousPageCount: pageCount,
+          pageCount: upload.pageCount,
+          pages: input.pages.map(entry => ({
+            page: entry.page,
+            ...(entry.inserted && { inserted: true }),
+            ...(entry.rotate && { rotate: entry.rotate }),
+          })),
+          deletedPages,
+          ...(input.insert && { insertedFrom: input.insert.fileName }),
+          removedFields: removedFields.length,
+        },
+      }, tx);
+    });
+  } catch (error) {
+    await deleteStoredFile(upload.filePath);
+    throw error;
+  }
+
+  await indexDocumentContent(documentId);
+  return { pageCount: upload.pageCount, documentHash: upload.documentHash, removedFields: removedFields.length };
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { InMemoryEmailTransport, setEmailTransport } from '@/lib/esignature-email';
+import { processDueReminders, sendSignerReminder, updateReminderSettings } from './esignature-reminders';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    signerWorkflow: { findUnique: vi.fn(), update: vi.fn() },
+    eSignatureDocument: { findMany: vi.fn(), update: vi.fn() },
+  },
+}));
+vi.mock('@/lib/esignature-audit', () => ({ recordAuditEvent: vi.fn() }));
+vi.mock('@/lib/esignature-tokens', () => ({ ensureSigningToken: vi.fn(async () => 'token-1') }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-05-10T09:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+const document = {
+  id: 'doc-1',
+  title: 'Lease <Unit 4>',
+  status: 'SENT',
+  expiresAt: null,
+  reminderIntervalDays: 3,
+  escalateAfterDays: 7,
+  uploadedBy: { name: 'Owner', email: 'owner@example.com' },
+};
+
+function signer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'signer-1',
+    documentId: 'doc-1',
+    signerName: 'Alex Rivera',
+    signerEmail: 'alex@example.com',
+    status: 'SENT',
+    sentAt: daysAgo(4),
+    lastReminderAt: null,
+    reminderCount: 0,
+    escalatedAt: null,
+    ...overrides,
+  };
+}
+
+function mockDueDocuments(...signers: ReturnType<typeof signer>[]) {
+  vi.mocked(prisma.eSignatureDocument.findMany).mockResolvedValue(
+    [{ ...document, signerWorkflows: signers }] as never
+  );
+  vi.mocked(prisma.signerWorkflow.findUnique).mockImplementation((async ({ where }: { where: { id: string } }) => {
+    const match = signers.find(candidate => candidate.id === where.id);
+    return match ? { ...match, document } : null;
+  }) as never);
+}
+
+describe('reminders', () => {
+  let transport: InMemoryEmailTransport;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.NEXTAUTH_URL = 'https://crm.example.com';
+    transport = new InMemoryEmailTransport();
+    setEmailTransport(transport);
+  });
+
+  afterEach(() => {
+    setEmailTransport(null);
+  });
+
+  describe('sendSignerReminder', () => {
+    it('emails the signer their link and records the reminder', async () => {
+      mockDueDocuments(signer({ reminderCount: 1 }));
+
+      const result = await sendSignerReminder('signer-1', { trigger: 'manual', userId: 'user-1' });
+
+      expect(result).toEqual({ reminderCount: 2 });
+      expect(transport.outbox).toHaveLength(1);
+      expect(transport.outbox[0]).toMatchObject({
+        to: 'alex@example.com',
+        subject: 'Reminder: please sign Lease <Unit 4>',
+      });
+      expect(transport.outbox[0].html).toContain('https://crm.example.com/sign/token-1');
+      expect(transport.outbox[0].html).toContain('Lease &lt;Unit 4&gt;');
+      expect(prisma.signerWorkflow.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ reminderCount: 2 }),
+      }));
+      expect(recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'reminder_sent',
+        userId: 'user-1',
+        metadata: expect.objectContaining({ trigger: 'manual', reminderCount: 2 }),
+      }));
+    });
+
+    it('refuses signers who are no longer waiting', async () => {
+      mockDueDocuments(signer({ status: 'SIGNED' }));
+
+      await expect(sendSignerReminder('signer-1', { trigger: 'manual' }))
+        .rejects.toMatchObject({ message: 'Signer is not waiting to sign' });
+      expect(transport.outbox).toHaveLength(0);
+    });
+  });
+
+  describe('processDueReminders', () => {
+    it('reminds signers once the interval has passed since the last contact', async () => {
+      mockDueDocuments(
+        signer({ id: 'due', sentAt: daysAgo(4) }),
+        signer({ id: 'recently-reminded', sentAt: daysAgo(5), lastReminderAt: daysAgo(1) }),
+        signer({ id: 'not-sent', sentAt: null })
+      );
+
+      const summary = await processDueReminders(now);
+
+      expect(summary).toMatchObject({ remindersSent: 1, escalations: 0, failures: [] });
+      expect(transport.outbox.map(message => message.to)).toEqual(['alex@example.com']);
+    });
+
+    it('escalates to the owner once a signer has waited too long', async () => {
+      mockDueDocuments(
+        signer({ id: 'overdue', sentAt: daysAgo(8), lastReminderAt: daysAgo(1) }),
+        signer({ id: 'already-escalated', sentAt: daysAgo(8), lastReminderAt: daysAgo(1), escalatedAt: daysAgo(1) })
+      );
+
+      const summary = await processDueReminders(now);
+
+      expect(summary).toMatchObject({ remindersSent: 0, escalations: 1 });
+      expect(transport.outbox).toHaveLength(1);
+      expect(transport.outbox[0]).toMatchObject({
+        to: 'owner@example.com',
+        subject: 'Alex Rivera has not signed Lease <Unit 4>',
+      });
+      expect(recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'reminder_escalated',
+        signerId: 'overdue',
+        metadata: expect.objectContaining({ waitingDays: 8 }),
+      }));
+    });
+
+    it('reports a failed email and carries on with the next signer', async () => {
+      mockDueDocuments(signer({ id: 'first' }), signer({ id: 'second' }));
+      const send = vi.spyOn(transport, 'send').mockRejectedValueOnce(new Error('SMTP unavailable'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const summary = await processDueReminders(now);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(summary.remindersSent).toBe(1);
+      expect(summary.failures).toEqual([{ signerId: 'first', error: 'SMTP unavailable' }]);
+    });
+  });
+
+  describe('updateReminderSettings', () => {
+    it('rejects intervals that are not whole days between 0 and 90', async () => {
+      for (const reminderIntervalDays of [-1, 1.5, 91]) {
+        await expect(updateReminderSettings('doc-1', { reminderIntervalDays }))
+          .rejects.toMatchObject({ status: 400 });
+      }
+      expect(prisma.eSignatureDocument.update).not.toHaveBeenCalled();
+    });
+
+    it('stores zero as no reminders', async () => {
+      vi.mocked(prisma.eSignatureDocument.update).mockResolvedValue({} as never);
+
+      await updateReminderSettings('doc-1', { reminderIntervalDays: 0, escalateAfterDays: 5 });
+
+      expect(prisma.eSignatureDocument.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { reminderIntervalDays: null, escalateAfterDays: 5 },
+      }));
+    });
+  });
+});
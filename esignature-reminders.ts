@@ -0,0 +1,234 @@
+import { Prisma, SignerWorkflow } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { sendEmail, getSigningUrl, escapeHtml } from '@/lib/esignature-email';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { ensureSigningToken } from '@/lib/esignature-tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReminderDocument = Prisma.ESignatureDocumentGetPayload<{
+  include: {
+    uploadedBy: { select: { name: true; email: true } };
+    signerWorkflows: true;
+  };
+}>;
+
+export interface ReminderSettings {
+  reminderIntervalDays: number | null;
+  escalateAfterDays: number | null;
+}
+
+export interface ReminderRunSummary {
+  remindersSent: number;
+  escalations: number;
+  failures: Array<{ signerId: string; error: string }>;
+}
+
+interface SendReminderOptions {
+  trigger: 'manual' | 'scheduled';
+  userId?: string;
+  ipAddress?: string;
+}
+
+const ACTIVE_DOCUMENT_STATUSES = ['SENT', 'IN_PROGRESS'];
+const AWAITING_SIGNER_STATUSES = ['SENT', 'VIEWED'];
+
+/**
+ * Email a signer a reminder and record it in the audit log
+ */
+export async function sendSignerReminder(signerId: string, options: SendReminderOptions) {
+  const signer = await prisma.signerWorkflow.findUnique({
+    where: { id: signerId },
+    include: { document: true },
+  });
+
+  if (!signer) {
+    throw new ESignatureError('Signer not found', 404);
+  }
+  if (!ACTIVE_DOCUMENT_STATUSES.includes(signer.document.status)) {
+    throw new ESignatureError('Document is not out for signature');
+  }
+  if (!AWAITING_SIGNER_STATUSES.includes(signer.status)) {
+    throw new ESignatureError('Signer is not waiting to sign');
+  }
+  if (signer.document.expiresAt && signer.document.expiresAt < new Date()) {
+    throw new ESignatureError('Document has expired', 410);
+  }
+
+  // Expired or nearly expired links are replaced so the reminder is usable
+  const signingUrl = getSigningUrl(await ensureSigningToken(signer));
+  const title = escapeHtml(signer.document.title);
+
+  await sendEmail({
+    to: signer.signerEmail,
+    subject: `Reminder: please sign ${signer.document.title}`,
+    html: `
+      <p>Hi ${escapeHtml(signer.signerName)},</p>
+      <p>This is a reminder that <strong>${title}</strong> is waiting for your signature.</p>
+      <p><a href="${signingUrl}">Review and sign the document</a></p>
+    `,
+    text: `Reminder: ${signer.document.title} is waiting for your signature. ${signingUrl}`,
+  });
+
+  const reminderCount = (signer.reminderCount || 0) + 1;
+
+  await prisma.signerWorkflow.update({
+    where: { id: signer.id },
+    data: { lastReminderAt: new Date(), reminderCount },
+  });
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: 'reminder_sent',
+    description: `Reminder sent to ${signer.signerName} (${signer.signerEmail})`,
+    userId: options.userId,
+    signerId: signer.id,
+    ipAddress: options.ipAddress,
+    metadata: {
+      trigger: options.trigger,
+      signerEmail: signer.signerEmail,
+      reminderCount,
+    },
+  });
+
+  return { reminderCount };
+}
+
+/**
+ * Notify the document owner that a signer has been outstanding too long
+ */
+async function escalateToOwner(
+  signer: SignerWorkflow,
+  document: ReminderDocument,
+  sentAt: Date,
+  now: Date
+) {
+  const owner = document.uploadedBy;
+  if (!owner?.email) return false;
+
+  const waitingDays = Math.floor((now.getTime() - sentAt.getTime()) / DAY_MS);
+
+  await sendEmail({
+    to: owner.email,
+    subject: `${signer.signerName} has not signed ${document.title}`,
+    html: `
+      <p>${escapeHtml(signer.signerName)} (${escapeHtml(signer.signerEmail)}) has not signed
+      <strong>${escapeHtml(document.title)}</strong> after ${waitingDays} days.</p>
+      <p>You may want to follow up with them directly.</p>
+    `,
+  });
+
+  await prisma.signerWorkflow.update({
+    where: { id: signer.id },
+    data: { escalatedAt: now },
+  });
+
+  await recordAuditEvent({
+    documentId: document.id,
+    action: 'reminder_escalated',
+    description: `Escalated to ${owner.name || owner.email}: ${signer.signerName} has not signed after ${waitingDays} days`,
+    signerId: signer.id,
+    metadata: { ownerEmail: owner.email, waitingDays, signerStatus: signer.status },
+  });
+
+  return true;
+}
+
+/**
+ * Send every reminder and escalation that is due. Intended to be run on a schedule.
+ */
+export async function processDueReminders(now = new Date()): Promise<ReminderRunSummary> {
+  const summary: ReminderRunSummary = { remindersSent: 0, escalations: 0, failures: [] };
+
+  const documents = await prisma.eSignatureDocument.findMany({
+    where: {
+      status: { in: ACTIVE_DOCUMENT_STATUSES },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      AND: [
+        {
+          OR: [
+            { reminderIntervalDays: { gt: 0 } },
+            { escalateAfterDays: { gt: 0 } },
+          ],
+        },
+      ],
+    },
+    include: {
+      uploadedBy: { select: { name: true, email: true } },
+      signerWorkflows: {
+        where: { status: { in: AWAITING_SIGNER_STATUSES } },
+      },
+    },
+  });
+
+  for (const document of documents) {
+    for (const signer of document.signerWorkflows) {
+      if (!signer.sentAt) continue;
+
+      try {
+        const intervalDays = document.reminderIntervalDays || 0;
+        const lastContact = signer.lastReminderAt || signer.sentAt;
+        if (intervalDays > 0 && now.getTime() - lastContact.getTime() >= intervalDays * DAY_MS) {
+          await sendSignerReminder(signer.id, { trigger: 'scheduled' });
+          summary.remindersSent++;
+        }
+
+        const escalateDays = document.escalateAfterDays || 0;
+        if (
+          escalateDays > 0 &&
+          !signer.escalatedAt &&
+          now.getTime() - signer.sentAt.getTime() >= escalateDays * DAY_MS
+        ) {
+          if (await escalateToOwner(signer, document, signer.sentAt, now)) {
+            summary.escalations++;
+          }
+        }
+      } catch (error) {
+        console.error(`Error processing reminders for signer ${signer.id}:`, error);
+        summary.failures.push({
+          signerId: signer.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Validate and store a document's reminder cadence
+ */
+export async function updateReminderSettings(
+  documentId: string,
+  settings: Partial<ReminderSettings>,
+  userId?: string
+) {
+  const data: Partial<ReminderSettings> = {};
+
+  for (const key of ['reminderIntervalDays', 'escalateAfterDays'] as const) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    if (value !== null && (!Number.isInteger(value) || value < 0 || value > 90)) {
+      throw new ESignatureError(`${key} must be a whole number of days between 0 and 90`);
+    }
+    data[key] = value || null;
+  }
+
+  const document = await prisma.eSignatureDocument.update({
+    where: { id: documentId },
+    data,
+    select: { id: true, reminderIntervalDays: true, escalateAfterDays: true },
+  });
+
+  await recordAuditEvent({
+    documentId,
+    action: 'document_updated',
+    description: 'Reminder settings updated',
+    userId,
+    metadata: data,
+  });
+
+  return document;
+}
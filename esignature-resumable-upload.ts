@@ -0,0 +1,324 @@
+/**
+ * Browser client for the tus upload endpoint. Files go up in chunks over
+ * XMLHttpRequest so progress is reported per byte, and the upload URL is
+ * remembered in localStorage so the same file can pick up where it left off
+ * after a dropped connection or a page reload.
+ */
+
+const TUS_VERSION = '1.0.0';
+const UPLOAD_ENDPOINT = '/api/esignature/uploads';
+const STORAGE_PREFIX = 'esignature-upload:';
+const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000];
+
+export interface PendingUpload {
+  fingerprint: string;
+  url: string;
+  fileName: string;
+  size: number;
+  /** Bytes the server had confirmed when last seen */
+  offset: number;
+  title?: string;
+  savedAt: string;
+}
+
+export interface ResumableUploadOptions {
+  file: File;
+  metadata: Record<string, string | undefined>;
+  /** Upload as one file of a package that is merged afterwards */
+  packagePart?: boolean;
+  onProgress?: (bytesSent: number, bytesTotal: number) => void;
+  /** Called before waiting to retry after a network failure */
+  onRetry?: (attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;
+  chunkSize?: number;
+}
+
+export class ResumableUploadError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ResumableUploadError';
+  }
+}
+
+function fingerprintFor(file: File, packagePart: boolean) {
+  return `${STORAGE_PREFIX}${packagePart ? 'part:' : ''}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readPending(fingerprint: string): PendingUpload | null {
+  try {
+    const raw = window.localStorage.getItem(fingerprint);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function savePending(upload: PendingUpload) {
+  try {
+    window.localStorage.setItem(upload.fingerprint, JSON.stringify(upload));
+  } catch {
+    // Private browsing or a full quota only costs the ability to resume
+  }
+}
+
+function forgetPending(fingerprint: string) {
+  try {
+    window.localStorage.removeItem(fingerprint);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Uploads this browser started but never finished, newest first
+ */
+export function listPendingUploads(): PendingUpload[] {
+  const uploads: PendingUpload[] = [];
+  try {
+    for (let index = 0; index < window.localStorage.length; index++) {
+      const key = window.localStorage.key(index);
+      if (!key?.startsWith(STORAGE_PREFIX)) continue;
+      const upload = readPending(key);
+      if (upload) uploads.push(upload);
+    }
+  } catch {
+    return [];
+  }
+  return uploads.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Forget an unfinished upload and tell the server to delete what it received
+ */
+export async function discardPendingUpload(upload: PendingUpload) {
+  forgetPending(upload.fingerprint);
+  try {
+    await fetch(upload.url, { method: 'DELETE', headers: { 'Tus-Resumable': TUS_VERSION } });
+  } catch {
+    // The server removes abandoned uploads on its own
+  }
+}
+
+function encodeMetadata(metadata: Record<string, string | undefined>) {
+  return Object.entries(metadata)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      let binary = '';
+      bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+      return `${key} ${btoa(binary)}`;
+    })
+    .join(',');
+}
+
+async function errorMessage(response: Response, fallback: string) {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Server offset for an existing upload, or null when it no longer exists */
+async function fetchOffset(url: string): Promise<number | null> {
+  const response = await fetch(url, { method: 'HEAD', headers: { 'Tus-Resumable': TUS_VERSION }, cache: 'no-store' });
+  if (response.status === 404 || response.status === 410 || response.status === 403) return null;
+  if (!response.ok) {
+    throw new ResumableUploadError('Could not check the upload status', response.status);
+  }
+  return Number(response.headers.get('Upload-Offset'));
+}
+
+async function createUpload(file: File, metadata: Record<string, string | undefined>) {
+  const response = await fetch(UPLOAD_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({ filename: file.name, filetype: file.type, ...metadata }),
+    },
+  });
+  if (!response.ok) {
+    throw new ResumableUploadError(await errorMessage(response, 'Failed to start upload'), response.status);
+  }
+  return response.headers.get('Location')!;
+}
+
+/**
+ * PATCH one chunk. Resolves with the new offset and, on the last chunk, the
+ * id of the document the server created.
+ */
+function sendChunk(
+  url: string,
+  chunk: Blob,
+  offset: number,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<{ offset: number; documentId: string | null }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', url);
+    xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort);
+    const cleanup = () => signal?.removeEventListener('abort', abort);
+
+    xhr.upload.onprogress = event => onProgress(event.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status === 204) {
+        resolve({
+          offset: Number(xhr.getResponseHeader('Upload-Offset')),
+          documentId: xhr.getResponseHeader('Upload-Document-Id'),
+        });
+        return;
+      }
+      let message = 'Upload failed';
+      try {
+        message = JSON.parse(xhr.responseText).error || message;
+      } catch {
+        // not JSON
+      }
+      reject(new ResumableUploadError(message, xhr.status));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new ResumableUploadError('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    xhr.send(chunk);
+  });
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/** Network failures and server hiccups are worth retrying; rejections are not */
+function isRetryable(error: unknown) {
+  return error instanceof ResumableUploadError &&
+    (error.status === undefined || error.status === 409 || error.status === 423 || error.status >= 500);
+}
+
+/**
+ * Upload a file through the tus endpoint, resuming an earlier attempt at the
+ * same file when the server still has it. Resolves with the upload's id and,
+ * for a single file, the id of the document created from it.
+ */
+export async function uploadResumable(
+  options: ResumableUploadOptions
+): Promise<{ uploadId: string; documentId: string | null }> {
+  const { file, signal } = options;
+  const metadata = options.packagePart ? { ...options.metadata, packagePart: 'true' } : options.metadata;
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const fingerprint = fingerprintFor(file, !!options.packagePart);
+
+  let url: string | null = null;
+  let offset = 0;
+
+  const pending = readPending(fingerprint);
+  if (pending) {
+    const serverOffset = await fetchOffset(pending.url).catch(() => null);
+    if (serverOffset === null) {
+      forgetPending(fingerprint);
+    } else {
+      url = pending.url;
+      offset = serverOffset;
+    }
+  }
+
+  if (!url) {
+    url = await createUpload(file, metadata);
+  }
+
+  const remember = () => savePending({
+    fingerprint,
+    url: url!,
+    fileName: file.name,
+    size: file.size,
+    offset,
+    title: metadata.title,
+    savedAt: new Date().toISOString(),
+  });
+  remember();
+  options.onProgress?.(offset, file.size);
+
+  let attempt = 0;
+  for (;;) {
+    try {
+      const chunk = file.slice(offset, Math.min(offset + chunkSize, file.size));
+      const result = await sendChunk(
+        url,
+        chunk,
+        offset,
+        loaded => options.onProgress?.(offset + loaded, file.size),
+        signal
+      );
+
+      offset = result.offset;
+      attempt = 0;
+      if (result.documentId || result.offset >= file.size) {
+        forgetPending(fingerprint);
+        options.onProgress?.(file.size, file.size);
+        return { uploadId: url.split('/').pop()!, documentId: result.documentId };
+      }
+      remember();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= RETRY_DELAYS_MS.length) {
+        // A rejected file cannot be resumed; the server has already dropped it
+        if (error instanceof ResumableUploadError && error.status && error.status < 500) {
+          forgetPending(fingerprint);
+        }
+        throw error;
+      }
+
+      const delay = RETRY_DELAYS_MS[attempt++];
+      options.onRetry?.(attempt, delay);
+      await wait(delay, signal);
+
+      // Part of the failed chunk may have arrived
+      const serverOffset = await fetchOffset(url).catch(() => offset);
+      if (serverOffset === null) {
+        forgetPending(fingerprint);
+        throw new ResumableUploadError('The upload expired on the server. Please start again.', 410);
+      }
+      offset = serverOffset;
+      remember();
+      options.onProgress?.(offset, file.size);
+    }
+  }
+}
+
+/**
+ * Merge finished package parts, in order, into one document
+ */
+export async function createPackageDocument(
+  uploadIds: string[],
+  metadata: { title: string; description?: string; dealId?: string; contactId?: string; supersedesId?: string }
+): Promise<{ id: string; title: string }> {
+  const response = await fetch(`${UPLOAD_ENDPOINT}/package`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uploadIds, ...metadata }),
+  });
+  if (!response.ok) {
+    throw new ResumableUploadError(await errorMessage(response, 'Failed to merge files'), response.status);
+  }
+  const data = await response.json();
+  return data.document;
+}
@@ -0,0 +1,193 @@
+import { Prisma, UserRole } from '@prisma/client';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+import { hasRole } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { readStoredFile } from '@/lib/esignature-storage';
+import { replaceControlCharacters } from '@/lib/esignature-utils';
+
+/**
+ * Document contents are indexed with Postgres full-text search. The extracted
+ * text lives in ESignatureDocument.contentText (contentIndexedAt marks when it
+ * was last extracted) and searches match against SEARCH_VECTOR, which the
+ * migration backs with an expression index:
+ *
+ *   CREATE INDEX "ESignatureDocument_content_search_idx" ON "ESignatureDocument"
+ *   USING GIN (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("contentText", '')));
+ *
+ * The expression below must stay identical to the indexed one or Postgres
+ * falls back to scanning every document.
+ */
+const SEARCH_VECTOR = Prisma.sql`to_tsvector('english', coalesce(d."title", '') || ' ' || coalesce(d."contentText", ''))`;
+
+/** Long contracts are cut off here; the opening pages carry most search terms */
+const MAX_INDEXED_CHARS = 500_000;
+const MAX_INDEXED_PAGES = 200;
+
+// Snippet match markers. Control characters never survive extraction, so they
+// cannot collide with document text.
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface DocumentSearchHit {
+  id: string;
+  title: string;
+  fileName: string;
+  status: string;
+  dealId: string | null;
+  contactId: string | null;
+  createdAt: Date;
+  rank: number;
+  snippet: SnippetPart[];
+}
+
+interface SearchUser {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Pull the text out of a PDF, page by page. Scanned documents without a text
+ * layer come back empty.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const pdf = await pdfjs.getDocument({
+    data: bytes,
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    let length = 0;
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_INDEXED_PAGES); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : ''))
+        .join('');
+      page.cleanup();
+
+      pages.push(text);
+      length += text.length;
+      if (length >= MAX_INDEXED_CHARS) break;
+    }
+
+    return replaceControlCharacters(pages.join('\n'), ' ', '\t\n')
+      .replace(/[ \t]+/g, ' ')
+      .slice(0, MAX_INDEXED_CHARS)
+      .trim();
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Extract and store a document's text. Failures are logged rather than
+ * thrown, since a document that cannot be indexed is still usable. One whose
+ * text cannot be extracted is marked as indexed with no text so the backfill
+ * does not retry it forever; one that could not be saved is left for the
+ * backfill to pick up.
+ */
+export async function indexDocumentContent(documentId: string) {
+  try {
+    const document = await prisma.eSignatureDocument.findUnique({
+      where: { id: documentId },
+      select: { id: true, filePath: true },
+    });
+    if (!document) return false;
+
+    let contentText: string | null = null;
+    try {
+      contentText = await extractPdfText(await readStoredFile(document.filePath));
+    } catch (error) {
+      console.error(`Error extracting text from document ${documentId}:`, error);
+    }
+
+    await prisma.eSignatureDocument.update({
+      where: { id: documentId },
+      data: { contentText: contentText || null, contentIndexedAt: new Date() },
+    });
+
+    return contentText !== null;
+  } catch (error) {
+    console.error(`Error indexing document ${documentId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Index documents that have not been indexed yet, oldest first. Intended to
+ * be run on a schedule to catch anything indexing at upload time missed.
+ */
+export async function indexPendingDocuments(limit = 25) {
+  const documents = await prisma.eSignatureDocument.findMany({
+    where: { contentIndexedAt: null },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  });
+
+  let indexed = 0;
+  const failed: string[] = [];
+  for (const document of documents) {
+    if (await indexDocumentContent(document.id)) {
+      indexed++;
+    } else {
+      failed.push(document.id);
+    }
+  }
+
+  return { indexed, failed };
+}
+
+function toSnippetParts(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const [index, segment] of headline.split(new RegExp(`[${MATCH_START}${MATCH_END}]`)).entries()) {
+    // Segments alternate between plain text and matched terms
+    if (segment) parts.push({ text: segment, match: index % 2 === 1 });
+  }
+  return parts;
+}
+
+/**
+ * Full-text search over the documents a user can see, best matches first.
+ * Accepts web-search syntax: quoted phrases, OR, and -excluded terms.
+ */
+export async function searchDocumentContents(
+  user: SearchUser,
+  options: { query: string; dealId?: string; contactId?: string; limit?: number }
+): Promise<DocumentSearchHit[]> {
+  const query = options.query.trim();
+  if (!query) return [];
+
+  const filters = [
+    hasRole(user.role, ['ADMIN', 'MANAGER']) ? Prisma.empty : Prisma.sql`AND d."uploadedById" = ${user.id}`,
+    options.dealId ? Prisma.sql`AND d."dealId" = ${options.dealId}` : Prisma.empty,
+    options.contactId ? Prisma.sql`AND d."contactId" = ${options.contactId}` : Prisma.empty,
+  ];
+  const limit = Math.min(Math.max(options.limit || 20, 1), 50);
+
+  const rows = await prisma.$queryRaw<Array<Omit<DocumentSearchHit, 'snippet'> & { headline: string }>>`
+    SELECT
+      d."id", d."title", d."fileName", d."status", d."dealId", d."contactId", d."createdAt",
+      ts_rank_cd(${SEARCH_VECTOR}, q) AS "rank",
+      ts_headline('english', coalesce(d."contentText", ''), q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "ESignatureDocument" d, websearch_to_tsquery('english', ${query}) q
+    WHERE ${SEARCH_VECTOR} @@ q
+    ${Prisma.join(filters, ' ')}
+    ORDER BY "rank" DESC, d."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(({ headline, rank, ...row }) => ({
+    ...row,
+    rank: Number(rank),
+    snippet: toSnippetParts(headline),
+  }));
+}
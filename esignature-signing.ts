@@ -0,0 +1,416 @@
+import { prisma } from '@/lib/db';
+import { recordAuditEvent, sha256Hex } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { loadFieldLogic, syncDerivedFieldValues } from '@/lib/esignature-fields';
+import { getVerificationCookieName, isSignerVerified } from '@/lib/esignature-identity';
+import { deleteStoredFile, writePrivateFile } from '@/lib/esignature-storage';
+import { resolveSigningToken } from '@/lib/esignature-tokens';
+import {
+  FieldAttachment,
+  formatFileSize,
+  isCalculatedField,
+  isChoiceField,
+  MAX_ATTACHMENT_SIZE,
+  normalizeFieldOptions,
+  parseAttachmentValue,
+  SIGNER_DETAIL_FIELD_TYPES,
+} from '@/lib/esignature-utils';
+import { advanceSigningWorkflow, assertSignerCanSign } from '@/lib/esignature-workflow';
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/** Accepted attachment formats, recognised by their leading bytes */
+const ATTACHMENT_FORMATS = [
+  { mimeType: 'application/pdf', extension: 'pdf', magic: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: 'image/png', extension: 'png', magic: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/jpeg', extension: 'jpg', magic: [0xff, 0xd8, 0xff] },
+];
+
+/**
+ * Find the signer a signing link belongs to, rejecting links and documents
+ * that can no longer be used
+ */
+export async function loadSignerByToken(signingToken: string) {
+  const signer = await resolveSigningToken(signingToken);
+
+  if (
+    signer.document.status === 'EXPIRED' ||
+    (signer.document.expiresAt && signer.document.expiresAt < new Date())
+  ) {
+    throw new ESignatureError('This document has expired and can no longer be signed', 410, 'document_expired');
+  }
+
+  return signer;
+}
+
+/**
+ * Load a signer and make sure this browser passed identity verification
+ */
+export async function requireVerifiedSigner(
+  signingToken: string,
+  getCookie: (name: string) => string | undefined
+) {
+  const signer = await loadSignerByToken(signingToken);
+
+  if (signer.authLockedAt) {
+    throw new ESignatureError('Too many failed attempts. Ask the sender to unlock your signing session.', 423, 'verification_locked');
+  }
+  if (!isSignerVerified(signer, getCookie(getVerificationCookieName(signer.id)))) {
+    throw new ESignatureError('Please verify your identity to continue', 401, 'verification_required');
+  }
+
+  return signer;
+}
+
+type TokenSigner = Awaited<ReturnType<typeof loadSignerByToken>>;
+
+/**
+ * Everything the public signing page shows. The first visit marks the
+ * signer as having viewed the document.
+ */
+export async function getSigningSession(signer: TokenSigner, context: RequestContext = {}) {
+  if (signer.status === 'SENT') {
+    await prisma.signerWorkflow.update({
+      where: { id: signer.id },
+      data: { status: 'VIEWED', viewedAt: new Date(), ipAddress: context.ipAddress },
+    });
+    await recordAuditEvent({
+      documentId: signer.documentId,
+      action: 'signer_viewed',
+      description: `${signer.signerName} opened the document`,
+      signerId: signer.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  }
+
+  if (signer.status !== 'SIGNED') {
+    assertSignerCanSign(signer.document, signer.id);
+    if (signer.status !== 'DECLINED') {
+      await prefillSignerDetails(signer, context);
+    }
+  }
+
+  const allFields = await prisma.signatureField.findMany({
+    where: { documentId: signer.documentId },
+    include: {
+      signature: {
+        include: { signer: { select: { signerName: true, signerEmail: true } } },
+      },
+    },
+    orderBy: [{ pageNumber: 'asc' }, { y: 'asc' }],
+  });
+
+  const { document } = signer;
+
+  return {
+    signer: {
+      id: signer.id,
+      signerName: signer.signerName,
+      signerEmail: signer.signerEmail,
+      signerRole: signer.signerRole,
+      status: signer.status === 'SENT' ? 'VIEWED' : signer.status,
+      signedAt: signer.signedAt,
+      document: {
+        id: document.id,
+        title: document.title,
+        fileName: document.fileName,
+        // Signers load the PDF through the token route instead of its storage path
+        filePath: `/api/esignature/sign/${signer.signingToken}/file`,
+        status: document.status,
+        createdAt: document.createdAt,
+        expiresAt: document.expiresAt,
+      },
+    },
+    allFields,
+    canSign: signer.status !== 'SIGNED' && signer.status !== 'DECLINED',
+    canDelegate: !!document.allowDelegation && signer.status !== 'SIGNED' && signer.status !== 'DECLINED',
+    alreadySigned: signer.status === 'SIGNED',
+  };
+}
+
+/**
+ * Fill the signer's name, email and company fields from their signer record.
+ * Fields that already have a value are left alone, and a company field stays
+ * empty for the signer to type when their contact has no company on file.
+ */
+async function prefillSignerDetails(signer: TokenSigner, context: RequestContext) {
+  const { fields, hidden } = await loadFieldLogic(signer.documentId);
+  const pending = fields.filter(field =>
+    (SIGNER_DETAIL_FIELD_TYPES as string[]).includes(field.type) &&
+    !field.signature &&
+    !hidden.has(field.id) &&
+    (!field.signerId || field.signerId === signer.id)
+  );
+  if (pending.length === 0) return;
+
+  const contact = signer.contactId && pending.some(field => field.type === 'COMPANY')
+    ? await prisma.contact.findUnique({ where: { id: signer.contactId }, select: { company: true } })
+    : null;
+  const values: Record<string, string | undefined> = {
+    NAME: signer.signerName,
+    EMAIL: signer.signerEmail,
+    COMPANY: contact?.company?.trim() || undefined,
+  };
+  const filled = pending.filter(field => values[field.type]);
+  if (filled.length === 0) return;
+
+  await prisma.signature.createMany({
+    data: filled.map(field => ({
+      fieldId: field.id,
+      documentId: signer.documentId,
+      signerId: signer.id,
+      signatureData: values[field.type]!,
+      signatureType: 'auto',
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    })),
+    skipDuplicates: true,
+  });
+  await syncDerivedFieldValues(signer.documentId, signer.id);
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: 'field_signed',
+    description: `Filled ${filled.length} field${filled.length === 1 ? '' : 's'} from ${signer.signerName}'s signer details`,
+    signerId: signer.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { fieldIds: filled.map(field => field.id), signatureType: 'auto' },
+  });
+}
+
+/**
+ * Find a field the signer may fill in right now
+ */
+async function loadSignableField(signer: TokenSigner, fieldId: string) {
+  if (signer.status === 'SIGNED' || signer.status === 'DECLINED') {
+    throw new ESignatureError('You have already finished with this document', 409, 'already_signed');
+  }
+  assertSignerCanSign(signer.document, signer.id);
+
+  const { fields, hidden } = await loadFieldLogic(signer.documentId);
+  const field = fields.find(candidate => candidate.id === fieldId);
+  if (!field) {
+    throw new ESignatureError('Field not found', 404);
+  }
+  if (field.signerId && field.signerId !== signer.id) {
+    throw new ESignatureError('This field is assigned to another signer', 403);
+  }
+  if (hidden.has(field.id)) {
+    throw new ESignatureError('This field does not apply based on your other answers', 409, 'field_hidden');
+  }
+  if (isCalculatedField(field)) {
+    throw new ESignatureError('This field is calculated from other fields', 400, 'field_calculated');
+  }
+
+  return field;
+}
+
+/**
+ * Save a value for one of the signer's fields. Once every required field
+ * that applies is filled the signer is marked signed and the workflow moves
+ * on. Conditions and formulas are enforced here, whatever the browser sent.
+ */
+export async function signField(
+  signer: TokenSigner,
+  input: { fieldId: string; signatureData: string; signatureType: string },
+  context: RequestContext = {}
+) {
+  const field = await loadSignableField(signer, input.fieldId);
+
+  if (field.type === 'NAME' || field.type === 'EMAIL') {
+    throw new ESignatureError('This field is filled in from your signer details', 400, 'field_auto_filled');
+  }
+  if (field.type === 'ATTACHMENT') {
+    throw new ESignatureError('Upload a file for this field', 400, 'attachment_required');
+  }
+  if (isChoiceField(field) && input.signatureData && !normalizeFieldOptions(field.options).includes(input.signatureData)) {
+    throw new ESignatureError('Choose one of the options for this field');
+  }
+
+  return saveFieldValue(signer, field, input, context);
+}
+
+/**
+ * Store a file the signer uploaded for an attachment field. Only PDFs and
+ * PNG or JPEG images are accepted; a new upload replaces the previous file.
+ */
+export async function attachFileToField(
+  signer: TokenSigner,
+  input: { fieldId: string; fileName: string; bytes: Uint8Array },
+  context: RequestContext = {}
+) {
+  const field = await loadSignableField(signer, input.fieldId);
+
+  if (field.type !== 'ATTACHMENT') {
+    throw new ESignatureError('This field does not take a file');
+  }
+  if (input.bytes.length === 0) {
+    throw new ESignatureError('The uploaded file is empty');
+  }
+  if (input.bytes.length > MAX_ATTACHMENT_SIZE) {
+    throw new ESignatureError(`Files must be smaller than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`, 413);
+  }
+
+  const format = ATTACHMENT_FORMATS.find(candidate =>
+    candidate.magic.every((byte, index) => input.bytes[index] === byte)
+  );
+  if (!format) {
+    throw new ESignatureError('Upload a PDF, PNG or JPEG file', 415);
+  }
+
+  const previous = parseAttachmentValue(field.signature?.signatureData);
+  const attachment: FieldAttachment = {
+    filePath: await writePrivateFile(input.bytes, format.extension),
+    fileName: input.fileName.replace(/[\\/\r\n"]/g, '_').slice(0, 200) || `attachment.${format.extension}`,
+    mimeType: format.mimeType,
+    size: input.bytes.length,
+    sha256: sha256Hex(input.bytes),
+  };
+
+  let result;
+  try {
+    result = await saveFieldValue(
+      signer,
+      field,
+      { signatureData: JSON.stringify(attachment), signatureType: 'uploaded' },
+      context
+    );
+  } catch (error) {
+    await deleteStoredFile(attachment.filePath);
+    throw error;
+  }
+
+  if (previous) {
+    await deleteStoredFile(previous.filePath);
+  }
+
+  return { ...result, attachment };
+}
+
+/**
+ * Audit metadata marking actions taken during a hosted in-person session
+ */
+function signingMethodMetadata(signer: TokenSigner) {
+  return signer.hostedAt ? { signingMethod: 'IN_PERSON', hostUserId: signer.hostUserId } : {};
+}
+
+/**
+ * Store a checked value, refresh derived fields and finish the signer once
+ * nothing required is left
+ */
+async function saveFieldValue(
+  signer: TokenSigner,
+  field: Awaited<ReturnType<typeof loadSignableField>>,
+  input: { signatureData: string; signatureType: string },
+  context: RequestContext
+) {
+  let signature = null;
+  if (!input.signatureData) {
+    // Unticking a checkbox clears it; every other field needs a value
+    if (field.type !== 'CHECKBOX') {
+      throw new ESignatureError('A value is required');
+    }
+    if (field.signature) {
+      await prisma.signature.delete({ where: { id: field.signature.id } });
+    }
+  } else {
+    signature = await prisma.signature.upsert({
+      where: { fieldId: field.id },
+      create: {
+        fieldId: field.id,
+        documentId: signer.documentId,
+        signerId: signer.id,
+        signatureData: input.signatureData,
+        signatureType: input.signatureType,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+      update: {
+        signatureData: input.signatureData,
+        signatureType: input.signatureType,
+        timestamp: new Date(),
+      },
+    });
+  }
+
+  const state = await syncDerivedFieldValues(signer.documentId, signer.id);
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: 'field_signed',
+    description: input.signatureData
+      ? `${signer.signerName} completed a ${field.type.toLowerCase()} field on page ${field.pageNumber}`
+      : `${signer.signerName} cleared a ${field.type.toLowerCase()} field on page ${field.pageNumber}`,
+    signerId: signer.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      fieldId: field.id,
+      signatureType: input.signatureType,
+      ...(state.clearedHiddenFields.length > 0 && { clearedHiddenFields: state.clearedHiddenFields }),
+      ...signingMethodMetadata(signer),
+    },
+  });
+
+  const remaining = state.fields.filter(candidate =>
+    candidate.required &&
+    !state.hidden.has(candidate.id) &&
+    !isCalculatedField(candidate) &&
+    (!candidate.signerId || candidate.signerId === signer.id) &&
+    !state.values.get(candidate.id)
+  ).length;
+
+  if (remaining === 0) {
+    await prisma.signerWorkflow.update({
+      where: { id: signer.id },
+      data: { status: 'SIGNED', signedAt: new Date(), ipAddress: context.ipAddress },
+    });
+    await recordAuditEvent({
+      documentId: signer.documentId,
+      action: 'signature_completed',
+      description: signer.hostedAt
+        ? `${signer.signerName} finished signing in person`
+        : `${signer.signerName} finished signing`,
+      signerId: signer.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: signingMethodMetadata(signer),
+    });
+    await advanceSigningWorkflow(signer.documentId);
+  }
+
+  return { signature, completed: remaining === 0 };
+}
+
+/**
+ * Record that the signer declined. This stops the workflow until the sender
+ * corrects it, unless another member of an "any one of" group can still sign.
+ */
+export async function declineSigning(signer: TokenSigner, reason: string, context: RequestContext = {}) {
+  if (signer.status === 'SIGNED' || signer.status === 'DECLINED') {
+    throw new ESignatureError('You have already finished with this document', 409, 'already_signed');
+  }
+  assertSignerCanSign(signer.document, signer.id);
+
+  await prisma.signerWorkflow.update({
+    where: { id: signer.id },
+    data: { status: 'DECLINED', declinedAt: new Date(), declineReason: reason },
+  });
+
+  await recordAuditEvent({
+    documentId: signer.documentId,
+    action: 'signer_declined',
+    description: `${signer.signerName} declined to sign: ${reason}`,
+    signerId: signer.id,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { reason, ...signingMethodMetadata(signer) },
+  });
+
+  await advanceSigningWorkflow(signer.documentId);
+}
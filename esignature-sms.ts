@@ -0,0 +1,109 @@
+import { SMSMessage } from '@/lib/types';
+
+export interface SmsTransport {
+  send(message: SMSMessage): Promise<{ messageId: string }>;
+}
+
+/**
+ * Twilio transport configured from TWILIO_* environment variables
+ */
+export class TwilioSmsTransport implements SmsTransport {
+  async send(message: SMSMessage) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = message.from || process.env.TWILIO_FROM_NUMBER;
+
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Twilio SMS is not configured');
+    }
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Twilio rejected the message (${response.status})`);
+    }
+
+    const data = await response.json();
+    return { messageId: data.sid };
+  }
+}
+
+/**
+ * Accepts messages without delivering them, so local development works
+ * without Twilio. Message bodies carry one-time codes, so nothing is logged.
+ * Never used in production.
+ */
+export class DevelopmentSmsTransport implements SmsTransport {
+  async send() {
+    return { messageId: `development-${Date.now()}` };
+  }
+}
+
+/**
+ * Keeps sent messages in memory so tests can assert on them
+ */
+export class InMemorySmsTransport implements SmsTransport {
+  readonly outbox: SMSMessage[] = [];
+
+  async send(message: SMSMessage) {
+    this.outbox.push(message);
+    return { messageId: `memory-${this.outbox.length}` };
+  }
+
+  clear() {
+    this.outbox.length = 0;
+  }
+}
+
+let activeTransport: SmsTransport | null = null;
+
+/**
+ * Get the configured SMS transport (SMS_TRANSPORT=twilio|memory). Without
+ * Twilio, messages are discarded in development and refused in production.
+ */
+export function getSmsTransport(): SmsTransport {
+  if (activeTransport) return activeTransport;
+
+  switch (process.env.SMS_TRANSPORT) {
+    case 'twilio':
+      activeTransport = new TwilioSmsTransport();
+      break;
+    case 'memory':
+      activeTransport = new InMemorySmsTransport();
+      break;
+    default:
+      if (process.env.TWILIO_ACCOUNT_SID) {
+        activeTransport = new TwilioSmsTransport();
+      } else if (process.env.NODE_ENV === 'production') {
+        throw new Error('SMS is not configured: set TWILIO_ACCOUNT_SID');
+      } else {
+        activeTransport = new DevelopmentSmsTransport();
+      }
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Replace the SMS transport, e.g. with an InMemorySmsTransport in tests
+ */
+export function setSmsTransport(transport: SmsTransport | null) {
+  activeTransport = transport;
+}
+
+/**
+ * Send a text message through the active transport
+ */
+export async function sendSms(message: SMSMessage) {
+  return getSmsTransport().send(message);
+}
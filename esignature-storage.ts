@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+/**
+ * Files are stored under the public directory and referenced by their URL
+ * path (e.g. /uploads/esignature/<id>.pdf), which is what Document.filePath holds.
+ */
+const STORAGE_ROOT = process.env.ESIGNATURE_STORAGE_ROOT || path.join(process.cwd(), 'public');
+const DOCUMENTS_DIR = '/uploads/esignature';
+
+/**
+ * Files signers hand over, such as ID scans, are kept outside the public root
+ * and only reach a browser through an authorized route. Their filePath
+ * carries the private: prefix (e.g. private:/attachments/<id>.pdf).
+ */
+const PRIVATE_ROOT = process.env.ESIGNATURE_PRIVATE_STORAGE_DIR || path.join(process.cwd(), 'storage', 'private');
+const PRIVATE_PREFIX = 'private:';
+const ATTACHMENTS_DIR = '/attachments';
+
+function resolveStoredPath(filePath: string): string {
+  const isPrivate = filePath.startsWith(PRIVATE_PREFIX);
+  const root = isPrivate ? PRIVATE_ROOT : STORAGE_ROOT;
+  const pathname = isPrivate
+    ? filePath.slice(PRIVATE_PREFIX.length)
+    : filePath.startsWith('http') ? new URL(filePath).pathname : filePath;
+  const resolved = path.resolve(root, `.${pathname}`);
+
+  if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+    throw new ESignatureError('Invalid file path', 400);
+  }
+
+  return resolved;
+}
+
+function hasErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && 'code' in error && error.code === code;
+}
+
+/**
+ * Read a stored document by its filePath
+ */
+export async function readStoredFile(filePath: string): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await fs.readFile(resolveStoredPath(filePath)));
+  } catch (error) {
+    if (hasErrorCode(error, 'ENOENT')) {
+      throw new ESignatureError('Document file not found', 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store bytes under a generated name and return the new filePath
+ */
+export async function writeStoredFile(bytes: Uint8Array, extension = 'pdf'): Promise<string> {
+  const filePath = `${DOCUMENTS_DIR}/${randomUUID()}.${extension}`;
+  const target = resolveStoredPath(filePath);
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, bytes);
+
+  return filePath;
+}
+
+/**
+ * Store bytes in private storage under a generated name and return the new
+ * filePath. Read and delete these with the same functions as documents.
+ */
+export async function writePrivateFile(bytes: Uint8Array, extension: string): Promise<string> {
+  const filePath = `${PRIVATE_PREFIX}${ATTACHMENTS_DIR}/${randomUUID()}.${extension}`;
+  const target = resolveStoredPath(filePath);
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.writeFile(target, bytes, { mode: 0o600 });
+
+  return filePath;
+}
+
+/**
+ * Whether a filePath names a signer attachment in private storage. Paths
+ * taken from field values are checked with this before they are deleted.
+ */
+export function isPrivateAttachmentPath(filePath: string): boolean {
+  if (!filePath.startsWith(`${PRIVATE_PREFIX}${ATTACHMENTS_DIR}/`)) {
+    return false;
+  }
+
+  const attachmentsRoot = path.resolve(PRIVATE_ROOT, `.${ATTACHMENTS_DIR}`);
+  const resolved = path.resolve(PRIVATE_ROOT, `.${filePath.slice(PRIVATE_PREFIX.length)}`);
+  return resolved.startsWith(attachmentsRoot + path.sep);
+}
+
+/**
+ * Remove a stored document, ignoring files that are already gone
+ */
+export async function deleteStoredFile(filePath: string) {
+  try {
+    await fs.unlink(resolveStoredPath(filePath));
+  } catch (error) {
+    if (!hasErrorCode(error, 'ENOENT')) throw error;
+  }
+}
+
+/**
+ * Duplicate a stored document so the copy can be modified independently
+ */
+export async function copyStoredFile(filePath: string): Promise<string> {
+  const extension = path.extname(filePath).replace('.', '') || 'pdf';
+  return writeStoredFile(await readStoredFile(filePath), extension);
+}
+
+/**
+ * Uploads wait here until they pass validation and scanning. The directory is
+ * outside the public root so a file that has not been checked is never served.
+ */
+const QUARANTINE_ROOT = process.env.ESIGNATURE_QUARANTINE_DIR || path.join(process.cwd(), 'storage', 'quarantine');
+
+/**
+ * A directory inside quarantine for one kind of held file, such as partial
+ * uploads, created if needed
+ */
+export async function ensureQuarantineDir(name: string): Promise<string> {
+  const dir = path.join(QUARANTINE_ROOT, name);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * Hold uploaded bytes in quarantine under a generated name and return the
+ * absolute path of the held file
+ */
+export async function writeQuarantinedFile(bytes: Uint8Array): Promise<string> {
+  const target = path.join(QUARANTINE_ROOT, randomUUID());
+
+  await fs.mkdir(QUARANTINE_ROOT, { recursive: true });
+  await fs.writeFile(target, bytes, { mode: 0o600 });
+
+  return target;
+}
+
+/**
+ * Move a file that passed its checks out of quarantine into document storage
+ * and return the new filePath
+ */
+export async function releaseQuarantinedFile(quarantinePath: string, extension = 'pdf'): Promise<string> {
+  const filePath = `${DOCUMENTS_DIR}/${randomUUID()}.${extension}`;
+  const target = resolveStoredPath(filePath);
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  try {
+    await fs.rename(quarantinePath, target);
+  } catch (error) {
+    // Quarantine may be on a different volume from the public directory
+    if (!hasErrorCode(error, 'EXDEV')) throw error;
+    await fs.copyFile(quarantinePath, target);
+    await fs.unlink(quarantinePath);
+  }
+  await fs.chmod(target, 0o644);
+
+  return filePath;
+}
+
+/**
+ * Delete a quarantined file, ignoring files that are already gone
+ */
+export async function discardQuarantinedFile(quarantinePath: string) {
+  try {
+    await fs.unlink(quarantinePath);
+  } catch (error) {
+    if (!hasErrorCode(error, 'ENOENT')) throw error;
+  }
+}
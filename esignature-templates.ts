@@ -0,0 +1,435 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { FIELD_TYPES } from '@/lib/esignature-fields';
+import { indexDocumentContent } from '@/lib/esignature-search';
+import { copyStoredFile } from '@/lib/esignature-storage';
+import {
+  validateEmail,
+  validateFieldCoordinates,
+  validateFieldLogic,
+  remapFieldReferences,
+  isChoiceField,
+  normalizeFieldOptions,
+  parseFieldCondition,
+  FieldCondition,
+  SignatureFieldData,
+} from '@/lib/esignature-utils';
+
+export interface TemplateRole {
+  name: string;
+  signingOrder: number;
+}
+
+export interface TemplateField extends Omit<SignatureFieldData, 'id' | 'signerId' | 'value' | 'signatureType'> {
+  role: string;
+  label?: string;
+  /** Key other fields' conditions and formulas use to refer to this field */
+  ref?: string;
+}
+
+export interface TemplateInput {
+  name?: string;
+  description?: string;
+  roles: TemplateRole[];
+  fields: TemplateField[];
+}
+
+export interface RoleBinding {
+  signerName: string;
+  signerEmail: string;
+  contactId?: string;
+}
+
+const templateVersionInclude = {
+  versions: { orderBy: { version: 'desc' as const } },
+  createdBy: { select: { name: true, email: true } },
+};
+
+/**
+ * Keep only the keys a role has, so client input is stored as a known shape
+ */
+function normalizeTemplateRole(role: TemplateRole): TemplateRole {
+  if (!role || typeof role.name !== 'string') {
+    throw new ESignatureError('Every role needs a name');
+  }
+  const signingOrder = Number(role.signingOrder);
+  if (!Number.isInteger(signingOrder) || signingOrder < 1) {
+    throw new ESignatureError(`Role "${role.name}" needs a signing order of 1 or more`);
+  }
+
+  return { name: role.name.trim(), signingOrder };
+}
+
+/**
+ * Keep only the keys a template field has and check its type and position.
+ * Documents created from the template copy these keys onto real fields.
+ */
+function normalizeTemplateField(field: TemplateField): TemplateField {
+  if (!field || typeof field !== 'object') {
+    throw new ESignatureError('Invalid field');
+  }
+  if (!FIELD_TYPES.includes(field.type)) {
+    throw new ESignatureError(`Unknown field type "${field.type}"`);
+  }
+  if (typeof field.role !== 'string') {
+    throw new ESignatureError(`Field on page ${field.pageNumber} needs a role`);
+  }
+
+  // The watched field is checked against the template's refs with the layout
+  const showWhen = field.showWhen ? parseFieldCondition(field.showWhen) : null;
+  if (field.showWhen && !showWhen) {
+    throw new ESignatureError(`The condition on a field on page ${field.pageNumber} needs a field to watch and a known operator`);
+  }
+
+  const normalized: TemplateField = {
+    type: field.type,
+    role: field.role,
+    ref: typeof field.ref === 'string' ? field.ref : undefined,
+    label: typeof field.label === 'string' ? field.label.trim() || undefined : undefined,
+    pageNumber: Number(field.pageNumber),
+    x: Number(field.x),
+    y: Number(field.y),
+    width: Number(field.width),
+    height: Number(field.height),
+    required: field.required !== false,
+    showWhen,
+    formula: typeof field.formula === 'string' ? field.formula.trim() || null : null,
+    options: isChoiceField(field) ? normalizeFieldOptions(field.options) : undefined,
+    formFieldName: typeof field.formFieldName === 'string' ? field.formFieldName : undefined,
+  };
+
+  if (!Number.isInteger(normalized.pageNumber) || normalized.pageNumber < 1 || !validateFieldCoordinates(normalized)) {
+    throw new ESignatureError(`A ${field.type.toLowerCase()} field on page ${field.pageNumber} is not within the page`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Check that roles are unique and that every field belongs to a known role
+ */
+function validateTemplateLayout(roles: TemplateRole[], fields: TemplateField[]) {
+  if (roles.length === 0) {
+    throw new ESignatureError('A template needs at least one signer role');
+  }
+
+  const roleNames = roles.map(role => role.name.trim().toLowerCase());
+  if (roleNames.some(name => !name)) {
+    throw new ESignatureError('Every role needs a name');
+  }
+  if (new Set(roleNames).size !== roleNames.length) {
+    throw new ESignatureError('Role names must be unique');
+  }
+
+  for (const field of fields) {
+    if (!roleNames.includes(field.role.trim().toLowerCase())) {
+      throw new ESignatureError(`Field on page ${field.pageNumber} is assigned to unknown role "${field.role}"`);
+    }
+  }
+
+  const problem = validateFieldLogic(fields.map((field, index) => ({ ...field, id: field.ref || `field-${index}` })));
+  if (problem) {
+    throw new ESignatureError(problem);
+  }
+}
+
+/**
+ * Save a draft document's PDF and field layout as a new template. Fields are
+ * keyed to their signer's role instead of the signer.
+ */
+export async function createTemplateFromDocument(
+  documentId: string,
+  details: { name: string; description?: string },
+  userId: string
+) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true, signatureFields: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (!details.name?.trim()) {
+    throw new ESignatureError('Template name is required');
+  }
+
+  // Role names come from the signers; duplicates get their order appended.
+  // Reassigned signers handed their fields on and have no role of their own.
+  const roleBySigner = new Map<string, string>();
+  const roles: TemplateRole[] = [];
+  const signers = document.signerWorkflows
+    .filter(signer => signer.status !== 'REASSIGNED')
+    .sort((a, b) => a.signingOrder - b.signingOrder);
+
+  for (const signer of signers) {
+    let name = signer.signerRole?.trim() || `Signer ${signer.signingOrder}`;
+    if (roles.some(role => role.name.toLowerCase() === name.toLowerCase())) {
+      name = `${name} ${signer.signingOrder}`;
+    }
+    roles.push({ name, signingOrder: signer.signingOrder });
+    roleBySigner.set(signer.id, name);
+  }
+
+  const fields: TemplateField[] = document.signatureFields.map(field => ({
+    type: field.type,
+    label: field.label ?? undefined,
+    pageNumber: field.pageNumber,
+    x: field.x,
+    y: field.y,
+    width: field.width,
+    height: field.height,
+    required: field.required,
+    role: (field.signerId && roleBySigner.get(field.signerId)) || roles[0]?.name,
+    ref: field.id,
+    showWhen: field.showWhen as unknown as FieldCondition | null,
+    formula: field.formula,
+    options: field.options.length > 0 ? field.options : undefined,
+    formFieldName: field.formFieldName ?? undefined,
+  }));
+
+  validateTemplateLayout(roles, fields);
+
+  const filePath = await copyStoredFile(document.filePath);
+
+  return prisma.eSignatureTemplate.create({
+    data: {
+      name: details.name.trim(),
+      description: details.description,
+      createdById: userId,
+      versions: {
+        create: {
+          version: 1,
+          fileName: document.fileName,
+          filePath,
+          documentHash: document.documentHash,
+          roles: roles as unknown as Prisma.InputJsonValue,
+          fields: fields as unknown as Prisma.InputJsonValue,
+          createdById: userId,
+        },
+      },
+    },
+    include: templateVersionInclude,
+  });
+}
+
+/**
+ * Templates visible to the user with their latest version
+ */
+export async function listTemplates() {
+  const templates = await prisma.eSignatureTemplate.findMany({
+    where: { archivedAt: null },
+    orderBy: { updatedAt: 'desc' },
+    include: {
+      versions: { orderBy: { version: 'desc' }, take: 1 },
+      createdBy: { select: { name: true, email: true } },
+      _count: { select: { documents: true } },
+    },
+  });
+
+  return templates.map(({ versions, ...template }) => ({
+    ...template,
+    currentVersion: versions[0] ?? null,
+  }));
+}
+
+/**
+ * A template with its full version history
+ */
+export async function getTemplate(templateId: string) {
+  const template = await prisma.eSignatureTemplate.findUnique({
+    where: { id: templateId },
+    include: templateVersionInclude,
+  });
+
+  if (!template || template.archivedAt) {
+    throw new ESignatureError('Template not found', 404);
+  }
+
+  return template;
+}
+
+/**
+ * Edit a template by adding a new version. Earlier versions are never
+ * modified, so documents already created from them are unaffected.
+ */
+export async function updateTemplate(templateId: string, input: TemplateInput, userId: string) {
+  const template = await getTemplate(templateId);
+  const latest = template.versions[0];
+
+  const roles = input.roles.map(normalizeTemplateRole);
+  const fields = input.fields.map(normalizeTemplateField);
+  validateTemplateLayout(roles, fields);
+
+  await prisma.$transaction([
+    prisma.eSignatureTemplateVersion.create({
+      data: {
+        templateId,
+        version: latest.version + 1,
+        fileName: latest.fileName,
+        filePath: latest.filePath,
+        documentHash: latest.documentHash,
+        roles: roles as unknown as Prisma.InputJsonValue,
+        fields: fields as unknown as Prisma.InputJsonValue,
+        createdById: userId,
+      },
+    }),
+    prisma.eSignatureTemplate.update({
+      where: { id: templateId },
+      data: {
+        name: input.name?.trim() || template.name,
+        description: input.description ?? template.description,
+      },
+    }),
+  ]);
+
+  return getTemplate(templateId);
+}
+
+/**
+ * Hide a template from the list. Versions are kept for existing documents.
+ */
+export async function archiveTemplate(templateId: string) {
+  await getTemplate(templateId);
+
+  return prisma.eSignatureTemplate.update({
+    where: { id: templateId },
+    data: { archivedAt: new Date() },
+  });
+}
+
+/**
+ * Create a draft document from a template's latest version (or a specific
+ * one) by binding a person to each role
+ */
+export async function createDocumentFromTemplate(
+  templateId: string,
+  options: {
+    title?: string;
+    bindings: Record<string, RoleBinding>;
+    dealId?: string;
+    contactId?: string;
+    version?: number;
+    bulkBatchId?: string;
+  },
+  userId: string
+) {
+  const template = await getTemplate(templateId);
+  const templateVersion = options.version
+    ? template.versions.find(v => v.version === options.version)
+    : template.versions[0];
+
+  if (!templateVersion) {
+    throw new ESignatureError('Template version not found', 404);
+  }
+
+  const roles = templateVersion.roles as unknown as TemplateRole[];
+  const fields = templateVersion.fields as unknown as TemplateField[];
+
+  for (const role of roles) {
+    const binding = options.bindings[role.name];
+    if (!binding?.signerName?.trim() || !binding.signerEmail?.trim()) {
+      throw new ESignatureError(`Assign a signer to the "${role.name}" role`);
+    }
+    if (!validateEmail(binding.signerEmail)) {
+      throw new ESignatureError(`Invalid email address for the "${role.name}" role`);
+    }
+  }
+
+  // Each document gets its own copy so page edits never touch the template
+  const filePath = await copyStoredFile(templateVersion.filePath);
+
+  const document = await prisma.$transaction(async (tx) => {
+    const created = await tx.eSignatureDocument.create({
+      data: {
+        title: options.title?.trim() || template.name,
+        fileName: templateVersion.fileName,
+        filePath,
+        documentHash: templateVersion.documentHash,
+        status: 'DRAFT',
+        uploadedById: userId,
+        dealId: options.dealId,
+        contactId: options.contactId,
+        templateVersionId: templateVersion.id,
+        bulkBatchId: options.bulkBatchId,
+      },
+    });
+
+    const signerIdByRole = new Map<string, string>();
+    for (const role of roles) {
+      const binding = options.bindings[role.name];
+      const signer = await tx.signerWorkflow.create({
+        data: {
+          documentId: created.id,
+          signerName: binding.signerName.trim(),
+          signerEmail: binding.signerEmail.trim(),
+          signerRole: role.name,
+          signingOrder: role.signingOrder,
+          contactId: binding.contactId,
+          status: 'PENDING',
+        },
+      });
+      signerIdByRole.set(role.name.toLowerCase(), signer.id);
+    }
+
+    // Fields are created one at a time so conditions and formulas can then be
+    // pointed at the new field ids
+    const idByRef = new Map<string, string>();
+    const createdFields = [];
+    for (const field of fields) {
+      const createdField = await tx.signatureField.create({
+        data: {
+          documentId: created.id,
+          signerId: signerIdByRole.get(field.role.toLowerCase()),
+          type: field.type,
+          label: field.label,
+          pageNumber: field.pageNumber,
+          x: field.x,
+          y: field.y,
+          width: field.width,
+          height: field.height,
+          required: field.required,
+          options: field.options ?? [],
+          formFieldName: field.formFieldName,
+        },
+      });
+      if (field.ref) idByRef.set(field.ref, createdField.id);
+      createdFields.push({ id: createdField.id, showWhen: field.showWhen, formula: field.formula });
+    }
+
+    for (const field of createdFields) {
+      if (!field.showWhen && !field.formula) continue;
+
+      const remapped = remapFieldReferences(field, idByRef);
+      await tx.signatureField.update({
+        where: { id: field.id },
+        data: {
+          showWhen: (remapped.showWhen ?? undefined) as unknown as Prisma.InputJsonValue | undefined,
+          formula: remapped.formula,
+        },
+      });
+    }
+
+    await recordAuditEvent({
+      documentId: created.id,
+      action: 'document_created',
+      description: `Created from template "${template.name}" (version ${templateVersion.version})`,
+      userId,
+      metadata: {
+        templateId: template.id,
+        templateVersion: templateVersion.version,
+        roles: roles.map(role => ({
+          role: role.name,
+          signerEmail: options.bindings[role.name].signerEmail,
+        })),
+      },
+    }, tx);
+
+    return created;
+  });
+
+  await indexDocumentContent(document.id);
+  return document;
+}
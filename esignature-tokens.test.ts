@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSigningToken, decodeSigningToken, hmacSign, safeEqual } from './esignature-tokens';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+const signer = { id: 'signer-1', documentId: 'doc-1', signerEmail: 'alex@example.com' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('signing tokens', () => {
+  beforeEach(() => {
+    process.env.ESIGNATURE_SECRET = 'test-secret';
+    delete process.env.ESIGNATURE_TOKEN_TTL_DAYS;
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs with HMAC-SHA256 of the secret', () => {
+    const first = hmacSign('value');
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(hmacSign('value')).toBe(first);
+    expect(hmacSign('other value')).not.toBe(first);
+
+    process.env.ESIGNATURE_SECRET = 'another-secret';
+    expect(hmacSign('value')).not.toBe(first);
+  });
+
+  it('compares strings of different lengths without throwing', () => {
+    expect(safeEqual('abc', 'abc')).toBe(true);
+    expect(safeEqual('abc', 'abd')).toBe(false);
+    expect(safeEqual('abc', 'abcd')).toBe(false);
+  });
+
+  it('round-trips a token for the signer it was issued to', () => {
+    const { token, expiresAt } = createSigningToken(signer);
+    const payload = decodeSigningToken(token);
+
+    expect(payload.s).toBe('signer-1');
+    expect(payload.d).toBe('doc-1');
+    expect(payload.x).toBe(Math.floor(expiresAt.getTime() / 1000));
+    expect(expiresAt.getTime() - Date.now()).toBe(14 * DAY_MS);
+  });
+
+  it('issues a different token every time', () => {
+    expect(createSigningToken(signer).token).not.toBe(createSigningToken(signer).token);
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const { token } = createSigningToken(signer);
+    const [encoded, signature] = token.split('.');
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...payload, s: 'signer-2' })).toString('base64url');
+
+    expect(() => decodeSigningToken(`${forged}.${signature}`)).toThrowError(
+      expect.objectContaining({ status: 404, code: 'invalid_token' })
+    );
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const { token } = createSigningToken(signer);
+    process.env.ESIGNATURE_SECRET = 'another-secret';
+
+    expect(() => decodeSigningToken(token)).toThrowError(expect.objectContaining({ code: 'invalid_token' }));
+  });
+
+  it('rejects malformed tokens', () => {
+    for (const token of ['', 'no-signature', '.signature-only', 'abc.def']) {
+      expect(() => decodeSigningToken(token)).toThrowError(expect.objectContaining({ code: 'invalid_token' }));
+    }
+  });
+
+  it('expires after the configured number of days', () => {
+    process.env.ESIGNATURE_TOKEN_TTL_DAYS = '3';
+    const { token } = createSigningToken(signer);
+
+    vi.setSystemTime(Date.now() + 3 * DAY_MS - 1000);
+    expect(decodeSigningToken(token).s).toBe('signer-1');
+
+    vi.setSystemTime(Date.now() + 2000);
+    expect(() => decodeSigningToken(token)).toThrowError(
+      expect.objectContaining({ status: 410, code: 'token_expired' })
+    );
+  });
+
+  it('never outlives the document', () => {
+    const documentExpiresAt = new Date(Date.now() + 2 * DAY_MS);
+    const { token, expiresAt } = createSigningToken(signer, documentExpiresAt);
+
+    expect(expiresAt).toEqual(documentExpiresAt);
+
+    vi.setSystemTime(documentExpiresAt.getTime() + 1000);
+    expect(() => decodeSigningToken(token)).toThrowError(expect.objectContaining({ code: 'token_expired' }));
+  });
+});
@@ -0,0 +1,197 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Tokens are reissued by reminders when they have less than this left */
+const TOKEN_REFRESH_MS = DAY_MS;
+
+interface SigningTokenPayload {
+  /** signer id */
+  s: string;
+  /** document id */
+  d: string;
+  /** fingerprint of the signer's email, so replacing the signer revokes the link */
+  e: string;
+  /** expiry, seconds since epoch */
+  x: number;
+  /** random nonce, so every issued token is unique */
+  n: string;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.ESIGNATURE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('ESIGNATURE_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * HMAC-SHA256 of a value with the e-signature secret, hex encoded
+ */
+export function hmacSign(value: string): string {
+  return createHmac('sha256', getSigningSecret()).update(value).digest('hex');
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function emailFingerprint(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex').slice(0, 16);
+}
+
+/**
+ * How long new signing links stay valid (ESIGNATURE_TOKEN_TTL_DAYS, default 14)
+ */
+export function getSigningTokenTtlDays(): number {
+  const days = Number(process.env.ESIGNATURE_TOKEN_TTL_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 14;
+}
+
+/**
+ * Create a signed token for one signer on one document. Links never outlive
+ * the document's own expiry date.
+ */
+export function createSigningToken(
+  signer: { id: string; documentId: string; signerEmail: string },
+  documentExpiresAt?: Date | null
+) {
+  let expiresAt = new Date(Date.now() + getSigningTokenTtlDays() * DAY_MS);
+  if (documentExpiresAt && documentExpiresAt < expiresAt) {
+    expiresAt = documentExpiresAt;
+  }
+
+  const payload: SigningTokenPayload = {
+    s: signer.id,
+    d: signer.documentId,
+    e: emailFingerprint(signer.signerEmail),
+    x: Math.floor(expiresAt.getTime() / 1000),
+    n: randomBytes(16).toString('base64url'),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = Buffer.from(hmacSign(encoded), 'hex').toString('base64url');
+
+  return { token: `${encoded}.${signature}`, expiresAt };
+}
+
+/**
+ * Check a token's signature and expiry without touching the database
+ */
+export function decodeSigningToken(token: string): SigningTokenPayload {
+  const [encoded, signature] = (token || '').split('.');
+  const expected = encoded ? Buffer.from(hmacSign(encoded), 'hex').toString('base64url') : '';
+
+  if (!encoded || !signature || !safeEqual(signature, expected)) {
+    throw new ESignatureError('This signing link is not valid', 404, 'invalid_token');
+  }
+
+  let payload: SigningTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new ESignatureError('This signing link is not valid', 404, 'invalid_token');
+  }
+
+  if (payload.x * 1000 < Date.now()) {
+    throw new ESignatureError('This signing link has expired. Ask the sender for a new one.', 410, 'token_expired');
+  }
+
+  return payload;
+}
+
+/**
+ * Load the signer a token was issued to, with their document. Tokens are
+ * revoked by replacing or clearing the stored token, or by changing who the
+ * signer is.
+ */
+export async function resolveSigningToken(token: string) {
+  const payload = decodeSigningToken(token);
+
+  const signer = await prisma.signerWorkflow.findUnique({
+    where: { id: payload.s },
+    include: {
+      document: {
+        include: { signerWorkflows: true },
+      },
+    },
+  });
+
+  if (signer?.documentId === payload.d && signer.document.status === 'VOIDED') {
+    throw new ESignatureError('This document has been voided by the sender', 410, 'document_voided');
+  }
+
+  if (
+    !signer ||
+    signer.documentId !== payload.d ||
+    emailFingerprint(signer.signerEmail) !== payload.e ||
+    !signer.signingToken ||
+    !safeEqual(signer.signingToken, token)
+  ) {
+    throw new ESignatureError('This signing link has been replaced or revoked. Check your email for a newer link.', 410, 'token_revoked');
+  }
+
+  return signer;
+}
+
+/**
+ * Issue a new token for a signer, revoking any earlier one
+ */
+export async function assignSigningToken(signerId: string, client: Prisma.TransactionClient = prisma) {
+  const signer = await client.signerWorkflow.findUnique({
+    where: { id: signerId },
+    include: { document: { select: { expiresAt: true } } },
+  });
+  if (!signer) {
+    throw new ESignatureError('Signer not found', 404);
+  }
+
+  const { token, expiresAt } = createSigningToken(signer, signer.document.expiresAt);
+
+  return client.signerWorkflow.update({
+    where: { id: signerId },
+    data: { signingToken: token, tokenExpiresAt: expiresAt },
+  });
+}
+
+/**
+ * Return a signer's current token, issuing a fresh one when it is missing or
+ * about to expire
+ */
+export async function ensureSigningToken(signer: {
+  id: string;
+  signingToken?: string | null;
+  tokenExpiresAt?: Date | null;
+}): Promise<string> {
+  const stillValid = signer.signingToken && signer.tokenExpiresAt &&
+    signer.tokenExpiresAt.getTime() - Date.now() > TOKEN_REFRESH_MS;
+
+  if (stillValid) {
+    return signer.signingToken!;
+  }
+
+  const updated = await assignSigningToken(signer.id);
+  return updated.signingToken!;
+}
+
+/**
+ * Invalidate signing links for a whole document or a single signer
+ */
+export async function revokeSigningTokens(
+  where: { documentId: string } | { id: string },
+  client: Prisma.TransactionClient = prisma
+) {
+  const { count } = await client.signerWorkflow.updateMany({
+    where: { ...where, signingToken: { not: null } },
+    data: { signingToken: null, tokenExpiresAt: null },
+  });
+  return count;
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { appendToUpload, createUpload, getUpload } from './esignature-tus';
+
+const storage = vi.hoisted(() => ({ dir: '' }));
+
+vi.mock('@/lib/esignature-storage', async () => {
+  const { promises: files } = await import('fs');
+  const { join } = await import('path');
+
+  return {
+    ensureQuarantineDir: async (name: string) => {
+      const dir = join(storage.dir, name);
+      await files.mkdir(dir, { recursive: true });
+      return dir;
+    },
+  };
+});
+vi.mock('@/lib/esignature-merge', () => ({ mergePackageParts: vi.fn(), MAX_PACKAGE_PARTS: 10 }));
+vi.mock('@/lib/esignature-upload', () => ({ createDocumentFromUpload: vi.fn() }));
+
+function streamOf(...chunks: string[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function readData(id: string) {
+  return fs.readFile(path.join(storage.dir, 'uploads', id), 'utf8');
+}
+
+describe('tus uploads', () => {
+  beforeAll(async () => {
+    storage.dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esignature-tus-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(storage.dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts at offset zero', async () => {
+    const upload = await createUpload('user-1', { length: 10, metadata: { filename: 'a.pdf' } });
+
+    expect(upload.offset).toBe(0);
+    expect((await getUpload(upload.id, 'user-1')).offset).toBe(0);
+  });
+
+  it('appends chunks at the current offset and resumes from it', async () => {
+    const upload = await createUpload('user-1', { length: 10, metadata: {} });
+
+    const first = await appendToUpload(upload.id, 'user-1', 0, streamOf('abc', 'de'));
+    expect(first.offset).toBe(5);
+
+    const second = await appendToUpload(upload.id, 'user-1', 5, streamOf('fghij'));
+    expect(second.offset).toBe(10);
+    expect(await readData(upload.id)).toBe('abcdefghij');
+    expect((await getUpload(upload.id, 'user-1')).offset).toBe(10);
+  });
+
+  it('rejects a PATCH whose offset does not match the bytes received', async () => {
+    const upload = await createUpload('user-1', { length: 10, metadata: {} });
+    await appendToUpload(upload.id, 'user-1', 0, streamOf('abc'));
+
+    for (const offset of [0, 2, 4]) {
+      await expect(appendToUpload(upload.id, 'user-1', offset, streamOf('x')))
+        .rejects.toMatchObject({ status: 409, code: 'offset_mismatch' });
+    }
+    expect(await readData(upload.id)).toBe('abc');
+  });
+
+  it('stops at the declared length and keeps what fit', async () => {
+    const upload = await createUpload('user-1', { length: 4, metadata: {} });
+
+    await expect(appendToUpload(upload.id, 'user-1', 0, streamOf('abc', 'def')))
+      .rejects.toMatchObject({ status: 413, code: 'upload_too_large' });
+    expect((await getUpload(upload.id, 'user-1')).offset).toBe(3);
+    expect(await readData(upload.id)).toBe('abc');
+  });
+
+  it('keeps the bytes that arrived before a dropped connection', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const upload = await createUpload('user-1', { length: 10, metadata: {} });
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('abcd'));
+      },
+      pull(controller) {
+        controller.error(new Error('connection reset'));
+      },
+    });
+
+    const result = await appendToUpload(upload.id, 'user-1', 0, body);
+
+    expect(result.offset).toBe(4);
+    expect((await getUpload(upload.id, 'user-1')).offset).toBe(4);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('hides uploads from other users', async () => {
+    const upload = await createUpload('user-1', { length: 10, metadata: {} });
+
+    await expect(appendToUpload(upload.id, 'user-2', 0, streamOf('abc')))
+      .rejects.toMatchObject({ status: 404, code: 'upload_not_found' });
+  });
+});
@@ -0,0 +1,326 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { mergePackageParts, MAX_PACKAGE_PARTS } from '@/lib/esignature-merge';
+import { ensureQuarantineDir } from '@/lib/esignature-storage';
+import { createDocumentFromUpload } from '@/lib/esignature-upload';
+import { MAX_PDF_SIZE } from '@/lib/esignature-utils';
+
+/**
+ * Server side of the tus 1.0 resumable upload protocol (core plus the
+ * creation, termination and expiration extensions). Partial uploads are held
+ * in quarantine as a data file and a JSON info file until the last byte
+ * arrives, then go through the normal upload pipeline.
+ */
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = 'creation,termination,expiration';
+
+const UPLOADS_DIR = 'uploads';
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Uploads untouched for this long are treated as abandoned */
+const UPLOAD_TTL_MS = Number(process.env.ESIGNATURE_UPLOAD_TTL_HOURS || 24) * HOUR_MS;
+
+export interface TusUpload {
+  id: string;
+  userId: string;
+  length: number;
+  offset: number;
+  metadata: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Uploads with a PATCH in progress. Requests for the same upload are served
+// by one process, since the partial file lives on its local disk.
+const activeWrites = new Set<string>();
+
+export function tusHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return { 'Tus-Resumable': TUS_VERSION, ...extra };
+}
+
+/**
+ * Reject requests from clients speaking another protocol version
+ */
+export function requireTusVersion(request: Request) {
+  if (request.headers.get('tus-resumable') !== TUS_VERSION) {
+    throw new ESignatureError(`Unsupported tus version, expected ${TUS_VERSION}`, 412, 'tus_version_mismatch');
+  }
+}
+
+/**
+ * Parse an Upload-Metadata header: comma-separated "key base64value" pairs
+ */
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const pair of (header || '').split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+  return metadata;
+}
+
+export function encodeUploadMetadata(metadata: Record<string, string>) {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value, 'utf8').toString('base64')}`)
+    .join(',');
+}
+
+export function uploadExpiresAt(upload: TusUpload) {
+  return new Date(new Date(upload.updatedAt).getTime() + UPLOAD_TTL_MS);
+}
+
+async function uploadPaths(id: string) {
+  const dir = await ensureQuarantineDir(UPLOADS_DIR);
+  return { data: path.join(dir, id), info: path.join(dir, `${id}.json`) };
+}
+
+async function readUpload(id: string): Promise<TusUpload | null> {
+  if (!UPLOAD_ID_PATTERN.test(id)) return null;
+
+  try {
+    return JSON.parse(await fs.readFile((await uploadPaths(id)).info, 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function saveUpload(upload: TusUpload) {
+  await fs.writeFile((await uploadPaths(upload.id)).info, JSON.stringify(upload), { mode: 0o600 });
+}
+
+/**
+ * Remove a partial upload and its info, ignoring parts that are already gone
+ */
+export async function deleteUpload(id: string) {
+  const paths = await uploadPaths(id);
+  for (const file of [paths.data, paths.info]) {
+    try {
+      await fs.unlink(file);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+/**
+ * Start a new upload of `length` bytes
+ */
+export async function createUpload(userId: string, input: { length: number; metadata: Record<string, string> }) {
+  if (!Number.isInteger(input.length) || input.length <= 0) {
+    throw new ESignatureError('Upload-Length must be a positive whole number', 400, 'invalid_upload_length');
+  }
+  if (input.length > MAX_PDF_SIZE) {
+    throw new ESignatureError(`File size must be less than ${MAX_PDF_SIZE / (1024 * 1024)}MB`, 413, 'file_too_large');
+  }
+
+  const now = new Date().toISOString();
+  const upload: TusUpload = {
+    id: randomUUID(),
+    userId,
+    length: input.length,
+    offset: 0,
+    metadata: input.metadata,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await fs.writeFile((await uploadPaths(upload.id)).data, new Uint8Array(0), { mode: 0o600 });
+  await saveUpload(upload);
+  return upload;
+}
+
+/**
+ * Load an upload owned by this user. Expired uploads are removed and
+ * reported as gone.
+ */
+export async function getUpload(id: string, userId: string) {
+  const upload = await readUpload(id);
+  if (!upload || upload.userId !== userId) {
+    throw new ESignatureError('Upload not found', 404, 'upload_not_found');
+  }
+  if (uploadExpiresAt(upload) < new Date()) {
+    await deleteUpload(id);
+    throw new ESignatureError('This upload expired. Please start again.', 410, 'upload_expired');
+  }
+  return upload;
+}
+
+/**
+ * Append a PATCH body at `offset`. Whatever arrives before the connection
+ * drops is kept, so the client can resume from the new offset.
+ */
+export async function appendToUpload(
+  id: string,
+  userId: string,
+  offset: number,
+  body: ReadableStream<Uint8Array> | null
+) {
+  const upload = await getUpload(id, userId);
+  if (offset !== upload.offset) {
+    throw new ESignatureError(`Upload-Offset does not match the ${upload.offset} bytes received`, 409, 'offset_mismatch');
+  }
+  if (activeWrites.has(id)) {
+    throw new ESignatureError('This upload is already receiving data', 423, 'upload_locked');
+  }
+
+  activeWrites.add(id);
+  const handle = await fs.open((await uploadPaths(id)).data, 'r+');
+  let interrupted: unknown = null;
+  try {
+    if (body) {
+      const reader = body.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (upload.offset + value.length > upload.length) {
+            throw new ESignatureError('The upload is larger than its declared length', 413, 'upload_too_large');
+          }
+          await handle.write(value, 0, value.length, upload.offset);
+          upload.offset += value.length;
+        }
+      } catch (error) {
+        if (error instanceof ESignatureError) throw error;
+        interrupted = error;
+      }
+    }
+  } finally {
+    await handle.close();
+    upload.updatedAt = new Date().toISOString();
+    await saveUpload(upload);
+    activeWrites.delete(id);
+  }
+
+  if (interrupted) {
+    console.warn(`Upload ${id} interrupted at ${upload.offset}/${upload.length} bytes:`, interrupted);
+  }
+  return upload;
+}
+
+/**
+ * Parts of a multi-file package wait for the merge request instead of
+ * becoming a document on their own
+ */
+export function isPackagePart(upload: TusUpload) {
+  return upload.metadata.packagePart === 'true';
+}
+
+/**
+ * Turn a fully received upload into a draft document. The upload is removed
+ * once the document exists, or when the pipeline rejects the file; other
+ * failures leave it in place so the client can retry the last request.
+ */
+export async function finishUpload(upload: TusUpload, context: { ipAddress?: string; userAgent?: string }) {
+  const bytes = new Uint8Array(await fs.readFile((await uploadPaths(upload.id)).data));
+
+  try {
+    const document = await createDocumentFromUpload(
+      {
+        bytes,
+        originalName: upload.metadata.filename || 'document.pdf',
+        title: upload.metadata.title,
+        description: upload.metadata.description,
+        dealId: upload.metadata.dealId,
+        contactId: upload.metadata.contactId,
+        supersedesId: upload.metadata.supersedesId,
+      },
+      { userId: upload.userId, ...context }
+    );
+    await deleteUpload(upload.id);
+    return document;
+  } catch (error) {
+    if (error instanceof ESignatureError) {
+      await deleteUpload(upload.id);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete partial uploads nobody has touched within the expiry window.
+ * Intended to be run on a schedule.
+ */
+export async function cleanupAbandonedUploads(now = new Date()) {
+  const dir = await ensureQuarantineDir(UPLOADS_DIR);
+  let removed = 0;
+
+  const ids = new Set((await fs.readdir(dir)).map(name => name.replace(/\.json$/, '')));
+
+  for (const id of ids) {
+    if (!UPLOAD_ID_PATTERN.test(id) || activeWrites.has(id)) continue;
+
+    const upload = await readUpload(id);
+    // A data file without info is left over from a crash; age it by mtime
+    const lastActivity = upload
+      ? new Date(upload.updatedAt)
+      : await fs.stat(path.join(dir, id)).then(stats => stats.mtime, () => now);
+
+    if (now.getTime() - lastActivity.getTime() > UPLOAD_TTL_MS) {
+      await deleteUpload(id);
+      removed++;
+    }
+  }
+
+  return { removed };
+}
+
+/**
+ * Merge completed package parts, in the given order, into one draft
+ * document. The parts are removed once the document exists or the merge is
+ * rejected.
+ */
+export async function finishPackage(
+  uploadIds: string[],
+  input: { title?: string; description?: string; dealId?: string; contactId?: string; supersedesId?: string },
+  context: { userId: string; ipAddress?: string; userAgent?: string }
+) {
+  if (uploadIds.length === 0 || uploadIds.length > MAX_PACKAGE_PARTS) {
+    throw new ESignatureError(`Choose between 1 and ${MAX_PACKAGE_PARTS} files`);
+  }
+  if (new Set(uploadIds).size !== uploadIds.length) {
+    throw new ESignatureError('Each file can only appear once in a package');
+  }
+
+  const parts = [];
+  for (const id of uploadIds) {
+    const upload = await getUpload(id, context.userId);
+    if (!isPackagePart(upload) || upload.offset !== upload.length) {
+      throw new ESignatureError(`"${upload.metadata.filename || id}" has not finished uploading`, 409, 'upload_incomplete');
+    }
+    parts.push({
+      fileName: upload.metadata.filename || 'file',
+      bytes: new Uint8Array(await fs.readFile((await uploadPaths(id)).data)),
+    });
+  }
+
+  try {
+    const merged = await mergePackageParts(parts);
+    const title = input.title?.trim() || parts[0].fileName.replace(/\.[^.]+$/, '');
+    const document = await createDocumentFromUpload(
+      {
+        bytes: merged.bytes,
+        originalName: `${title}.pdf`,
+        title,
+        description: input.description,
+        dealId: input.dealId,
+        contactId: input.contactId,
+        parts: merged.parts,
+        supersedesId: input.supersedesId,
+      },
+      context
+    );
+
+    for (const id of uploadIds) await deleteUpload(id);
+    return document;
+  } catch (error) {
+    if (error instanceof ESignatureError) {
+      for (const id of uploadIds) await deleteUpload(id);
+    }
+    throw error;
+  }
+}
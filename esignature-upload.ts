@@ -0,0 +1,267 @@
+import {
+  EncryptedPDFError,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFStream,
+} from 'pdf-lib';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent, sha256Hex } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { MergedPackage } from '@/lib/esignature-merge';
+import { getUploadScanner } from '@/lib/esignature-scanner';
+import { indexDocumentContent } from '@/lib/esignature-search';
+import { loadSupersededDocument, markSuperseded } from '@/lib/esignature-versions';
+import {
+  deleteStoredFile,
+  discardQuarantinedFile,
+  releaseQuarantinedFile,
+  writeQuarantinedFile,
+} from '@/lib/esignature-storage';
+import { MAX_PDF_SIZE, replaceControlCharacters } from '@/lib/esignature-utils';
+
+const PDF_MAGIC = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+
+/** Readers tolerate junk before the header, so the check does too */
+const HEADER_SEARCH_BYTES = 1024;
+
+/** Action types that run code or open other programs when the PDF is viewed */
+const ACTIVE_ACTION_TYPES = new Set(['JavaScript', 'Launch']);
+
+export interface AcceptedUpload {
+  filePath: string;
+  fileName: string;
+  fileSize: number;
+  documentHash: string;
+  pageCount: number;
+}
+
+function hasPdfHeader(bytes: Uint8Array) {
+  const limit = Math.min(bytes.length - PDF_MAGIC.length, HEADER_SEARCH_BYTES);
+  for (let offset = 0; offset <= limit; offset++) {
+    if (PDF_MAGIC.every((byte, index) => bytes[offset + index] === byte)) return true;
+  }
+  return false;
+}
+
+/**
+ * Keep the original name for display only. Path parts and control characters
+ * are dropped; the stored file always gets a generated name.
+ */
+export function sanitizeUploadFileName(fileName: string) {
+  const base = fileName.split(/[\\/]/).pop() || '';
+  const cleaned = replaceControlCharacters(base, '_')
+    .replace(/["<>|:*?]/g, '_')
+    .replace(/^\.+/, '')
+    .trim()
+    .slice(0, 200);
+  return cleaned && cleaned.toLowerCase().endsWith('.pdf') ? cleaned : `${cleaned || 'document'}.pdf`;
+}
+
+/**
+ * Find JavaScript or launch actions anywhere in the document: document-level
+ * scripts, open actions, and additional actions on pages, annotations and
+ * form fields. Returns the first kind found.
+ */
+export function findActiveContent(pdfDoc: PDFDocument): string | null {
+  const visited = new Set<PDFObject>();
+
+  const inspect = (object: PDFObject | undefined): string | null => {
+    if (!object || visited.has(object)) return null;
+    visited.add(object);
+
+    if (object instanceof PDFArray) {
+      for (let index = 0; index < object.size(); index++) {
+        const found = inspect(object.get(index));
+        if (found) return found;
+      }
+      return null;
+    }
+
+    const dict = object instanceof PDFDict ? object : object instanceof PDFStream ? object.dict : null;
+    if (!dict) return null;
+
+    const actionType = dict.get(PDFName.of('S'));
+    if (actionType instanceof PDFName && ACTIVE_ACTION_TYPES.has(actionType.decodeText())) {
+      return actionType.decodeText();
+    }
+    if (dict.has(PDFName.of('JS')) || dict.has(PDFName.of('JavaScript'))) {
+      return 'JavaScript';
+    }
+
+    // References are not followed: every indirect object is inspected on its own
+    for (const [, value] of dict.entries()) {
+      const found = inspect(value);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    const found = inspect(object);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Check that the bytes are a PDF we are willing to store: a real, parseable,
+ * unencrypted PDF with at least one page and no active content
+ */
+export async function inspectPdfStructure(bytes: Uint8Array) {
+  if (!hasPdfHeader(bytes)) {
+    throw new ESignatureError('The file is not a PDF', 415, 'not_a_pdf');
+  }
+
+  let pdfDoc: PDFDocument;
+  let pageCount: number;
+  try {
+    pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    // pdf-lib loads leniently; a missing page tree only shows up here
+    pageCount = pdfDoc.getPageCount();
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new ESignatureError('Password-protected or encrypted PDFs cannot be signed. Remove the protection and upload again.', 422, 'pdf_encrypted');
+    }
+    throw new ESignatureError('The PDF is damaged or could not be read', 422, 'pdf_unreadable');
+  }
+
+  if (pageCount === 0) {
+    throw new ESignatureError('The PDF has no pages', 422, 'pdf_unreadable');
+  }
+
+  const activeContent = findActiveContent(pdfDoc);
+  if (activeContent) {
+    throw new ESignatureError(
+      `PDFs containing ${activeContent === 'Launch' ? 'launch actions' : 'JavaScript'} are not accepted`,
+      422,
+      'pdf_active_content'
+    );
+  }
+
+  return { pageCount };
+}
+
+/**
+ * Run an uploaded PDF through the upload pipeline. The bytes sit in
+ * quarantine while they are scanned and validated, and are only moved into
+ * document storage (under a generated name) once every check passes.
+ * Rejected files are deleted.
+ */
+export async function acceptPdfUpload(bytes: Uint8Array, originalName: string): Promise<AcceptedUpload> {
+  if (bytes.length === 0) {
+    throw new ESignatureError('The file is empty', 400, 'empty_file');
+  }
+  if (bytes.length > MAX_PDF_SIZE) {
+    throw new ESignatureError(`File size must be less than ${MAX_PDF_SIZE / (1024 * 1024)}MB`, 413, 'file_too_large');
+  }
+
+  const fileName = sanitizeUploadFileName(originalName);
+  const quarantinePath = await writeQuarantinedFile(bytes);
+
+  try {
+    const scanner = getUploadScanner();
+    let scan;
+    try {
+      scan = await scanner.scan(quarantinePath);
+    } catch (error) {
+      console.error(`Upload scanner ${scanner.name} failed:`, error);
+      throw new ESignatureError('The file could not be scanned. Please try again later.', 503, 'scanner_unavailable');
+    }
+    if (!scan.clean) {
+      throw new ESignatureError('The file was flagged by the virus scanner and cannot be uploaded', 422, 'malware_detected');
+    }
+
+    const { pageCount } = await inspectPdfStructure(bytes);
+
+    return {
+      filePath: await releaseQuarantinedFile(quarantinePath, 'pdf'),
+      fileName,
+      fileSize: bytes.length,
+      documentHash: sha256Hex(bytes),
+      pageCount,
+    };
+  } catch (error) {
+    await discardQuarantinedFile(quarantinePath);
+    throw error;
+  }
+}
+
+/**
+ * Accept an upload and create a draft document for it. With `supersedesId`
+ * the document becomes the next version of that one, inheriting its deal,
+ * contact and title unless new ones are given.
+ */
+export async function createDocumentFromUpload(
+  input: {
+    bytes: Uint8Array;
+    originalName: string;
+    title?: string;
+    description?: string;
+    dealId?: string;
+    contactId?: string;
+    /** Source files when the PDF was merged from several uploads */
+    parts?: MergedPackage['parts'];
+    supersedesId?: string;
+  },
+  context: { userId: string; ipAddress?: string; userAgent?: string }
+) {
+  const previous = input.supersedesId ? await loadSupersededDocument(input.supersedesId) : null;
+  const upload = await acceptPdfUpload(input.bytes, input.originalName);
+
+  let document;
+  try {
+    document = await prisma.$transaction(async (tx) => {
+      const created = await tx.eSignatureDocument.create({
+        data: {
+          title: input.title?.trim() || previous?.title || upload.fileName.replace(/\.pdf$/i, ''),
+          description: input.description?.trim() || undefined,
+          fileName: upload.fileName,
+          filePath: upload.filePath,
+          fileSize: upload.fileSize,
+          documentHash: upload.documentHash,
+          status: 'DRAFT',
+          uploadedById: context.userId,
+          dealId: input.dealId || previous?.dealId || undefined,
+          contactId: input.contactId || previous?.contactId || undefined,
+          ...(previous && { supersedesId: previous.id, version: previous.version + 1 }),
+        },
+      });
+
+      if (previous) {
+        await markSuperseded(previous, created, context, tx);
+      }
+
+      await recordAuditEvent({
+        documentId: created.id,
+        action: 'document_uploaded',
+        description: [
+          `Uploaded "${upload.fileName}"`,
+          input.parts && input.parts.length > 1 && `merged from ${input.parts.length} files`,
+          previous && `as version ${created.version}`,
+        ].filter(Boolean).join(', '),
+        userId: context.userId,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        metadata: {
+          documentHash: upload.documentHash,
+          fileSize: upload.fileSize,
+          pageCount: upload.pageCount,
+          scanner: getUploadScanner().name,
+          ...(input.parts && { parts: input.parts }),
+          ...(previous && { supersedesId: previous.id, version: created.version }),
+        },
+      }, tx);
+
+      return created;
+    });
+  } catch (error) {
+    await deleteStoredFile(upload.filePath);
+    throw error;
+  }
+
+  await indexDocumentContent(document.id);
+  return document;
+}
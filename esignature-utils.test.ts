@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeCalculatedValues,
+  evaluateFormula,
+  formatCalculatedValue,
+  getFormulaReferences,
+  parseFieldCondition,
+  parseNumericValue,
+} from './esignature-utils';
+
+const values: Record<string, number> = { qty: 3, price: 19.5, discount: 10, zero: 0 };
+const lookup = (fieldId: string) => values[fieldId] ?? 0;
+
+describe('evaluateFormula', () => {
+  it('follows operator precedence and parentheses', () => {
+    expect(evaluateFormula('1 + 2 * 3', lookup)).toBe(7);
+    expect(evaluateFormula('(1 + 2) * 3', lookup)).toBe(9);
+    expect(evaluateFormula('10 - 4 - 3', lookup)).toBe(3);
+    expect(evaluateFormula('24 / 4 / 2', lookup)).toBe(3);
+  });
+
+  it('supports unary minus and decimals', () => {
+    expect(evaluateFormula('-2 * -3', lookup)).toBe(6);
+    expect(evaluateFormula('.5 + 1.25', lookup)).toBe(1.75);
+    expect(evaluateFormula('-(1 + 2)', lookup)).toBe(-3);
+  });
+
+  it('reads field references, ignoring spaces inside the braces', () => {
+    expect(evaluateFormula('{qty} * {price} - { discount }', lookup)).toBe(48.5);
+    expect(evaluateFormula('{missing} + 1', lookup)).toBe(1);
+  });
+
+  it('returns null for results that are not finite', () => {
+    expect(evaluateFormula('{qty} / {zero}', lookup)).toBeNull();
+    expect(evaluateFormula('0 / 0', lookup)).toBeNull();
+  });
+
+  it('throws on syntax errors', () => {
+    expect(() => evaluateFormula('', lookup)).toThrowError('Formula ends unexpectedly');
+    expect(() => evaluateFormula('1 +', lookup)).toThrowError('Formula ends unexpectedly');
+    expect(() => evaluateFormula('(1 + 2', lookup)).toThrowError('Formula is missing a closing parenthesis');
+    expect(() => evaluateFormula('1 2', lookup)).toThrowError('Unexpected "2" in formula');
+    expect(() => evaluateFormula('1 % 2', lookup)).toThrowError('Unexpected "%" in formula');
+    expect(() => evaluateFormula('alert(1)', lookup)).toThrowError('Unexpected "a" in formula');
+  });
+});
+
+describe('formula helpers', () => {
+  it('lists the referenced field ids', () => {
+    expect(getFormulaReferences('{qty} * { price } + 1')).toEqual(['qty', 'price']);
+    expect(getFormulaReferences('1 + 2')).toEqual([]);
+  });
+
+  it('parses values with currency symbols and separators', () => {
+    expect(parseNumericValue('$1,250.50')).toBe(1250.5);
+    expect(parseNumericValue('-3')).toBe(-3);
+    expect(parseNumericValue('n/a')).toBe(0);
+    expect(parseNumericValue(null)).toBe(0);
+  });
+
+  it('formats results to at most two decimals', () => {
+    expect(formatCalculatedValue(12)).toBe('12');
+    expect(formatCalculatedValue(1 / 3)).toBe('0.33');
+    expect(formatCalculatedValue(2.5)).toBe('2.50');
+    expect(formatCalculatedValue(null)).toBe('');
+  });
+});
+
+describe('computeCalculatedValues', () => {
+  it('chains calculated fields and treats broken formulas as empty', () => {
+    const results = computeCalculatedValues([
+      { id: 'qty', type: 'TEXT', value: '4' },
+      { id: 'price', type: 'TEXT', value: '$2.50' },
+      { id: 'subtotal', type: 'TEXT', formula: '{qty} * {price}' },
+      { id: 'total', type: 'TEXT', formula: '{subtotal} + 1' },
+      { id: 'broken', type: 'TEXT', formula: '{qty} +' },
+    ]);
+
+    expect(results.get('subtotal')).toBe('10');
+    expect(results.get('total')).toBe('11');
+    expect(results.get('broken')).toBe('');
+  });
+
+  it('does not loop on fields that reference each other', () => {
+    const results = computeCalculatedValues([
+      { id: 'a', type: 'TEXT', formula: '{b} + 1' },
+      { id: 'b', type: 'TEXT', formula: '{a} + 1' },
+    ]);
+
+    expect(results.has('a')).toBe(true);
+    expect(results.has('b')).toBe(true);
+  });
+});
+
+describe('parseFieldCondition', () => {
+  it('keeps only the known keys of a condition', () => {
+    expect(parseFieldCondition({ fieldId: 'plan', operator: 'equals', value: 'Gold', extra: true }))
+      .toEqual({ fieldId: 'plan', operator: 'equals', value: 'Gold' });
+    expect(parseFieldCondition({ fieldId: 'agree', operator: 'checked' })).toEqual({ fieldId: 'agree', operator: 'checked' });
+  });
+
+  it('rejects unknown operators and conditions without a field', () => {
+    expect(parseFieldCondition({ fieldId: 'plan', operator: 'contains' })).toBeNull();
+    expect(parseFieldCondition({ fieldId: '', operator: 'filled' })).toBeNull();
+    expect(parseFieldCondition({ operator: 'filled' })).toBeNull();
+    expect(parseFieldCondition({ fieldId: 'plan', operator: 'equals', value: 3 })).toBeNull();
+    expect(parseFieldCondition('plan')).toBeNull();
+  });
+});
@@ -1,12 +1,35 @@
-
-'use client';
-
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFFont,
+  PDFForm,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+  rgb,
+  StandardFonts,
+} from 'pdf-lib';
 import SHA256 from 'crypto-js/sha256';
 
+export type SignatureFieldType =
+  | 'SIGNATURE'
+  | 'INITIALS'
+  | 'DATE'
+  | 'TEXT'
+  | 'CHECKBOX'
+  | 'DROPDOWN'
+  | 'RADIO'
+  | 'ATTACHMENT'
+  | 'NAME'
+  | 'EMAIL'
+  | 'COMPANY';
+
 export interface SignatureFieldData {
   id: string;
-  type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+  type: SignatureFieldType;
   pageNumber: number;
   x: number; // percentage
   y: number; // percentage
@@ -16,6 +39,93 @@ export interface SignatureFieldData {
   signerId?: string;
   value?: string;
   signatureType?: string;
+  label?: string;
+  /** Only show (and require) this field when another field matches */
+  showWhen?: FieldCondition | null;
+  /** Arithmetic over other fields, e.g. "{fieldA} + {fieldB} * 2" */
+  formula?: string | null;
+  /** Choices offered by DROPDOWN and RADIO fields */
+  options?: string[] | null;
+  /** Fully qualified name of the AcroForm field this was imported from */
+  formFieldName?: string | null;
+}
+
+/** A fillable field found in an uploaded PDF, ready to become a signature field */
+export type ImportedFormField = Omit<SignatureFieldData, 'id' | 'value' | 'signatureType' | 'signerId'> & {
+  formFieldName: string;
+};
+
+export type FieldConditionOperator = 'checked' | 'unchecked' | 'equals' | 'not_equals' | 'filled' | 'empty';
+
+export interface FieldCondition {
+  fieldId: string;
+  operator: FieldConditionOperator;
+  value?: string;
+}
+
+export const FIELD_CONDITION_OPERATORS: FieldConditionOperator[] = [
+  'checked',
+  'unchecked',
+  'equals',
+  'not_equals',
+  'filled',
+  'empty',
+];
+
+/**
+ * A condition reduced to its known keys, or null when the value is not a
+ * condition on a field with a known operator
+ */
+export function parseFieldCondition(value: unknown): FieldCondition | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { fieldId, operator, value: expected } = value as Record<string, unknown>;
+  if (typeof fieldId !== 'string' || !fieldId || !FIELD_CONDITION_OPERATORS.includes(operator as FieldConditionOperator)) {
+    return null;
+  }
+  if (expected !== undefined && expected !== null && typeof expected !== 'string') {
+    return null;
+  }
+
+  return {
+    fieldId,
+    operator: operator as FieldConditionOperator,
+    ...(typeof expected === 'string' && { value: expected }),
+  };
+}
+
+/**
+ * A file a signer uploaded for an ATTACHMENT field. Stored as JSON in the
+ * field's signature data.
+ */
+export interface FieldAttachment {
+  filePath: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+}
+
+export interface CertificateSigner {
+  name: string;
+  email: string;
+  role?: string;
+  signingOrder: number;
+  ipAddress?: string;
+  viewedAt?: Date;
+  signedAt?: Date;
+  signatureData?: string;
+  /** Name of the user who hosted an in-person signing */
+  hostedBy?: string;
+}
+
+export interface CompletionCertificateData {
+  documentId: string;
+  title: string;
+  completedAt: Date;
+  originalHash: string;
+  finalHash: string;
+  signers: CertificateSigner[];
 }
 
 export interface DocumentMetadata {
@@ -46,7 +156,7 @@ export function calculateSignatureHash(signatureData: string): string {
  * Validate signature field coordinates
  */
 export function validateFieldCoordinates(field: Partial<SignatureFieldData>): boolean {
-  if (!field.x || !field.y || !field.width || !field.height) return false;
+  if (field.x == null || field.y == null || !field.width || !field.height) return false;
   
   // Ensure coordinates are within bounds (0-100%)
   if (field.x < 0 || field.x > 100) return false;
@@ -62,28 +172,25 @@ export function validateFieldCoordinates(field: Partial<SignatureFieldData>): bo
 }
 
 /**
- * Generate unique signing token
- */
-export function generateSigningToken(): string {
-  const timestamp = Date.now().toString();
-  const random = Math.random().toString(36).substring(2);
-  const combined = `${timestamp}-${random}`;
-  return SHA256(combined).toString().substring(0, 32);
-}
-
-/**
- * Embed signatures into PDF document
+ * Embed signatures into PDF document. Files uploaded to attachment fields,
+ * keyed by field id, are attached to the PDF itself.
  */
 export async function embedSignaturesInPDF(
   pdfBytes: Uint8Array,
-  signatures: SignatureFieldData[]
+  signatures: SignatureFieldData[],
+  attachments: Record<string, Uint8Array> = {}
 ): Promise<Uint8Array> {
   try {
     const pdfDoc = await PDFDocument.load(pdfBytes);
     const pages = pdfDoc.getPages();
+
+    // Values of fields imported from the PDF's own form go back into that
+    // form; everything else is drawn on the page
+    const form = pdfDoc.getForm();
+    const drawnSignatures = signatures.filter(signature => !writeAcroFormValue(form, signature));
     
     // Group signatures by page
-    const signaturesByPage = signatures.reduce((acc, sig) => {
+    const signaturesByPage = drawnSignatures.reduce((acc, sig) => {
       if (!acc[sig.pageNumber]) acc[sig.pageNumber] = [];
       acc[sig.pageNumber].push(sig);
       return acc;
@@ -133,12 +240,63 @@ export async function embedSignaturesInPDF(
               });
             }
           }
-        } else if (signature.type === 'TEXT' || signature.type === 'DATE') {
-          // Handle text fields
+        } else if (signature.type === 'RADIO' && signature.options?.length) {
+          // Draw every option with the chosen one filled in
+          const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+          const rowHeight = height / signature.options.length;
+          const radius = Math.min(rowHeight * 0.3, 5);
+          const fontSize = Math.min(rowHeight * 0.6, 10);
+
+          signature.options.forEach((option, index) => {
+            const centerY = y + height - rowHeight * (index + 0.5);
+            page.drawCircle({
+              x: x + radius + 1,
+              y: centerY,
+              size: radius,
+              borderColor: rgb(0, 0, 0),
+              borderWidth: 0.75,
+            });
+            if (option === signature.value) {
+              page.drawCircle({ x: x + radius + 1, y: centerY, size: radius * 0.5, color: rgb(0, 0, 0) });
+            }
+            page.drawText(toDrawableText(option, font), {
+              x: x + radius * 2 + 4,
+              y: centerY - fontSize / 3,
+              size: fontSize,
+              font,
+              color: rgb(0, 0, 0),
+              maxWidth: width - radius * 2 - 4,
+            });
+          });
+        } else if (signature.type === 'ATTACHMENT') {
+          const attachment = parseAttachmentValue(signature.value);
+          if (!attachment) continue;
+
+          const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+          const fontSize = Math.min(height * 0.6, 10);
+          page.drawText(toDrawableText(`Attached: ${attachment.fileName}`, font), {
+            x,
+            y: y + height / 2 - fontSize / 2,
+            size: fontSize,
+            font,
+            color: rgb(0, 0, 0),
+            maxWidth: width,
+          });
+
+          const fileBytes = attachments[signature.id];
+          if (fileBytes) {
+            await pdfDoc.attach(fileBytes, attachment.fileName, {
+              mimeType: attachment.mimeType,
+              description: signature.label || 'Signer attachment',
+              creationDate: new Date(),
+            });
+          }
+        } else if (signature.type !== 'CHECKBOX') {
+          // Text, date, choice and signer detail fields are written as text
           const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
           const fontSize = Math.min(height * 0.6, 12); // Scale font to field height
           
-          page.drawText(signature.value, {
+          page.drawText(toDrawableText(signature.value, font), {
             x,
             y: y + height / 2 - fontSize / 2,
             size: fontSize,
@@ -146,7 +304,7 @@ export async function embedSignaturesInPDF(
             color: rgb(0, 0, 0),
             maxWidth: width,
           });
-        } else if (signature.type === 'CHECKBOX') {
+        } else {
           // Handle checkboxes
           const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
           const checkSize = Math.min(width, height) * 0.8;
@@ -182,6 +340,220 @@ export async function embedSignaturesInPDF(
   }
 }
 
+/**
+ * Append a Certificate of Completion page listing every signer and the
+ * original/signed document hashes. finalHash is the hash of the signed
+ * document before this page is added, since a page cannot contain its own hash.
+ */
+export async function appendCompletionCertificate(
+  pdfBytes: Uint8Array,
+  certificate: CompletionCertificateData
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const monoFont = await pdfDoc.embedFont(StandardFonts.Courier);
+
+  const pageWidth = 612; // US Letter
+  const pageHeight = 792;
+  const margin = 50;
+  const signerBlockHeight = 134;
+
+  let page = pdfDoc.addPage([pageWidth, pageHeight]);
+  let cursorY = pageHeight - margin;
+
+  const valueX = margin + 100;
+  const lineHeight = 14;
+
+  // Values wrap within their column; signer blocks leave room for the signature box
+  const wrapValue = (value: string, options: { mono?: boolean; maxWidth?: number } = {}) => {
+    const valueFont = options.mono ? monoFont : font;
+    return wrapText(toDrawableText(value, valueFont), valueFont, options.mono ? 8 : 9, options.maxWidth ?? pageWidth - margin - valueX);
+  };
+
+  const drawLine = (label: string, value: string, options: { mono?: boolean; maxWidth?: number } = {}) => {
+    page.drawText(label, { x: margin, y: cursorY, size: 9, font: boldFont, color: rgb(0.3, 0.3, 0.3) });
+    for (const line of wrapValue(value, options)) {
+      page.drawText(line, {
+        x: valueX,
+        y: cursorY,
+        size: options.mono ? 8 : 9,
+        font: options.mono ? monoFont : font,
+        color: rgb(0, 0, 0),
+      });
+      cursorY -= lineHeight;
+    }
+  };
+
+  page.drawText('Certificate of Completion', {
+    x: margin,
+    y: cursorY - 10,
+    size: 20,
+    font: boldFont,
+    color: rgb(0, 0, 0),
+  });
+  cursorY -= 40;
+
+  drawLine('Document', certificate.title);
+  drawLine('Document ID', certificate.documentId, { mono: true });
+  drawLine('Completed', formatCertificateDate(certificate.completedAt));
+  drawLine('Original SHA-256', certificate.originalHash, { mono: true });
+  drawLine('Signed SHA-256', certificate.finalHash, { mono: true });
+
+  cursorY -= 10;
+  page.drawText(`Signers (${certificate.signers.length})`, {
+    x: margin,
+    y: cursorY,
+    size: 12,
+    font: boldFont,
+    color: rgb(0, 0, 0),
+  });
+  cursorY -= 10;
+
+  const signers = [...certificate.signers].sort((a, b) => a.signingOrder - b.signingOrder);
+  const boxWidth = 170;
+  const boxHeight = 60;
+  const signerValueWidth = pageWidth - margin - boxWidth - 10 - valueX;
+
+  for (const signer of signers) {
+    const rows: Array<[string, string]> = [
+      ['Signer', `${signer.signingOrder}. ${signer.name}`],
+      ['Email', signer.email],
+      ['Role', signer.role || '-'],
+      ['IP Address', signer.ipAddress || '-'],
+      ['Viewed', signer.viewedAt ? formatCertificateDate(signer.viewedAt) : '-'],
+      ['Signed', signer.signedAt ? formatCertificateDate(signer.signedAt) : '-'],
+    ];
+    if (signer.hostedBy) {
+      rows.push(['Signed In Person', `Hosted by ${signer.hostedBy}`]);
+    }
+
+    // Lines beyond one per row push the block down
+    const extraLines = rows.reduce((count, [, value]) =>
+      count + wrapValue(value, { maxWidth: signerValueWidth }).length - 1, 0);
+    if (cursorY - signerBlockHeight - extraLines * lineHeight < margin) {
+      page = pdfDoc.addPage([pageWidth, pageHeight]);
+      cursorY = pageHeight - margin;
+    }
+
+    cursorY -= 8;
+    page.drawLine({
+      start: { x: margin, y: cursorY },
+      end: { x: pageWidth - margin, y: cursorY },
+      thickness: 0.5,
+      color: rgb(0.8, 0.8, 0.8),
+    });
+    cursorY -= 16;
+
+    const blockTop = cursorY;
+    for (const [label, value] of rows) {
+      drawLine(label, value, { maxWidth: signerValueWidth });
+    }
+
+    // Signature image in the right-hand column of the block
+    const boxX = pageWidth - margin - boxWidth;
+    const boxY = blockTop - boxHeight + 10;
+
+    page.drawRectangle({
+      x: boxX,
+      y: boxY,
+      width: boxWidth,
+      height: boxHeight,
+      borderColor: rgb(0.8, 0.8, 0.8),
+      borderWidth: 0.5,
+    });
+
+    if (signer.signatureData?.startsWith('data:image/')) {
+      try {
+        const imageBytes = dataURLToBytes(signer.signatureData);
+        const image = signer.signatureData.includes('png')
+          ? await pdfDoc.embedPng(imageBytes)
+          : await pdfDoc.embedJpg(imageBytes);
+        const scaled = image.scaleToFit(boxWidth - 10, boxHeight - 10);
+
+        page.drawImage(image, {
+          x: boxX + (boxWidth - scaled.width) / 2,
+          y: boxY + (boxHeight - scaled.height) / 2,
+          width: scaled.width,
+          height: scaled.height,
+        });
+      } catch (error) {
+        console.error('Error embedding certificate signature image:', error);
+      }
+    } else if (signer.signatureData) {
+      page.drawText(toDrawableText(signer.signatureData, font), {
+        x: boxX + 5,
+        y: boxY + boxHeight / 2 - 6,
+        size: 14,
+        font,
+        color: rgb(0, 0, 0),
+        maxWidth: boxWidth - 10,
+      });
+    }
+  }
+
+  return await pdfDoc.save();
+}
+
+const fontCharacterSets = new WeakMap<PDFFont, Set<number>>();
+
+/**
+ * Replace characters a standard PDF font cannot encode, which would
+ * otherwise make pdf-lib throw. Accented letters fall back to their base
+ * letter and anything else becomes "?".
+ */
+function toDrawableText(text: string, font: PDFFont): string {
+  let supported = fontCharacterSets.get(font);
+  if (!supported) {
+    supported = new Set(font.getCharacterSet());
+    fontCharacterSets.set(font, supported);
+  }
+  const canDraw = (value: string) => Array.from(value).every(char => supported!.has(char.codePointAt(0)!));
+
+  return Array.from(text.replace(/\s+/g, ' '))
+    .map(char => {
+      if (canDraw(char)) return char;
+      const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return base && canDraw(base) ? base : '?';
+    })
+    .join('');
+}
+
+/**
+ * Split text into lines no wider than maxWidth, breaking inside words only
+ * when a single word does not fit
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const fits = (value: string) => font.widthOfTextAtSize(value, size) <= maxWidth;
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (fits(candidate)) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    line = '';
+    for (const char of Array.from(word)) {
+      if (line && !fits(line + char)) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  lines.push(line);
+
+  return lines;
+}
+
+function formatCertificateDate(date: Date): string {
+  return new Date(date).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
 /**
  * Convert data URL to byte array
  */
@@ -220,7 +592,201 @@ export async function extractPDFMetadata(pdfBytes: Uint8Array): Promise<Document
 }
 
 /**
- * Validate PDF file
+ * Turn an AcroForm field name like "owner_phone_1" or "Owner.PhoneNumber"
+ * into a readable label
+ */
+function formFieldLabel(name: string): string {
+  const lastPart = name.split('.').pop() || name;
+  const words = lastPart
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_\-]+/g, ' ')
+    .replace(/\s+\d+$/, '')
+    .trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : name;
+}
+
+/**
+ * Choose a field type for a fillable text box from its name
+ */
+function textFieldType(name: string): SignatureFieldType {
+  const normalized = name.toLowerCase();
+  if (/initial/.test(normalized)) return 'INITIALS';
+  if (/signature|\bsign\b/.test(normalized)) return 'SIGNATURE';
+  if (/date/.test(normalized)) return 'DATE';
+  if (/e-?mail/.test(normalized)) return 'EMAIL';
+  if (/company|business|organi[sz]ation/.test(normalized)) return 'COMPANY';
+  if (/name/.test(normalized)) return 'NAME';
+  return 'TEXT';
+}
+
+type FormWidget = ReturnType<PDFField['acroField']['getWidgets']>[number];
+
+/**
+ * Find the index of the page a form widget sits on
+ */
+function findWidgetPageIndex(pdfDoc: PDFDocument, widget: FormWidget): number {
+  const pages = pdfDoc.getPages();
+  const pageRef = widget.P();
+  if (pageRef) {
+    const index = pages.findIndex(page => page.ref === pageRef);
+    if (index >= 0) return index;
+  }
+
+  const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+  return pages.findIndex(page => !!widgetRef && !!page.node.Annots()?.asArray().includes(widgetRef));
+}
+
+/**
+ * Read the fillable AcroForm fields of a PDF as signature fields with
+ * percentage coordinates. Push buttons and read-only fields are skipped, and
+ * a radio group is placed over the area covering all of its buttons.
+ */
+export async function extractAcroFormFields(pdfBytes: Uint8Array): Promise<ImportedFormField[]> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const pages = pdfDoc.getPages();
+  const imported: ImportedFormField[] = [];
+
+  for (const field of pdfDoc.getForm().getFields()) {
+    if (field.isReadOnly()) continue;
+
+    const name = field.getName();
+    let type: SignatureFieldType;
+    let options: string[] = [];
+
+    if (field instanceof PDFSignature) {
+      type = 'SIGNATURE';
+    } else if (field instanceof PDFCheckBox) {
+      type = 'CHECKBOX';
+    } else if (field instanceof PDFRadioGroup) {
+      options = normalizeFieldOptions(field.getOptions());
+      type = options.length >= 2 ? 'RADIO' : 'CHECKBOX';
+    } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      options = normalizeFieldOptions(field.getOptions());
+      type = options.length >= 2 ? 'DROPDOWN' : 'TEXT';
+    } else if (field instanceof PDFTextField) {
+      type = textFieldType(name);
+    } else {
+      continue;
+    }
+
+    const widgets = field.acroField.getWidgets();
+    if (widgets.length === 0) continue;
+
+    const pageIndex = findWidgetPageIndex(pdfDoc, widgets[0]);
+    if (pageIndex < 0) continue;
+
+    // Radio buttons are separate widgets; cover all of them on the first page
+    const rects = widgets
+      .filter(widget => widget === widgets[0] || findWidgetPageIndex(pdfDoc, widget) === pageIndex)
+      .map(widget => widget.getRectangle());
+    const left = Math.min(...rects.map(rect => rect.x));
+    const bottom = Math.min(...rects.map(rect => rect.y));
+    const right = Math.max(...rects.map(rect => rect.x + rect.width));
+    const top = Math.max(...rects.map(rect => rect.y + rect.height));
+
+    const mediaBox = pages[pageIndex].getMediaBox();
+    const toPercent = (value: number, total: number) =>
+      Math.round(Math.min(Math.max(value / total, 0), 1) * 10000) / 100;
+
+    const x = toPercent(left - mediaBox.x, mediaBox.width);
+    const y = toPercent(mediaBox.y + mediaBox.height - top, mediaBox.height);
+    const candidate: ImportedFormField = {
+      type,
+      label: formFieldLabel(name),
+      pageNumber: pageIndex + 1,
+      x,
+      y,
+      width: Math.min(toPercent(right - left, mediaBox.width), 100 - x),
+      height: Math.min(toPercent(top - bottom, mediaBox.height), 100 - y),
+      required: field.isRequired(),
+      formFieldName: name,
+      ...((type === 'RADIO' || type === 'DROPDOWN') && { options }),
+    };
+
+    if (validateFieldCoordinates(candidate)) {
+      imported.push(candidate);
+    }
+  }
+
+  return imported;
+}
+
+/**
+ * Pick the signer an imported form field belongs to from its name: a
+ * signer's role or name ("Customer Signature", "installer_date"), or a
+ * "signer N" or trailing number matching the signing order
+ */
+export function matchSignerForFormField<T extends {
+  signerName: string;
+  signerRole?: string | null;
+  signingOrder: number;
+}>(formFieldName: string, signers: T[]): T | undefined {
+  const toWords = (text: string) =>
+    text.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const words = ` ${toWords(formFieldName)} `;
+  const mentions = (text?: string | null) => {
+    const phrase = toWords(text || '');
+    return phrase.length > 1 && words.includes(` ${phrase} `);
+  };
+
+  const byRole = signers.find(signer => mentions(signer.signerRole));
+  if (byRole) return byRole;
+
+  const byName = signers.find(signer =>
+    mentions(signer.signerName) || signer.signerName.split(/\s+/).some(part => part.length > 2 && mentions(part))
+  );
+  if (byName) return byName;
+
+  const numbered = words.match(/ (?:signer|party|signatory) ?(\d+) /) || words.match(/ (\d+) $/);
+  if (numbered) {
+    const order = parseInt(numbered[1], 10);
+    return signers.find(signer => signer.signingOrder === order);
+  }
+
+  return undefined;
+}
+
+/**
+ * Write a completed field's value into the AcroForm field it came from and
+ * lock it. Returns false when the value cannot be stored in the form field,
+ * so it is drawn on the page instead.
+ */
+function writeAcroFormValue(form: PDFForm, field: SignatureFieldData): boolean {
+  const formField = field.formFieldName ? form.getFieldMaybe(field.formFieldName) : undefined;
+  if (!formField || !field.value) return false;
+
+  try {
+    if (formField instanceof PDFTextField) {
+      if (field.type === 'SIGNATURE' || field.type === 'INITIALS' || field.type === 'ATTACHMENT') return false;
+      formField.setText(field.value);
+    } else if (formField instanceof PDFCheckBox) {
+      if (field.value === 'checked') formField.check();
+      else formField.uncheck();
+    } else if (formField instanceof PDFRadioGroup) {
+      // A single-button group is imported as a checkbox
+      if (field.type !== 'CHECKBOX') formField.select(field.value);
+      else if (field.value === 'checked') formField.select(formField.getOptions()[0]);
+      else formField.clear();
+    } else if (formField instanceof PDFDropdown || formField instanceof PDFOptionList) {
+      formField.select(field.value);
+    } else {
+      return false;
+    }
+
+    formField.enableReadOnly();
+    return true;
+  } catch (error) {
+    console.error(`Error filling form field ${field.formFieldName}:`, error);
+    return false;
+  }
+}
+
+/** Largest PDF accepted for signing */
+export const MAX_PDF_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Quick client-side check before upload. The server runs the full
+ * validation again, so this only saves a round trip.
  */
 export function validatePDFFile(file: File): { isValid: boolean; error?: string } {
   // Check file type
@@ -229,8 +795,7 @@ export function validatePDFFile(file: File): { isValid: boolean; error?: string
   }
   
   // Check file size (50MB limit)
-  const maxSize = 50 * 1024 * 1024;
-  if (file.size > maxSize) {
+  if (file.size > MAX_PDF_SIZE) {
     return { isValid: false, error: 'File size must be less than 50MB' };
   }
   
@@ -243,28 +808,36 @@ export function validatePDFFile(file: File): { isValid: boolean; error?: string
 }
 
 /**
- * Check if all required fields are signed
+ * Check if all required fields are signed. Hidden and calculated fields are
+ * never required.
  */
 export function areAllRequiredFieldsSigned(
   fields: SignatureFieldData[],
   signerId?: string
 ): boolean {
+  const hidden = getHiddenFieldIds(fields);
   const requiredFields = fields.filter(field => 
-    field.required && (!signerId || field.signerId === signerId)
+    field.required &&
+    !hidden.has(field.id) &&
+    !isCalculatedField(field) &&
+    (!signerId || field.signerId === signerId)
   );
   
   return requiredFields.every(field => field.value && field.value.trim() !== '');
 }
 
 /**
- * Get next required field for signing
+ * Get next required field for signing, skipping hidden and calculated fields
  */
 export function getNextRequiredField(
   fields: SignatureFieldData[],
   signerId?: string
 ): SignatureFieldData | null {
+  const hidden = getHiddenFieldIds(fields);
   const requiredFields = fields.filter(field => 
     field.required && 
+    !hidden.has(field.id) &&
+    !isCalculatedField(field) &&
     (!signerId || field.signerId === signerId) &&
     (!field.value || field.value.trim() === '')
   );
@@ -280,6 +853,434 @@ export function getNextRequiredField(
   return requiredFields[0] || null;
 }
 
+type LogicField = Pick<SignatureFieldData, 'id' | 'type' | 'value' | 'showWhen' | 'formula' | 'options'>;
+
+/**
+ * Whether a field value satisfies a condition. Comparisons ignore case and
+ * surrounding whitespace.
+ */
+export function matchesFieldCondition(condition: FieldCondition, value?: string | null): boolean {
+  const actual = (value || '').trim().toLowerCase();
+  const expected = (condition.value || '').trim().toLowerCase();
+
+  switch (condition.operator) {
+    case 'checked':
+      return actual === 'checked';
+    case 'unchecked':
+      return actual !== 'checked';
+    case 'filled':
+      return actual !== '';
+    case 'empty':
+      return actual === '';
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Ids of fields whose show-when condition is not met. A field is also hidden
+ * when the field it depends on is hidden.
+ */
+export function getHiddenFieldIds(fields: LogicField[]): Set<string> {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const visibility = new Map<string, boolean>();
+
+  const isVisible = (field: LogicField, seen: Set<string>): boolean => {
+    const known = visibility.get(field.id);
+    if (known !== undefined) return known;
+    if (!field.showWhen) return true;
+    // Circular conditions are rejected on save; treat any that slip through as visible
+    if (seen.has(field.id)) return true;
+
+    const controller = byId.get(field.showWhen.fieldId);
+    const visible = !!controller &&
+      isVisible(controller, new Set([...seen, field.id])) &&
+      matchesFieldCondition(field.showWhen, controller.value);
+
+    visibility.set(field.id, visible);
+    return visible;
+  };
+
+  return new Set(fields.filter(field => !isVisible(field, new Set())).map(field => field.id));
+}
+
+/**
+ * Whether a field fills itself from a formula instead of signer input
+ */
+export function isCalculatedField(field: { formula?: string | null }): boolean {
+  return !!field.formula?.trim();
+}
+
+/**
+ * Field ids referenced by a formula
+ */
+export function getFormulaReferences(formula: string): string[] {
+  return Array.from(formula.matchAll(/\{([^{}]+)\}/g), match => match[1].trim());
+}
+
+/**
+ * Read a field value as a number, ignoring currency symbols and thousands
+ * separators. Empty or non-numeric values count as zero.
+ */
+export function parseNumericValue(value?: string | null): number {
+  const number = parseFloat((value || '').replace(/[^0-9.\-]/g, ''));
+  return Number.isFinite(number) ? number : 0;
+}
+
+/**
+ * Evaluate a formula of numbers, {fieldId} references, + - * / and
+ * parentheses. Returns null when the result is not a finite number, e.g. on
+ * division by zero. Throws on syntax errors.
+ */
+export function evaluateFormula(formula: string, getValue: (fieldId: string) => number): number | null {
+  const tokens = formula.match(/\{[^{}]+\}|\d+(?:\.\d+)?|\.\d+|[-+*/()]|\S/g) || [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const parseExpression = (): number => {
+    let result = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      result = next() === '+' ? result + parseTerm() : result - parseTerm();
+    }
+    return result;
+  };
+
+  const parseTerm = (): number => {
+    let result = parseFactor();
+    while (peek() === '*' || peek() === '/') {
+      result = next() === '*' ? result * parseFactor() : result / parseFactor();
+    }
+    return result;
+  };
+
+  const parseFactor = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Formula ends unexpectedly');
+    }
+    if (token === '-') {
+      return -parseFactor();
+    }
+    if (token === '(') {
+      const result = parseExpression();
+      if (next() !== ')') {
+        throw new Error('Formula is missing a closing parenthesis');
+      }
+      return result;
+    }
+    if (token.startsWith('{')) {
+      return getValue(token.slice(1, -1).trim());
+    }
+    if (/^\d*\.?\d+$/.test(token)) {
+      return parseFloat(token);
+    }
+    throw new Error(`Unexpected "${token}" in formula`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in formula`);
+  }
+
+  return Number.isFinite(result) ? result : null;
+}
+
+/**
+ * Format a calculated number the way it is written into the document
+ */
+export function formatCalculatedValue(value: number | null): string {
+  if (value === null) return '';
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+}
+
+/**
+ * Work out the value of every calculated field. Calculated fields may use
+ * other calculated fields; hidden fields count as empty.
+ */
+export function computeCalculatedValues(fields: LogicField[]): Map<string, string> {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const hidden = getHiddenFieldIds(fields);
+  const results = new Map<string, string>();
+
+  const valueOf = (fieldId: string, seen: Set<string>): string => {
+    const field = byId.get(fieldId);
+    if (!field || hidden.has(fieldId)) return '';
+    if (!isCalculatedField(field)) return field.value || '';
+
+    const cached = results.get(fieldId);
+    if (cached !== undefined) return cached;
+    if (seen.has(fieldId)) return '';
+
+    let value = '';
+    try {
+      value = formatCalculatedValue(evaluateFormula(field.formula!, id =>
+        parseNumericValue(valueOf(id, new Set([...seen, fieldId])))
+      ));
+    } catch {
+      value = '';
+    }
+    results.set(fieldId, value);
+    return value;
+  };
+
+  for (const field of fields) {
+    if (isCalculatedField(field) && !hidden.has(field.id)) {
+      valueOf(field.id, new Set());
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Check conditions and formulas reference existing fields, parse, and do not
+ * depend on themselves. Returns a message for the first problem found.
+ */
+export function validateFieldLogic(fields: Array<LogicField & { label?: string | null; pageNumber: number }>): string | null {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const describe = (field: { label?: string | null; pageNumber: number; type: string }) =>
+    `"${field.label || getFieldTypeDisplayName(field.type)}" on page ${field.pageNumber}`;
+
+  const dependencies = new Map<string, string[]>();
+
+  for (const field of fields) {
+    const refs: string[] = [];
+
+    if (field.showWhen) {
+      const controller = byId.get(field.showWhen.fieldId);
+      if (!controller) {
+        return `The condition on ${describe(field)} refers to a field that no longer exists`;
+      }
+      if ((field.showWhen.operator === 'checked' || field.showWhen.operator === 'unchecked') && controller.type !== 'CHECKBOX') {
+        return `The condition on ${describe(field)} checks a field that is not a checkbox`;
+      }
+      const expected = (field.showWhen.value || '').trim().toLowerCase();
+      if (
+        isChoiceField(controller) &&
+        (field.showWhen.operator === 'equals' || field.showWhen.operator === 'not_equals') &&
+        !normalizeFieldOptions(controller.options).some(option => option.toLowerCase() === expected)
+      ) {
+        return `The condition on ${describe(field)} compares with a value that is not one of the options`;
+      }
+      refs.push(controller.id);
+    }
+
+    if (isChoiceField(field) && normalizeFieldOptions(field.options).length < 2) {
+      return `Give ${describe(field)} at least two options to choose from`;
+    }
+
+    if (isCalculatedField(field)) {
+      if (field.type !== 'TEXT') {
+        return `Only text fields can be calculated (${describe(field)})`;
+      }
+      const formulaRefs = getFormulaReferences(field.formula!);
+      const missing = formulaRefs.find(id => !byId.has(id));
+      if (missing) {
+        return `The formula on ${describe(field)} refers to a field that no longer exists`;
+      }
+      try {
+        evaluateFormula(field.formula!, () => 1);
+      } catch (error) {
+        return `The formula on ${describe(field)} is not valid: ${error instanceof Error ? error.message : 'syntax error'}`;
+      }
+      refs.push(...formulaRefs);
+    }
+
+    dependencies.set(field.id, refs);
+  }
+
+  // Depth-first search for a field that ends up depending on itself
+  const state = new Map<string, 'visiting' | 'done'>();
+  const findCycle = (fieldId: string): boolean => {
+    if (state.get(fieldId) === 'done') return false;
+    if (state.get(fieldId) === 'visiting') return true;
+    state.set(fieldId, 'visiting');
+    const cyclic = (dependencies.get(fieldId) || []).some(findCycle);
+    state.set(fieldId, 'done');
+    return cyclic;
+  };
+
+  for (const field of fields) {
+    if (findCycle(field.id)) {
+      return `${describe(field)} depends on itself through its conditions or formula`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Point show-when conditions and formulas at new field ids, e.g. when a
+ * template's fields are copied into a document
+ */
+export function remapFieldReferences<T extends { showWhen?: FieldCondition | null; formula?: string | null }>(
+  field: T,
+  idMap: Map<string, string>
+): T {
+  return {
+    ...field,
+    showWhen: field.showWhen
+      ? { ...field.showWhen, fieldId: idMap.get(field.showWhen.fieldId) ?? field.showWhen.fieldId }
+      : field.showWhen,
+    formula: field.formula
+      ? field.formula.replace(/\{([^{}]+)\}/g, (ref, id: string) => `{${idMap.get(id.trim()) ?? id.trim()}}`)
+      : field.formula,
+  };
+}
+
+/** Field types whose value is picked from the field's options */
+export const CHOICE_FIELD_TYPES: SignatureFieldType[] = ['DROPDOWN', 'RADIO'];
+
+/** Field types filled in from the signer's record when they open the document */
+export const SIGNER_DETAIL_FIELD_TYPES: SignatureFieldType[] = ['NAME', 'EMAIL', 'COMPANY'];
+
+export function isChoiceField(field: { type: string }): boolean {
+  return (CHOICE_FIELD_TYPES as string[]).includes(field.type);
+}
+
+/**
+ * Trim options and drop blanks and duplicates
+ */
+export function normalizeFieldOptions(options?: unknown): string[] {
+  if (!Array.isArray(options)) return [];
+
+  const seen = new Set<string>();
+  return options
+    .map(option => String(option ?? '').trim())
+    .filter(option => {
+      const key = option.toLowerCase();
+      if (!option || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** Largest file a signer can upload to an attachment field */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Read the file reference stored for an attachment field
+ */
+export function parseAttachmentValue(value?: string | null): FieldAttachment | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed.filePath === 'string' && typeof parsed.fileName === 'string'
+      ? parsed as FieldAttachment
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export type SigningGroupMode = 'ALL' | 'ANY';
+
+export interface SigningGroupMember {
+  id: string;
+  signingOrder: number;
+  groupMode?: SigningGroupMode | null;
+  status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
+}
+
+export interface SigningGroup<T extends SigningGroupMember = SigningGroupMember> {
+  order: number;
+  mode: SigningGroupMode;
+  signers: T[];
+}
+
+/**
+ * Signers with the order that actually applies: when sequential signing is
+ * off for the document, everyone is in one parallel group. Signers who were
+ * reassigned to someone else no longer take part.
+ */
+export function getEffectiveSigners<T extends SigningGroupMember>(
+  document: { signingOrder?: boolean | null },
+  signers: T[]
+): T[] {
+  const active = signers.filter(signer => signer.status !== 'REASSIGNED');
+  return document.signingOrder ? active : active.map(signer => ({ ...signer, signingOrder: 1 }));
+}
+
+/**
+ * Group signers that share a signing order. Signers in a group sign in
+ * parallel; the next group is released once the group is complete.
+ */
+export function getSigningGroups<T extends SigningGroupMember>(signers: T[]): SigningGroup<T>[] {
+  const groups = new Map<number, SigningGroup<T>>();
+
+  for (const signer of signers) {
+    const group = groups.get(signer.signingOrder);
+    if (group) {
+      group.signers.push(signer);
+      if (signer.groupMode === 'ANY') group.mode = 'ANY';
+    } else {
+      groups.set(signer.signingOrder, {
+        order: signer.signingOrder,
+        mode: signer.groupMode === 'ANY' ? 'ANY' : 'ALL',
+        signers: [signer],
+      });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.order - b.order);
+}
+
+/**
+ * A group is complete when everyone signed, or for "any one of" groups
+ * when at least one member signed
+ */
+export function isSigningGroupComplete(group: SigningGroup): boolean {
+  return group.mode === 'ANY'
+    ? group.signers.some(signer => signer.status === 'SIGNED')
+    : group.signers.every(signer => signer.status === 'SIGNED');
+}
+
+/**
+ * A group can no longer complete when the remaining members declined
+ */
+export function isSigningGroupBlocked(group: SigningGroup): boolean {
+  return group.mode === 'ANY'
+    ? group.signers.every(signer => signer.status === 'DECLINED')
+    : group.signers.some(signer => signer.status === 'DECLINED');
+}
+
+/**
+ * The first group that still needs signatures, or null when all are complete
+ */
+export function getActiveSigningGroup<T extends SigningGroupMember>(signers: T[]): SigningGroup<T> | null {
+  return getSigningGroups(signers).find(group => !isSigningGroupComplete(group)) || null;
+}
+
+/**
+ * Whether a signer's signature is still needed and it is their group's turn
+ */
+export function canSignerSignNow(signers: SigningGroupMember[], signerId: string): boolean {
+  const activeGroup = getActiveSigningGroup(signers);
+  const signer = activeGroup?.signers.find(s => s.id === signerId);
+  return !!signer && signer.status !== 'SIGNED' && signer.status !== 'DECLINED';
+}
+
+/**
+ * Unsigned members of "any one of" groups that another member completed
+ */
+export function isSignerSuperseded(signers: SigningGroupMember[], signerId: string): boolean {
+  const group = getSigningGroups(signers).find(g => g.signers.some(s => s.id === signerId));
+  const signer = group?.signers.find(s => s.id === signerId);
+
+  return !!group && !!signer &&
+    group.mode === 'ANY' &&
+    signer.status !== 'SIGNED' &&
+    isSigningGroupComplete(group);
+}
+
 /**
  * Format file size for display
  */
@@ -294,10 +1295,20 @@ export function formatFileSize(bytes: number): string {
 }
 
 /**
- * Generate access code for additional security
+ * Statement a host accepts before handing their device to a signer for
+ * in-person signing. The accepted text is stored with the signer.
+ */
+export function getInPersonAttestation(hostName: string, signerName: string): string {
+  return `I, ${hostName}, am physically present with ${signerName}, have checked their identity, ` +
+    `and will hand them this device so they can review and sign for themselves.`;
+}
+
+/**
+ * Whether a typed name matches the signer's name, ignoring case and spacing
  */
-export function generateAccessCode(): string {
-  return Math.random().toString(36).substring(2, 8).toUpperCase();
+export function namesMatch(typed: string, expected: string): boolean {
+  const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+  return !!normalize(typed) && normalize(typed) === normalize(expected);
 }
 
 /**
@@ -308,6 +1319,45 @@ export function validateEmail(email: string): boolean {
   return emailRegex.test(email);
 }
 
+/**
+ * Whether a character is an ASCII control character (U+0000-U+001F or DEL)
+ */
+function isControlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+/**
+ * Replace control characters, except any listed in `keep`
+ */
+export function replaceControlCharacters(text: string, replacement: string, keep = ''): string {
+  return Array.from(text, char => isControlCharacter(char) && !keep.includes(char) ? replacement : char).join('');
+}
+
+/** Contact details that can be merged into a template's text fields */
+export const MERGE_FIELDS = ['firstName', 'lastName', 'fullName', 'email', 'phone', 'company', 'title'] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+const MERGE_TAG_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Whether a field label contains at least one {{mergeTag}}
+ */
+export function hasMergeTags(text?: string | null): boolean {
+  return !!text && new RegExp(MERGE_TAG_PATTERN.source).test(text);
+}
+
+/**
+ * Replace {{tag}} placeholders with a recipient's values. Unknown tags are
+ * left as they are so mistakes stay visible.
+ */
+export function renderMergeTags(text: string, values: Partial<Record<MergeField, string>>): string {
+  return text.replace(MERGE_TAG_PATTERN, (tag, key: string) =>
+    (MERGE_FIELDS as readonly string[]).includes(key) ? values[key as MergeField] ?? '' : tag
+  );
+}
+
 /**
  * Get field type display name
  */
@@ -323,6 +1373,18 @@ export function getFieldTypeDisplayName(type: string): string {
       return 'Text Field';
     case 'CHECKBOX':
       return 'Checkbox';
+    case 'DROPDOWN':
+      return 'Dropdown';
+    case 'RADIO':
+      return 'Radio Group';
+    case 'ATTACHMENT':
+      return 'Attachment';
+    case 'NAME':
+      return 'Name';
+    case 'EMAIL':
+      return 'Email';
+    case 'COMPANY':
+      return 'Company';
     default:
       return type;
   }
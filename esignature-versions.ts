@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+/**
+ * Documents form version chains: a new upload can supersede an earlier
+ * document (ESignatureDocument.supersedesId), which is then marked with
+ * supersededAt so lists can show only the latest version. Each document
+ * keeps its own file, signers and audit trail.
+ */
+
+/** Longest chain walked when collecting history */
+const MAX_VERSIONS = 100;
+
+/** Signing has to be stopped before a document can be replaced */
+const LOCKED_STATUSES = ['SENT', 'IN_PROGRESS'];
+
+type Client = Prisma.TransactionClient;
+
+export interface DocumentVersion {
+  id: string;
+  title: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number | null;
+  documentHash: string | null;
+  status: string;
+  version: number;
+  createdAt: Date;
+  supersededAt: Date | null;
+  uploadedBy: { name: string | null; email: string } | null;
+}
+
+const versionSelect = {
+  id: true,
+  title: true,
+  fileName: true,
+  filePath: true,
+  fileSize: true,
+  documentHash: true,
+  status: true,
+  version: true,
+  createdAt: true,
+  supersededAt: true,
+  supersedesId: true,
+  uploadedBy: { select: { name: true, email: true } },
+};
+
+/**
+ * Check that a document can be superseded by a new upload and return what
+ * the new version inherits from it
+ */
+export async function loadSupersededDocument(documentId: string, client: Client = prisma) {
+  const previous = await client.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    select: { id: true, title: true, status: true, version: true, dealId: true, contactId: true, supersededAt: true },
+  });
+
+  if (!previous) {
+    throw new ESignatureError('The document to replace was not found', 404);
+  }
+  if (previous.supersededAt) {
+    throw new ESignatureError('This document already has a newer version', 409, 'already_superseded');
+  }
+  if (LOCKED_STATUSES.includes(previous.status)) {
+    throw new ESignatureError('Void this document before uploading a new version of it', 409, 'document_out_for_signature');
+  }
+
+  return previous;
+}
+
+/**
+ * Mark `previous` as replaced by `next`. Runs in the transaction that
+ * creates the new version, so two uploads cannot both supersede it.
+ */
+export async function markSuperseded(
+  previous: { id: string; version: number },
+  next: { id: string; version: number },
+  context: { userId?: string; ipAddress?: string; userAgent?: string },
+  client: Client
+) {
+  const { count } = await client.eSignatureDocument.updateMany({
+    where: { id: previous.id, supersededAt: null },
+    data: { supersededAt: new Date() },
+  });
+  if (count === 0) {
+    throw new ESignatureError('This document already has a newer version', 409, 'already_superseded');
+  }
+
+  await recordAuditEvent({
+    documentId: previous.id,
+    action: 'document_superseded',
+    description: `Replaced by version ${next.version}`,
+    userId: context.userId,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: { supersededById: next.id, version: previous.version, newVersion: next.version },
+  }, client);
+}
+
+/**
+ * Every version of the document's chain, newest first
+ */
+export async function getVersionHistory(documentId: string): Promise<DocumentVersion[]> {
+  const start = await prisma.eSignatureDocument.findUnique({ where: { id: documentId }, select: versionSelect });
+  if (!start) {
+    throw new ESignatureError('Document not found', 404);
+  }
+
+  const newer = [];
+  let current = start;
+  while (newer.length < MAX_VERSIONS) {
+    const next = await prisma.eSignatureDocument.findFirst({ where: { supersedesId: current.id }, select: versionSelect });
+    if (!next) break;
+    newer.unshift(next);
+    current = next;
+  }
+
+  const older = [];
+  current = start;
+  while (current.supersedesId && older.length < MAX_VERSIONS) {
+    const previous = await prisma.eSignatureDocument.findUnique({ where: { id: current.supersedesId }, select: versionSelect });
+    if (!previous) break;
+    older.push(previous);
+    current = previous;
+  }
+
+  return [...newer, start, ...older].map(({ supersedesId, ...version }) => version);
+}
@@ -0,0 +1,59 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { getNextAttemptAt, isPrivateAddress, signWebhookPayload } from './esignature-webhooks';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+describe('signWebhookPayload', () => {
+  const body = JSON.stringify({ event: 'document_sent', documentId: 'doc-1' });
+
+  it('signs the timestamp and body with HMAC-SHA256 of the endpoint secret', () => {
+    const expected = createHmac('sha256', 'whsec_test').update(`1767225600.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', body, 1767225600)).toBe(`t=1767225600,v1=${expected}`);
+  });
+
+  it('changes with the secret, the body and the timestamp', () => {
+    const signature = signWebhookPayload('whsec_test', body, 1767225600);
+
+    expect(signWebhookPayload('whsec_other', body, 1767225600)).not.toBe(signature);
+    expect(signWebhookPayload('whsec_test', `${body} `, 1767225600)).not.toBe(signature);
+    expect(signWebhookPayload('whsec_test', body, 1767225601)).not.toBe(signature);
+  });
+});
+
+describe('getNextAttemptAt', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('backs off after each failed attempt', () => {
+    const delays = [1, 2, 3, 4, 5, 6].map(attempt => getNextAttemptAt(attempt, now)!.getTime() - now.getTime());
+
+    expect(delays).toEqual([MINUTE_MS, 5 * MINUTE_MS, 30 * MINUTE_MS, 2 * HOUR_MS, 8 * HOUR_MS, 24 * HOUR_MS]);
+  });
+
+  it('gives up once the retries run out', () => {
+    expect(getNextAttemptAt(7, now)).toBeNull();
+    expect(getNextAttemptAt(8, now)).toBeNull();
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and unspecified addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
@@ -0,0 +1,551 @@
+import { createHmac, randomBytes } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import { ESignatureWebhookDelivery, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import type { AuditAction } from '@/lib/esignature-audit';
+import { ESignatureError } from '@/lib/esignature-errors';
+
+/**
+ * Outbound webhooks for signing lifecycle events. When one of the events
+ * below is written to a document's audit log, a delivery is queued for every
+ * active endpoint subscribed to it, in the same transaction as the audit
+ * entry. The scheduled job sends queued deliveries and retries failures with
+ * backoff. Each request body is signed with the endpoint's secret:
+ *
+ *   X-ESignature-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+export const WEBHOOK_EVENTS = [
+  'document_sent',
+  'signer_viewed',
+  'field_signed',
+  'signing_completed',
+  'signer_declined',
+  'document_voided',
+  'reminder_sent',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+/** Wait before each retry; a delivery fails for good once these run out */
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  8 * 60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+];
+
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY = 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+/** How long a claimed delivery is left alone before another run may retry it */
+const DELIVERY_LEASE_MS = 3 * REQUEST_TIMEOUT_MS;
+
+/**
+ * Loopback, private, link-local (cloud metadata) and other non-public
+ * ranges. Endpoints resolving into them are refused unless
+ * ESIGNATURE_WEBHOOK_ALLOW_PRIVATE=true, e.g. for local development.
+ */
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_RANGES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+type Client = Prisma.TransactionClient;
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+}
+
+export interface WebhookRunSummary {
+  delivered: number;
+  retrying: number;
+  failed: number;
+  failures: Array<{ deliveryId: string; endpointId: string; error: string }>;
+}
+
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { name: true, email: true } },
+};
+
+export function isWebhookEvent(action: string): action is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(action);
+}
+
+function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a request body sent at `timestamp`
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * When a delivery that failed `attemptCount` times should be retried, or
+ * null once the retries have run out
+ */
+export function getNextAttemptAt(attemptCount: number, now = new Date()): Date | null {
+  return attemptCount < MAX_ATTEMPTS
+    ? new Date(now.getTime() + RETRY_DELAYS_MS[attemptCount - 1])
+    : null;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Refuse endpoints whose host is, or resolves to, a non-public address.
+ * Checked when the endpoint is saved and again before every request, since
+ * DNS can change in between.
+ */
+async function assertPublicHost(url: URL) {
+  if (process.env.ESIGNATURE_WEBHOOK_ALLOW_PRIVATE === 'true') return;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true })).map(result => result.address);
+  } catch {
+    throw new ESignatureError(`Could not resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new ESignatureError('Webhook URLs must point to a public address', 400, 'private_webhook_host');
+  }
+}
+
+async function validateEndpointUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ESignatureError('Enter a valid webhook URL');
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new ESignatureError('Webhook URLs must use http or https');
+  }
+  if (parsed.protocol === 'http:' && process.env.NODE_ENV === 'production') {
+    throw new ESignatureError('Webhook URLs must use https');
+  }
+  if (parsed.username || parsed.password) {
+    throw new ESignatureError('Webhook URLs cannot contain credentials');
+  }
+  await assertPublicHost(parsed);
+
+  return parsed.toString();
+}
+
+function validateEvents(events: unknown): WebhookEvent[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new ESignatureError('Choose at least one event');
+  }
+
+  const unknown = events.filter(event => !isWebhookEvent(event));
+  if (unknown.length > 0) {
+    throw new ESignatureError(`Unknown webhook event: ${unknown.join(', ')}`);
+  }
+
+  return Array.from(new Set(events as WebhookEvent[]));
+}
+
+export async function listWebhookEndpoints() {
+  const endpoints = await prisma.eSignatureWebhookEndpoint.findMany({
+    orderBy: { createdAt: 'desc' },
+    select: {
+      ...endpointSelect,
+      deliveries: {
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { status: true, createdAt: true, lastResponseStatus: true },
+      },
+    },
+  });
+
+  return endpoints.map(({ deliveries, ...endpoint }) => ({
+    ...endpoint,
+    lastDelivery: deliveries[0] || null,
+  }));
+}
+
+/**
+ * Create an endpoint. The signing secret is only returned here and when it
+ * is rotated.
+ */
+export async function createWebhookEndpoint(input: WebhookEndpointInput, userId: string) {
+  if (!input.url?.trim()) {
+    throw new ESignatureError('A webhook URL is required');
+  }
+
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.eSignatureWebhookEndpoint.create({
+    data: {
+      url: await validateEndpointUrl(input.url.trim()),
+      description: input.description?.trim() || null,
+      events: validateEvents(input.events),
+      isActive: input.isActive ?? true,
+      secret,
+      createdById: userId,
+    },
+    select: endpointSelect,
+  });
+
+  return { ...endpoint, secret };
+}
+
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  input: WebhookEndpointInput & { rotateSecret?: boolean }
+) {
+  const existing = await prisma.eSignatureWebhookEndpoint.findUnique({ where: { id: endpointId } });
+  if (!existing) {
+    throw new ESignatureError('Webhook endpoint not found', 404);
+  }
+
+  const secret = input.rotateSecret ? generateWebhookSecret() : undefined;
+  const endpoint = await prisma.eSignatureWebhookEndpoint.update({
+    where: { id: endpointId },
+    data: {
+      url: input.url !== undefined ? await validateEndpointUrl(input.url.trim()) : undefined,
+      description: input.description !== undefined ? input.description?.trim() || null : undefined,
+      events: input.events !== undefined ? validateEvents(input.events) : undefined,
+      isActive: input.isActive,
+      secret,
+    },
+    select: endpointSelect,
+  });
+
+  return secret ? { ...endpoint, secret } : endpoint;
+}
+
+export async function deleteWebhookEndpoint(endpointId: string) {
+  const existing = await prisma.eSignatureWebhookEndpoint.findUnique({ where: { id: endpointId } });
+  if (!existing) {
+    throw new ESignatureError('Webhook endpoint not found', 404);
+  }
+
+  await prisma.$transaction([
+    prisma.eSignatureWebhookDelivery.deleteMany({ where: { endpointId } }),
+    prisma.eSignatureWebhookEndpoint.delete({ where: { id: endpointId } }),
+  ]);
+}
+
+/**
+ * An endpoint's delivery log, newest first
+ */
+export async function listWebhookDeliveries(
+  endpointId: string,
+  options: { status?: string | null; limit?: number } = {}
+) {
+  const endpoint = await prisma.eSignatureWebhookEndpoint.findUnique({
+    where: { id: endpointId },
+    select: { id: true },
+  });
+  if (!endpoint) {
+    throw new ESignatureError('Webhook endpoint not found', 404);
+  }
+
+  return prisma.eSignatureWebhookDelivery.findMany({
+    where: {
+      endpointId,
+      status: options.status || undefined,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit || 50,
+    select: {
+      id: true,
+      event: true,
+      documentId: true,
+      status: true,
+      attemptCount: true,
+      nextAttemptAt: true,
+      lastAttemptAt: true,
+      lastResponseStatus: true,
+      lastResponseBody: true,
+      lastError: true,
+      deliveredAt: true,
+      redeliveryOfId: true,
+      createdAt: true,
+      payload: true,
+    },
+  });
+}
+
+/**
+ * Queue deliveries for an audit entry. Called while the entry is written, so
+ * a rolled back event never reaches an endpoint.
+ */
+export async function enqueueWebhookDeliveries(
+  client: Client,
+  entry: {
+    id: string;
+    documentId: string;
+    action: AuditAction;
+    description?: string | null;
+    signerId?: string | null;
+    timestamp: Date;
+  }
+) {
+  if (!isWebhookEvent(entry.action)) return;
+
+  const endpoints = await client.eSignatureWebhookEndpoint.findMany({
+    where: { isActive: true, events: { has: entry.action } },
+    select: { id: true },
+  });
+  if (endpoints.length === 0) return;
+
+  const [document, signer] = await Promise.all([
+    client.eSignatureDocument.findUnique({
+      where: { id: entry.documentId },
+      select: { id: true, title: true, status: true, dealId: true, contactId: true, expiresAt: true, completedAt: true },
+    }),
+    entry.signerId
+      ? client.signerWorkflow.findUnique({
+          where: { id: entry.signerId },
+          select: { id: true, signerName: true, signerEmail: true, signerRole: true, status: true, signingOrder: true },
+        })
+      : null,
+  ]);
+
+  // The audit entry id doubles as the event id so receivers can ignore redeliveries
+  const payload = {
+    id: entry.id,
+    event: entry.action,
+    createdAt: entry.timestamp.toISOString(),
+    description: entry.description ?? null,
+    data: {
+      document,
+      signer: signer
+        ? {
+            id: signer.id,
+            name: signer.signerName,
+            email: signer.signerEmail,
+            role: signer.signerRole,
+            status: signer.status,
+            signingOrder: signer.signingOrder,
+          }
+        : null,
+    },
+  };
+
+  // Dates become ISO strings, exactly as they will be sent
+  const body = JSON.parse(JSON.stringify(payload));
+
+  await client.eSignatureWebhookDelivery.createMany({
+    data: endpoints.map(endpoint => ({
+      endpointId: endpoint.id,
+      documentId: entry.documentId,
+      auditLogId: entry.id,
+      event: entry.action,
+      payload: body,
+      status: 'PENDING',
+      attemptCount: 0,
+      nextAttemptAt: entry.timestamp,
+    })),
+  });
+}
+
+/**
+ * Take a due delivery for this run by pushing its next attempt out by the
+ * lease. Returns false when another run or a manual redelivery got there first.
+ */
+async function claimDelivery(delivery: ESignatureWebhookDelivery) {
+  const { count } = await prisma.eSignatureWebhookDelivery.updateMany({
+    where: { id: delivery.id, status: 'PENDING', nextAttemptAt: delivery.nextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) },
+  });
+  return count > 0;
+}
+
+/**
+ * Send one claimed delivery and record the outcome. A failed attempt is
+ * scheduled for retry until MAX_ATTEMPTS is reached.
+ */
+async function attemptDelivery(delivery: ESignatureWebhookDelivery, endpoint: { url: string; secret: string }) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attemptCount = delivery.attemptCount + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    await assertPublicHost(new URL(endpoint.url));
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ESignature-Webhooks/1.0',
+        'X-ESignature-Event': delivery.event,
+        'X-ESignature-Delivery': delivery.id,
+        'X-ESignature-Signature': signWebhookPayload(endpoint.secret, body, timestamp),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+    if (!response.ok) {
+      error = `Endpoint responded with ${response.status}`;
+    }
+  } catch (caught) {
+    error = controller.signal.aborted
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+      : caught instanceof ESignatureError ? caught.message
+      : caught instanceof Error ? caught.message : 'Request failed';
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const now = new Date();
+  const nextAttemptAt = error ? getNextAttemptAt(attemptCount, now) : null;
+  const status: WebhookDeliveryStatus = !error ? 'DELIVERED' : nextAttemptAt ? 'PENDING' : 'FAILED';
+
+  return prisma.eSignatureWebhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attemptCount,
+      lastAttemptAt: now,
+      lastResponseStatus: responseStatus,
+      lastResponseBody: responseBody,
+      lastError: error,
+      deliveredAt: status === 'DELIVERED' ? now : null,
+      nextAttemptAt,
+    },
+  });
+}
+
+/**
+ * Send deliveries that are due, oldest first. Intended to be run on a
+ * schedule.
+ */
+export async function processWebhookDeliveries(now = new Date()): Promise<WebhookRunSummary> {
+  const summary: WebhookRunSummary = { delivered: 0, retrying: 0, failed: 0, failures: [] };
+
+  const due = await prisma.eSignatureWebhookDelivery.findMany({
+    // Deliveries for a disabled endpoint wait until it is enabled again
+    where: { status: 'PENDING', nextAttemptAt: { lte: now }, endpoint: { isActive: true } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: DELIVERY_BATCH_SIZE,
+    include: { endpoint: { select: { url: true, secret: true } } },
+  });
+
+  for (const delivery of due) {
+    try {
+      if (!(await claimDelivery(delivery))) continue;
+
+      const result = await attemptDelivery(delivery, delivery.endpoint);
+      if (result.status === 'DELIVERED') {
+        summary.delivered++;
+      } else {
+        if (result.status === 'FAILED') {
+          summary.failed++;
+        } else {
+          summary.retrying++;
+        }
+        summary.failures.push({
+          deliveryId: delivery.id,
+          endpointId: delivery.endpointId,
+          error: result.lastError || 'Delivery failed',
+        });
+      }
+    } catch (error) {
+      console.error(`Error delivering webhook ${delivery.id}:`, error);
+      summary.failures.push({
+        deliveryId: delivery.id,
+        endpointId: delivery.endpointId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Send a logged delivery's payload again right away. A delivery still
+ * waiting to retry is simply retried now; otherwise the attempt is logged
+ * as a new delivery that retries on its own schedule if it fails.
+ */
+export async function redeliverWebhook(endpointId: string, deliveryId: string) {
+  const original = await prisma.eSignatureWebhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: { select: { url: true, secret: true } } },
+  });
+
+  if (!original || original.endpointId !== endpointId) {
+    throw new ESignatureError('Webhook delivery not found', 404);
+  }
+  if (original.status === 'PENDING') {
+    if (!(await claimDelivery(original))) {
+      throw new ESignatureError('This delivery is being sent right now', 409, 'delivery_in_progress');
+    }
+    return attemptDelivery(original, original.endpoint);
+  }
+
+  const redelivery = await prisma.eSignatureWebhookDelivery.create({
+    data: {
+      endpointId,
+      documentId: original.documentId,
+      auditLogId: original.auditLogId,
+      event: original.event,
+      payload: original.payload as Prisma.InputJsonValue,
+      status: 'PENDING',
+      attemptCount: 0,
+      // Held by this request so a scheduled run does not send it as well
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+      redeliveryOfId: original.id,
+    },
+  });
+
+  return attemptDelivery(redelivery, original.endpoint);
+}
@@ -0,0 +1,410 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/esignature-audit';
+import { sendEmail, getSigningUrl, escapeHtml } from '@/lib/esignature-email';
+import { ESignatureError } from '@/lib/esignature-errors';
+import { finalizeCompletedDocument } from '@/lib/esignature-completion';
+import { applyDocumentCorrection } from '@/lib/esignature-corrections';
+import { assignSigningToken, revokeSigningTokens } from '@/lib/esignature-tokens';
+import {
+  canSignerSignNow,
+  getActiveSigningGroup,
+  getEffectiveSigners,
+  getSigningGroups,
+  isSigningGroupBlocked,
+  isSignerSuperseded,
+  SigningGroupMember,
+} from '@/lib/esignature-utils';
+
+interface InvitationOptions {
+  emailSubject?: string;
+  emailMessage?: string;
+  userId?: string;
+}
+
+/**
+ * Email a signer their signing link
+ */
+export async function sendSigningInvitation(
+  signer: { signerName: string; signerEmail: string; signingToken: string | null },
+  document: { title: string },
+  options: InvitationOptions = {}
+) {
+  if (!signer.signingToken) {
+    throw new ESignatureError('Signer has no active signing link');
+  }
+  const signingUrl = getSigningUrl(signer.signingToken);
+
+  await sendEmail({
+    to: signer.signerEmail,
+    subject: options.emailSubject || `Please sign: ${document.title}`,
+    html: `
+      <p>Hi ${escapeHtml(signer.signerName)},</p>
+      <p>You have been asked to sign <strong>${escapeHtml(document.title)}</strong>.</p>
+      ${options.emailMessage ? `<p>${escapeHtml(options.emailMessage)}</p>` : ''}
+      <p><a href="${signingUrl}">Review and sign the document</a></p>
+    `,
+    text: `You have been asked to sign ${document.title}. ${signingUrl}`,
+  });
+}
+
+/**
+ * Invite every pending signer in the active signing group
+ */
+async function releaseActiveSigningGroup(documentId: string, options: InvitationOptions = {}) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true },
+  });
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+
+  const activeGroup = getActiveSigningGroup(getEffectiveSigners(document, document.signerWorkflows));
+  if (!activeGroup) return [];
+
+  const invited = [];
+  for (const member of activeGroup.signers) {
+    if (member.status !== 'PENDING') continue;
+
+    await prisma.signerWorkflow.update({
+      where: { id: member.id },
+      data: { status: 'SENT', sentAt: new Date() },
+    });
+    const signer = await assignSigningToken(member.id);
+
+    await sendSigningInvitation(signer, document, options);
+    await recordAuditEvent({
+      documentId,
+      action: 'signer_invited',
+      description: `Signing invitation sent to ${signer.signerName} (${signer.signerEmail})`,
+      userId: options.userId,
+      signerId: signer.id,
+      metadata: {
+        signingGroup: activeGroup.order,
+        groupMode: activeGroup.mode,
+      },
+    });
+
+    invited.push(signer);
+  }
+
+  return invited;
+}
+
+/**
+ * Mark a draft as sent and invite its first signers. If an invitation fails
+ * the document goes back to draft with `restore` applied, and signers
+ * invited during the attempt return to pending with their links revoked.
+ */
+async function releaseWithRollback<T>(
+  documentId: string,
+  data: { sentAt?: Date },
+  release: () => Promise<T>,
+  restore: Prisma.ESignatureDocumentUpdateManyMutationInput = {}
+) {
+  const claimed = await prisma.eSignatureDocument.updateMany({
+    where: { id: documentId, status: 'DRAFT' },
+    data: { status: 'SENT', ...data },
+  });
+  if (claimed.count === 0) {
+    throw new ESignatureError('Only draft documents can be sent', 409);
+  }
+
+  try {
+    return await release();
+  } catch (error) {
+    // Nobody is invited while the document is a draft, so every SENT signer came from this attempt
+    await prisma.$transaction(async (tx) => {
+      await tx.signerWorkflow.updateMany({
+        where: { documentId, status: 'SENT' },
+        data: { status: 'PENDING', sentAt: null, signingToken: null, tokenExpiresAt: null },
+      });
+      await tx.eSignatureDocument.updateMany({
+        where: { id: documentId, status: { in: ['SENT', 'IN_PROGRESS'] } },
+        data: { status: 'DRAFT', ...(data.sentAt && { sentAt: null }), ...restore },
+      });
+    });
+    throw error;
+  }
+}
+
+/**
+ * Send a draft document: release the first signing group. A document being
+ * corrected keeps the signatures its changes did not touch and continues
+ * from wherever that leaves the workflow.
+ */
+export async function sendDocumentForSigning(
+  documentId: string,
+  options: InvitationOptions & { ipAddress?: string } = {}
+) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: {
+      signerWorkflows: true,
+      _count: { select: { signatureFields: true } },
+    },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (document.status !== 'DRAFT') {
+    throw new ESignatureError('Only draft documents can be sent');
+  }
+  if (document.signerWorkflows.length === 0) {
+    throw new ESignatureError('Please add at least one signer before sending');
+  }
+  if (document._count.signatureFields === 0) {
+    throw new ESignatureError('Please add signature fields before sending');
+  }
+
+  if (document.correctionSnapshot) {
+    // Correct only once the send is claimed, and keep the snapshot if the resend fails
+    let correction = null as Awaited<ReturnType<typeof applyDocumentCorrection>>;
+    const result = await releaseWithRollback(
+      documentId,
+      {},
+      async () => {
+        correction = await applyDocumentCorrection(documentId, options);
+        return advanceSigningWorkflow(documentId, options);
+      },
+      {
+        correctionSnapshot: document.correctionSnapshot as Prisma.InputJsonValue,
+        correctionStartedAt: document.correctionStartedAt,
+      }
+    );
+
+    await recordAuditEvent({
+      documentId,
+      action: 'document_sent',
+      description: 'Corrected document resent for signing',
+      userId: options.userId,
+      ipAddress: options.ipAddress,
+      metadata: { corrected: true, invited: 'invited' in result ? result.invited : 0 },
+    });
+
+    return { ...result, correction };
+  }
+
+  const groups = getSigningGroups(getEffectiveSigners(document, document.signerWorkflows));
+  const invited = await releaseWithRollback(
+    documentId,
+    { sentAt: new Date() },
+    () => releaseActiveSigningGroup(documentId, options)
+  );
+
+  await recordAuditEvent({
+    documentId,
+    action: 'document_sent',
+    description: `Document sent for signing to ${invited.map(s => s.signerName).join(', ')}`,
+    userId: options.userId,
+    ipAddress: options.ipAddress,
+    metadata: {
+      signingGroups: groups.map(group => ({
+        order: group.order,
+        mode: group.mode,
+        signers: group.signers.length,
+      })),
+    },
+  });
+
+  return { invited: invited.length, groups: groups.length };
+}
+
+/**
+ * Move the workflow forward after a signer finishes: release the next group
+ * once the current one is complete, or complete the document.
+ */
+export async function advanceSigningWorkflow(documentId: string, options: InvitationOptions = {}) {
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true },
+  });
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+
+  const signers = getEffectiveSigners(document, document.signerWorkflows);
+  const activeGroup = getActiveSigningGroup(signers);
+
+  if (!activeGroup) {
+    // Two last signatures can arrive together; only one request completes
+    const { count } = await prisma.eSignatureDocument.updateMany({
+      where: { id: documentId, status: { in: ['SENT', 'IN_PROGRESS'] } },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+    if (count === 0) {
+      return { status: 'COMPLETED' as const };
+    }
+
+    await revokeSigningTokens({ documentId });
+    await recordAuditEvent({
+      documentId,
+      action: 'signing_completed',
+      description: 'All signing groups are complete',
+    });
+    // The signature is already recorded; the final PDF is rebuilt on first download if this fails
+    try {
+      await finalizeCompletedDocument(documentId);
+    } catch (error) {
+      console.error(`Error finalizing document ${documentId}:`, error);
+    }
+    return { status: 'COMPLETED' as const };
+  }
+
+  // A declined signer stops the workflow until the sender corrects it
+  if (isSigningGroupBlocked(activeGroup)) {
+    return { status: document.status, blocked: true };
+  }
+
+  if (document.status === 'SENT' && signers.some(s => s.status === 'SIGNED')) {
+    await prisma.eSignatureDocument.update({
+      where: { id: documentId },
+      data: { status: 'IN_PROGRESS' },
+    });
+  }
+
+  const invited = await releaseActiveSigningGroup(documentId, options);
+  return { status: 'IN_PROGRESS' as const, invited: invited.length };
+}
+
+/**
+ * Throw when it is not yet this signer's turn, or their group no longer
+ * needs them
+ */
+export function assertSignerCanSign(
+  document: { signingOrder?: boolean | null; signerWorkflows: SigningGroupMember[] },
+  signerId: string
+) {
+  const signers = getEffectiveSigners(document, document.signerWorkflows);
+
+  if (isSignerSuperseded(signers, signerId)) {
+    throw new ESignatureError('Another member of your signing group has already signed', 409, 'group_complete');
+  }
+  if (!canSignerSignNow(signers, signerId)) {
+    throw new ESignatureError('Please wait for previous signers to complete signing', 423, 'not_your_turn');
+  }
+}
+
+/**
+ * Replace a signer's link with a fresh one and email it to them. The old
+ * link stops working immediately.
+ */
+export async function reissueSigningLink(
+  signerId: string,
+  options: { userId?: string; ipAddress?: string } = {}
+) {
+  const existing = await prisma.signerWorkflow.findUnique({
+    where: { id: signerId },
+    include: { document: true },
+  });
+
+  if (!existing) {
+    throw new ESignatureError('Signer not found', 404);
+  }
+  if (!['SENT', 'IN_PROGRESS'].includes(existing.document.status)) {
+    throw new ESignatureError('Document is not out for signature');
+  }
+  if (existing.status !== 'SENT' && existing.status !== 'VIEWED') {
+    throw new ESignatureError('Signer is not waiting to sign');
+  }
+
+  // An emailed link means the signer is no longer being hosted in person
+  if (existing.hostedAt) {
+    await prisma.signerWorkflow.update({
+      where: { id: signerId },
+      data: { hostUserId: null, hostedAt: null, hostAttestation: null },
+    });
+  }
+
+  const signer = await assignSigningToken(signerId);
+  await sendSigningInvitation(signer, existing.document, {
+    emailSubject: `New signing link: ${existing.document.title}`,
+  });
+
+  await recordAuditEvent({
+    documentId: existing.documentId,
+    action: 'signing_link_reissued',
+    description: `New signing link sent to ${signer.signerName} (${signer.signerEmail}); the previous link was revoked`,
+    userId: options.userId,
+    signerId,
+    ipAddress: options.ipAddress,
+    metadata: { expiresAt: signer.tokenExpiresAt },
+  });
+
+  return signer;
+}
+
+/**
+ * Void a document that is still in progress. Signing links stop working
+ * straight away and signers who were waiting are told why.
+ */
+export async function voidDocument(
+  documentId: string,
+  reason: string,
+  options: { userId?: string; ipAddress?: string } = {}
+) {
+  if (!reason?.trim()) {
+    throw new ESignatureError('A reason is required to void a document');
+  }
+
+  const document = await prisma.eSignatureDocument.findUnique({
+    where: { id: documentId },
+    include: { signerWorkflows: true },
+  });
+
+  if (!document) {
+    throw new ESignatureError('Document not found', 404);
+  }
+  if (!['DRAFT', 'SENT', 'IN_PROGRESS'].includes(document.status)) {
+    throw new ESignatureError(`A ${document.status.toLowerCase()} document cannot be voided`);
+  }
+
+  const pendingSigners = document.signerWorkflows.filter(s => s.status === 'SENT' || s.status === 'VIEWED');
+
+  const revokedLinks = await prisma.$transaction(async (tx) => {
+    await tx.eSignatureDocument.update({
+      where: { id: documentId },
+      data: {
+        status: 'VOIDED',
+        voidedAt: new Date(),
+        voidReason: reason.trim(),
+        voidedById: options.userId,
+      },
+    });
+
+    const revoked = await revokeSigningTokens({ documentId }, tx);
+
+    await recordAuditEvent({
+      documentId,
+      action: 'document_voided',
+      description: `Document voided: ${reason.trim()}`,
+      userId: options.userId,
+      ipAddress: options.ipAddress,
+      metadata: {
+        reason: reason.trim(),
+        previousStatus: document.status,
+        revokedLinks: revoked,
+        notifiedSigners: pendingSigners.map(s => s.signerEmail),
+      },
+    }, tx);
+
+    return revoked;
+  });
+
+  for (const signer of pendingSigners) {
+    await sendEmail({
+      to: signer.signerEmail,
+      subject: `${document.title} has been voided`,
+      html: `
+        <p>Hi ${escapeHtml(signer.signerName)},</p>
+        <p><strong>${escapeHtml(document.title)}</strong> has been voided by the sender and no longer needs your signature.</p>
+        <p>Reason: ${escapeHtml(reason.trim())}</p>
+      `,
+      text: `${document.title} has been voided and no longer needs your signature. Reason: ${reason.trim()}`,
+    });
+  }
+
+  return { revokedLinks, notifiedSigners: pendingSigners.length };
+}
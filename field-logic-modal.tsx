@@ -0,0 +1,337 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  FieldCondition,
+  FieldConditionOperator,
+  getFieldTypeDisplayName,
+  getFormulaReferences,
+  isChoiceField,
+  normalizeFieldOptions,
+  SignatureFieldType,
+  validateFieldLogic,
+} from '@/lib/esignature-utils';
+
+export interface LogicEditableField {
+  id: string;
+  type: SignatureFieldType;
+  label?: string;
+  pageNumber: number;
+  required: boolean;
+  signerId?: string | null;
+  showWhen?: FieldCondition | null;
+  formula?: string | null;
+  options?: string[] | null;
+}
+
+interface FieldLogicModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string;
+  field: LogicEditableField | null;
+  allFields: LogicEditableField[];
+  /** When given, the field can be reassigned to one of these signers */
+  signers?: Array<{ id: string; signerName: string; signerRole?: string }>;
+  onSaved: () => void;
+}
+
+const OPERATOR_LABELS: Record<FieldConditionOperator, string> = {
+  checked: 'is checked',
+  unchecked: 'is not checked',
+  equals: 'equals',
+  not_equals: 'does not equal',
+  filled: 'is filled in',
+  empty: 'is empty',
+};
+
+const NO_CONDITION = 'always';
+const ANY_SIGNER = 'any';
+
+export function describeField(field: Pick<LogicEditableField, 'label' | 'type' | 'pageNumber'>) {
+  return `${field.label || getFieldTypeDisplayName(field.type)} (page ${field.pageNumber})`;
+}
+
+/**
+ * Show a formula with field labels in place of field ids
+ */
+export function describeFormula(formula: string, fields: LogicEditableField[]) {
+  return formula.replace(/\{([^{}]+)\}/g, (ref, id: string) => {
+    const field = fields.find(candidate => candidate.id === id.trim());
+    return field ? `[${field.label || getFieldTypeDisplayName(field.type)}]` : ref;
+  });
+}
+
+export function FieldLogicModal({ isOpen, onClose, documentId, field, allFields, signers, onSaved }: FieldLogicModalProps) {
+  const [label, setLabel] = useState('');
+  const [required, setRequired] = useState(true);
+  const [signerId, setSignerId] = useState(ANY_SIGNER);
+  const [conditionFieldId, setConditionFieldId] = useState(NO_CONDITION);
+  const [operator, setOperator] = useState<FieldConditionOperator>('checked');
+  const [conditionValue, setConditionValue] = useState('');
+  const [formula, setFormula] = useState('');
+  const [optionsText, setOptionsText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && field) {
+      setLabel(field.label || '');
+      setRequired(field.required);
+      setSignerId(field.signerId || ANY_SIGNER);
+      setConditionFieldId(field.showWhen?.fieldId || NO_CONDITION);
+      setOperator(field.showWhen?.operator || 'checked');
+      setConditionValue(field.showWhen?.value || '');
+      setFormula(field.formula || '');
+      setOptionsText((field.options || []).join('\n'));
+    }
+  }, [isOpen, field]);
+
+  if (!field) return null;
+
+  const otherFields = allFields.filter(candidate => candidate.id !== field.id);
+  const conditionField = otherFields.find(candidate => candidate.id === conditionFieldId);
+  const operators: FieldConditionOperator[] = conditionField?.type === 'CHECKBOX'
+    ? ['checked', 'unchecked']
+    : ['equals', 'not_equals', 'filled', 'empty'];
+  const numberSources = otherFields.filter(candidate => candidate.type === 'TEXT');
+  const conditionOptions = conditionField && isChoiceField(conditionField)
+    ? normalizeFieldOptions(conditionField.options)
+    : [];
+
+  const handleConditionFieldChange = (fieldId: string) => {
+    setConditionFieldId(fieldId);
+    const selected = otherFields.find(candidate => candidate.id === fieldId);
+    setOperator(selected?.type === 'CHECKBOX' ? 'checked' : 'equals');
+  };
+
+  const insertReference = (fieldId: string) => {
+    setFormula(prev => `${prev}${prev && !/[-+*/(]\s*$/.test(prev) ? ' + ' : ''}{${fieldId}}`);
+  };
+
+  const handleSave = async () => {
+    const showWhen: FieldCondition | null = conditionField
+      ? {
+          fieldId: conditionField.id,
+          operator,
+          ...(operator === 'equals' || operator === 'not_equals' ? { value: conditionValue } : {}),
+        }
+      : null;
+    const nextFormula = field.type === 'TEXT' && formula.trim() ? formula.trim() : null;
+    const options = isChoiceField(field) ? normalizeFieldOptions(optionsText.split('\n')) : undefined;
+
+    // Same checks the server runs, so most mistakes are caught before saving
+    const problem = validateFieldLogic(allFields.map(candidate =>
+      candidate.id === field.id ? { ...candidate, showWhen, formula: nextFormula, options } : candidate
+    ));
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/esignature/documents/${documentId}/fields/${field.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label,
+          required,
+          showWhen,
+          formula: nextFormula,
+          options,
+          ...(signers && { signerId: signerId === ANY_SIGNER ? null : signerId }),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update field');
+      }
+
+      toast.success('Field updated');
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error updating field:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Field Settings: {describeField(field)}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div className="col-span-2">
+              <Label htmlFor="field-label">Label</Label>
+              <Input
+                id="field-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={getFieldTypeDisplayName(field.type)}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="field-required" checked={required} onCheckedChange={setRequired} />
+              <Label htmlFor="field-required" className="font-normal">Required</Label>
+            </div>
+          </div>
+
+          {signers && signers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Filled in by</Label>
+              <Select value={signerId} onValueChange={setSignerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_SIGNER}>Any signer</SelectItem>
+                  {signers.map(signer => (
+                    <SelectItem key={signer.id} value={signer.id}>
+                      {signer.signerName}{signer.signerRole ? ` (${signer.signerRole})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Show this field</Label>
+            <Select value={conditionFieldId} onValueChange={handleConditionFieldChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CONDITION}>Always</SelectItem>
+                {otherFields.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    Only when {describeField(candidate)}...
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {conditionField && (
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={operator} onValueChange={(value) => setOperator(value as FieldConditionOperator)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map(option => (
+                      <SelectItem key={option} value={option}>{OPERATOR_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(operator === 'equals' || operator === 'not_equals') && conditionOptions.length > 0 && (
+                  <Select value={conditionValue} onValueChange={setConditionValue}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Value" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {conditionOptions.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {(operator === 'equals' || operator === 'not_equals') && conditionOptions.length === 0 && (
+                  <Input
+                    value={conditionValue}
+                    onChange={(e) => setConditionValue(e.target.value)}
+                    placeholder="Value"
+                  />
+                )}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Hidden fields are skipped by the signer and never required.
+            </p>
+          </div>
+
+          {isChoiceField(field) && (
+            <div className="space-y-2">
+              <Label htmlFor="field-options">Options</Label>
+              <Textarea
+                id="field-options"
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                placeholder={'Option 1\nOption 2'}
+                rows={4}
+              />
+              <p className="text-xs text-gray-500">
+                One option per line. The signer picks exactly one.
+              </p>
+            </div>
+          )}
+
+          {field.type === 'TEXT' && (
+            <div className="space-y-2">
+              <Label htmlFor="field-formula">Calculated value (optional)</Label>
+              <Input
+                id="field-formula"
+                value={formula}
+                onChange={(e) => setFormula(e.target.value)}
+                placeholder="e.g. {field} + {field} * 0.08"
+                className="font-mono text-xs"
+              />
+              {formula.trim() && getFormulaReferences(formula).length > 0 && (
+                <p className="text-xs text-gray-600">
+                  Reads as: {describeFormula(formula, allFields)}
+                </p>
+              )}
+              {numberSources.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {numberSources.map(source => (
+                    <Button
+                      key={source.id}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => insertReference(source.id)}
+                    >
+                      + {describeField(source)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Calculated fields fill in as the signer types and cannot be edited by them.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
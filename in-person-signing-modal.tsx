@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { PublicSigningView } from './public-signing-view';
+import { HandHeart, Tablet, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { getInPersonAttestation } from '@/lib/esignature-utils';
+
+interface InPersonSigner {
+  id: string;
+  signerName: string;
+  signerEmail: string;
+}
+
+type Step = 'attest' | 'handoff' | 'signing' | 'return';
+
+interface InPersonSigningModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string;
+  documentTitle: string;
+  hostName: string;
+  /** Signers who can sign right now */
+  signers: InPersonSigner[];
+  initialSignerId?: string | null;
+  /** Called after each signer hands the device back */
+  onSignerFinished: () => void | Promise<void>;
+}
+
+/**
+ * Host one signer after another on this device. The host attests that they
+ * are with the signer, hands the device over, and takes it back once the
+ * signer has finished.
+ */
+export function InPersonSigningModal({
+  isOpen,
+  onClose,
+  documentId,
+  documentTitle,
+  hostName,
+  signers,
+  initialSignerId,
+  onSignerFinished
+}: InPersonSigningModalProps) {
+  const [step, setStep] = useState<Step>('attest');
+  const [signerId, setSignerId] = useState<string | null>(null);
+  const [attested, setAttested] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [signingToken, setSigningToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('attest');
+    setSignerId(initialSignerId || signers[0]?.id || null);
+    setAttested(false);
+    setSigningToken(null);
+  }, [isOpen]);
+
+  const signer = signers.find(candidate => candidate.id === signerId) || null;
+  // Only the host may leave while the device is with them
+  const hostHasDevice = step === 'attest';
+
+  const handleStart = async () => {
+    if (!signer || !attested) return;
+
+    setStarting(true);
+    try {
+      const response = await fetch(`/api/esignature/documents/${documentId}/signers/${signer.id}/in-person`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ attested }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to start in-person signing');
+      }
+
+      const data = await response.json();
+      setSigningToken(data.signingToken);
+      setStep('handoff');
+    } catch (error) {
+      console.error('Error starting in-person signing:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start in-person signing');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleHostReturned = async () => {
+    await onSignerFinished();
+    setSigningToken(null);
+    setAttested(false);
+    setSignerId(null);
+    setStep('attest');
+  };
+
+  // The list refreshes after each signer, so pick whoever is next
+  useEffect(() => {
+    if (step === 'attest' && !signerId && signers.length > 0) {
+      setSignerId(signers[0].id);
+    }
+  }, [signers, step, signerId]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && hostHasDevice && !starting && onClose()}>
+      <DialogContent
+        className={step === 'signing'
+          ? 'max-w-none w-screen h-screen p-0 overflow-y-auto bg-gray-50'
+          : 'max-w-lg'}
+      >
+        {step === 'attest' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Tablet className="h-5 w-5" />
+                Sign In Person
+              </DialogTitle>
+            </DialogHeader>
+
+            {signers.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                Nobody is waiting to sign {documentTitle} right now.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Who is signing now?</Label>
+                  {signers.map(candidate => (
+                    <label
+                      key={candidate.id}
+                      className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer ${
+                        candidate.id === signerId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="in-person-signer"
+                        checked={candidate.id === signerId}
+                        onChange={() => {
+                          setSignerId(candidate.id);
+                          setAttested(false);
+                        }}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{candidate.signerName}</p>
+                        <p className="text-xs text-gray-600 truncate">{candidate.signerEmail}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+
+                {signer && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-gray-50">
+                    <Checkbox
+                      id="host-attestation"
+                      checked={attested}
+                      onCheckedChange={checked => setAttested(checked === true)}
+                    />
+                    <Label htmlFor="host-attestation" className="text-sm font-normal leading-snug">
+                      {getInPersonAttestation(hostName, signer.signerName)}
+                    </Label>
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-500">
+                  Starting replaces the link emailed to this signer. The audit log records that you hosted the signing.
+                </p>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose} disabled={starting}>
+                Done
+              </Button>
+              <Button onClick={handleStart} disabled={!signer || !attested || starting}>
+                {starting ? 'Starting...' : 'Hand Over Device'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'handoff' && signer && (
+          <div className="py-8 text-center space-y-6">
+            <HandHeart className="h-12 w-12 mx-auto text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold">Please hand this device to {signer.signerName}</h2>
+              <p className="text-sm text-gray-600 mt-2">
+                {signer.signerName} will confirm their identity and then review and sign {documentTitle}.
+              </p>
+            </div>
+            <Button size="lg" onClick={() => setStep('signing')}>
+              I am {signer.signerName}, continue
+            </Button>
+          </div>
+        )}
+
+        {step === 'signing' && signingToken && (
+          <div className="relative">
+            <div className="flex justify-end p-2">
+              <Button variant="ghost" size="sm" onClick={() => setStep('return')}>
+                Hand back to {hostName}
+              </Button>
+            </div>
+            <PublicSigningView signingToken={signingToken} onFinished={() => setStep('return')} />
+          </div>
+        )}
+
+        {step === 'return' && (
+          <div className="py-8 text-center space-y-6">
+            <UserCheck className="h-12 w-12 mx-auto text-green-600" />
+            <div>
+              <h2 className="text-xl font-semibold">Thank you{signer ? `, ${signer.signerName}` : ''}</h2>
+              <p className="text-sm text-gray-600 mt-2">
+                Please hand the device back to {hostName}.
+              </p>
+            </div>
+            <Button size="lg" onClick={handleHostReturned}>
+              I am {hostName}, continue
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
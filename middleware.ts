@@ -31,11 +31,13 @@ export const config = {
     /*
      * Match all request paths except for the ones starting with:
      * - api/auth (authentication API routes)
+     * - api/cron (scheduled jobs, authorized by CRON_SECRET)
+     * - sign/ and api/esignature/sign* (public signing pages, authorized by signing token)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - public folder
      */
-    '/((?!api/auth|_next/static|_next/image|favicon.ico|public).*)',
+    '/((?!api/auth|api/cron|sign/|api/esignature/sign|_next/static|_next/image|favicon.ico|public).*)',
   ],
 };
@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Page, pdfjs } from 'react-pdf';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ArrowRight, RotateCw, Trash2, FilePlus, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+
+const THUMBNAIL_WIDTH = 120;
+
+type PDFDocumentProxy = Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+
+interface PageTile {
+  key: string;
+  /** Page number in the document, or in the inserted PDF */
+  page: number;
+  inserted: boolean;
+  /** Clockwise rotation added in this session */
+  rotate: number;
+}
+
+interface PageOrganizerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string;
+  fileUrl: string;
+  signatureFields: Array<{ id: string; pageNumber: number }>;
+  onSaved: () => void | Promise<void>;
+}
+
+function initialTiles(pageCount: number): PageTile[] {
+  return Array.from({ length: pageCount }, (_, index) => ({
+    key: `current-${index + 1}`,
+    page: index + 1,
+    inserted: false,
+    rotate: 0,
+  }));
+}
+
+export function PageOrganizerModal({
+  isOpen,
+  onClose,
+  documentId,
+  fileUrl,
+  signatureFields,
+  onSaved
+}: PageOrganizerModalProps) {
+  const [documentPdf, setDocumentPdf] = useState<PDFDocumentProxy | null>(null);
+  const [insertPdf, setInsertPdf] = useState<PDFDocumentProxy | null>(null);
+  const [insertFile, setInsertFile] = useState<File | null>(null);
+  const [tiles, setTiles] = useState<PageTile[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const task = pdfjs.getDocument(fileUrl);
+    task.promise
+      .then(pdf => {
+        if (cancelled) return;
+        setDocumentPdf(pdf);
+        setTiles(initialTiles(pdf.numPages));
+      })
+      .catch(error => {
+        console.error('Error loading pages:', error);
+        toast.error('Failed to load document pages');
+      });
+
+    return () => {
+      cancelled = true;
+      task.destroy();
+      setDocumentPdf(null);
+      setInsertPdf(null);
+      setInsertFile(null);
+      setSelectedKey(null);
+    };
+  }, [isOpen, fileUrl]);
+
+  const fieldCount = (page: number) => signatureFields.filter(field => field.pageNumber === page).length;
+  const deletedPages = documentPdf
+    ? Array.from({ length: documentPdf.numPages }, (_, index) => index + 1)
+      .filter(page => !tiles.some(tile => !tile.inserted && tile.page === page))
+    : [];
+  const fieldsToRemove = deletedPages.reduce((sum, page) => sum + fieldCount(page), 0);
+  const hasChanges = deletedPages.length > 0 ||
+    tiles.some((tile, index) => tile.inserted || tile.rotate !== 0 || tile.page !== index + 1);
+
+  const moveTile = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= tiles.length) return;
+    const reordered = [...tiles];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTiles(reordered);
+  };
+
+  const rotateTile = (key: string) => {
+    setTiles(tiles.map(tile => tile.key === key ? { ...tile, rotate: (tile.rotate + 90) % 360 } : tile));
+  };
+
+  const removeTile = (tile: PageTile) => {
+    if (tiles.length === 1) {
+      toast.error('The document must keep at least one page');
+      return;
+    }
+    const fields = tile.inserted ? 0 : fieldCount(tile.page);
+    if (fields > 0 && !confirm(`Page ${tile.page} has ${fields} field${fields === 1 ? '' : 's'}, which will be removed with it. Continue?`)) {
+      return;
+    }
+    setTiles(tiles.filter(current => current.key !== tile.key));
+    if (selectedKey === tile.key) setSelectedKey(null);
+  };
+
+  const handleReset = () => {
+    if (!documentPdf) return;
+    setTiles(initialTiles(documentPdf.numPages));
+    setInsertPdf(null);
+    setInsertFile(null);
+    setSelectedKey(null);
+  };
+
+  const handleInsertFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.type !== 'application/pdf') {
+      toast.error('Only PDF files can be inserted');
+      return;
+    }
+    if (insertFile) {
+      toast.error('Save or reset before inserting pages from another PDF');
+      return;
+    }
+
+    try {
+      const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+      const newTiles = Array.from({ length: pdf.numPages }, (_, index) => ({
+        key: `inserted-${index + 1}`,
+        page: index + 1,
+        inserted: true,
+        rotate: 0,
+      }));
+
+      // New pages go after the selected page, or at the end
+      const selectedIndex = tiles.findIndex(tile => tile.key === selectedKey);
+      const position = selectedIndex === -1 ? tiles.length : selectedIndex + 1;
+      setTiles([...tiles.slice(0, position), ...newTiles, ...tiles.slice(position)]);
+      setInsertPdf(pdf);
+      setInsertFile(file);
+      toast.success(`${pdf.numPages} page${pdf.numPages === 1 ? '' : 's'} inserted`);
+    } catch (error) {
+      console.error('Error reading inserted PDF:', error);
+      toast.error('The PDF could not be read');
+    }
+  };
+
+  const handleSave = async () => {
+    const pages = tiles.map(tile => ({
+      page: tile.page,
+      ...(tile.inserted && { inserted: true }),
+      ...(tile.rotate && { rotate: tile.rotate }),
+    }));
+
+    setSaving(true);
+    try {
+      let body: BodyInit;
+      const headers: Record<string, string> = {};
+      if (insertFile && tiles.some(tile => tile.inserted)) {
+        const formData = new FormData();
+        formData.append('pages', JSON.stringify(pages));
+        formData.append('insert', insertFile);
+        body = formData;
+      } else {
+        body = JSON.stringify({ pages });
+        headers['Content-Type'] = 'application/json';
+      }
+
+      const response = await fetch(`/api/esignature/documents/${documentId}/pages`, {
+        method: 'POST',
+        headers,
+        body,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update pages');
+      }
+
+      const { removedFields } = await response.json();
+      toast.success(removedFields > 0
+        ? `Pages updated. ${removedFields} field${removedFields === 1 ? ' was' : 's were'} removed with deleted pages.`
+        : 'Pages updated');
+      await onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error updating pages:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update pages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !saving && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Organize Pages</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            Reorder, rotate or delete pages. Fields move with their pages. Select a page to insert new pages after it.
+          </p>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf"
+              className="hidden"
+              onChange={handleInsertFile}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!documentPdf || !!insertFile || saving}
+            >
+              <FilePlus className="h-4 w-4 mr-2" />
+              Insert PDF
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleReset} disabled={!hasChanges || saving}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        {fieldsToRemove > 0 && (
+          <p className="text-sm text-orange-700">
+            {fieldsToRemove} field{fieldsToRemove === 1 ? '' : 's'} on deleted pages will be removed.
+          </p>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {!documentPdf ? (
+            <div className="grid grid-cols-5 gap-4 animate-pulse">
+              {Array.from({ length: 5 }, (_, index) => (
+                <div key={index} className="h-40 bg-gray-200 rounded" />
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+              {tiles.map((tile, index) => {
+                const fields = tile.inserted ? 0 : fieldCount(tile.page);
+                return (
+                  <div
+                    key={tile.key}
+                    onClick={() => setSelectedKey(selectedKey === tile.key ? null : tile.key)}
+                    className={`rounded-lg border p-2 cursor-pointer transition-colors ${
+                      selectedKey === tile.key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center justify-center h-40 overflow-hidden bg-gray-50">
+                      <div style={{ transform: `rotate(${tile.rotate}deg)` }} className="transition-transform">
+                        <Page
+                          pdf={tile.inserted ? insertPdf! : documentPdf}
+                          pageNumber={tile.page}
+                          width={THUMBNAIL_WIDTH}
+                          renderTextLayer={false}
+                          renderAnnotationLayer={false}
+                          className="shadow-sm"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between mt-2 text-xs">
+                      <span className="font-medium">{index + 1}</span>
+                      {tile.inserted ? (
+                        <Badge variant="secondary" className="text-xs">New</Badge>
+                      ) : tile.page !== index + 1 ? (
+                        <span className="text-gray-500">was {tile.page}</span>
+                      ) : null}
+                      {fields > 0 && (
+                        <span className="text-gray-500">{fields} field{fields === 1 ? '' : 's'}</span>
+                      )}
+                    </div>
+
+                    <div className="flex items-center justify-between mt-1" onClick={event => event.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moveTile(index, -1)}
+                        disabled={index === 0 || saving}
+                        title="Move earlier"
+                      >
+                        <ArrowLeft className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => rotateTile(tile.key)}
+                        disabled={saving}
+                        title="Rotate clockwise"
+                      >
+                        <RotateCw className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-red-500 hover:text-red-700"
+                        onClick={() => removeTile(tile)}
+                        disabled={saving}
+                        title="Delete page"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => moveTile(index, 1)}
+                        disabled={index === tiles.length - 1 || saving}
+                        title="Move later"
+                      >
+                        <ArrowRight className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!hasChanges || saving}>
+            {saving ? 'Saving...' : 'Save Pages'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
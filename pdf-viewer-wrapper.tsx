@@ -3,6 +3,7 @@
 
 import dynamic from 'next/dynamic';
 import { Skeleton } from '@/components/ui/skeleton';
+import { SignatureFieldType } from '@/lib/esignature-utils';
 
 // Dynamic import with SSR disabled for better performance
 const EnhancedPDFViewer = dynamic(
@@ -26,7 +27,7 @@ export interface PDFViewerWrapperProps {
   fileUrl: string;
   signatureFields?: Array<{
     id: string;
-    type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+    type: SignatureFieldType;
     label?: string;
     pageNumber: number;
     x: number;
@@ -37,12 +38,17 @@ export interface PDFViewerWrapperProps {
     signerId?: string;
     value?: string;
     isSigned?: boolean;
+    formula?: string | null;
+    options?: string[] | null;
   }>;
   isEditable?: boolean;
   isSigningMode?: boolean;
   currentSignerId?: string;
   onFieldAdd?: (field: any) => void;
   onFieldUpdate?: (fieldId: string, value: string, signatureType?: string) => void;
+  onFieldInput?: (fieldId: string) => void;
+  onSignatureField?: (fieldId: string) => void;
+  activeFieldId?: string | null;
   onFieldRemove?: (fieldId: string) => void;
   className?: string;
   showThumbnails?: boolean;
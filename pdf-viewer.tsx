@@ -9,13 +9,26 @@ import { Badge } from '@/components/ui/badge';
 import { ZoomIn, ZoomOut, RotateCw, Download, ChevronLeft, ChevronRight } from 'lucide-react';
 import { SignaturePad } from './signature-pad';
 import { toast } from 'sonner';
+import { getFieldTypeDisplayName, SignatureFieldType } from '@/lib/esignature-utils';
 
 // Set up PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
 
+/** Size of a newly dropped field, as a percentage of the page */
+const NEW_FIELD_SIZES: Partial<Record<SignatureFieldType, { width: number; height: number }>> = {
+  SIGNATURE: { width: 20, height: 8 },
+  DATE: { width: 15, height: 5 },
+  DROPDOWN: { width: 20, height: 5 },
+  RADIO: { width: 20, height: 10 },
+  ATTACHMENT: { width: 20, height: 5 },
+  NAME: { width: 20, height: 5 },
+  EMAIL: { width: 20, height: 5 },
+  COMPANY: { width: 20, height: 5 },
+};
+
 interface SignatureFieldData {
   id: string;
-  type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+  type: SignatureFieldType;
   label?: string;
   pageNumber: number;
   x: number; // percentage
@@ -26,6 +39,7 @@ interface SignatureFieldData {
   signerId?: string;
   value?: string;
   isSigned?: boolean;
+  options?: string[] | null;
 }
 
 interface PDFViewerProps {
@@ -95,18 +109,19 @@ export function PDFViewer({
     const x = ((e.clientX - rect.left) / rect.width) * 100;
     const y = ((e.clientY - rect.top) / rect.height) * 100;
 
+    const type = draggedFieldType as SignatureFieldType;
+    const { width, height } = NEW_FIELD_SIZES[type] || { width: 10, height: 5 };
     const newField: Omit<SignatureFieldData, 'id'> = {
-      type: draggedFieldType as any,
+      type,
       pageNumber,
-      x: Math.max(0, Math.min(x - 5, 90)), // Center and constrain
-      y: Math.max(0, Math.min(y - 2, 95)),
-      width: draggedFieldType === 'SIGNATURE' ? 20 : draggedFieldType === 'DATE' ? 15 : 10,
-      height: draggedFieldType === 'SIGNATURE' ? 8 : 5,
+      x: Math.max(0, Math.min(x - 5, 100 - width)), // Center and constrain
+      y: Math.max(0, Math.min(y - 2, 100 - height)),
+      width,
+      height,
       required: true,
-      label: draggedFieldType === 'SIGNATURE' ? 'Signature' : 
-             draggedFieldType === 'INITIALS' ? 'Initials' :
-             draggedFieldType === 'DATE' ? 'Date' : 
-             draggedFieldType === 'TEXT' ? 'Text Field' : 'Checkbox'
+      label: getFieldTypeDisplayName(type),
+      // Choice fields start with placeholder options to rename in field settings
+      ...((type === 'DROPDOWN' || type === 'RADIO') && { options: ['Option 1', 'Option 2'] }),
     };
 
     onFieldAdd(newField);
@@ -199,8 +214,9 @@ export function PDFViewer({
             <span className="text-gray-600">
               {field.type === 'SIGNATURE' ? 'Sign' : 
                field.type === 'INITIALS' ? 'Init' :
-               field.type === 'DATE' ? 'Date' :
-               field.type === 'TEXT' ? 'Text' : '☐'}
+               field.type === 'CHECKBOX' ? '☐' :
+               field.type === 'RADIO' && field.options?.length ? field.options.join(' / ') :
+               getFieldTypeDisplayName(field.type)}
             </span>
           )}
         </div>
@@ -225,7 +241,13 @@ export function PDFViewer({
       { type: 'INITIALS', label: 'Initials', icon: '🔤' },
       { type: 'DATE', label: 'Date', icon: '📅' },
       { type: 'TEXT', label: 'Text', icon: '📝' },
-      { type: 'CHECKBOX', label: 'Checkbox', icon: '☐' }
+      { type: 'CHECKBOX', label: 'Checkbox', icon: '☐' },
+      { type: 'DROPDOWN', label: 'Dropdown', icon: '🔽' },
+      { type: 'RADIO', label: 'Radio Group', icon: '🔘' },
+      { type: 'ATTACHMENT', label: 'Attachment', icon: '📎' },
+      { type: 'NAME', label: 'Name', icon: '👤' },
+      { type: 'EMAIL', label: 'Email', icon: '✉️' },
+      { type: 'COMPANY', label: 'Company', icon: '🏢' }
     ];
 
     return (
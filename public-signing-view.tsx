@@ -6,6 +6,18 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { PDFViewerWrapper as PDFViewer } from './pdf-viewer-wrapper';
 import { SignaturePad } from './signature-pad';
 import { 
@@ -18,10 +30,27 @@ import {
   X,
   Send,
   Eye,
-  PenTool
+  PenTool,
+  ShieldCheck,
+  Lock,
+  Upload,
+  ArrowRight,
+  Play,
+  UserPlus
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
+import {
+  FieldCondition,
+  formatFileSize,
+  getFieldTypeDisplayName,
+  getHiddenFieldIds,
+  getNextRequiredField,
+  isCalculatedField,
+  MAX_ATTACHMENT_SIZE,
+  parseAttachmentValue,
+  SignatureFieldType,
+} from '@/lib/esignature-utils';
 
 interface SigningSession {
   signer: {
@@ -29,7 +58,7 @@ interface SigningSession {
     signerName: string;
     signerEmail: string;
     signerRole?: string;
-    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+    status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
     signedAt?: Date;
     document: {
       id: string;
@@ -38,11 +67,12 @@ interface SigningSession {
       filePath: string;
       status: string;
       createdAt: Date;
+      expiresAt?: Date | null;
     };
   };
   allFields: Array<{
     id: string;
-    type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX';
+    type: SignatureFieldType;
     label?: string;
     pageNumber: number;
     x: number;
@@ -51,6 +81,9 @@ interface SigningSession {
     height: number;
     required: boolean;
     signerId?: string;
+    showWhen?: FieldCondition | null;
+    formula?: string | null;
+    options?: string[];
     signature?: {
       id: string;
       signatureData: string;
@@ -63,46 +96,126 @@ interface SigningSession {
     };
   }>;
   canSign: boolean;
+  /** The sender allows this signer to hand the document to someone else */
+  canDelegate?: boolean;
   alreadySigned?: boolean;
 }
 
+interface VerificationChallenge {
+  method: 'NONE' | 'ACCESS_CODE' | 'EMAIL_OTP' | 'SMS_OTP' | 'IN_PERSON';
+  locked: boolean;
+  destination?: string;
+  attemptsRemaining: number;
+}
+
+interface PendingVerification {
+  verification: VerificationChallenge;
+  document: { title: string };
+  signerName: string;
+}
+
+interface SigningError {
+  code?: string;
+  message: string;
+}
+
+const SIGNING_ERROR_TITLES: Record<string, string> = {
+  invalid_token: 'Invalid Signing Link',
+  token_expired: 'Signing Link Expired',
+  token_revoked: 'Signing Link No Longer Valid',
+  document_voided: 'Document Voided',
+  document_expired: 'Document Expired',
+  not_your_turn: 'Not Ready for Your Signature',
+  group_complete: 'Signature No Longer Needed',
+};
+
+type AdoptableType = 'SIGNATURE' | 'INITIALS';
+
+/** A signature or initials the signer drew once and reuses for every matching field */
+interface AdoptedMark {
+  data: string;
+  type: 'drawn' | 'typed' | 'uploaded';
+}
+
 interface PublicSigningViewProps {
   signingToken: string;
+  /** Called once the signer has signed or declined, e.g. to hand the device back to an in-person host */
+  onFinished?: () => void;
 }
 
-export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
+export function PublicSigningView({ signingToken, onFinished }: PublicSigningViewProps) {
   const [session, setSession] = useState<SigningSession | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<SigningError | null>(null);
   const [signing, setSigning] = useState(false);
   const [currentFieldIndex, setCurrentFieldIndex] = useState(0);
-  const [showSignaturePad, setShowSignaturePad] = useState(false);
-  const [currentField, setCurrentField] = useState<any>(null);
+  const [pendingVerification, setPendingVerification] = useState<PendingVerification | null>(null);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [identityConfirmed, setIdentityConfirmed] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [sendingCode, setSendingCode] = useState(false);
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [inputFieldId, setInputFieldId] = useState<string | null>(null);
+  const [inputValue, setInputValue] = useState('');
+  const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
+  const [activeFieldId, setActiveFieldId] = useState<string | null>(null);
+  const [showDelegateDialog, setShowDelegateDialog] = useState(false);
+  const [delegate, setDelegate] = useState({ signerName: '', signerEmail: '', reason: '' });
+  const [delegating, setDelegating] = useState(false);
+  const [delegatedTo, setDelegatedTo] = useState<{ signerName: string; signerEmail: string } | null>(null);
+  const [adopted, setAdopted] = useState<Partial<Record<AdoptableType, AdoptedMark>>>({});
+  const [adopting, setAdopting] = useState<{ type: AdoptableType; fieldId?: string } | null>(null);
+
+  const adoptedStorageKey = `esignature-adopted:${signingToken}`;
 
   useEffect(() => {
     fetchSigningSession();
+    // Keep the adopted signature across a reload of this signing session
+    try {
+      const saved = window.sessionStorage.getItem(adoptedStorageKey);
+      setAdopted(saved ? JSON.parse(saved) : {});
+    } catch {
+      setAdopted({});
+    }
   }, [signingToken]);
 
+  const finished = session?.signer.status === 'SIGNED' || session?.signer.status === 'DECLINED';
+  useEffect(() => {
+    if (finished) onFinished?.();
+  }, [finished]);
+
+  // Guided signing moves on once the highlighted field has been filled
+  useEffect(() => {
+    if (!session || !activeFieldId) return;
+    const active = session.allFields.find(field => field.id === activeFieldId);
+    if (!active || active.signature) {
+      setActiveFieldId(findNextField(activeFieldId)?.id ?? null);
+    }
+  }, [session]);
+
   const fetchSigningSession = async () => {
     try {
       setLoading(true);
       const response = await fetch(`/api/esignature/sign/${signingToken}`);
       
       if (!response.ok) {
-        if (response.status === 404) {
-          setError('Invalid signing link or document not found');
-        } else if (response.status === 410) {
-          setError('This document has expired and can no longer be signed');
-        } else if (response.status === 423) {
-          setError('Please wait for previous signers to complete signing');
-        } else {
-          const errorData = await response.json();
-          setError(errorData.error || 'Failed to load signing session');
-        }
+        const errorData = await response.json().catch(() => ({}));
+        setError({
+          code: errorData.code,
+          message: errorData.error || 'Failed to load signing session',
+        });
         return;
       }
 
       const data = await response.json();
+
+      if (data.verificationRequired) {
+        setPendingVerification(data);
+        setSession(null);
+        return;
+      }
+
+      setPendingVerification(null);
       setSession(data);
       
       if (data.alreadySigned) {
@@ -110,27 +223,174 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
       }
     } catch (error) {
       console.error('Error fetching signing session:', error);
-      setError('Failed to load signing session');
+      setError({ message: 'Failed to load signing session' });
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSendCode = async () => {
+    setSendingCode(true);
+    try {
+      const response = await fetch(`/api/esignature/sign/${signingToken}/code`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send code');
+      }
+
+      setCodeSentTo(data.destination);
+      toast.success(`Code sent to ${data.destination}`);
+    } catch (error) {
+      console.error('Error sending verification code:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send code');
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!verificationCode.trim()) return;
+
+    setVerifying(true);
+    try {
+      const response = await fetch(`/api/esignature/sign/${signingToken}/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code: verificationCode }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Verification failed');
+        if (error.code === 'verification_locked' || error.code === 'invalid_code') {
+          await fetchSigningSession();
+        }
+        return;
+      }
+
+      setVerificationCode('');
+      setIdentityConfirmed(false);
+      toast.success('Identity verified');
+      await fetchSigningSession();
+    } catch (error) {
+      console.error('Error verifying identity:', error);
+      toast.error('Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // Fields whose show-when condition is not met are left out entirely
+  const getVisibleFields = () => {
+    if (!session) return [];
+
+    const hidden = getHiddenFieldIds(session.allFields.map(field => ({
+      ...field,
+      value: field.signature?.signatureData,
+    })));
+    return session.allFields.filter(field => !hidden.has(field.id));
+  };
+
   const getMyFields = () => {
     if (!session) return [];
     
-    return session.allFields.filter(field => 
+    return getVisibleFields().filter(field => 
       !field.signerId || field.signerId === session.signer.id
     );
   };
 
   const getRequiredFieldsForMe = () => {
     return getMyFields().filter(field => 
-      field.required && !field.signature
+      field.required && !field.signature && !isCalculatedField(field)
     );
   };
 
-  const handleFieldSign = async (fieldId: string, signatureData: string, signatureType: string) => {
+  /**
+   * The next unfilled required field after `afterFieldId` in reading order,
+   * wrapping to the first one
+   */
+  const findNextField = (afterFieldId?: string | null) => {
+    if (!session) return null;
+
+    // Unassigned fields can be filled by anyone, so they count as this signer's
+    const fields = session.allFields.map(field => ({
+      ...field,
+      signerId: field.signerId || session.signer.id,
+      value: field.signature?.signatureData,
+    }));
+    const after = fields.find(field => field.id === afterFieldId);
+    const later = after && getRequiredFieldsForMe()
+      .filter(field =>
+        field.pageNumber > after.pageNumber ||
+        (field.pageNumber === after.pageNumber && field.y > after.y))
+      .sort((a, b) => a.pageNumber - b.pageNumber || a.y - b.y)[0];
+
+    return later || getNextRequiredField(fields, session.signer.id);
+  };
+
+  const handleGuideNext = () => {
+    const next = findNextField(activeFieldId);
+    if (!next) {
+      toast.success('All required fields are complete');
+      setActiveFieldId(null);
+      return;
+    }
+    setActiveFieldId(next.id);
+  };
+
+  const saveAdopted = (marks: Partial<Record<AdoptableType, AdoptedMark>>) => {
+    setAdopted(marks);
+    try {
+      window.sessionStorage.setItem(adoptedStorageKey, JSON.stringify(marks));
+    } catch {
+      // Without storage the signer adopts again after a reload
+    }
+  };
+
+  // Signature and initials fields reuse the adopted mark; the first one of
+  // each kind asks the signer to adopt it
+  const handleSignatureField = (fieldId: string) => {
+    const field = session?.allFields.find(candidate => candidate.id === fieldId);
+    if (!field || (field.type !== 'SIGNATURE' && field.type !== 'INITIALS')) return;
+
+    const mark = adopted[field.type];
+    if (mark) {
+      handleFieldSign(fieldId, mark.data, mark.type);
+    } else {
+      setAdopting({ type: field.type, fieldId });
+    }
+  };
+
+  const handleAdopt = async (signatureData: string, signatureType: AdoptedMark['type']) => {
+    if (!adopting) return;
+
+    saveAdopted({ ...adopted, [adopting.type]: { data: signatureData, type: signatureType } });
+    const fieldId = adopting.fieldId;
+    setAdopting(null);
+    if (fieldId) {
+      await handleFieldSign(fieldId, signatureData, signatureType);
+    }
+  };
+
+  // Problems with the session itself reload it or replace the page with an
+  // explanation; returns true when the page was replaced
+  const handleSessionError = async (error: { code?: string; error?: string }) => {
+    if (error.code === 'verification_required' || error.code === 'verification_locked') {
+      await fetchSigningSession();
+    } else if (error.code && SIGNING_ERROR_TITLES[error.code]) {
+      setError({ code: error.code, message: error.error || '' });
+      return true;
+    }
+    return false;
+  };
+
+  const handleFieldSign = async (fieldId: string, signatureData: string, signatureType = 'typed') => {
     try {
       setSigning(true);
       
@@ -149,6 +409,9 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
 
       if (!response.ok) {
         const error = await response.json();
+        if (await handleSessionError(error)) {
+          return false;
+        }
         throw new Error(error.error || 'Failed to save signature');
       }
 
@@ -162,48 +425,77 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
       if (requiredFields.length === 1) { // This was the last required field
         toast.success('All required fields completed! Document signing finished.');
       }
+      return true;
     } catch (error) {
       console.error('Error saving signature:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to save signature');
+      return false;
     } finally {
       setSigning(false);
     }
   };
 
-  const handleFieldClick = (field: any) => {
-    if (field.signature) {
-      toast.info('This field has already been signed');
-      return;
-    }
-    
-    if (field.signerId && field.signerId !== session?.signer.id) {
-      toast.error('This field is assigned to another signer');
-      return;
+  const handleAttachmentUpload = async (fieldId: string, file: File) => {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast.error(`Files must be smaller than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+      return false;
     }
 
-    setCurrentField(field);
-    
-    if (field.type === 'SIGNATURE' || field.type === 'INITIALS') {
-      setShowSignaturePad(true);
-    } else if (field.type === 'DATE') {
-      const currentDate = new Date().toLocaleDateString();
-      handleFieldSign(field.id, currentDate, 'typed');
-    } else if (field.type === 'TEXT') {
-      const value = prompt('Enter text:');
-      if (value) {
-        handleFieldSign(field.id, value, 'typed');
+    try {
+      setSigning(true);
+
+      const formData = new FormData();
+      formData.append('fieldId', fieldId);
+      formData.append('file', file);
+
+      const response = await fetch(`/api/esignature/sign/${signingToken}/attachments`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        if (await handleSessionError(error)) {
+          return false;
+        }
+        throw new Error(error.error || 'Failed to upload attachment');
       }
-    } else if (field.type === 'CHECKBOX') {
-      const isChecked = field.value === 'checked';
-      handleFieldSign(field.id, isChecked ? '' : 'checked', 'typed');
+
+      await fetchSigningSession();
+      toast.success('Attachment uploaded');
+      return true;
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload attachment');
+      return false;
+    } finally {
+      setSigning(false);
     }
   };
 
-  const handleSignatureSave = (signatureData: string, signatureType: 'drawn' | 'typed' | 'uploaded') => {
-    if (currentField) {
-      handleFieldSign(currentField.id, signatureData, signatureType);
-      setShowSignaturePad(false);
-      setCurrentField(null);
+  // Choice, company and attachment fields are filled in through a dialog
+  const openFieldInput = (fieldId: string) => {
+    const field = session?.allFields.find(candidate => candidate.id === fieldId);
+    if (!field) return;
+
+    setInputFieldId(fieldId);
+    setInputValue(field.type === 'ATTACHMENT' ? '' : field.signature?.signatureData || '');
+    setAttachmentFile(null);
+  };
+
+  const closeFieldInput = () => {
+    setInputFieldId(null);
+    setInputValue('');
+    setAttachmentFile(null);
+  };
+
+  const handleFieldInputSubmit = async (field: SigningSession['allFields'][number]) => {
+    const saved = field.type === 'ATTACHMENT'
+      ? !!attachmentFile && await handleAttachmentUpload(field.id, attachmentFile)
+      : await handleFieldSign(field.id, inputValue.trim(), field.type === 'COMPANY' ? 'typed' : 'selected');
+
+    if (saved) {
+      closeFieldInput();
     }
   };
 
@@ -239,6 +531,57 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
     }
   };
 
+  const handleDelegate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!delegate.signerName.trim() || !delegate.signerEmail.trim()) return;
+
+    setDelegating(true);
+    try {
+      const response = await fetch(`/api/esignature/sign/${signingToken}/delegate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(delegate),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        if (await handleSessionError(error)) {
+          return;
+        }
+        throw new Error(error.error || 'Failed to delegate signing');
+      }
+
+      const data = await response.json();
+      setShowDelegateDialog(false);
+      setDelegatedTo(data.delegate);
+      onFinished?.();
+    } catch (error) {
+      console.error('Error delegating signing:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delegate signing');
+    } finally {
+      setDelegating(false);
+    }
+  };
+
+  if (delegatedTo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center">
+            <UserPlus className="h-12 w-12 mx-auto text-blue-600 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Document Handed On</h3>
+            <p className="text-gray-600">
+              {delegatedTo.signerName} ({delegatedTo.signerEmail}) will be asked to sign in your place.
+              Your signing link no longer works.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -255,12 +598,147 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
       <div className="min-h-screen flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
           <CardContent className="p-6 text-center">
-            <AlertTriangle className="h-12 w-12 mx-auto text-red-500 mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">Unable to Load Document</h3>
-            <p className="text-gray-600 mb-4">{error}</p>
+            {error.code === 'not_your_turn' ? (
+              <Clock className="h-12 w-12 mx-auto text-orange-500 mb-4" />
+            ) : (
+              <AlertTriangle className="h-12 w-12 mx-auto text-red-500 mb-4" />
+            )}
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {(error.code && SIGNING_ERROR_TITLES[error.code]) || 'Unable to Load Document'}
+            </h3>
+            <p className="text-gray-600 mb-4">{error.message}</p>
             <p className="text-sm text-gray-500">
-              If you believe this is an error, please contact the document sender.
+              {error.code === 'token_expired' || error.code === 'token_revoked'
+                ? 'The sender can send you a new link from their dashboard.'
+                : 'If you believe this is an error, please contact the document sender.'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (pendingVerification) {
+    const { verification } = pendingVerification;
+    const usesOtp = verification.method === 'EMAIL_OTP' || verification.method === 'SMS_OTP';
+    const inPerson = verification.method === 'IN_PERSON';
+
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {verification.locked ? (
+                <Lock className="h-5 w-5 text-red-500" />
+              ) : (
+                <ShieldCheck className="h-5 w-5 text-blue-600" />
+              )}
+              {inPerson ? 'Confirm You Are the Signer' : 'Verify Your Identity'}
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              {inPerson
+                ? <>You have been handed this device to sign <strong>{pendingVerification.document.title}</strong> in person.</>
+                : <>{pendingVerification.signerName}, you have been asked to sign{' '}
+                  <strong>{pendingVerification.document.title}</strong>.</>}
             </p>
+          </CardHeader>
+          <CardContent>
+            {verification.locked ? (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertTriangle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">
+                  {inPerson
+                    ? 'This signing session is locked after too many attempts. Please hand the device back to the host.'
+                    : 'This signing session is locked after too many incorrect codes. Please contact the document sender to unlock it.'}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <form onSubmit={handleVerify} className="space-y-4">
+                {usesOtp && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      {codeSentTo
+                        ? `Enter the 6-digit code we sent to ${codeSentTo}.`
+                        : `We will send a one-time code to ${verification.destination || 'you'}.`}
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={handleSendCode}
+                      disabled={sendingCode}
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {sendingCode ? 'Sending...' : codeSentTo ? 'Send a New Code' : 'Send Code'}
+                    </Button>
+                  </div>
+                )}
+
+                {inPerson && (
+                  <div className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      This document is for <strong>{pendingVerification.signerName}</strong>. Type your full
+                      name to confirm it is you. Your signature will be recorded as signed in person.
+                    </p>
+                    <div className="space-y-2">
+                      <Label htmlFor="verification-code">Your full name</Label>
+                      <Input
+                        id="verification-code"
+                        value={verificationCode}
+                        onChange={(e) => setVerificationCode(e.target.value)}
+                        autoComplete="off"
+                        autoFocus
+                      />
+                      <p className="text-xs text-gray-500">
+                        {verification.attemptsRemaining} attempt{verification.attemptsRemaining === 1 ? '' : 's'} remaining
+                      </p>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id="identity-confirmed"
+                        checked={identityConfirmed}
+                        onCheckedChange={(checked) => setIdentityConfirmed(checked === true)}
+                      />
+                      <Label htmlFor="identity-confirmed" className="text-sm font-normal leading-snug">
+                        I am {pendingVerification.signerName} and I will review and sign this document myself.
+                      </Label>
+                    </div>
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={verifying || !verificationCode.trim() || !identityConfirmed}
+                    >
+                      {verifying ? 'Confirming...' : 'Confirm and Open Document'}
+                    </Button>
+                  </div>
+                )}
+
+                {!inPerson && (!usesOtp || codeSentTo) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="verification-code">
+                      {verification.method === 'ACCESS_CODE' ? 'Access code from the sender' : 'Verification code'}
+                    </Label>
+                    <Input
+                      id="verification-code"
+                      value={verificationCode}
+                      onChange={(e) => setVerificationCode(e.target.value)}
+                      autoComplete="one-time-code"
+                      inputMode={usesOtp ? 'numeric' : 'text'}
+                      autoFocus
+                    />
+                    <p className="text-xs text-gray-500">
+                      {verification.attemptsRemaining} attempt{verification.attemptsRemaining === 1 ? '' : 's'} remaining
+                    </p>
+                  </div>
+                )}
+
+                {!inPerson && (!usesOtp || codeSentTo) && (
+                  <Button type="submit" className="w-full" disabled={verifying || !verificationCode.trim()}>
+                    {verifying ? 'Verifying...' : 'Verify and Open Document'}
+                  </Button>
+                )}
+              </form>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -286,14 +764,19 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
   const myFields = getMyFields();
   const requiredFields = getRequiredFieldsForMe();
   const isCompleted = session.signer.status === 'SIGNED' || requiredFields.length === 0;
+  const requiredTotal = myFields.filter(field => field.required && !isCalculatedField(field)).length;
+  const inputField = session.allFields.find(field => field.id === inputFieldId);
+  const currentAttachment = inputField?.type === 'ATTACHMENT'
+    ? parseAttachmentValue(inputField.signature?.signatureData)
+    : null;
 
   return (
     <>
-      <div className="max-w-6xl mx-auto p-4 space-y-6">
+      <div className={`max-w-6xl mx-auto p-2 sm:p-4 space-y-4 sm:space-y-6 ${isCompleted ? '' : 'pb-28 sm:pb-4'}`}>
         {/* Header */}
         <Card>
           <CardHeader>
-            <div className="flex items-start justify-between">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
               <div>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-6 w-6" />
@@ -304,7 +787,7 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
                 </p>
               </div>
               
-              <div className="text-right">
+              <div className="sm:text-right">
                 <Badge 
                   variant={isCompleted ? "default" : "secondary"}
                   className="mb-2"
@@ -319,8 +802,8 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
           </CardHeader>
           
           <CardContent>
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-4">
                 <div className="flex items-center gap-2">
                   <User className="h-4 w-4 text-gray-500" />
                   <span className="font-medium">{session.signer.signerName}</span>
@@ -339,6 +822,12 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
               
               {!isCompleted && (
                 <div className="flex items-center gap-2">
+                  {session.canDelegate && (
+                    <Button variant="outline" onClick={() => setShowDelegateDialog(true)}>
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Someone Else Should Sign
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     onClick={handleDeclineDocument}
@@ -372,7 +861,7 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
             <AlertDescription className="text-blue-800">
               <strong>Action required:</strong> Please complete {requiredFields.length} remaining signature field{requiredFields.length !== 1 ? 's' : ''}.
               <span className="block text-sm mt-1">
-                Click on the highlighted fields in the document below to sign.
+                Press Start to be taken to each field in turn, or tap the highlighted fields in the document.
               </span>
             </AlertDescription>
           </Alert>
@@ -385,12 +874,65 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
           </Alert>
         )}
 
+        {/* Deadline */}
+        {!isCompleted && session.signer.document.expiresAt &&
+          new Date(session.signer.document.expiresAt).getTime() - Date.now() < 7 * 24 * 60 * 60 * 1000 && (
+          <Alert className="border-yellow-200 bg-yellow-50">
+            <AlertTriangle className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-800">
+              This document expires {formatDistanceToNow(new Date(session.signer.document.expiresAt), { addSuffix: true })} and
+              can no longer be signed after that.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Guided signing */}
+        {!isCompleted && (
+          <div className="fixed bottom-0 inset-x-0 z-40 border-t bg-white p-3 shadow-lg sm:static sm:z-auto sm:rounded-lg sm:border sm:shadow-none">
+            <div className="max-w-6xl mx-auto flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium">
+                  {requiredTotal - requiredFields.length} of {requiredTotal} required fields done
+                </p>
+                <div className="mt-1 h-2 w-full rounded-full bg-gray-200">
+                  <div
+                    className="h-2 rounded-full bg-blue-600 transition-all duration-300"
+                    style={{ width: `${requiredTotal ? ((requiredTotal - requiredFields.length) / requiredTotal) * 100 : 0}%` }}
+                  />
+                </div>
+                {(adopted.SIGNATURE || adopted.INITIALS) && (
+                  <button
+                    type="button"
+                    className="mt-1 text-xs text-blue-600 hover:underline"
+                    onClick={() => setAdopting({ type: adopted.SIGNATURE ? 'SIGNATURE' : 'INITIALS' })}
+                  >
+                    Change adopted {adopted.SIGNATURE ? 'signature' : 'initials'}
+                  </button>
+                )}
+              </div>
+              <Button size="lg" onClick={handleGuideNext} disabled={signing} className="flex-shrink-0">
+                {activeFieldId ? (
+                  <>
+                    Next
+                    <ArrowRight className="h-4 w-4 ml-2" />
+                  </>
+                ) : (
+                  <>
+                    <Play className="h-4 w-4 mr-2" />
+                    Start
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* PDF Viewer */}
         <Card>
-          <CardContent className="p-6">
+          <CardContent className="p-2 sm:p-6">
             <PDFViewer
               fileUrl={session.signer.document.filePath}
-              signatureFields={session.allFields.map(field => ({
+              signatureFields={getVisibleFields().map(field => ({
                 ...field,
                 value: field.signature?.signatureData,
                 isSigned: !!field.signature,
@@ -398,27 +940,32 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
               isEditable={false}
               isSigningMode={true}
               currentSignerId={session.signer.id}
-              onFieldUpdate={handleFieldClick}
+              onFieldUpdate={handleFieldSign}
+              onFieldInput={openFieldInput}
+              onSignatureField={handleSignatureField}
+              activeFieldId={activeFieldId}
               showThumbnails={true}
               enableSearch={true}
               enableFullscreen={true}
               enableDownload={false}
               enablePrint={true}
-              className="min-h-[600px]"
+              className="min-h-[60vh] sm:min-h-[600px]"
             />
           </CardContent>
         </Card>
 
         {/* Instructions */}
         {!isCompleted && (
-          <Card>
+          <Card className="hidden sm:block">
             <CardHeader>
               <CardTitle className="text-lg">Signing Instructions</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-2 text-sm text-gray-600">
-                <p>• Click on signature fields (highlighted in blue) to sign</p>
+                <p>• Press Start, then Next, to go through the fields you need to complete</p>
+                <p>• Adopt your signature and initials once; they are reused for every signature and initials field</p>
                 <p>• You can draw, type, or upload your signature</p>
+                <p>• Some fields ask you to pick an option or upload a document such as a photo ID</p>
                 <p>• All required fields must be completed before submission</p>
                 <p>• You can review and modify your signatures before final submission</p>
               </div>
@@ -427,16 +974,156 @@ export function PublicSigningView({ signingToken }: PublicSigningViewProps) {
         )}
       </div>
 
-      {/* Signature Pad Modal */}
       <SignaturePad
-        isOpen={showSignaturePad}
-        onClose={() => {
-          setShowSignaturePad(false);
-          setCurrentField(null);
-        }}
-        onSave={handleSignatureSave}
-        fieldLabel={currentField?.label || 'Signature'}
+        isOpen={!!adopting}
+        onClose={() => setAdopting(null)}
+        onSave={handleAdopt}
+        fieldLabel={adopting?.type === 'INITIALS' ? 'Adopt your initials' : 'Adopt your signature'}
       />
+
+      <Dialog open={showDelegateDialog} onOpenChange={(open) => !open && !delegating && setShowDelegateDialog(false)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Ask Someone Else to Sign</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleDelegate} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              They will be emailed their own signing link and will sign in your place. Anything you have
+              already filled in is cleared, and your link stops working.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="delegate-name">Full name</Label>
+              <Input
+                id="delegate-name"
+                value={delegate.signerName}
+                onChange={(e) => setDelegate({ ...delegate, signerName: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegate-email">Email</Label>
+              <Input
+                id="delegate-email"
+                type="email"
+                value={delegate.signerEmail}
+                onChange={(e) => setDelegate({ ...delegate, signerEmail: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegate-reason">Reason (optional)</Label>
+              <Textarea
+                id="delegate-reason"
+                value={delegate.reason}
+                onChange={(e) => setDelegate({ ...delegate, reason: e.target.value })}
+                placeholder="e.g. My spouse is the account holder"
+                rows={2}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDelegateDialog(false)} disabled={delegating}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={delegating || !delegate.signerName.trim() || !delegate.signerEmail.trim()}
+              >
+                {delegating ? 'Sending...' : 'Send to Them'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!inputField} onOpenChange={(open) => !open && closeFieldInput()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {inputField?.label || (inputField && getFieldTypeDisplayName(inputField.type))}
+            </DialogTitle>
+          </DialogHeader>
+
+          {inputField?.type === 'DROPDOWN' && (
+            <Select value={inputValue} onValueChange={setInputValue}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an option" />
+              </SelectTrigger>
+              <SelectContent>
+                {(inputField.options || []).map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {inputField?.type === 'RADIO' && (
+            <div className="space-y-2">
+              {(inputField.options || []).map(option => (
+                <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`field-${inputField.id}`}
+                    value={option}
+                    checked={inputValue === option}
+                    onChange={() => setInputValue(option)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {inputField?.type === 'COMPANY' && (
+            <div className="space-y-2">
+              <Label htmlFor="field-company">Company name</Label>
+              <Input
+                id="field-company"
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                autoFocus
+              />
+            </div>
+          )}
+
+          {inputField?.type === 'ATTACHMENT' && (
+            <div className="space-y-2">
+              {currentAttachment && (
+                <p className="text-sm text-gray-600">
+                  Currently attached: <strong>{currentAttachment.fileName}</strong>. Uploading a new file replaces it.
+                </p>
+              )}
+              <Label htmlFor="field-attachment">File</Label>
+              <Input
+                id="field-attachment"
+                type="file"
+                accept="application/pdf,image/png,image/jpeg"
+                onChange={(e) => setAttachmentFile(e.target.files?.[0] || null)}
+              />
+              <p className="text-xs text-gray-500">
+                PDF, PNG or JPEG up to {formatFileSize(MAX_ATTACHMENT_SIZE)}.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeFieldInput} disabled={signing}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => inputField && handleFieldInputSubmit(inputField)}
+              disabled={signing || (inputField?.type === 'ATTACHMENT' ? !attachmentFile : !inputValue.trim())}
+            >
+              {inputField?.type === 'ATTACHMENT' ? (
+                <>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {signing ? 'Uploading...' : 'Upload'}
+                </>
+              ) : (
+                signing ? 'Saving...' : 'Save'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, FileText, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useDropzone } from 'react-dropzone';
+import { format } from 'date-fns';
+
+interface PdfSignatureVerification {
+  signed: boolean;
+  valid: boolean;
+  coversWholeDocument: boolean;
+  trustedSigner: boolean;
+  signerName?: string;
+  signedAt?: string;
+  certificateFingerprint?: string;
+  error?: string;
+}
+
+interface SignedPdfVerifierProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SignedPdfVerifier({ isOpen, onClose }: SignedPdfVerifierProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<PdfSignatureVerification | null>(null);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: {
+      'application/pdf': ['.pdf']
+    },
+    maxFiles: 1,
+    onDrop: (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        setFile(acceptedFiles[0]);
+        setResult(null);
+      }
+    }
+  });
+
+  const handleVerify = async () => {
+    if (!file) return;
+
+    setVerifying(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/esignature/verify', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to verify PDF');
+      }
+
+      const data = await response.json();
+      setResult(data.verification);
+    } catch (error) {
+      console.error('Error verifying PDF:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to verify PDF');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setResult(null);
+    onClose();
+  };
+
+  const isAuthentic = result?.valid && result.coversWholeDocument && result.trustedSigner;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Verify Signed PDF</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+              isDragActive ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+            }`}
+          >
+            <input {...getInputProps()} />
+            {file ? (
+              <div className="flex items-center justify-center gap-2">
+                <FileText className="h-5 w-5 text-gray-500" />
+                <span className="text-sm font-medium">{file.name}</span>
+              </div>
+            ) : (
+              <>
+                <Upload className="h-8 w-8 mx-auto text-gray-400 mb-2" />
+                <p className="text-sm text-gray-600">
+                  Drop a completed PDF here to check its digital signature
+                </p>
+              </>
+            )}
+          </div>
+
+          {result && (
+            <Alert className={isAuthentic ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+              {isAuthentic ? (
+                <ShieldCheck className="h-4 w-4 text-green-600" />
+              ) : result.signed ? (
+                <ShieldAlert className="h-4 w-4 text-red-600" />
+              ) : (
+                <ShieldQuestion className="h-4 w-4 text-red-600" />
+              )}
+              <AlertDescription className={isAuthentic ? 'text-green-800' : 'text-red-800'}>
+                <strong>
+                  {isAuthentic
+                    ? 'Signature valid. The document has not been changed since it was signed.'
+                    : result.error || (!result.trustedSigner
+                      ? 'Signature is valid but was not made with our certificate.'
+                      : 'Signature could not be verified.')}
+                </strong>
+                {result.signed && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {result.signerName && <p>Signed by: {result.signerName}</p>}
+                    {result.signedAt && (
+                      <p>Signed at: {format(new Date(result.signedAt), 'MMM d, yyyy h:mm a')}</p>
+                    )}
+                    {result.certificateFingerprint && (
+                      <p className="font-mono break-all">
+                        Certificate SHA-256: {result.certificateFingerprint}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+          <Button onClick={handleVerify} disabled={!file || verifying}>
+            {verifying ? 'Verifying...' : 'Verify'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,8 +18,16 @@ import {
   Mail,
   User,
   ArrowUpDown,
-  Search
+  Search,
+  Link2
 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 
 interface Contact {
@@ -36,23 +44,77 @@ interface Signer {
   signerRole?: string;
   signingOrder: number;
   contactId?: string;
-  status?: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+  groupMode?: 'ALL' | 'ANY';
+  authMethod?: SignerAuthMethod;
+  signerPhone?: string;
+  /** Only set when the sender types a new access code; never loaded back */
+  accessCode?: string;
+  status?: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
+}
+
+type SignerAuthMethod = 'NONE' | 'ACCESS_CODE' | 'EMAIL_OTP' | 'SMS_OTP';
+
+const AUTH_METHOD_LABELS: Record<SignerAuthMethod, string> = {
+  NONE: 'None (link only)',
+  ACCESS_CODE: 'Access code',
+  EMAIL_OTP: 'One-time code by email',
+  SMS_OTP: 'One-time code by SMS',
+};
+
+interface TemplateSetup {
+  id: string;
+  name: string;
+  version: number;
+  roles: Array<{
+    name: string;
+    signingOrder: number;
+  }>;
 }
 
 interface SignerSetupModalProps {
   isOpen: boolean;
   onClose: () => void;
-  documentId: string;
+  documentId?: string;
   existingSigners?: Signer[];
+  /** Whether the document currently requires signers to sign in order */
+  sequentialSigning?: boolean;
+  /** Whether signers may hand the document to someone else */
+  allowDelegation?: boolean;
   onSignersUpdate: () => void;
+  /** When set, signers are bound to the template's roles and a new document is created on save */
+  template?: TemplateSetup;
+  onDocumentCreated?: (documentId: string) => void;
+}
+
+const NO_SIGNERS: Signer[] = [];
+
+/**
+ * Renumber signing groups 1..n in list order. Signers that shared a group
+ * with the one above them stay together unless `joinsPrevious` says otherwise.
+ */
+function renumberSigningGroups(
+  signers: Signer[],
+  joinsPrevious?: (index: number) => boolean | undefined
+): Signer[] {
+  let order = 0;
+  return signers.map((signer, index) => {
+    const override = joinsPrevious?.(index);
+    const sameGroup = index > 0 && (override ?? signer.signingOrder === signers[index - 1].signingOrder);
+    if (!sameGroup) order += 1;
+    return { ...signer, signingOrder: order };
+  });
 }
 
 export function SignerSetupModal({
   isOpen,
   onClose,
   documentId,
-  existingSigners = [],
-  onSignersUpdate
+  existingSigners = NO_SIGNERS,
+  sequentialSigning = false,
+  allowDelegation = false,
+  onSignersUpdate,
+  template,
+  onDocumentCreated
 }: SignerSetupModalProps) {
   const [signers, setSigners] = useState<Signer[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
@@ -60,13 +122,37 @@ export function SignerSetupModal({
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [signingOrder, setSigningOrder] = useState(false);
+  const [delegation, setDelegation] = useState(false);
+  const [documentTitle, setDocumentTitle] = useState('');
+
+  const isTemplateMode = !!template;
 
   useEffect(() => {
     if (isOpen) {
-      setSigners(existingSigners.map(s => ({ ...s })));
+      if (template) {
+        setSigners(
+          [...template.roles]
+            .sort((a, b) => a.signingOrder - b.signingOrder)
+            .map(role => ({
+              signerName: '',
+              signerEmail: '',
+              signerRole: role.name,
+              signingOrder: role.signingOrder,
+            }))
+        );
+        setDocumentTitle(template.name);
+      } else {
+        setSigners(
+          [...existingSigners]
+            .sort((a, b) => a.signingOrder - b.signingOrder)
+            .map(s => ({ ...s }))
+        );
+        setSigningOrder(sequentialSigning);
+        setDelegation(allowDelegation);
+      }
       fetchContacts();
     }
-  }, [isOpen, existingSigners]);
+  }, [isOpen, existingSigners, sequentialSigning, allowDelegation, template?.id, template?.version]);
 
   const fetchContacts = async () => {
     try {
@@ -87,11 +173,27 @@ export function SignerSetupModal({
   );
 
   const addSigner = (contact?: Contact) => {
+    if (isTemplateMode) {
+      // Bind the contact to the first role that has no one assigned yet
+      const index = signers.findIndex(s => !s.signerEmail);
+      if (index === -1) {
+        toast.error('All roles already have a signer. Clear one to reassign it.');
+        return;
+      }
+      updateSigner(index, {
+        signerEmail: contact?.email || '',
+        signerName: contact ? `${contact.firstName} ${contact.lastName}` : '',
+        contactId: contact?.id,
+      });
+      setSearchTerm('');
+      return;
+    }
+
     const newSigner: Signer = {
       signerEmail: contact?.email || '',
       signerName: contact ? `${contact.firstName} ${contact.lastName}` : '',
       signerRole: 'Customer',
-      signingOrder: signers.length + 1,
+      signingOrder: (signers[signers.length - 1]?.signingOrder || 0) + 1,
       contactId: contact?.id,
     };
 
@@ -106,36 +208,42 @@ export function SignerSetupModal({
   };
 
   const removeSigner = (index: number) => {
-    const updated = signers.filter((_, i) => i !== index);
-    // Reorder remaining signers
-    updated.forEach((signer, i) => {
-      signer.signingOrder = i + 1;
-    });
-    setSigners(updated);
+    setSigners(renumberSigningGroups(signers.filter((_, i) => i !== index)));
+  };
+
+  // Swapping two signers also swaps their group slots, so groups keep their shape
+  const swapSigners = (a: number, b: number) => {
+    const updated = signers.map(s => ({ ...s }));
+    [updated[a], updated[b]] = [updated[b], updated[a]];
+    [updated[a].signingOrder, updated[b].signingOrder] = [updated[b].signingOrder, updated[a].signingOrder];
+    setSigners(renumberSigningGroups(updated));
   };
 
   const moveSignerUp = (index: number) => {
     if (index === 0) return;
-    const updated = [...signers];
-    [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
-    // Update signing order
-    updated.forEach((signer, i) => {
-      signer.signingOrder = i + 1;
-    });
-    setSigners(updated);
+    swapSigners(index - 1, index);
   };
 
   const moveSignerDown = (index: number) => {
     if (index === signers.length - 1) return;
-    const updated = [...signers];
-    [updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
-    // Update signing order
-    updated.forEach((signer, i) => {
-      signer.signingOrder = i + 1;
-    });
+    swapSigners(index, index + 1);
+  };
+
+  const setSignsWithPrevious = (index: number, together: boolean) => {
+    const previousMode = signers[index - 1]?.groupMode;
+    const updated = renumberSigningGroups(signers, i => (i === index ? together : undefined));
+    if (together) {
+      updated[index].groupMode = previousMode;
+    }
     setSigners(updated);
   };
 
+  const setGroupMode = (order: number, groupMode: 'ALL' | 'ANY') => {
+    setSigners(signers.map(s => (s.signingOrder === order ? { ...s, groupMode } : s)));
+  };
+
+  const getGroupSize = (order: number) => signers.filter(s => s.signingOrder === order).length;
+
   const validateSigners = () => {
     for (const signer of signers) {
       if (!signer.signerEmail || !signer.signerName) {
@@ -146,6 +254,10 @@ export function SignerSetupModal({
       if (!emailRegex.test(signer.signerEmail)) {
         return 'All email addresses must be valid';
       }
+
+      if (signer.authMethod === 'SMS_OTP' && !signer.signerPhone?.trim()) {
+        return `Add a mobile number for ${signer.signerName} to use SMS codes`;
+      }
     }
 
     // Check for duplicate emails
@@ -158,6 +270,52 @@ export function SignerSetupModal({
     return null;
   };
 
+  const handleCreateFromTemplate = async () => {
+    if (!template) return;
+
+    setSaving(true);
+
+    try {
+      const bindings = Object.fromEntries(
+        signers.map(signer => [
+          signer.signerRole,
+          {
+            signerName: signer.signerName,
+            signerEmail: signer.signerEmail,
+            contactId: signer.contactId,
+          },
+        ])
+      );
+
+      const response = await fetch(`/api/esignature/templates/${template.id}/documents`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: documentTitle,
+          bindings,
+          version: template.version,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create document');
+      }
+
+      const data = await response.json();
+      toast.success('Document created from template');
+      onDocumentCreated?.(data.document.id);
+      onClose();
+    } catch (error) {
+      console.error('Error creating document from template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create document');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSave = async () => {
     const validationError = validateSigners();
     if (validationError) {
@@ -165,6 +323,11 @@ export function SignerSetupModal({
       return;
     }
 
+    if (isTemplateMode) {
+      await handleCreateFromTemplate();
+      return;
+    }
+
     if (signers.length === 0) {
       toast.error('At least one signer is required');
       return;
@@ -175,23 +338,98 @@ export function SignerSetupModal({
     try {
       // Add new signers
       const newSigners = signers.filter(s => !s.id);
+      const savedIds = new Map<Signer, string>();
       
       for (const signer of newSigners) {
+        const { accessCode, ...signerData } = signer;
         const response = await fetch(`/api/esignature/documents/${documentId}/signers`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify(signer),
+          body: JSON.stringify(signerData),
         });
 
         if (!response.ok) {
           const error = await response.json();
           throw new Error(error.error || 'Failed to add signer');
         }
+
+        const data = await response.json();
+        savedIds.set(signer, data.signer.id);
+      }
+
+      // Save order and group changes for signers that already exist
+      const changedSigners = signers.filter(signer => {
+        const original = existingSigners.find(s => s.id === signer.id);
+        return original && (
+          original.signingOrder !== signer.signingOrder ||
+          (original.groupMode || 'ALL') !== (signer.groupMode || 'ALL')
+        );
+      });
+
+      for (const signer of changedSigners) {
+        const response = await fetch(`/api/esignature/documents/${documentId}/signers/${signer.id}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            signingOrder: signer.signingOrder,
+            groupMode: signer.groupMode || 'ALL',
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || 'Failed to update signer');
+        }
+      }
+
+      // Save identity verification settings
+      const generatedCodes: string[] = [];
+      for (const signer of signers) {
+        const signerId = signer.id || savedIds.get(signer);
+        const original = existingSigners.find(s => s.id === signer.id);
+        const authMethod = signer.authMethod || 'NONE';
+        const changed = original
+          ? (original.authMethod || 'NONE') !== authMethod ||
+            (original.signerPhone || '') !== (signer.signerPhone || '') ||
+            !!signer.accessCode
+          : authMethod !== 'NONE';
+
+        if (!signerId || !changed) continue;
+
+        const response = await fetch(`/api/esignature/documents/${documentId}/signers/${signerId}/authentication`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            authMethod,
+            accessCode: signer.accessCode || undefined,
+            signerPhone: signer.signerPhone || undefined,
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || `Failed to save identity check for ${signer.signerName}`);
+        }
+
+        const data = await response.json();
+        if (data.accessCode && !signer.accessCode) {
+          generatedCodes.push(`${signer.signerName}: ${data.accessCode}`);
+        }
       }
 
-      // Update document signing order setting
+      if (generatedCodes.length > 0) {
+        toast.info(`Share these access codes with your signers separately from the email: ${generatedCodes.join(', ')}`, {
+          duration: 20000,
+        });
+      }
+
+      // Update document signing order and delegation settings
       await fetch(`/api/esignature/documents/${documentId}`, {
         method: 'PATCH',
         headers: {
@@ -199,6 +437,7 @@ export function SignerSetupModal({
         },
         body: JSON.stringify({
           signingOrder,
+          allowDelegation: delegation,
         }),
       });
 
@@ -217,17 +456,36 @@ export function SignerSetupModal({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Setup Document Signers</DialogTitle>
+          <DialogTitle>
+            {isTemplateMode ? `New Document from "${template!.name}"` : 'Setup Document Signers'}
+          </DialogTitle>
         </DialogHeader>
 
         <div className="space-y-6">
+          {isTemplateMode && (
+            <div>
+              <Label htmlFor="template-document-title">Document Title</Label>
+              <Input
+                id="template-document-title"
+                value={documentTitle}
+                onChange={(e) => setDocumentTitle(e.target.value)}
+                placeholder="Enter document title"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Using template version {template!.version}. Assign a person to each role below.
+              </p>
+            </div>
+          )}
+
           {/* Signing Order Setting */}
+          {!isTemplateMode && (
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-medium">Sequential Signing</h3>
                 <p className="text-sm text-gray-600">
-                  Require signers to sign in order (one at a time)
+                  Require signers to sign in order. Signers linked to the one above
+                  them sign at the same time as a group.
                 </p>
               </div>
               <Switch
@@ -235,20 +493,37 @@ export function SignerSetupModal({
                 onCheckedChange={setSigningOrder}
               />
             </div>
+            <div className="flex items-center justify-between mt-4 pt-4 border-t">
+              <div>
+                <h3 className="font-medium">Allow Delegation</h3>
+                <p className="text-sm text-gray-600">
+                  Let signers hand the document to someone else to sign in their place.
+                </p>
+              </div>
+              <Switch
+                checked={delegation}
+                onCheckedChange={setDelegation}
+              />
+            </div>
           </Card>
+          )}
 
           {/* Current Signers */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="font-medium">Signers ({signers.length})</h3>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => addSigner()}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Manual Signer
-              </Button>
+              <h3 className="font-medium">
+                {isTemplateMode ? `Roles (${signers.length})` : `Signers (${signers.length})`}
+              </h3>
+              {!isTemplateMode && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addSigner()}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Manual Signer
+                </Button>
+              )}
             </div>
 
             {signers.length === 0 ? (
@@ -304,14 +579,94 @@ export function SignerSetupModal({
                             value={signer.signerRole || ''}
                             onChange={(e) => updateSigner(index, { signerRole: e.target.value })}
                             placeholder="e.g., Customer, Witness"
-                            disabled={!!signer.status && signer.status !== 'PENDING'}
+                            disabled={isTemplateMode || (!!signer.status && signer.status !== 'PENDING')}
                           />
                         </div>
+                        {!isTemplateMode && (
+                          <div>
+                            <Label htmlFor={`signer-auth-${index}`}>Identity Check</Label>
+                            <Select
+                              value={signer.authMethod || 'NONE'}
+                              onValueChange={(value) => updateSigner(index, { authMethod: value as SignerAuthMethod })}
+                              disabled={signer.status === 'SIGNED'}
+                            >
+                              <SelectTrigger id={`signer-auth-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(AUTH_METHOD_LABELS) as SignerAuthMethod[]).map(method => (
+                                  <SelectItem key={method} value={method}>
+                                    {AUTH_METHOD_LABELS[method]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        {signer.authMethod === 'ACCESS_CODE' && (
+                          <div>
+                            <Label htmlFor={`signer-code-${index}`}>Access Code</Label>
+                            <Input
+                              id={`signer-code-${index}`}
+                              value={signer.accessCode || ''}
+                              onChange={(e) => updateSigner(index, { accessCode: e.target.value })}
+                              placeholder={signer.id ? 'Leave blank to keep the current code' : 'Leave blank to generate one'}
+                            />
+                          </div>
+                        )}
+                        {signer.authMethod === 'SMS_OTP' && (
+                          <div>
+                            <Label htmlFor={`signer-phone-${index}`}>Mobile Number</Label>
+                            <Input
+                              id={`signer-phone-${index}`}
+                              type="tel"
+                              value={signer.signerPhone || ''}
+                              onChange={(e) => updateSigner(index, { signerPhone: e.target.value })}
+                              placeholder="+15551234567"
+                            />
+                          </div>
+                        )}
+                        {signingOrder && !isTemplateMode && (
+                          <div className="space-y-2">
+                            {index > 0 && (
+                              <div className="flex items-center gap-2 pt-6">
+                                <Switch
+                                  id={`signer-parallel-${index}`}
+                                  checked={signer.signingOrder === signers[index - 1].signingOrder}
+                                  onCheckedChange={(checked) => setSignsWithPrevious(index, checked)}
+                                  disabled={!!signer.status && signer.status !== 'PENDING'}
+                                />
+                                <Label htmlFor={`signer-parallel-${index}`} className="flex items-center gap-1 font-normal">
+                                  <Link2 className="h-3 w-3" />
+                                  Signs at the same time as the signer above
+                                </Label>
+                              </div>
+                            )}
+                            {getGroupSize(signer.signingOrder) > 1 &&
+                              (index === 0 || signer.signingOrder !== signers[index - 1].signingOrder) && (
+                              <div>
+                                <Label>Group {signer.signingOrder} completes when</Label>
+                                <Select
+                                  value={signer.groupMode || 'ALL'}
+                                  onValueChange={(value) => setGroupMode(signer.signingOrder, value as 'ALL' | 'ANY')}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="ALL">Everyone in the group signs</SelectItem>
+                                    <SelectItem value="ANY">Any one person in the group signs</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
 
                       {/* Actions */}
                       <div className="flex flex-col gap-1">
-                        {signingOrder && (
+                        {signingOrder && !isTemplateMode && (
                           <>
                             <Button
                               variant="ghost"
@@ -334,9 +689,12 @@ export function SignerSetupModal({
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => removeSigner(index)}
+                          onClick={() => isTemplateMode
+                            ? updateSigner(index, { signerName: '', signerEmail: '', contactId: undefined })
+                            : removeSigner(index)}
                           disabled={!!signer.status && signer.status !== 'PENDING'}
                           className="text-red-600 hover:text-red-700"
+                          title={isTemplateMode ? 'Clear signer' : 'Remove signer'}
                         >
                           <X className="h-4 w-4" />
                         </Button>
@@ -407,7 +765,9 @@ export function SignerSetupModal({
             Cancel
           </Button>
           <Button onClick={handleSave} disabled={saving || signers.length === 0}>
-            {saving ? 'Saving...' : 'Save Signers'}
+            {saving
+              ? 'Saving...'
+              : isTemplateMode ? 'Create Document' : 'Save Signers'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -8,11 +8,12 @@ import {
   Send, 
   Eye, 
   CheckCircle, 
-  XCircle 
+  XCircle,
+  UserPlus
 } from 'lucide-react';
 
 interface SignerStatusBadgeProps {
-  status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED';
+  status: 'PENDING' | 'SENT' | 'VIEWED' | 'SIGNED' | 'DECLINED' | 'REASSIGNED';
   className?: string;
 }
 
@@ -54,6 +55,13 @@ export function SignerStatusBadge({ status, className = '' }: SignerStatusBadgeP
           label: 'Declined',
           color: 'text-red-600'
         };
+      case 'REASSIGNED':
+        return {
+          variant: 'outline' as const,
+          icon: UserPlus,
+          label: 'Reassigned',
+          color: 'text-gray-500'
+        };
       default:
         return {
           variant: 'secondary' as const,
@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { FileText, Search, Users, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+export interface TemplateSummary {
+  id: string;
+  name: string;
+  description?: string;
+  updatedAt: Date;
+  createdBy?: {
+    name: string;
+    email: string;
+  };
+  currentVersion: {
+    id: string;
+    version: number;
+    fileName: string;
+    roles: Array<{
+      name: string;
+      signingOrder: number;
+    }>;
+    fields: Array<{ role: string; type: string; label?: string }>;
+  } | null;
+  _count?: {
+    documents: number;
+  };
+}
+
+interface TemplatePickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (template: TemplateSummary) => void;
+}
+
+export function TemplatePickerModal({ isOpen, onClose, onSelect }: TemplatePickerModalProps) {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchTemplates();
+    }
+  }, [isOpen]);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/esignature/templates');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch templates');
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast.error('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleArchive = async (template: TemplateSummary) => {
+    if (!confirm(`Archive the "${template.name}" template? Documents already created from it are not affected.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/esignature/templates/${template.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to archive template');
+      }
+
+      toast.success('Template archived');
+      await fetchTemplates();
+    } catch (error) {
+      console.error('Error archiving template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to archive template');
+    }
+  };
+
+  const filteredTemplates = templates.filter(template =>
+    searchTerm === '' ||
+    template.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Document from Template</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search templates..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : filteredTemplates.length === 0 ? (
+            <div className="text-center py-8">
+              <FileText className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+              <p className="text-sm text-gray-600">
+                {templates.length === 0
+                  ? 'No templates yet. Use "Save as Template" while setting up a document.'
+                  : `No templates match "${searchTerm}"`}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filteredTemplates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center gap-3 p-3 border rounded-lg hover:bg-gray-50"
+                >
+                  <FileText className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                  <button
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => onSelect(template)}
+                    disabled={!template.currentVersion}
+                  >
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{template.name}</p>
+                      {template.currentVersion && (
+                        <Badge variant="outline">v{template.currentVersion.version}</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-gray-600">
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {template.currentVersion?.roles.map(role => role.name).join(', ')}
+                      </span>
+                      <span>{template.currentVersion?.fields.length || 0} fields</span>
+                      <span>Updated {formatDistanceToNow(new Date(template.updatedAt), { addSuffix: true })}</span>
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleArchive(template)}
+                    className="text-red-600 hover:text-red-700"
+                    title="Archive template"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
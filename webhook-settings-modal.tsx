@@ -0,0 +1,521 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Webhook, Plus, Copy, KeyRound, Trash2, History, RotateCw, ArrowLeft } from 'lucide-react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { toast } from 'sonner';
+
+type DeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  isActive: boolean;
+  createdAt: Date;
+  createdBy: { name: string | null; email: string } | null;
+  lastDelivery: { status: DeliveryStatus; createdAt: Date; lastResponseStatus: number | null } | null;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  documentId: string;
+  status: DeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  lastResponseStatus: number | null;
+  lastResponseBody: string | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  redeliveryOfId: string | null;
+  createdAt: Date;
+  payload: any;
+}
+
+interface WebhookSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatEvent = (event: string) =>
+  event.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+function DeliveryStatusBadge({ status }: { status: DeliveryStatus }) {
+  switch (status) {
+    case 'DELIVERED':
+      return <Badge className="bg-green-100 text-green-800">Delivered</Badge>;
+    case 'FAILED':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="secondary">Pending</Badge>;
+  }
+}
+
+/**
+ * Admin settings for outbound webhooks: endpoints, their signing secrets
+ * and each endpoint's delivery log with manual redelivery
+ */
+export function WebhookSettingsModal({ isOpen, onClose }: WebhookSettingsModalProps) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [adding, setAdding] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // A secret is only shown right after it is created or rotated
+  const [revealedSecret, setRevealedSecret] = useState<{ url: string; secret: string } | null>(null);
+
+  const [viewing, setViewing] = useState<WebhookEndpoint | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchEndpoints();
+    } else {
+      setAdding(false);
+      setViewing(null);
+      setRevealedSecret(null);
+    }
+  }, [isOpen]);
+
+  const fetchEndpoints = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/esignature/webhooks');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch webhook endpoints');
+      }
+
+      const data = await response.json();
+      setEndpoints(data.endpoints);
+      setAvailableEvents(data.events);
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (endpointId: string) => {
+    try {
+      setLoadingDeliveries(true);
+      const response = await fetch(`/api/esignature/webhooks/${endpointId}/deliveries`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch deliveries');
+      }
+
+      const data = await response.json();
+      setDeliveries(data.deliveries);
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      toast.error('Failed to load the delivery log');
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const updateEndpoint = async (endpointId: string, changes: Record<string, any>) => {
+    const response = await fetch(`/api/esignature/webhooks/${endpointId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update webhook endpoint');
+    }
+
+    return (await response.json()).endpoint;
+  };
+
+  const startAdding = () => {
+    setUrl('');
+    setDescription('');
+    setEvents(availableEvents);
+    setRevealedSecret(null);
+    setAdding(true);
+  };
+
+  const toggleEvent = (event: string) => {
+    setEvents(events.includes(event) ? events.filter(current => current !== event) : [...events, event]);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/esignature/webhooks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url, description, events }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create webhook endpoint');
+      }
+
+      const { endpoint } = await response.json();
+      setRevealedSecret({ url: endpoint.url, secret: endpoint.secret });
+      setAdding(false);
+      toast.success('Webhook endpoint added');
+      await fetchEndpoints();
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add webhook endpoint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    try {
+      await updateEndpoint(endpoint.id, { isActive });
+      setEndpoints(endpoints.map(current => current.id === endpoint.id ? { ...current, isActive } : current));
+      toast.success(isActive ? 'Webhook endpoint enabled' : 'Webhook endpoint paused');
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update webhook endpoint');
+    }
+  };
+
+  const handleRotateSecret = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Rotate the signing secret for ${endpoint.url}? Requests will be signed with the new secret immediately.`)) {
+      return;
+    }
+
+    try {
+      const updated = await updateEndpoint(endpoint.id, { rotateSecret: true });
+      setRevealedSecret({ url: updated.url, secret: updated.secret });
+      toast.success('Signing secret rotated');
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook endpoint ${endpoint.url} and its delivery log?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/esignature/webhooks/${endpoint.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete webhook endpoint');
+      }
+
+      setEndpoints(endpoints.filter(current => current.id !== endpoint.id));
+      toast.success('Webhook endpoint deleted');
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete webhook endpoint');
+    }
+  };
+
+  const openDeliveries = (endpoint: WebhookEndpoint) => {
+    setViewing(endpoint);
+    setExpandedDeliveryId(null);
+    setDeliveries([]);
+    fetchDeliveries(endpoint.id);
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (!viewing) return;
+
+    setRedeliveringId(delivery.id);
+    try {
+      const response = await fetch(
+        `/api/esignature/webhooks/${viewing.id}/deliveries/${delivery.id}/redeliver`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to redeliver webhook');
+      }
+
+      const { delivery: result } = await response.json();
+      if (result.status === 'DELIVERED') {
+        toast.success('Webhook redelivered');
+      } else {
+        toast.error(`Redelivery failed: ${result.lastError || 'no successful response'}. It will be retried.`);
+      }
+      await fetchDeliveries(viewing.id);
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to redeliver webhook');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret.secret);
+    toast.success('Secret copied');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !saving && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {viewing ? <History className="h-5 w-5" /> : <Webhook className="h-5 w-5" />}
+            {viewing ? 'Delivery Log' : adding ? 'Add Webhook Endpoint' : 'Webhooks'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {revealedSecret && !viewing && !adding && (
+          <div className="p-3 border border-yellow-200 bg-yellow-50 rounded-lg space-y-2">
+            <p className="text-sm text-yellow-900">
+              Signing secret for <span className="font-medium break-all">{revealedSecret.url}</span>. Copy it now; it will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-white border rounded px-2 py-1 break-all">{revealedSecret.secret}</code>
+              <Button variant="outline" size="sm" onClick={copySecret}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-yellow-800">
+              Each request carries an X-ESignature-Signature header of the form t=&lt;timestamp&gt;,v1=&lt;signature&gt;,
+              where the signature is the hex HMAC-SHA256 of &quot;&lt;timestamp&gt;.&lt;request body&gt;&quot; with this secret.
+            </p>
+          </div>
+        )}
+
+        {viewing ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <Button variant="outline" size="sm" onClick={() => setViewing(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to endpoints
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => fetchDeliveries(viewing.id)} disabled={loadingDeliveries}>
+                <RotateCw className="h-4 w-4 mr-1" />
+                Refresh
+              </Button>
+            </div>
+            <p className="text-sm text-gray-600 break-all">{viewing.url}</p>
+
+            {loadingDeliveries ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : deliveries.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">Nothing has been sent to this endpoint yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {deliveries.map(delivery => (
+                  <div key={delivery.id} className="border rounded-lg">
+                    <div className="flex flex-wrap items-center gap-3 p-3">
+                      <button
+                        type="button"
+                        className="flex-1 min-w-0 text-left"
+                        onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{formatEvent(delivery.event)}</span>
+                          <DeliveryStatusBadge status={delivery.status} />
+                          {delivery.redeliveryOfId && <Badge variant="outline">Redelivery</Badge>}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {format(new Date(delivery.createdAt), 'MMM d, yyyy h:mm a')}
+                          {' · '}
+                          {delivery.attemptCount} attempt{delivery.attemptCount === 1 ? '' : 's'}
+                          {delivery.lastResponseStatus && ` · HTTP ${delivery.lastResponseStatus}`}
+                          {delivery.status === 'PENDING' && delivery.nextAttemptAt &&
+                            ` · next attempt ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                        </p>
+                        {delivery.lastError && delivery.status !== 'DELIVERED' && (
+                          <p className="text-xs text-red-600 mt-1">{delivery.lastError}</p>
+                        )}
+                      </button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery)}
+                        disabled={redeliveringId === delivery.id}
+                      >
+                        <RotateCw className="h-4 w-4 mr-1" />
+                        {redeliveringId === delivery.id
+                          ? 'Sending...'
+                          : delivery.status === 'PENDING' ? 'Retry Now' : 'Redeliver'}
+                      </Button>
+                    </div>
+
+                    {expandedDeliveryId === delivery.id && (
+                      <div className="border-t p-3 space-y-3 bg-gray-50">
+                        <div>
+                          <Label className="text-xs text-gray-600">Payload</Label>
+                          <pre className="text-xs bg-white border rounded p-2 overflow-x-auto">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                        {delivery.lastResponseBody && (
+                          <div>
+                            <Label className="text-xs text-gray-600">Last response</Label>
+                            <pre className="text-xs bg-white border rounded p-2 overflow-x-auto whitespace-pre-wrap">
+                              {delivery.lastResponseBody}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : adding ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/webhooks/esignature"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Install scheduling"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {availableEvents.map(event => (
+                  <div key={event} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`webhook-event-${event}`}
+                      checked={events.includes(event)}
+                      onCheckedChange={() => toggleEvent(event)}
+                    />
+                    <Label htmlFor={`webhook-event-${event}`} className="text-sm font-normal">
+                      {formatEvent(event)}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAdding(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={saving || !url.trim() || events.length === 0}>
+                {saving ? 'Adding...' : 'Add Endpoint'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-gray-600">
+                Endpoints receive signed JSON when documents are sent, viewed, signed, declined, voided or reminded.
+              </p>
+              <Button size="sm" onClick={startAdding}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Endpoint
+              </Button>
+            </div>
+
+            {endpoints.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No webhook endpoints yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {endpoints.map(endpoint => (
+                  <div key={endpoint.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-start gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium break-all">{endpoint.url}</p>
+                        {endpoint.description && (
+                          <p className="text-xs text-gray-600">{endpoint.description}</p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          {endpoint.lastDelivery ? (
+                            <>
+                              Last delivery {formatDistanceToNow(new Date(endpoint.lastDelivery.createdAt), { addSuffix: true })}
+                              {': '}
+                              {endpoint.lastDelivery.status.toLowerCase()}
+                              {endpoint.lastDelivery.lastResponseStatus && ` (HTTP ${endpoint.lastDelivery.lastResponseStatus})`}
+                            </>
+                          ) : 'No deliveries yet'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor={`webhook-active-${endpoint.id}`} className="text-xs text-gray-600">
+                          {endpoint.isActive ? 'Active' : 'Paused'}
+                        </Label>
+                        <Switch
+                          id={`webhook-active-${endpoint.id}`}
+                          checked={endpoint.isActive}
+                          onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map(event => (
+                        <Badge key={event} variant="outline" className="text-xs">{formatEvent(event)}</Badge>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openDeliveries(endpoint)}>
+                        <History className="h-4 w-4 mr-1" />
+                        Deliveries
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleRotateSecret(endpoint)}>
+                        <KeyRound className="h-4 w-4 mr-1" />
+                        Rotate Secret
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(endpoint)}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}